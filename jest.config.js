@@ -15,6 +15,6 @@ export default {
   },{
     displayName: "e2e",
     ...createDefaultPreset({ tsconfig: "spec/e2e/tsconfig.json" }),
-    testMatch: ["<rootDir>/spec/e2e/**/*.ts"]
+    testMatch: ["<rootDir>/spec/e2e/**/*Spec.ts"]
   }]
 };
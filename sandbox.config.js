@@ -12,11 +12,19 @@ module.exports = {
           parameters: {
             mode: "ranking",
             totalTimeLimit: 120,
+            // 以下は省略可能なゲーム設定 (catalog, cpuCount, apps, priceVolatility, pricingModel, categoryPricingModels も指定可能。src/data/gameConfig.ts を参照)
+            difficulty: "normal",
           },
         },
       ],
     ],
   },
+  // QA 用: "recordReplay" の引数で起動すると g.game.vars.exportReplay() でリプレイログを取り出せる
+  arguments: {
+    recordReplay: {
+      recordReplay: true,
+    },
+  },
   displayOptions: {
     fitsToScreen: true,
     backgroundColor: "black",
@@ -0,0 +1,77 @@
+import { ITEM_CATALOG_CONFIG } from "../../src/config/itemCatalogConfig";
+import { calculateSetInfo, createOwnedItem, getDefaultCatalogItems, getItemCategoryInfo } from "../../src/data/itemData";
+import { COLLECTION_TASK_METADATA, getCollectionTaskCategoryId } from "../../src/data/taskConstants";
+
+describe("ITEM_CATALOG_CONFIG", () => {
+	describe("Configuration Structure", () => {
+		it("should define at least one category with items", () => {
+			expect(ITEM_CATALOG_CONFIG.CATEGORIES.length).toBeGreaterThan(0);
+			ITEM_CATALOG_CONFIG.CATEGORIES.forEach((category) => {
+				expect(category.items.length).toBeGreaterThan(0);
+			});
+		});
+
+		it("should have unique category and item IDs", () => {
+			const categoryIds = ITEM_CATALOG_CONFIG.CATEGORIES.map(category => category.id);
+			const itemIds = getDefaultCatalogItems().map(item => item.id);
+
+			expect(new Set(categoryIds).size).toBe(categoryIds.length);
+			expect(new Set(itemIds).size).toBe(itemIds.length);
+		});
+
+		it("should have positive prices for every category", () => {
+			ITEM_CATALOG_CONFIG.CATEGORIES.forEach((category) => {
+				expect(category.purchasePrice).toBeGreaterThan(0);
+				expect(category.individualPrice).toBeGreaterThan(0);
+				expect(category.setPrice).toBeGreaterThan(0);
+				expect(category.collectionReward).toBeGreaterThan(0);
+			});
+		});
+	});
+
+	describe("Catalog Derivation", () => {
+		it("should create catalog items with series numbers in config order", () => {
+			const items = getDefaultCatalogItems();
+			const expectedCount = ITEM_CATALOG_CONFIG.CATEGORIES.reduce((sum, category) => sum + category.items.length, 0);
+
+			expect(items.length).toBe(expectedCount);
+			ITEM_CATALOG_CONFIG.CATEGORIES.forEach((category) => {
+				const categoryItems = items.filter(item => item.category === category.id);
+				expect(categoryItems.map(item => item.seriesNumber)).toEqual(category.items.map((_, index) => index + 1));
+				expect(categoryItems.every(item => item.setPrice === category.setPrice)).toBe(true);
+			});
+		});
+
+		it("should provide category info for every category", () => {
+			ITEM_CATALOG_CONFIG.CATEGORIES.forEach((category) => {
+				const info = getItemCategoryInfo(category.id);
+				expect(info?.name).toBe(category.name);
+				expect(info?.emoji).toBe(category.emoji);
+			});
+			expect(getItemCategoryInfo("unknown")).toBeUndefined();
+		});
+
+		it("should create one collection task per category", () => {
+			expect(Object.keys(COLLECTION_TASK_METADATA).length).toBe(ITEM_CATALOG_CONFIG.CATEGORIES.length);
+			ITEM_CATALOG_CONFIG.CATEGORIES.forEach((category) => {
+				const task = COLLECTION_TASK_METADATA[`${category.id}_collection`];
+				expect(task.rewardPoints).toBe(category.collectionReward);
+				expect(getCollectionTaskCategoryId(task.id)).toBe(category.id);
+			});
+		});
+
+		it("should calculate set info for every category", () => {
+			const items = getDefaultCatalogItems();
+			const firstCategory = ITEM_CATALOG_CONFIG.CATEGORIES[0];
+			const ownedItems = items
+				.filter(item => item.category === firstCategory.id)
+				.map(item => createOwnedItem(item));
+
+			const setInfos = calculateSetInfo(ownedItems, items);
+
+			expect(setInfos.map(info => info.category)).toEqual(ITEM_CATALOG_CONFIG.CATEGORIES.map(category => category.id));
+			expect(setInfos[0].isComplete).toBe(true);
+			expect(setInfos[0].setBonus).toBe(firstCategory.setPrice);
+		});
+	});
+});
@@ -0,0 +1,17 @@
+import { SOCIAL_GAME_CONFIG } from "../../src/config/socialGameConfig";
+import { getGachaExpectedReward } from "../../src/data/socialGameData";
+
+describe("SOCIAL_GAME_CONFIG", () => {
+	describe("Gacha balance", () => {
+		it("should return less than the cost of a draw on average", () => {
+			expect(getGachaExpectedReward(SOCIAL_GAME_CONFIG.GACHA.REWARDS)).toBeLessThan(SOCIAL_GAME_CONFIG.GACHA.COST);
+		});
+
+		it("should award points for every reward", () => {
+			SOCIAL_GAME_CONFIG.GACHA.REWARDS.forEach((reward) => {
+				expect(reward.points).toBeGreaterThan(0);
+				expect(reward.weight).toBeGreaterThan(0);
+			});
+		});
+	});
+});
@@ -0,0 +1,330 @@
+import { AFFILIATE_CONFIG } from "../../src/config/affiliateConfig";
+import { AUTHORITY_CONFIG } from "../../src/config/authorityConfig";
+import { POINT_BACK_CONFIG } from "../../src/config/pointBackConfig";
+import { SNS_CONFIG } from "../../src/config/snsConfig";
+import { SOCIAL_GAME_CONFIG } from "../../src/config/socialGameConfig";
+import { TASK_CONFIG } from "../../src/config/taskConfig";
+import {
+	applyClaimedTransaction,
+	ClaimContext,
+	calculateAffiliateReward,
+	createPlayerLedger,
+	getMinAcceptablePrice,
+	getTaskReward,
+	grantAffiliateCredit,
+	grantFleaMarketCredit,
+	grantSnsCredit,
+	matchFleaMarketDelivery,
+	matchLedgerPayment,
+	recordFleaMarketDelivery,
+	recordLedgerTaskCompletion,
+} from "../../src/data/authorityData";
+import { FeedPostData } from "../../src/data/feedPostData";
+import { createItemData } from "../../src/data/itemData";
+import { getCollectionTaskId, getMissionTaskId, MISSION_TASK_METADATA } from "../../src/data/taskConstants";
+import { createMissionTask, getDefaultMissions, getRoundMission } from "../../src/data/taskData";
+import { POINT_CONSTANTS } from "../../src/manager/pointManager";
+
+describe("AuthorityData", () => {
+	const testItem = createItemData({
+		id: "test_item",
+		name: "テストアイテム",
+		emoji: "📚",
+		category: "test",
+		seriesNumber: 1,
+		purchasePrice: 100,
+		individualPrice: 50,
+		setPrice: 1000,
+	});
+
+	describe("getTaskReward function", () => {
+		it("should return rewards of regular and collection tasks", () => {
+			expect(getTaskReward("profile")).toBe(POINT_CONSTANTS.TASK_PROFILE_REWARD);
+			expect(getTaskReward(getCollectionTaskId("novel"))).toBe(1000);
+		});
+
+		it("should return rewards of advanced tasks", () => {
+			expect(getTaskReward("share")).toBe(POINT_CONSTANTS.TASK_SHARE_REWARD);
+			expect(getTaskReward("fleaMarketListing")).toBe(POINT_CONSTANTS.TASK_FLEA_MARKET_LISTING_REWARD);
+		});
+
+		it("should return rewards of every appearance of a mission", () => {
+			const reward = MISSION_TASK_METADATA.quickShare.rewardPoints;
+
+			expect(getTaskReward(getMissionTaskId("quickShare", 3))).toBe(reward);
+			expect(getTaskReward(getMissionTaskId("quickShare", 6))).toBe(reward);
+		});
+
+		it("should return undefined for unknown tasks", () => {
+			expect(getTaskReward("unknown_task")).toBeUndefined();
+			expect(getTaskReward(getMissionTaskId("unknown", 1))).toBeUndefined();
+		});
+	});
+
+	describe("calculateAffiliateReward function", () => {
+		it("should round the reward down", () => {
+			expect(calculateAffiliateReward(99)).toBe(Math.floor(99 * AFFILIATE_CONFIG.REWARD_RATE));
+		});
+	});
+
+	describe("getMinAcceptablePrice function", () => {
+		it("should use the lowest recent or shared price", () => {
+			expect(getMinAcceptablePrice(testItem, [90, 120], [80], 0)).toBe(80);
+			expect(getMinAcceptablePrice(testItem, [90, 120], [], 0)).toBe(90);
+		});
+
+		it("should allow campaign discounts", () => {
+			expect(getMinAcceptablePrice(testItem, [90, 120], [], 0.5)).toBe(45);
+		});
+
+		it("should fall back to the lowest market price before any price update", () => {
+			expect(getMinAcceptablePrice(testItem, [], [], 0)).toBe(Math.floor(100 * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO));
+		});
+	});
+
+	const context: ClaimContext = { maxSettlementValue: 0, elapsedSeconds: 0, coupons: [] };
+
+	describe("applyClaimedTransaction function", () => {
+		const settlementContext = { ...context, maxSettlementValue: 500 };
+
+		it("should accept a task reward once per completed task", () => {
+			let ledger = recordLedgerTaskCompletion(createPlayerLedger("player1"), "profile", 0);
+			const reward = POINT_CONSTANTS.TASK_PROFILE_REWARD;
+
+			const first = applyClaimedTransaction(ledger, { seq: 1, amount: reward, source: "tasks" }, context);
+			expect(first.accepted).toBe(true);
+			expect(first.ledger.verifiedScore).toBe(reward);
+			ledger = first.ledger;
+
+			const second = applyClaimedTransaction(ledger, { seq: 2, amount: reward, source: "tasks" }, context);
+			expect(second.accepted).toBe(false);
+			expect(second.ledger.verifiedScore).toBe(reward);
+			expect(second.ledger.lastSeq).toBe(2);
+		});
+
+		it("should reject task rewards without a completed task", () => {
+			const ledger = createPlayerLedger("player1");
+
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: 100, source: "task" }, context).accepted).toBe(false);
+			expect(recordLedgerTaskCompletion(ledger, "unknown_task", 0)).toBe(ledger);
+		});
+
+		it("should record missions only while they are offered", () => {
+			const mission = getRoundMission(getDefaultMissions(), 1);
+			const task = createMissionTask(mission, 1);
+			const taskId = getMissionTaskId(mission.id, 1);
+			const ledger = recordLedgerTaskCompletion(createPlayerLedger("player1"), mission.requiredTaskId, 0);
+			const offeredAt = TASK_CONFIG.MISSION_FIRST_SECONDS;
+
+			expect(recordLedgerTaskCompletion(ledger, taskId, offeredAt).completedTaskIds).toContain(taskId);
+			expect(recordLedgerTaskCompletion(ledger, taskId, offeredAt - 1)).toBe(ledger);
+			expect(recordLedgerTaskCompletion(ledger, taskId, task.expiresAt! + AUTHORITY_CONFIG.CLOCK_TOLERANCE_SECONDS + 1)).toBe(ledger);
+			expect(recordLedgerTaskCompletion(createPlayerLedger("player1"), taskId, offeredAt).completedTaskIds).toEqual([]);
+		});
+
+		it("should reject mission IDs that were never offered", () => {
+			const mission = getRoundMission(getDefaultMissions(), 1);
+			const otherMission = getRoundMission(getDefaultMissions(), 2);
+			const ledger = recordLedgerTaskCompletion(createPlayerLedger("player1"), mission.requiredTaskId, 0);
+			const offeredAt = TASK_CONFIG.MISSION_FIRST_SECONDS;
+
+			expect(recordLedgerTaskCompletion(ledger, getMissionTaskId(otherMission.id, 1), offeredAt)).toBe(ledger);
+			expect(recordLedgerTaskCompletion(ledger, getMissionTaskId(mission.id, 99), offeredAt)).toBe(ledger);
+			expect(recordLedgerTaskCompletion(ledger, `${mission.id}_mission_1a`, offeredAt)).toBe(ledger);
+		});
+
+		it("should accept the agreement reward once", () => {
+			const join = { seq: 1, amount: POINT_CONSTANTS.TASK_AGREEMENT_REWARD, source: "join" };
+			const first = applyClaimedTransaction(createPlayerLedger("player1"), join, context);
+
+			expect(first.accepted).toBe(true);
+			expect(applyClaimedTransaction(first.ledger, { ...join, seq: 2 }, context).accepted).toBe(false);
+		});
+
+		it("should accept affiliate rewards up to the granted credit", () => {
+			const ledger = grantAffiliateCredit(createPlayerLedger("player1"), 150);
+
+			const accepted = applyClaimedTransaction(ledger, { seq: 1, amount: 150, source: "affiliate" }, context);
+			expect(accepted.accepted).toBe(true);
+			expect(accepted.ledger.affiliateCredit).toBe(0);
+
+			expect(applyClaimedTransaction(accepted.ledger, { seq: 2, amount: 150, source: "affiliate" }, context).accepted).toBe(false);
+		});
+
+		it("should accept settlement up to the value of owned items once", () => {
+			const ledger = createPlayerLedger("player1");
+
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: 600, source: "settlement" }, settlementContext).accepted).toBe(false);
+
+			const settled = applyClaimedTransaction(ledger, { seq: 1, amount: 500, source: "settlement" }, settlementContext);
+			expect(settled.accepted).toBe(true);
+			expect(applyClaimedTransaction(settled.ledger, { seq: 2, amount: 500, source: "settlement" }, settlementContext).accepted).toBe(false);
+		});
+
+		it("should reject sources without rules", () => {
+			const verdict = applyClaimedTransaction(createPlayerLedger("player1"), { seq: 1, amount: 100, source: "other" }, context);
+
+			expect(verdict.accepted).toBe(false);
+			expect(verdict.ledger.verifiedScore).toBe(POINT_CONSTANTS.INITIAL_POINTS);
+			expect(verdict.ledger.lastSeq).toBe(1);
+		});
+
+		it("should reject gaps and replays of sequence numbers", () => {
+			const ad = { seq: 1, amount: POINT_CONSTANTS.AD_BANNER_CLICK_REWARD, source: "ads" };
+			const first = applyClaimedTransaction(createPlayerLedger("player1"), ad, context);
+			expect(first.accepted).toBe(true);
+
+			const replayed = applyClaimedTransaction(first.ledger, ad, context);
+			expect(replayed.accepted).toBe(false);
+			expect(replayed.ledger).toBe(first.ledger);
+
+			const skipped = applyClaimedTransaction(first.ledger, { ...ad, seq: 3 }, context);
+			expect(skipped.accepted).toBe(false);
+			expect(skipped.ledger.lastSeq).toBe(1);
+
+			expect(applyClaimedTransaction(first.ledger, { ...ad, seq: 2 }, context).accepted).toBe(true);
+		});
+
+		it("should accept the fixed ad banner reward only", () => {
+			const ledger = createPlayerLedger("player1");
+
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: POINT_CONSTANTS.AD_BANNER_CLICK_REWARD, source: "ads" }, context)
+				.accepted).toBe(true);
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: 1000, source: "ads" }, context).accepted).toBe(false);
+		});
+
+		it("should accept gacha rewards after paid draws only", () => {
+			const cost = { seq: 1, amount: -SOCIAL_GAME_CONFIG.GACHA.COST, source: "socialgame" };
+			const reward = SOCIAL_GAME_CONFIG.GACHA.REWARDS[0].points;
+
+			expect(applyClaimedTransaction(createPlayerLedger("player1"), { ...cost, amount: reward }, context).accepted).toBe(false);
+
+			const paid = applyClaimedTransaction(createPlayerLedger("player1"), cost, context);
+			const rewarded = applyClaimedTransaction(paid.ledger, { seq: 2, amount: reward, source: "socialgame" }, context);
+			expect(rewarded.accepted).toBe(true);
+			expect(applyClaimedTransaction(rewarded.ledger, { seq: 3, amount: reward, source: "socialgame" }, context).accepted)
+				.toBe(false);
+		});
+
+		it("should accept login bonuses once per interval", () => {
+			const bonus = { seq: 1, amount: SOCIAL_GAME_CONFIG.LOGIN_BONUS.REWARD, source: "socialgame" };
+			const interval = SOCIAL_GAME_CONFIG.LOGIN_BONUS.INTERVAL_SECONDS;
+
+			const first = applyClaimedTransaction(createPlayerLedger("player1"), bonus, { ...context, elapsedSeconds: 5 });
+			expect(first.accepted).toBe(true);
+			expect(applyClaimedTransaction(first.ledger, { ...bonus, seq: 2 }, { ...context, elapsedSeconds: 10 }).accepted)
+				.toBe(false);
+			expect(applyClaimedTransaction(first.ledger, { ...bonus, seq: 2 }, { ...context, elapsedSeconds: 5 + interval }).accepted)
+				.toBe(true);
+		});
+
+		it("should accept flea market sales and refunds owed by seen trades", () => {
+			const ledger = grantFleaMarketCredit(createPlayerLedger("player1"), 120);
+
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: -80, source: "fleamarket" }, context).accepted).toBe(true);
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: 150, source: "fleamarket" }, context).accepted).toBe(false);
+
+			const sold = applyClaimedTransaction(ledger, { seq: 1, amount: 120, source: "fleamarket" }, context);
+			expect(sold.accepted).toBe(true);
+			expect(applyClaimedTransaction(sold.ledger, { seq: 2, amount: 120, source: "fleamarket" }, context).accepted).toBe(false);
+		});
+
+		it("should refund flea market purchases only until their item is delivered", () => {
+			const ledger = recordFleaMarketDelivery(createPlayerLedger("player1"), { itemId: "test_item", price: 120 });
+			const refund = { seq: 1, amount: 120, source: "fleamarket" };
+
+			expect(applyClaimedTransaction(ledger, refund, context).accepted).toBe(true);
+
+			const delivered = matchFleaMarketDelivery(ledger, "test_item")!;
+			expect(delivered.fleaMarketDeliveries).toEqual([]);
+			expect(applyClaimedTransaction(delivered, refund, context).accepted).toBe(false);
+			expect(matchFleaMarketDelivery(ledger, "other_item")).toBeUndefined();
+		});
+
+		it("should accept like and follow rewards owed by seen likes and follows", () => {
+			const ledger = grantSnsCredit(createPlayerLedger("player1"), SNS_CONFIG.LIKE_REWARD);
+
+			expect(applyClaimedTransaction(ledger, { seq: 1, amount: SNS_CONFIG.FOLLOW_REWARD, source: "sns" }, context).accepted)
+				.toBe(false);
+
+			const liked = applyClaimedTransaction(ledger, { seq: 1, amount: SNS_CONFIG.LIKE_REWARD, source: "sns" }, context);
+			expect(liked.accepted).toBe(true);
+			expect(applyClaimedTransaction(liked.ledger, { seq: 2, amount: SNS_CONFIG.LIKE_REWARD, source: "sns" }, context).accepted)
+				.toBe(false);
+		});
+
+		it("should accept each offered coupon once for its points", () => {
+			const coupon: FeedPostData = {
+				id: "feed_1",
+				kind: "coupon",
+				authorName: "クーポン",
+				text: "クーポン",
+				publishAt: 10,
+				couponPoints: 50,
+				expiresAt: 25,
+			};
+			const couponContext = { ...context, elapsedSeconds: 15, coupons: [coupon] };
+			const claim = { seq: 1, amount: 50, source: "coupon" };
+			const ledger = createPlayerLedger("player1");
+
+			expect(applyClaimedTransaction(ledger, { ...claim, amount: 100 }, couponContext).accepted).toBe(false);
+			expect(applyClaimedTransaction(ledger, claim, { ...couponContext, elapsedSeconds: 5 }).accepted).toBe(false);
+			expect(applyClaimedTransaction(ledger, claim, {
+				...couponContext,
+				elapsedSeconds: 25 + AUTHORITY_CONFIG.CLOCK_TOLERANCE_SECONDS,
+			}).accepted).toBe(false);
+
+			const claimed = applyClaimedTransaction(ledger, claim, couponContext);
+			expect(claimed.accepted).toBe(true);
+			expect(applyClaimedTransaction(claimed.ledger, { ...claim, seq: 2 }, couponContext).accepted).toBe(false);
+		});
+
+		it("should accept point-back up to the matched shopping payments", () => {
+			const paid = applyClaimedTransaction(createPlayerLedger("player1"), { seq: 1, amount: -100, source: "shopping" }, context);
+			const allowance = Math.floor(100 * POINT_BACK_CONFIG.MAX_RATE);
+
+			expect(applyClaimedTransaction(paid.ledger, { seq: 2, amount: 1, source: "pointback" }, context).accepted).toBe(false);
+
+			const matched = matchLedgerPayment(paid.ledger, 80).ledger;
+			expect(matched.pointBackAllowance).toBe(allowance);
+			expect(applyClaimedTransaction(matched, { seq: 2, amount: allowance + 1, source: "pointback" }, context).accepted)
+				.toBe(false);
+
+			const pointBack = applyClaimedTransaction(matched, { seq: 2, amount: allowance, source: "pointback" }, context);
+			expect(pointBack.accepted).toBe(true);
+			expect(pointBack.ledger.pointBackAllowance).toBe(0);
+		});
+	});
+
+	describe("matchLedgerPayment function", () => {
+		it("should charge the shortfall of underpaid purchases", () => {
+			const paid = applyClaimedTransaction(createPlayerLedger("player1"), { seq: 1, amount: -30, source: "shopping" }, context);
+			expect(paid.accepted).toBe(true);
+			expect(paid.ledger.verifiedScore).toBe(-30);
+
+			const result = matchLedgerPayment(paid.ledger, 80);
+			expect(result.shortfall).toBe(50);
+			expect(result.ledger.verifiedScore).toBe(-80);
+			expect(result.ledger.unmatchedPayments).toEqual([]);
+		});
+
+		it("should not charge purchases paid in full", () => {
+			const paid = applyClaimedTransaction(createPlayerLedger("player1"), { seq: 1, amount: -100, source: "shopping" }, context);
+			const result = matchLedgerPayment(paid.ledger, 80);
+
+			expect(result.shortfall).toBe(0);
+			expect(result.ledger.verifiedScore).toBe(-100);
+		});
+
+		it("should ignore acquisitions without a waiting payment", () => {
+			const ledger = createPlayerLedger("player1");
+
+			expect(matchLedgerPayment(ledger, 80)).toEqual({ ledger, shortfall: 0 });
+		});
+
+		it("should reject shopping that earns points", () => {
+			expect(applyClaimedTransaction(createPlayerLedger("player1"), { seq: 1, amount: 100, source: "shopping" }, context).accepted)
+				.toBe(false);
+		});
+	});
+});
@@ -0,0 +1,108 @@
+import { CAMPAIGN_CONFIG } from "../../src/config/campaignConfig";
+import {
+	applyDiscountRate,
+	CampaignData,
+	createCampaignSchedule,
+	getCampaignDiscountRate,
+	isCampaignActive,
+} from "../../src/data/campaignData";
+import { createItemData, getDefaultCatalogItems } from "../../src/data/itemData";
+
+describe("CampaignData", () => {
+	const testItem = createItemData({
+		id: "novel_volume1",
+		name: "小説 上巻",
+		emoji: "📖",
+		category: "novel",
+		seriesNumber: 1,
+		purchasePrice: 200,
+		individualPrice: 150,
+		setPrice: 1000,
+	});
+
+	const createCampaign = (overrides: Partial<CampaignData>): CampaignData => ({
+		id: "campaign_1",
+		type: "category_discount",
+		title: "テストセール",
+		startAt: 10,
+		endAt: 20,
+		categoryId: "novel",
+		discountRate: 0.3,
+		pointBackMultiplier: 1,
+		...overrides,
+	});
+
+	describe("isCampaignActive function", () => {
+		it("should be active from start until just before end", () => {
+			const campaign = createCampaign({});
+
+			expect(isCampaignActive(campaign, 9)).toBe(false);
+			expect(isCampaignActive(campaign, 10)).toBe(true);
+			expect(isCampaignActive(campaign, 19)).toBe(true);
+			expect(isCampaignActive(campaign, 20)).toBe(false);
+		});
+	});
+
+	describe("getCampaignDiscountRate function", () => {
+		it("should apply category discounts to items of the category", () => {
+			expect(getCampaignDiscountRate([createCampaign({})], testItem)).toBe(0.3);
+			expect(getCampaignDiscountRate([createCampaign({ categoryId: "manga" })], testItem)).toBe(0);
+		});
+
+		it("should apply flash sales only to the target item", () => {
+			const flashSale = createCampaign({ type: "flash_sale", categoryId: undefined, itemId: "novel_volume1", discountRate: 0.5 });
+
+			expect(getCampaignDiscountRate([flashSale], testItem)).toBe(0.5);
+			expect(getCampaignDiscountRate([{ ...flashSale, itemId: "novel_volume2" }], testItem)).toBe(0);
+		});
+
+		it("should use the largest discount when campaigns overlap", () => {
+			const flashSale = createCampaign({ id: "campaign_2", type: "flash_sale", itemId: "novel_volume1", discountRate: 0.5 });
+
+			expect(getCampaignDiscountRate([createCampaign({}), flashSale], testItem)).toBe(0.5);
+		});
+
+		it("should not discount prices during point-back campaigns", () => {
+			const pointBack = createCampaign({ type: "point_back", categoryId: undefined, discountRate: 0, pointBackMultiplier: 2 });
+
+			expect(getCampaignDiscountRate([pointBack], testItem)).toBe(0);
+		});
+	});
+
+	describe("applyDiscountRate function", () => {
+		it("should floor discounted prices", () => {
+			expect(applyDiscountRate(155, 0.3)).toBe(108);
+		});
+
+		it("should keep the price without discount", () => {
+			expect(applyDiscountRate(155, 0)).toBe(155);
+		});
+
+		it("should not go below 1 point", () => {
+			expect(applyDiscountRate(1, 0.5)).toBe(1);
+		});
+	});
+
+	describe("createCampaignSchedule function", () => {
+		it("should schedule campaigns in start order within the game time", () => {
+			const campaigns = createCampaignSchedule(new g.XorshiftRandomGenerator(1), 180, getDefaultCatalogItems());
+
+			expect(campaigns.length).toBe(CAMPAIGN_CONFIG.COUNT);
+			campaigns.forEach((campaign, index) => {
+				expect(campaign.startAt).toBeGreaterThanOrEqual(CAMPAIGN_CONFIG.FIRST_START_SECONDS);
+				expect(campaign.endAt).toBeLessThanOrEqual(180);
+				expect(campaign.startAt).toBeLessThan(campaign.endAt);
+				if (index > 0) {
+					expect(campaign.startAt).toBeGreaterThanOrEqual(campaigns[index - 1].startAt);
+				}
+			});
+		});
+
+		it("should create the same schedule for the same seed", () => {
+			const first = createCampaignSchedule(new g.XorshiftRandomGenerator(42), 180, getDefaultCatalogItems());
+			const second = createCampaignSchedule(new g.XorshiftRandomGenerator(42), 180, getDefaultCatalogItems());
+
+			expect(first).toEqual(second);
+		});
+	});
+});
@@ -0,0 +1,88 @@
+import { FEED_CONFIG } from "../../src/config/feedConfig";
+import { CampaignData } from "../../src/data/campaignData";
+import { createFeedSchedule, getCampaignAnnouncementText, isCouponAvailable, isFeedPost } from "../../src/data/feedPostData";
+import { getDefaultCatalogItems } from "../../src/data/itemData";
+import { createSharedPost } from "../../src/data/sharedPostData";
+
+describe("FeedPostData", () => {
+	const items = getDefaultCatalogItems();
+
+	describe("createFeedSchedule function", () => {
+		const posts = createFeedSchedule(new g.XorshiftRandomGenerator(42), 180, items);
+
+		it("should create the same feed for the same seed", () => {
+			expect(createFeedSchedule(new g.XorshiftRandomGenerator(42), 180, items)).toEqual(posts);
+			expect(createFeedSchedule(new g.XorshiftRandomGenerator(43), 180, items)).not.toEqual(posts);
+		});
+
+		it("should publish posts at configured intervals within the game time", () => {
+			expect(posts.length).toBeGreaterThan(0);
+			expect(posts[0].publishAt).toBe(FEED_CONFIG.FIRST_POST_SECONDS);
+			posts.forEach((post, index) => {
+				expect(post.id).toBe(`feed_${index + 1}`);
+				expect(post.publishAt).toBeLessThan(180);
+				if (index > 0) {
+					const interval = post.publishAt - posts[index - 1].publishAt;
+					expect(interval).toBeGreaterThanOrEqual(FEED_CONFIG.MIN_INTERVAL_SECONDS);
+					expect(interval).toBeLessThanOrEqual(FEED_CONFIG.MAX_INTERVAL_SECONDS);
+				}
+			});
+		});
+
+		it("should feature catalog items in sale posts", () => {
+			posts.filter(post => post.kind === "sale").forEach((post) => {
+				expect(items.map(item => item.id)).toContain(post.itemId);
+			});
+		});
+
+		it("should give coupons configured points until they expire", () => {
+			posts.filter(post => post.kind === "coupon").forEach((post) => {
+				expect(FEED_CONFIG.COUPON.POINTS).toContain(post.couponPoints);
+				expect(post.expiresAt).toBe(Math.min(180, post.publishAt + FEED_CONFIG.COUPON.DURATION_SECONDS));
+			});
+		});
+
+		it("should post hints instead of sales without catalog items", () => {
+			const feed = createFeedSchedule(new g.XorshiftRandomGenerator(42), 180, []);
+
+			expect(feed.filter(post => post.kind === "sale")).toEqual([]);
+		});
+	});
+
+	describe("isCouponAvailable function", () => {
+		it("should only accept coupons before they expire", () => {
+			const coupon = { id: "feed_1", kind: "coupon" as const, authorName: "", text: "", publishAt: 10, couponPoints: 30, expiresAt: 25 };
+			const hint = { id: "feed_2", kind: "hint" as const, authorName: "", text: "", publishAt: 10 };
+
+			expect(isCouponAvailable(coupon, 24)).toBe(true);
+			expect(isCouponAvailable(coupon, 25)).toBe(false);
+			expect(isCouponAvailable(hint, 10)).toBe(false);
+		});
+	});
+
+	describe("isFeedPost function", () => {
+		it("should tell feed posts from shared posts", () => {
+			const sharedPost = createSharedPost({ id: "post_1", sharerId: "p1", sharerName: "A", item: items[0], sharedPrice: 100, sharedAt: 0 });
+
+			expect(isFeedPost(sharedPost)).toBe(false);
+			expect(isFeedPost({ id: "feed_1", kind: "hint", authorName: "", text: "", publishAt: 10 })).toBe(true);
+		});
+	});
+
+	describe("getCampaignAnnouncementText function", () => {
+		it("should announce the campaign title and effect", () => {
+			const campaign: CampaignData = {
+				id: "campaign_1",
+				type: "point_back",
+				title: "ポイント還元キャンペーン",
+				startAt: 20,
+				endAt: 50,
+				discountRate: 0,
+				pointBackMultiplier: 1.5,
+			};
+
+			expect(getCampaignAnnouncementText(campaign)).toContain("ポイント還元キャンペーン");
+			expect(getCampaignAnnouncementText(campaign)).toContain("ポイントバック1.5倍");
+		});
+	});
+});
@@ -0,0 +1,90 @@
+import { createFleaMarketListing, markListingCancelled, markListingReserved, markListingSold } from "../../src/data/fleaMarketData";
+import { createItemData } from "../../src/data/itemData";
+
+describe("FleaMarketData", () => {
+	let testItem: any;
+
+	beforeEach(() => {
+		testItem = createItemData({
+			id: "test_item_1",
+			name: "テストアイテム",
+			emoji: "📚",
+			category: "novel",
+			seriesNumber: 1,
+			purchasePrice: 100,
+			individualPrice: 120,
+			setPrice: 1000,
+		});
+	});
+
+	const createTestListing = () => createFleaMarketListing({
+		id: "flea_seller_1",
+		sellerId: "seller",
+		sellerName: "出品者",
+		item: testItem,
+		price: 150,
+		listedAt: 1000,
+	});
+
+	describe("createFleaMarketListing function", () => {
+		it("should create active listing with all required fields", () => {
+			const listing = createTestListing();
+
+			expect(listing.id).toBe("flea_seller_1");
+			expect(listing.sellerId).toBe("seller");
+			expect(listing.sellerName).toBe("出品者");
+			expect(listing.item).toBe(testItem);
+			expect(listing.price).toBe(150);
+			expect(listing.listedAt).toBe(1000);
+			expect(listing.status).toBe("active");
+			expect(listing.buyerId).toBeUndefined();
+			expect(listing.buyerName).toBeUndefined();
+		});
+	});
+
+	describe("markListingReserved function", () => {
+		it("should mark listing as reserved and record buyer", () => {
+			const listing = createTestListing();
+
+			markListingReserved(listing, "buyer", "購入者");
+
+			expect(listing.status).toBe("reserved");
+			expect(listing.buyerId).toBe("buyer");
+			expect(listing.buyerName).toBe("購入者");
+		});
+	});
+
+	describe("markListingSold function", () => {
+		it("should mark listing as sold and record buyer", () => {
+			const listing = createTestListing();
+
+			markListingSold(listing, "buyer", "購入者");
+
+			expect(listing.status).toBe("sold");
+			expect(listing.buyerId).toBe("buyer");
+			expect(listing.buyerName).toBe("購入者");
+		});
+	});
+
+	describe("markListingCancelled function", () => {
+		it("should mark listing as cancelled without buyer", () => {
+			const listing = createTestListing();
+
+			markListingCancelled(listing);
+
+			expect(listing.status).toBe("cancelled");
+			expect(listing.buyerId).toBeUndefined();
+		});
+
+		it("should release the buyer of a reserved listing", () => {
+			const listing = createTestListing();
+			markListingReserved(listing, "buyer", "購入者");
+
+			markListingCancelled(listing);
+
+			expect(listing.status).toBe("cancelled");
+			expect(listing.buyerId).toBeUndefined();
+			expect(listing.buyerName).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,192 @@
+import { CPU_PLAYER_CONFIG } from "../../src/config/cpuPlayerConfig";
+import { ITEM_CATALOG_CONFIG } from "../../src/config/itemCatalogConfig";
+import { SESSION_CONFIG } from "../../src/config/sessionConfig";
+import {
+	createGameConfig,
+	DEFAULT_GAME_RULES,
+	getGameRules,
+	isGameConfig,
+} from "../../src/data/gameConfig";
+
+describe("GameConfig", () => {
+	const allCategoryIds = ITEM_CATALOG_CONFIG.CATEGORIES.map(category => category.id);
+	let warnSpy: jest.SpyInstance;
+
+	beforeEach(() => {
+		warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		warnSpy.mockRestore();
+	});
+
+	describe("createGameConfig function", () => {
+		it("should use defaults without session parameters", () => {
+			const config = createGameConfig({}, "multi");
+
+			expect(config).toEqual({
+				mode: "multi",
+				totalTimeLimit: SESSION_CONFIG.DEFAULT_TOTAL_TIME_LIMIT - SESSION_CONFIG.RESERVED_TIME,
+				difficulty: SESSION_CONFIG.DEFAULT_DIFFICULTY,
+				categoryIds: allCategoryIds,
+				cpuCount: SESSION_CONFIG.DIFFICULTIES.normal.CPU_COUNT,
+				enabledApps: [...SESSION_CONFIG.OPTIONAL_APPS],
+				priceVolatility: SESSION_CONFIG.DIFFICULTIES.normal.PRICE_VOLATILITY,
+				pricingModel: SESSION_CONFIG.DEFAULT_PRICING_MODEL,
+				categoryPricingModels: {},
+				seed: SESSION_CONFIG.DEFAULT_SEED,
+			});
+			expect(warnSpy).not.toHaveBeenCalled();
+		});
+
+		it("should reserve time for the title and ranking scenes", () => {
+			expect(createGameConfig({ totalTimeLimit: 120 }, "ranking").totalTimeLimit).toBe(100);
+			expect(createGameConfig({ totalTimeLimit: 200.5 }, "ranking").totalTimeLimit).toBe(180);
+		});
+
+		it("should clamp the play time to the maximum", () => {
+			expect(createGameConfig({ totalTimeLimit: 100000 }, "ranking").totalTimeLimit).toBe(SESSION_CONFIG.MAX_PLAY_TIME);
+			expect(warnSpy).not.toHaveBeenCalled();
+		});
+
+		it("should never exceed the session time when it is shorter than the minimum play time", () => {
+			const totalTimeLimit = SESSION_CONFIG.RESERVED_TIME + SESSION_CONFIG.MIN_PLAY_TIME - 10;
+
+			expect(createGameConfig({ totalTimeLimit }, "ranking").totalTimeLimit).toBe(SESSION_CONFIG.MIN_PLAY_TIME - 10);
+			expect(createGameConfig({ totalTimeLimit: 10 }, "ranking").totalTimeLimit).toBe(0);
+			expect(warnSpy).toHaveBeenCalledTimes(2);
+		});
+
+		it("should prefer a valid mode in the parameters", () => {
+			expect(createGameConfig({ mode: "multi" }, "ranking").mode).toBe("multi");
+			expect(createGameConfig({ mode: "solo" }, "ranking").mode).toBe("ranking");
+			expect(warnSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should apply difficulty presets", () => {
+			const config = createGameConfig({ difficulty: "easy" }, "ranking");
+
+			expect(config.difficulty).toBe("easy");
+			expect(config.cpuCount).toBe(SESSION_CONFIG.DIFFICULTIES.easy.CPU_COUNT);
+			expect(config.priceVolatility).toBe(SESSION_CONFIG.DIFFICULTIES.easy.PRICE_VOLATILITY);
+		});
+
+		it("should let explicit parameters override the difficulty preset", () => {
+			const config = createGameConfig({ difficulty: "hard", cpuCount: 0, priceVolatility: 0.2 }, "ranking");
+
+			expect(config.cpuCount).toBe(0);
+			expect(config.priceVolatility).toBe(0.2);
+		});
+
+		it("should fall back to defaults for invalid values", () => {
+			const config = createGameConfig({ difficulty: "nightmare", cpuCount: "many", priceVolatility: NaN, totalTimeLimit: "long" }, "ranking");
+
+			expect(config.difficulty).toBe(SESSION_CONFIG.DEFAULT_DIFFICULTY);
+			expect(config.cpuCount).toBe(SESSION_CONFIG.DIFFICULTIES.normal.CPU_COUNT);
+			expect(config.priceVolatility).toBe(SESSION_CONFIG.DIFFICULTIES.normal.PRICE_VOLATILITY);
+			expect(config.totalTimeLimit).toBe(SESSION_CONFIG.DEFAULT_TOTAL_TIME_LIMIT - SESSION_CONFIG.RESERVED_TIME);
+			expect(warnSpy).toHaveBeenCalledTimes(4);
+		});
+
+		it("should clamp the CPU count and price volatility", () => {
+			const config = createGameConfig({ cpuCount: 10.7, priceVolatility: -1 }, "ranking");
+
+			expect(config.cpuCount).toBe(CPU_PLAYER_CONFIG.PROFILES.length);
+			expect(config.priceVolatility).toBe(0);
+			expect(createGameConfig({ priceVolatility: 100 }, "ranking").priceVolatility).toBe(SESSION_CONFIG.MAX_PRICE_VOLATILITY);
+		});
+
+		it("should select categories in catalog order and drop unknown ones", () => {
+			const reversed = [...allCategoryIds].reverse();
+
+			expect(createGameConfig({ catalog: ["unknown", ...reversed] }, "ranking").categoryIds).toEqual(allCategoryIds);
+			expect(createGameConfig({ catalog: [allCategoryIds[1]] }, "ranking").categoryIds).toEqual([allCategoryIds[1]]);
+		});
+
+		it("should put the whole catalog on sale if no known category is selected", () => {
+			expect(createGameConfig({ catalog: [] }, "ranking").categoryIds).toEqual(allCategoryIds);
+			expect(createGameConfig({ catalog: "manga" }, "ranking").categoryIds).toEqual(allCategoryIds);
+			expect(warnSpy).toHaveBeenCalledTimes(2);
+		});
+
+		it("should enable only the listed optional apps", () => {
+			expect(createGameConfig({ apps: ["fleaMarket", "camera"] }, "ranking").enabledApps).toEqual(["fleaMarket"]);
+			expect(createGameConfig({ apps: [] }, "ranking").enabledApps).toEqual([]);
+			expect(createGameConfig({ apps: "none" }, "ranking").enabledApps).toEqual([...SESSION_CONFIG.OPTIONAL_APPS]);
+		});
+
+		it("should select the pricing model of the round and of each category", () => {
+			const config = createGameConfig({ pricingModel: "demand", categoryPricingModels: { manga: "fixed" } }, "ranking");
+
+			expect(config.pricingModel).toBe("demand");
+			expect(config.categoryPricingModels).toEqual({ manga: "fixed" });
+			expect(warnSpy).not.toHaveBeenCalled();
+		});
+
+		it("should drop unknown pricing models and categories", () => {
+			const config = createGameConfig({
+				pricingModel: "auction",
+				categoryPricingModels: { manga: "auction", novel: "random_walk", unknown: "fixed" },
+			}, "ranking");
+
+			expect(config.pricingModel).toBe(SESSION_CONFIG.DEFAULT_PRICING_MODEL);
+			expect(config.categoryPricingModels).toEqual({ novel: "random_walk" });
+			expect(createGameConfig({ categoryPricingModels: "fixed" }, "ranking").categoryPricingModels).toEqual({});
+			expect(warnSpy).toHaveBeenCalledTimes(4);
+		});
+
+		it("should use the random seed of the session as a non-negative integer", () => {
+			expect(createGameConfig({ randomSeed: 12345 }, "ranking").seed).toBe(12345);
+			expect(createGameConfig({ randomSeed: 42.9 }, "ranking").seed).toBe(42);
+			expect(createGameConfig({ randomSeed: -1 }, "ranking").seed).toBe(0);
+			expect(createGameConfig({ randomSeed: "seed" }, "ranking").seed).toBe(SESSION_CONFIG.DEFAULT_SEED);
+			expect(warnSpy).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("getGameRules function", () => {
+		it("should leave out the mode and play time", () => {
+			const rules = getGameRules(createGameConfig({ difficulty: "hard", apps: ["socialGame"] }, "multi"));
+
+			expect(rules).toEqual({
+				difficulty: "hard",
+				categoryIds: allCategoryIds,
+				cpuCount: SESSION_CONFIG.DIFFICULTIES.hard.CPU_COUNT,
+				enabledApps: ["socialGame"],
+				priceVolatility: SESSION_CONFIG.DIFFICULTIES.hard.PRICE_VOLATILITY,
+				pricingModel: SESSION_CONFIG.DEFAULT_PRICING_MODEL,
+				categoryPricingModels: {},
+				seed: SESSION_CONFIG.DEFAULT_SEED,
+			});
+		});
+
+		it("should not share category pricing models with the configuration", () => {
+			const config = createGameConfig({ categoryPricingModels: { novel: "fixed" } }, "multi");
+			getGameRules(config).categoryPricingModels.manga = "demand";
+
+			expect(config.categoryPricingModels).toEqual({ novel: "fixed" });
+		});
+
+		it("should match the default rules without session parameters", () => {
+			expect(getGameRules(createGameConfig({}, "multi"))).toEqual(DEFAULT_GAME_RULES);
+		});
+	});
+
+	describe("isGameConfig function", () => {
+		it("should accept created configurations", () => {
+			expect(isGameConfig(JSON.parse(JSON.stringify(createGameConfig({ difficulty: "easy" }, "multi"))))).toBe(true);
+		});
+
+		it("should reject malformed configurations", () => {
+			const config = createGameConfig({}, "ranking");
+
+			expect(isGameConfig(null)).toBe(false);
+			expect(isGameConfig("ranking")).toBe(false);
+			expect(isGameConfig({ ...config, mode: "solo" })).toBe(false);
+			expect(isGameConfig({ ...config, difficulty: "nightmare" })).toBe(false);
+			expect(isGameConfig({ ...config, categoryIds: "novel" })).toBe(false);
+			expect(isGameConfig({ ...config, pricingModel: "auction" })).toBe(false);
+			expect(isGameConfig({ ...config, categoryPricingModels: { novel: "auction" } })).toBe(false);
+		});
+	});
+});
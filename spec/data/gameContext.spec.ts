@@ -0,0 +1,41 @@
+import { GameContext } from "../../src/data/gameContext";
+
+describe("GameContext", () => {
+	describe("follow graph", () => {
+		let context: GameContext;
+
+		beforeEach(() => {
+			context = GameContext.createForTesting("player1");
+		});
+
+		it("should record follows per player", () => {
+			expect(context.addFollow("player1", "player2")).toBe(true);
+			expect(context.addFollow("player3", "player2")).toBe(true);
+
+			expect(context.isFollowing("player1", "player2")).toBe(true);
+			expect(context.isFollowing("player2", "player1")).toBe(false);
+			expect(context.getFollowing("player1")).toEqual(["player2"]);
+			expect(context.getFollowerCount("player2")).toBe(2);
+			expect(context.getFollowerCount("player1")).toBe(0);
+		});
+
+		it("should not follow oneself or the same player twice", () => {
+			context.addFollow("player1", "player2");
+
+			expect(context.addFollow("player1", "player2")).toBe(false);
+			expect(context.addFollow("player1", "player1")).toBe(false);
+			expect(context.getFollowerCount("player2")).toBe(1);
+		});
+
+		it("should notify listeners of new follows", () => {
+			const listener = jest.fn();
+			context.on("followAdded", listener);
+
+			context.addFollow("player1", "player2");
+			context.addFollow("player1", "player2");
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener).toHaveBeenCalledWith({ followerId: "player1", followeeId: "player2" });
+		});
+	});
+});
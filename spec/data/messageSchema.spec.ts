@@ -0,0 +1,169 @@
+import {
+	createMessageEvent,
+	decodeMessage,
+	encodeMessage,
+	isButtonSubmitMessage,
+	isGameMessageType,
+	MESSAGE_PROTOCOL_VERSION,
+} from "../../src/data/messageSchema";
+
+describe("MessageSchema", () => {
+	describe("encodeMessage", () => {
+		it("should keep the payload under the data key of the message type", () => {
+			const data = encodeMessage("profileUpdate", { playerId: "player1", name: "テスト", avatar: "😀" });
+
+			expect(data).toEqual({
+				type: "profileUpdate",
+				version: MESSAGE_PROTOCOL_VERSION,
+				profileData: { playerId: "player1", name: "テスト", avatar: "😀" },
+			});
+		});
+
+		it("should create a message event with the encoded data", () => {
+			const event = createMessageEvent("itemAcquired", { playerId: "player1", itemId: "novel_volume1" });
+
+			expect(event.data).toEqual({
+				type: "itemAcquired",
+				version: MESSAGE_PROTOCOL_VERSION,
+				itemData: { playerId: "player1", itemId: "novel_volume1" },
+			});
+		});
+	});
+
+	describe("decodeMessage", () => {
+		it("should decode encoded messages", () => {
+			const payload = { itemId: "novel_volume1", dynamicPrice: 120, calculatedAt: 1000, remainingTime: 90 };
+			const result = decodeMessage(encodeMessage("priceUpdate", payload));
+
+			expect(result).toEqual({ status: "ok", message: { type: "priceUpdate", payload } });
+		});
+
+		it("should ignore data that is not a multiplayer message", () => {
+			expect(decodeMessage(undefined).status).toBe("ignored");
+			expect(decodeMessage({ type: "start", parameters: {} }).status).toBe("ignored");
+			expect(decodeMessage({ name: "submit", args: { name: "button", args: 1 } }).status).toBe("ignored");
+		});
+
+		it("should reject messages of other protocol versions", () => {
+			const data = { ...encodeMessage("taskCompletion", { playerId: "player1", taskId: "profile", completedAt: 0 }) };
+			data.version = MESSAGE_PROTOCOL_VERSION + 1;
+
+			expect(decodeMessage(data).status).toBe("invalid");
+			expect(decodeMessage({ type: "taskCompletion", taskData: { playerId: "player1", taskId: "profile", completedAt: 0 } }).status)
+				.toBe("invalid");
+		});
+
+		it("should reject malformed payloads", () => {
+			const version = MESSAGE_PROTOCOL_VERSION;
+
+			expect(decodeMessage({ type: "scoreUpdate", version }).status).toBe("invalid");
+			expect(decodeMessage({ type: "scoreUpdate", version, scoreData: { playerId: "player1", score: "100" } }).status)
+				.toBe("invalid");
+			expect(decodeMessage({ type: "scoreUpdate", version, scoreData: { playerId: "", score: 100 } }).status).toBe("invalid");
+			expect(decodeMessage({
+				type: "scoreUpdate",
+				version,
+				scoreData: { playerId: "player1", score: 100, transaction: { seq: 1, amount: 100 } },
+			}).status).toBe("invalid");
+			expect(decodeMessage({ type: "playerAction", version, actionData: { action: "kick", playerId: "player1" } }).status)
+				.toBe("invalid");
+			expect(decodeMessage({ type: "fleaMarketDelivery", version, deliveryData: { listingId: "flea_player1_1", sellerId: "player1" } }).status)
+				.toBe("invalid");
+		});
+
+		it("should reject player joins whose data belongs to another player", () => {
+			const playerData = {
+				playerId: "player1",
+				id: "player2",
+				profile: { name: "テスト", avatar: "😀" },
+				points: 0,
+			};
+
+			expect(decodeMessage({ type: "playerJoined", version: MESSAGE_PROTOCOL_VERSION, playerData }).status).toBe("invalid");
+		});
+
+		it("should reject follows of oneself", () => {
+			const version = MESSAGE_PROTOCOL_VERSION;
+
+			expect(decodeMessage(encodeMessage("snsFollow", { followerId: "player1", followeeId: "player2" })).status).toBe("ok");
+			expect(decodeMessage({ type: "snsFollow", version, followData: { followerId: "player1", followeeId: "player1" } }).status)
+				.toBe("invalid");
+			expect(decodeMessage({ type: "snsLike", version, likeData: { postId: "post1", playerId: "player1" } }).status)
+				.toBe("invalid");
+		});
+
+		it("should reject impressions and clicks of own affiliate posts", () => {
+			const version = MESSAGE_PROTOCOL_VERSION;
+
+			expect(decodeMessage(encodeMessage("affiliateImpression", { postId: "post1", playerId: "player2", sharerId: "player1" })).status)
+				.toBe("ok");
+			expect(decodeMessage(encodeMessage("affiliateClick", { postId: "post1", playerId: "player2", sharerId: "player1" })).status)
+				.toBe("ok");
+			expect(decodeMessage({ type: "affiliateImpression", version, impressionData: { postId: "post1", playerId: "player1", sharerId: "player1" } })
+				.status).toBe("invalid");
+			expect(decodeMessage({ type: "affiliateClick", version, clickData: { postId: "post1", playerId: "player2" } }).status)
+				.toBe("invalid");
+		});
+
+		it("should validate game snapshots", () => {
+			const snapshot = {
+				players: [{ id: "player1", profile: { name: "テスト", avatar: "😀" }, points: 100, ownedItems: [], taskProgress: [] }],
+				sharedPosts: [],
+				marketPrices: [{ itemId: "novel_volume1", dynamicPrice: 120, calculatedAt: 1, remainingTime: 90 }],
+				remainingFrame: 5400,
+				transactionSeqs: { player1: 2 },
+				campaigns: [],
+				fleaMarketListings: [],
+				follows: [{ followerId: "player2", followeeId: "player1" }],
+				likes: [{ postId: "post1", playerIds: ["player2"] }],
+				affiliateAudiences: [{ postId: "post1", viewerIds: ["player2"], clickerIds: ["player2"], purchases: 1, commission: 10 }],
+			};
+
+			expect(decodeMessage(encodeMessage("snapshotResponse", { requesterId: "player2", snapshot: snapshot as any })).status)
+				.toBe("ok");
+			expect(decodeMessage(encodeMessage("snapshotResponse", {
+				requesterId: "player2",
+				snapshot: { ...snapshot, marketPrices: [{ itemId: "novel_volume1" }] } as any,
+			})).status).toBe("invalid");
+			expect(decodeMessage(encodeMessage("snapshotResponse", {
+				requesterId: "player2",
+				snapshot: { ...snapshot, fleaMarketListings: [{ id: "flea_player1_1", sellerId: "player1" }] } as any,
+			})).status).toBe("invalid");
+			expect(decodeMessage(encodeMessage("snapshotResponse", {
+				requesterId: "player2",
+				snapshot: { ...snapshot, likes: [{ postId: "post1" }] } as any,
+			})).status).toBe("invalid");
+			expect(decodeMessage(encodeMessage("snapshotResponse", {
+				requesterId: "player2",
+				snapshot: { ...snapshot, campaigns: undefined } as any,
+			})).status).toBe("invalid");
+			expect(decodeMessage(encodeMessage("snapshotResponse", {
+				requesterId: "player2",
+				snapshot: {
+					...snapshot,
+					affiliateAudiences: [{ postId: "post1", viewerIds: "player2", clickerIds: [], purchases: 0, commission: 0 }],
+				} as any,
+			})).status).toBe("invalid");
+		});
+	});
+
+	describe("isGameMessageType", () => {
+		it("should accept only registered types", () => {
+			expect(isGameMessageType("affiliatePurchase")).toBe(true);
+			expect(isGameMessageType("fleaMarketCancelled")).toBe(true);
+			expect(isGameMessageType("toString")).toBe(false);
+			expect(isGameMessageType("unknown")).toBe(false);
+		});
+	});
+
+	describe("isButtonSubmitMessage", () => {
+		it("should match submit messages of the named button only", () => {
+			const data = { name: "submit", args: { name: "testButton", args: 42 } };
+
+			expect(isButtonSubmitMessage(data, "testButton")).toBe(true);
+			expect(isButtonSubmitMessage(data, "otherButton")).toBe(false);
+			expect(isButtonSubmitMessage({ name: "cancel", args: { name: "testButton", args: 42 } }, "testButton")).toBe(false);
+			expect(isButtonSubmitMessage({ name: "submit" }, "testButton")).toBe(false);
+		});
+	});
+});
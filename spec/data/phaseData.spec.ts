@@ -0,0 +1,101 @@
+import { PHASE_CONFIG } from "../../src/config/phaseConfig";
+import { GamePhase } from "../../src/data/gameContext";
+import {
+	findReachedPhaseIndex,
+	getDefaultPhaseDefinitions,
+	getUnlockedFeatures,
+	isPhaseConditionMet,
+	PhaseDefinition,
+} from "../../src/data/phaseData";
+
+describe("PhaseData", () => {
+	const definitions: PhaseDefinition[] = [
+		{
+			phase: GamePhase.BASIC,
+			condition: { completedTasks: [], elapsedSeconds: 0 },
+			banners: {},
+			unlocks: [
+				{ feature: "timeline", condition: { completedTasks: ["sns"], elapsedSeconds: 0 }, banners: { sns_recommend: false } },
+			],
+		},
+		{
+			phase: GamePhase.SHOPPING,
+			condition: { completedTasks: ["shopping"], elapsedSeconds: 0 },
+			banners: { shopping_recommend: false },
+			unlocks: [
+				{ feature: "shop", condition: { completedTasks: [], elapsedSeconds: 0 }, banners: {} },
+			],
+		},
+		{
+			phase: GamePhase.ADVANCED,
+			condition: { completedTasks: [], elapsedSeconds: 30 },
+			banners: {},
+			unlocks: [],
+		},
+	];
+
+	describe("getDefaultPhaseDefinitions function", () => {
+		it("should define phases in the configured order", () => {
+			const phases = getDefaultPhaseDefinitions().map(definition => definition.phase);
+
+			expect(phases).toEqual(PHASE_CONFIG.PHASES.map(definition => definition.phase));
+			phases.forEach(phase => expect(Object.keys(GamePhase).map(key => (GamePhase as any)[key])).toContain(phase));
+		});
+
+		it("should not share arrays with the config", () => {
+			const definition = getDefaultPhaseDefinitions()[1];
+			definition.condition.completedTasks.push("profile");
+
+			expect(getDefaultPhaseDefinitions()[1].condition.completedTasks).not.toContain("profile");
+		});
+	});
+
+	describe("isPhaseConditionMet function", () => {
+		it("should require every task to be completed", () => {
+			const condition = { completedTasks: ["sns", "shopping"], elapsedSeconds: 0 };
+
+			expect(isPhaseConditionMet(condition, { completedTaskIds: ["sns"], elapsedSeconds: 0 })).toBe(false);
+			expect(isPhaseConditionMet(condition, { completedTaskIds: ["shopping", "sns"], elapsedSeconds: 0 })).toBe(true);
+		});
+
+		it("should require the time to have passed", () => {
+			const condition = { completedTasks: [], elapsedSeconds: 30 };
+
+			expect(isPhaseConditionMet(condition, { completedTaskIds: [], elapsedSeconds: 29 })).toBe(false);
+			expect(isPhaseConditionMet(condition, { completedTaskIds: [], elapsedSeconds: 30 })).toBe(true);
+		});
+	});
+
+	describe("findReachedPhaseIndex function", () => {
+		it("should enter the first phase without progress", () => {
+			expect(findReachedPhaseIndex(definitions, -1, { completedTaskIds: [], elapsedSeconds: 0 })).toBe(0);
+		});
+
+		it("should enter every reached phase at once", () => {
+			expect(findReachedPhaseIndex(definitions, -1, { completedTaskIds: ["shopping"], elapsedSeconds: 30 })).toBe(2);
+		});
+
+		it("should not skip a phase whose condition does not hold", () => {
+			expect(findReachedPhaseIndex(definitions, 0, { completedTaskIds: [], elapsedSeconds: 60 })).toBe(0);
+		});
+
+		it("should stay in the last phase", () => {
+			expect(findReachedPhaseIndex(definitions, 2, { completedTaskIds: ["shopping"], elapsedSeconds: 60 })).toBe(2);
+		});
+	});
+
+	describe("getUnlockedFeatures function", () => {
+		it("should unlock features of entered phases only", () => {
+			const progress = { completedTaskIds: ["sns"], elapsedSeconds: 0 };
+
+			expect(getUnlockedFeatures(definitions, -1, progress)).toEqual([]);
+			expect(getUnlockedFeatures(definitions, 0, progress).map(unlock => unlock.feature)).toEqual(["timeline"]);
+		});
+
+		it("should unlock features whose own condition holds", () => {
+			const progress = { completedTaskIds: ["shopping"], elapsedSeconds: 0 };
+
+			expect(getUnlockedFeatures(definitions, 1, progress).map(unlock => unlock.feature)).toEqual(["shop"]);
+		});
+	});
+});
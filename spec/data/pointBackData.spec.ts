@@ -0,0 +1,57 @@
+import { POINT_BACK_CONFIG } from "../../src/config/pointBackConfig";
+import { createItemData, getDefaultCatalogItems } from "../../src/data/itemData";
+import { calculatePointBack, getPointBackRate } from "../../src/data/pointBackData";
+
+describe("PointBackData", () => {
+	const createTestItem = (id: string, category: string) => createItemData({
+		id,
+		name: "テストアイテム",
+		emoji: "📚",
+		category,
+		seriesNumber: 1,
+		purchasePrice: 100,
+		individualPrice: 50,
+		setPrice: 1000,
+	});
+
+	const rates = {
+		...POINT_BACK_CONFIG,
+		CATEGORY_RATES: { manga: 0.4 },
+		ITEM_RATES: { novel_volume2: 0.6 },
+	};
+
+	describe("getPointBackRate function", () => {
+		it("should use the default rate for unconfigured items", () => {
+			expect(getPointBackRate(createTestItem("test_item", "test"))).toBe(POINT_BACK_CONFIG.DEFAULT_RATE);
+		});
+
+		it("should use the default rate for every catalog item", () => {
+			getDefaultCatalogItems().forEach((item) => {
+				expect(getPointBackRate(item)).toBe(POINT_BACK_CONFIG.DEFAULT_RATE);
+			});
+		});
+
+		it("should use the category rate when configured", () => {
+			expect(getPointBackRate(createTestItem("test_item", "manga"), 1, rates)).toBe(0.4);
+		});
+
+		it("should prefer the item rate over the category rate", () => {
+			expect(getPointBackRate(createTestItem("novel_volume2", "manga"), 1, rates)).toBe(0.6);
+		});
+
+		it("should apply campaign multipliers up to the maximum rate", () => {
+			const item = createTestItem("test_item", "test");
+
+			expect(getPointBackRate(item, 1.5)).toBeCloseTo(POINT_BACK_CONFIG.DEFAULT_RATE * 1.5);
+			expect(getPointBackRate(item, 100)).toBe(POINT_BACK_CONFIG.MAX_RATE);
+		});
+	});
+
+	describe("calculatePointBack function", () => {
+		it("should round point-back down", () => {
+			const item = createTestItem("test_item", "manga");
+
+			expect(calculatePointBack(item, 99)).toBe(Math.floor(99 * POINT_BACK_CONFIG.DEFAULT_RATE));
+		});
+	});
+});
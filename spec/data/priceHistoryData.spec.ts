@@ -0,0 +1,52 @@
+import { appendPriceHistory, getPriceHistoryStats, isLowestPriceSoFar, PriceHistoryEntry } from "../../src/data/priceHistoryData";
+
+describe("PriceHistoryData", () => {
+	const createHistory = (prices: number[]): PriceHistoryEntry[] =>
+		prices.map((price, index) => ({ price, remainingTime: 180 - index * 3 }));
+
+	describe("appendPriceHistory function", () => {
+		it("should append prices in recording order", () => {
+			const history = appendPriceHistory(createHistory([100, 120]), { price: 90, remainingTime: 174 }, 5);
+
+			expect(history.map(entry => entry.price)).toEqual([100, 120, 90]);
+		});
+
+		it("should drop the oldest prices beyond the limit", () => {
+			const history = appendPriceHistory(createHistory([100, 120, 80]), { price: 90, remainingTime: 171 }, 3);
+
+			expect(history.map(entry => entry.price)).toEqual([120, 80, 90]);
+		});
+
+		it("should not modify the original history", () => {
+			const original = createHistory([100]);
+			appendPriceHistory(original, { price: 90, remainingTime: 177 }, 3);
+
+			expect(original.length).toBe(1);
+		});
+	});
+
+	describe("getPriceHistoryStats function", () => {
+		it("should return min, max and current prices", () => {
+			expect(getPriceHistoryStats(createHistory([100, 150, 70, 90]))).toEqual({ min: 70, max: 150, current: 90 });
+		});
+
+		it("should return undefined for empty history", () => {
+			expect(getPriceHistoryStats([])).toBeUndefined();
+		});
+	});
+
+	describe("isLowestPriceSoFar function", () => {
+		it("should be true when the price is at or below the recorded minimum", () => {
+			const history = createHistory([100, 150, 70]);
+
+			expect(isLowestPriceSoFar(history, 70)).toBe(true);
+			expect(isLowestPriceSoFar(history, 60)).toBe(true);
+			expect(isLowestPriceSoFar(history, 71)).toBe(false);
+		});
+
+		it("should be false until at least two prices are recorded", () => {
+			expect(isLowestPriceSoFar([], 100)).toBe(false);
+			expect(isLowestPriceSoFar(createHistory([100]), 100)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,94 @@
+import { AFFILIATE_CONFIG } from "../../src/config/affiliateConfig";
+import { createItemData, ItemData } from "../../src/data/itemData";
+import { clampPrice, createPricingModel, PricingModel } from "../../src/data/pricingModel";
+
+describe("PricingModel", () => {
+	let testItem: ItemData;
+
+	beforeEach(() => {
+		testItem = createItemData({
+			id: "test_item_1",
+			name: "テストアイテム",
+			emoji: "📚",
+			category: "novel",
+			seriesNumber: 1,
+			purchasePrice: 100,
+			individualPrice: 120,
+			setPrice: 1000,
+		});
+	});
+
+	/**
+	 * Calculates five consecutive prices, increasing demand by one per update
+	 */
+	const calculatePriceSequence = (model: PricingModel, seed: number): number[] => {
+		const random = new g.XorshiftRandomGenerator(seed);
+		const prices: number[] = [];
+		let previousPrice: number | undefined;
+		for (let i = 0; i < 5; i++) {
+			previousPrice = model.calculatePrice({
+				item: testItem,
+				remainingTime: 180 - i * 3,
+				totalTime: 180,
+				previousPrice,
+				demand: i,
+				random,
+			});
+			prices.push(previousPrice);
+		}
+		return prices;
+	};
+
+	describe("clampPrice function", () => {
+		it("should clamp prices to the configured range", () => {
+			expect(clampPrice(100, 10)).toBe(Math.floor(100 * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO));
+			expect(clampPrice(100, 1000)).toBe(Math.floor(100 * AFFILIATE_CONFIG.PRICING.MAX_PRICE_RATIO));
+			expect(clampPrice(100, 123.9)).toBe(123);
+		});
+	});
+
+	describe("built-in models", () => {
+		it("should calculate exact price sequences for the volatile model", () => {
+			expect(calculatePriceSequence(createPricingModel("volatile"), 42)).toEqual([30, 107, 30, 30, 30]);
+		});
+
+		it("should calculate exact price sequences for the random walk model", () => {
+			expect(calculatePriceSequence(createPricingModel("random_walk"), 42)).toEqual([113, 89, 107, 109, 118]);
+		});
+
+		it("should raise prices with demand for the demand model", () => {
+			expect(calculatePriceSequence(createPricingModel("demand"), 42)).toEqual([106, 105, 137, 147, 166]);
+		});
+
+		it("should keep the base price for the fixed model", () => {
+			expect(calculatePriceSequence(createPricingModel("fixed"), 42)).toEqual([100, 100, 100, 100, 100]);
+		});
+
+		it("should be deterministic for the same seed", () => {
+			["volatile", "random_walk", "demand"].forEach((type) => {
+				const model = createPricingModel(type);
+				expect(calculatePriceSequence(model, 7)).toEqual(calculatePriceSequence(model, 7));
+			});
+		});
+
+		it("should not swing prices when the volatility scale is zero", () => {
+			expect(calculatePriceSequence(createPricingModel("random_walk", 0), 42)).toEqual([100, 100, 100, 100, 100]);
+			expect(calculatePriceSequence(createPricingModel("demand", 0), 42))
+				.toEqual([0, 1, 2, 3, 4].map(demand => Math.floor(100 * (1 + AFFILIATE_CONFIG.PRICING.DEMAND.STEP_RATIO * demand))));
+		});
+
+		it("should keep price sequences when the volatility scale is one", () => {
+			["volatile", "random_walk", "demand"].forEach((type) => {
+				expect(calculatePriceSequence(createPricingModel(type, 1), 42)).toEqual(calculatePriceSequence(createPricingModel(type), 42));
+			});
+		});
+
+		it("should fall back to the volatile model for unknown types", () => {
+			const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+			expect(createPricingModel("unknown").type).toBe("volatile");
+
+			warnSpy.mockRestore();
+		});
+	});
+});
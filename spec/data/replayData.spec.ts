@@ -0,0 +1,89 @@
+import { REPLAY_CONFIG } from "../../src/config/replayConfig";
+import { createGameConfig } from "../../src/data/gameConfig";
+import {
+	createReplayLog,
+	findDueEntriesEnd,
+	parseReplayLog,
+	ReplayEntry,
+	serializeReplayLog,
+} from "../../src/data/replayData";
+
+describe("ReplayData", () => {
+	const createTestLog = (): ReturnType<typeof createReplayLog> => createReplayLog({
+		config: createGameConfig({ difficulty: "hard", catalog: ["manga"] }, "multi"),
+		selfId: "player1",
+		isActiveInstance: false,
+		joinedPlayerIds: ["player0", "player1"],
+		randomState: new g.XorshiftRandomGenerator(42).serialize(),
+	});
+
+	describe("createReplayLog function", () => {
+		it("should create an empty log of the current format", () => {
+			const log = createTestLog();
+
+			expect(log.version).toBe(REPLAY_CONFIG.FORMAT_VERSION);
+			expect(log.entries).toEqual([]);
+			expect(log.truncated).toBe(false);
+		});
+	});
+
+	describe("parseReplayLog function", () => {
+		it("should import exported logs", () => {
+			const log = createTestLog();
+			log.entries.push(
+				{ kind: "message", frame: 0, sceneIndex: 0, senderId: "player0", data: { type: "gameStart" } },
+				{ kind: "action", frame: 120, sceneIndex: 1, name: "agreement", args: true },
+			);
+
+			expect(parseReplayLog(serializeReplayLog(log))).toEqual(log);
+		});
+
+		it("should restore the same random sequence", () => {
+			const log = parseReplayLog(serializeReplayLog(createTestLog()));
+			const expected = new g.XorshiftRandomGenerator(42);
+			const restored = g.XorshiftRandomGenerator.deserialize(log.randomState);
+
+			expect(restored.generate()).toBe(expected.generate());
+			expect(restored.generate()).toBe(expected.generate());
+		});
+
+		it("should reject logs of other versions", () => {
+			const log = { ...createTestLog(), version: REPLAY_CONFIG.FORMAT_VERSION + 1 };
+
+			expect(() => parseReplayLog(JSON.stringify(log))).toThrow("unsupported version");
+		});
+
+		it("should reject malformed logs", () => {
+			const log = createTestLog();
+
+			expect(() => parseReplayLog("null")).toThrow("not an object");
+			expect(() => parseReplayLog(JSON.stringify({ ...log, config: { ...log.config, mode: "solo" } }))).toThrow("malformed session");
+			expect(() => parseReplayLog(JSON.stringify({ ...log, config: undefined }))).toThrow("malformed session");
+			expect(() => parseReplayLog(JSON.stringify({ ...log, joinedPlayerIds: [1] }))).toThrow("malformed session");
+			expect(() => parseReplayLog(JSON.stringify({ ...log, entries: [{ kind: "message" }] }))).toThrow("malformed entries");
+			expect(() => parseReplayLog(JSON.stringify({ ...log, entries: ["message"] }))).toThrow("malformed entries");
+		});
+	});
+
+	describe("findDueEntriesEnd function", () => {
+		const entries: ReplayEntry[] = [
+			{ kind: "message", frame: 0, sceneIndex: 0, data: {} },
+			{ kind: "message", frame: 0, sceneIndex: 1, data: {} },
+			{ kind: "message", frame: 60, sceneIndex: 1, data: {} },
+			{ kind: "action", frame: 90, sceneIndex: 1, name: "button", args: 1 },
+		];
+
+		it("should stop at entries of later frames", () => {
+			expect(findDueEntriesEnd(entries, 1, 1, 59)).toBe(2);
+			expect(findDueEntriesEnd(entries, 1, 1, 60)).toBe(3);
+		});
+
+		it("should wait for the scene an entry was recorded in", () => {
+			expect(findDueEntriesEnd(entries, 0, 0, 1000)).toBe(1);
+		});
+
+		it("should play back entries of earlier scenes without waiting", () => {
+			expect(findDueEntriesEnd(entries, 0, 2, 0)).toBe(4);
+		});
+	});
+});
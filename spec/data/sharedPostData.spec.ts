@@ -1,4 +1,10 @@
-import { createSharedPost, SharedPostData } from "../../src/data/sharedPostData";
+import {
+	createSharedPost,
+	getConversionRate,
+	SharedPostData,
+	SharedPostStats,
+	sumSharedPostStats,
+} from "../../src/data/sharedPostData";
 import { createItemData } from "../../src/data/itemData";
 
 describe("SharedPostData", () => {
@@ -313,4 +319,45 @@ describe("SharedPostData", () => {
 			expect(sharedPost.sharedPrice).toBe(140);
 		});
 	});
+
+	describe("Post performance", () => {
+		const createStats = (views: number, clicks: number, purchases: number, commission: number): SharedPostStats => ({
+			post: createSharedPost({
+				id: `post_${views}`,
+				sharerId: "player1",
+				sharerName: "シェアユーザー",
+				item: createItemData({
+					id: "stats_test_item",
+					name: "分析テストアイテム",
+					emoji: "📊",
+					category: "novel",
+					purchasePrice: 100,
+					individualPrice: 120,
+				}),
+				sharedPrice: 100,
+				sharedAt: 0,
+			}),
+			views,
+			clicks,
+			purchases,
+			commission,
+		});
+
+		it("should rate conversion by purchases per click", () => {
+			expect(getConversionRate(createStats(10, 4, 1, 100))).toBe(0.25);
+			expect(getConversionRate(createStats(10, 4, 4, 400))).toBe(1);
+		});
+
+		it("should rate conversion as 0 without clicks", () => {
+			expect(getConversionRate(createStats(10, 0, 0, 0))).toBe(0);
+		});
+
+		it("should sum up the performance of all posts", () => {
+			const total = sumSharedPostStats([createStats(10, 4, 1, 100), createStats(6, 2, 2, 150)]);
+
+			expect(total).toEqual({ views: 16, clicks: 6, purchases: 3, commission: 250 });
+			expect(getConversionRate(total)).toBe(0.5);
+			expect(sumSharedPostStats([])).toEqual({ views: 0, clicks: 0, purchases: 0, commission: 0 });
+		});
+	});
 });
@@ -0,0 +1,112 @@
+import { createFleaMarketListing } from "../../src/data/fleaMarketData";
+import { createItemData } from "../../src/data/itemData";
+import { completePlayerTask, createInitialPlayerProfile, createPlayerData } from "../../src/data/playerData";
+import { createSharedPost } from "../../src/data/sharedPostData";
+import { createGameSnapshot, fromPlayerSnapshot, toPlayerSnapshot } from "../../src/data/snapshotData";
+
+describe("SnapshotData", () => {
+	const createTestPlayer = (): ReturnType<typeof createPlayerData> => {
+		const player = completePlayerTask(createPlayerData("player1", createInitialPlayerProfile(), 0), "profile", 10);
+		return { ...player, points: 1200, ownedItems: ["novel_volume1"] };
+	};
+
+	describe("toPlayerSnapshot function", () => {
+		it("should keep task progress as an array", () => {
+			const snapshot = toPlayerSnapshot(createTestPlayer());
+
+			expect(snapshot.taskProgress).toEqual([{ taskId: "profile", completed: true, completedAt: 10 }]);
+			expect(snapshot.points).toBe(1200);
+			expect(snapshot.ownedItems).toEqual(["novel_volume1"]);
+		});
+
+		it("should survive JSON serialization", () => {
+			const player = createTestPlayer();
+			const restored = fromPlayerSnapshot(JSON.parse(JSON.stringify(toPlayerSnapshot(player))));
+
+			expect(restored.taskProgress.get("profile")).toEqual({ taskId: "profile", completed: true, completedAt: 10 });
+			expect(restored).toEqual(player);
+		});
+
+		it("should not share arrays with the player data", () => {
+			const player = createTestPlayer();
+			const snapshot = toPlayerSnapshot(player);
+			snapshot.ownedItems.push("novel_volume2");
+
+			expect(player.ownedItems).toEqual(["novel_volume1"]);
+		});
+	});
+
+	describe("createGameSnapshot function", () => {
+		it("should collect the state of the running game", () => {
+			const item = createItemData({
+				id: "novel_volume1",
+				name: "小説1巻",
+				emoji: "📚",
+				category: "novel",
+				purchasePrice: 100,
+				individualPrice: 120,
+			});
+			const post = createSharedPost({ id: "post_1", sharerId: "player1", sharerName: "テスト", item, sharedPrice: 90, sharedAt: 0 });
+			const price = { itemId: "novel_volume1", dynamicPrice: 110, calculatedAt: 1, remainingTime: 90 };
+
+			const snapshot = createGameSnapshot([createTestPlayer()], [post], [price], 5400, playerId => playerId === "player1" ? 3 : 0);
+
+			expect(snapshot.players.length).toBe(1);
+			expect(snapshot.sharedPosts).toEqual([post]);
+			expect(snapshot.marketPrices).toEqual([price]);
+			expect(snapshot.remainingFrame).toBe(5400);
+			expect(snapshot.transactionSeqs).toEqual({ player1: 3 });
+			expect(snapshot.campaigns).toEqual([]);
+			expect(snapshot.fleaMarketListings).toEqual([]);
+			expect(snapshot.follows).toEqual([]);
+			expect(snapshot.likes).toEqual([]);
+			expect(snapshot.affiliateAudiences).toEqual([]);
+		});
+
+		it("should keep the state of the apps", () => {
+			const item = createItemData({
+				id: "novel_volume1",
+				name: "小説1巻",
+				emoji: "📚",
+				category: "novel",
+				purchasePrice: 100,
+				individualPrice: 120,
+			});
+			const listing = createFleaMarketListing({ id: "flea_player1_1", sellerId: "player1", sellerName: "テスト", item, price: 80, listedAt: 5 });
+
+			const likes = [{ postId: "post_1", playerIds: ["player2"] }];
+			const audience = { postId: "post_1", viewerIds: ["player2", "player3"], clickerIds: ["player2"], purchases: 1, commission: 12 };
+			const campaign = {
+				id: "campaign_1",
+				type: "point_back" as const,
+				title: "ポイント2倍",
+				startAt: 30,
+				endAt: 60,
+				discountRate: 0,
+				pointBackMultiplier: 2,
+			};
+
+			const snapshot = createGameSnapshot([createTestPlayer()], [], [], 0, undefined, {
+				campaigns: [campaign],
+				fleaMarketListings: [listing],
+				follows: [{ followerId: "player2", followeeId: "player1" }],
+				likes,
+				affiliateAudiences: [audience],
+			});
+
+			expect(snapshot.campaigns).toEqual([campaign]);
+			expect(snapshot.campaigns[0]).not.toBe(campaign);
+			expect(snapshot.fleaMarketListings).toEqual([listing]);
+			expect(snapshot.fleaMarketListings[0]).not.toBe(listing);
+			expect(snapshot.follows).toEqual([{ followerId: "player2", followeeId: "player1" }]);
+			expect(snapshot.likes).toEqual(likes);
+			expect(snapshot.likes[0].playerIds).not.toBe(likes[0].playerIds);
+			expect(snapshot.affiliateAudiences).toEqual([audience]);
+			expect(snapshot.affiliateAudiences[0].viewerIds).not.toBe(audience.viewerIds);
+		});
+
+		it("should start transaction sequences at zero by default", () => {
+			expect(createGameSnapshot([createTestPlayer()], [], [], 0).transactionSeqs).toEqual({ player1: 0 });
+		});
+	});
+});
@@ -0,0 +1,46 @@
+import { drawGachaReward, GachaReward, getGachaExpectedReward } from "../../src/data/socialGameData";
+
+describe("SocialGameData", () => {
+	describe("drawGachaReward function", () => {
+		const rewards: GachaReward[] = [
+			{ id: "n", rarity: "N", name: "ハズレ", emoji: "🪨", points: 10, weight: 50 },
+			{ id: "r", rarity: "R", name: "コイン", emoji: "🪙", points: 40, weight: 30 },
+			{ id: "ssr", rarity: "SSR", name: "王冠", emoji: "👑", points: 400, weight: 20 },
+		];
+
+		const createRandom = (value: number): g.RandomGenerator => ({ generate: () => value }) as g.RandomGenerator;
+
+		it("should draw the first reward for the lowest random value", () => {
+			expect(drawGachaReward(rewards, createRandom(0)).id).toBe("n");
+		});
+
+		it("should draw rewards according to cumulative weights", () => {
+			expect(drawGachaReward(rewards, createRandom(0.49)).id).toBe("n");
+			expect(drawGachaReward(rewards, createRandom(0.5)).id).toBe("r");
+			expect(drawGachaReward(rewards, createRandom(0.79)).id).toBe("r");
+			expect(drawGachaReward(rewards, createRandom(0.8)).id).toBe("ssr");
+		});
+
+		it("should draw the last reward for the highest random value", () => {
+			expect(drawGachaReward(rewards, createRandom(0.9999)).id).toBe("ssr");
+		});
+
+		it("should return the same reward for the same seed", () => {
+			const first = drawGachaReward(rewards, new g.XorshiftRandomGenerator(42));
+			const second = drawGachaReward(rewards, new g.XorshiftRandomGenerator(42));
+
+			expect(first).toBe(second);
+		});
+	});
+
+	describe("getGachaExpectedReward function", () => {
+		it("should weight the points of each reward by its draw chance", () => {
+			const rewards: GachaReward[] = [
+				{ id: "n", rarity: "N", name: "ハズレ", emoji: "🪨", points: 10, weight: 3 },
+				{ id: "ssr", rarity: "SSR", name: "王冠", emoji: "👑", points: 50, weight: 1 },
+			];
+
+			expect(getGachaExpectedReward(rewards)).toBe(20);
+		});
+	});
+});
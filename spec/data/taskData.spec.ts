@@ -0,0 +1,129 @@
+import { TASK_CONFIG } from "../../src/config/taskConfig";
+import { ADVANCED_TASK_METADATA, getAllTaskMetadata, getMissionTaskId } from "../../src/data/taskConstants";
+import {
+	arePrerequisitesMet,
+	createMissionTask,
+	getDefaultGameTasks,
+	getDefaultMissions,
+	getMissionRound,
+	getRoundMission,
+	getTaskProgress,
+} from "../../src/data/taskData";
+
+describe("TaskData", () => {
+	describe("getDefaultGameTasks function", () => {
+		const tasks = getDefaultGameTasks();
+		const advancedTasks = tasks.filter(task => task.category === "advanced");
+
+		it("should define every advanced task", () => {
+			expect(advancedTasks.map(task => task.id)).toEqual(Object.keys(ADVANCED_TASK_METADATA));
+			advancedTasks.forEach((task) => {
+				expect(task.rewardPoints).toBeGreaterThan(0);
+				expect(task.completed).toBe(false);
+			});
+		});
+
+		it("should only require tasks that exist", () => {
+			const taskIds = tasks.map(task => task.id);
+
+			tasks.forEach(task => task.prerequisites.forEach((requirement) => {
+				expect(taskIds).toContain(requirement.taskId);
+			}));
+		});
+
+		it("should complete every task by its action or its trigger", () => {
+			tasks.forEach((task) => {
+				expect(task.action.type === "guide").toBe(task.trigger !== undefined);
+				expect(task.progressTarget).toBe(task.trigger?.target);
+			});
+		});
+
+		it("should show the advanced tasks in the task metadata", () => {
+			advancedTasks.forEach(task => expect(getAllTaskMetadata()[task.id].title).toBe(task.title));
+		});
+	});
+
+	describe("getTaskProgress function", () => {
+		it("should count matching events up to the target", () => {
+			const trigger = { event: "itemPurchased" as const, target: 3 };
+
+			expect(getTaskProgress(trigger, { type: "itemPurchased", category: "novel" }, 0)).toBe(1);
+			expect(getTaskProgress(trigger, { type: "itemPurchased" }, 3)).toBe(3);
+			expect(getTaskProgress(trigger, { type: "postShared" }, 1)).toBe(1);
+		});
+
+		it("should only count events of the trigger category", () => {
+			const trigger = { event: "collectionCompleted" as const, target: 1, category: "novel" };
+
+			expect(getTaskProgress(trigger, { type: "collectionCompleted", category: "manga" }, 0)).toBe(0);
+			expect(getTaskProgress(trigger, { type: "collectionCompleted", category: "novel" }, 0)).toBe(1);
+		});
+
+		it("should keep the highest points reached", () => {
+			const trigger = { event: "pointsChanged" as const, target: 1000 };
+
+			expect(getTaskProgress(trigger, { type: "pointsChanged", points: 400 }, 0)).toBe(400);
+			expect(getTaskProgress(trigger, { type: "pointsChanged", points: 100 }, 400)).toBe(400);
+			expect(getTaskProgress(trigger, { type: "pointsChanged", points: 1500 }, 400)).toBe(1000);
+		});
+
+		it("should only count purchases on sale for sale triggers", () => {
+			const trigger = { event: "itemPurchased" as const, target: 1, onSale: true };
+
+			expect(getTaskProgress(trigger, { type: "itemPurchased", onSale: false }, 0)).toBe(0);
+			expect(getTaskProgress(trigger, { type: "itemPurchased", onSale: true }, 0)).toBe(1);
+		});
+	});
+
+	describe("mission functions", () => {
+		const missions = getDefaultMissions();
+
+		it("should offer no mission before the first one appears", () => {
+			expect(getMissionRound(TASK_CONFIG.MISSION_FIRST_SECONDS - 1)).toBe(0);
+			expect(getMissionRound(TASK_CONFIG.MISSION_FIRST_SECONDS)).toBe(1);
+			expect(getMissionRound(TASK_CONFIG.MISSION_FIRST_SECONDS + TASK_CONFIG.MISSION_INTERVAL_SECONDS)).toBe(2);
+		});
+
+		it("should repeat missions in turn", () => {
+			expect(getRoundMission(missions, 1)).toBe(missions[0]);
+			expect(getRoundMission(missions, missions.length + 1)).toBe(missions[0]);
+		});
+
+		it("should create a task of its own for every appearance", () => {
+			const round = missions.length + 1;
+			const task = createMissionTask(missions[0], round);
+			const startSeconds = TASK_CONFIG.MISSION_FIRST_SECONDS + (round - 1) * TASK_CONFIG.MISSION_INTERVAL_SECONDS;
+
+			expect(task.id).toBe(getMissionTaskId(missions[0].id, round));
+			expect(task.expiresAt).toBe(startSeconds + missions[0].durationSeconds);
+			expect(task.remainingSeconds).toBe(missions[0].durationSeconds);
+			expect(task.prerequisites.map(requirement => requirement.taskId)).toEqual([missions[0].requiredTaskId]);
+		});
+
+		it("should not expire a mission before the next one appears", () => {
+			missions.forEach(mission => expect(mission.durationSeconds).toBeLessThanOrEqual(TASK_CONFIG.MISSION_INTERVAL_SECONDS));
+		});
+	});
+
+	describe("arePrerequisitesMet function", () => {
+		const getTask = (taskId: string) => getDefaultGameTasks().find(task => task.id === taskId)!;
+
+		it("should require both external services to share a product", () => {
+			expect(arePrerequisitesMet(getTask("share"), new Set(["profile", "sns"]))).toBe(false);
+			expect(arePrerequisitesMet(getTask("share"), new Set(["sns", "shopping"]))).toBe(true);
+		});
+
+		it("should unlock the affiliate and flea market tasks by sharing a product", () => {
+			["affiliateSale", "fleaMarketListing"].forEach((taskId) => {
+				expect(arePrerequisitesMet(getTask(taskId), new Set(["sns", "shopping"]))).toBe(false);
+				expect(arePrerequisitesMet(getTask(taskId), new Set(["sns", "shopping", "share"]))).toBe(true);
+			});
+		});
+
+		it("should ignore optional prerequisites", () => {
+			const task = { ...getTask("share"), prerequisites: [{ taskId: "profile", required: false }] };
+
+			expect(arePrerequisitesMet(task, new Set())).toBe(true);
+		});
+	});
+});
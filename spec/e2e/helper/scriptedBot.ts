@@ -0,0 +1,501 @@
+import * as path from "path";
+import { GameClient, GameContext } from "@akashic/headless-akashic";
+
+type Game = GameClient<3>["game"];
+type Scene = NonNullable<ReturnType<Game["scene"]>>;
+type Entity = NonNullable<Scene["children"]>[number];
+
+/**
+ * Player state as seen by a game client
+ */
+export interface PlayerState {
+	id: string;
+	profile: { name: string; avatar: string };
+	points: number;
+	ownedItems: string[];
+}
+
+/**
+ * Point transaction as recorded by PointManager
+ */
+export interface TransactionState {
+	source: string;
+	amount: number;
+}
+
+/**
+ * Test hooks of MainScene used by the bots
+ */
+interface MainSceneHooks {
+	getGameContext(): { currentPlayer: PlayerState; allPlayers: Map<string, PlayerState> };
+	getPointManager(): { getTransactionHistory(): TransactionState[] };
+}
+
+/**
+ * Test hooks of RankingScene used by the bots
+ */
+interface RankingSceneHooks {
+	getRankingDisplayForTesting(): { getRankedPlayersForTesting(): PlayerState[] } | undefined;
+}
+
+/**
+ * Test hooks of SettlementE used by the bots
+ */
+interface SettlementHooks {
+	getCurrentSettlementValueForTesting(): number;
+}
+
+/**
+ * Player of a headless session
+ */
+export interface SessionPlayer {
+	id: string;
+	name: string;
+}
+
+const GAME_JSON_PATH = path.join(__dirname, "..", "..", "..", "game.json");
+
+/**
+ * Frames to wait for an entity or a scene before giving up
+ */
+const MAX_WAIT_FRAMES = 600;
+
+/**
+ * Frames to wait for the ranking after the last action, enough for the longest time limit and the settlement
+ */
+const MAX_FINISH_FRAMES = 12000;
+
+/**
+ * Headless session running every game client frame by frame
+ * GameContext#advance drops the events passive clients raise while advancing, so sessions always step
+ */
+export class HeadlessSession {
+	readonly context: GameContext<3> = new GameContext<3>({ gameJsonPath: GAME_JSON_PATH });
+	readonly clients: GameClient<3>[] = [];
+
+	/**
+	 * Starts a ranking mode session played by a single bot
+	 * @param player Player of the broadcaster
+	 * @param totalTimeLimit Total time limit given by the session parameters in seconds
+	 * @param randomSeed Seed given by the session parameters
+	 * @returns Bot of the player, in the main scene
+	 */
+	async startRanking(player: SessionPlayer, totalTimeLimit: number, randomSeed: number): Promise<ScriptedBot> {
+		const client = await this.context.getGameClient({ player });
+		this.clients.push(client);
+
+		// セッションパラメーターは起動後3tick以内に届く必要がある
+		client.sendMessage({ type: "start", parameters: { totalTimeLimit, randomSeed } });
+		client.sendJoinEvent(player.id, player.name);
+
+		const bot = new ScriptedBot(this, client, player.id);
+		await this.advanceUntil(() => bot.isInScene("title"));
+		await bot.pressJoinButton();
+		await this.advanceUntil(() => bot.isInScene("main"));
+		return bot;
+	}
+
+	/**
+	 * Starts a multi mode session with one passive client per player
+	 * The first player becomes the game master, the others join from the title scene
+	 * @param players Players in the order they join
+	 * @returns Bots of the players in the same order, in the main scene
+	 */
+	async startMulti(players: SessionPlayer[]): Promise<ScriptedBot[]> {
+		const active = await this.context.getGameClient();
+		this.clients.push(active);
+
+		const bots: ScriptedBot[] = [];
+		for (const player of players) {
+			const client = await this.context.createPassiveGameClient({ player });
+			this.clients.push(client);
+			bots.push(new ScriptedBot(this, client, player.id));
+		}
+		for (const player of players) {
+			active.sendJoinEvent(player.id, player.name);
+		}
+
+		await this.advanceUntil(() => this.clients.every(client => ScriptedBot.isSceneOf(client, "title")));
+		for (const bot of bots.slice(1)) {
+			await bot.pressJoinButton();
+		}
+		await bots[0].pressJoinButton();
+		await this.advanceUntil(() => this.clients.every(client => ScriptedBot.isSceneOf(client, "main")));
+		return bots;
+	}
+
+	/**
+	 * Advances every client by one frame
+	 */
+	async step(): Promise<void> {
+		await this.context.step();
+	}
+
+	/**
+	 * Advances every client by the given game time
+	 * @param ms Game time in milliseconds
+	 */
+	async advance(ms: number): Promise<void> {
+		const frames = Math.ceil(ms * this.clients[0].game.fps / 1000);
+		for (let i = 0; i < frames; i++) {
+			await this.step();
+		}
+	}
+
+	/**
+	 * Advances every client until the condition holds
+	 * @param condition Condition to wait for
+	 * @param maxFrames Frames to wait before failing
+	 */
+	async advanceUntil(condition: () => boolean, maxFrames: number = MAX_WAIT_FRAMES): Promise<void> {
+		for (let i = 0; i < maxFrames && !condition(); i++) {
+			await this.step();
+		}
+		if (!condition()) {
+			throw new Error(`Condition not met within ${maxFrames} frames`);
+		}
+	}
+
+	/**
+	 * Lets the game time expire and waits until every client shows the ranking
+	 */
+	async finish(): Promise<void> {
+		await this.advanceUntil(
+			() => this.clients.every(client => ScriptedBot.isSceneOf(client, "ranking")),
+			MAX_FINISH_FRAMES
+		);
+	}
+
+	/**
+	 * Destroys every client
+	 */
+	async destroy(): Promise<void> {
+		await this.context.destroy();
+	}
+}
+
+/**
+ * Bot playing a game client through pointer events as a player would
+ * Every tap is checked against the engine's hit test so that a covered or hidden target fails the test
+ */
+export class ScriptedBot {
+	readonly playerId: string;
+	private readonly session: HeadlessSession;
+	private readonly client: GameClient<3>;
+	private pointerId: number = 0;
+	private mainScene?: Scene;
+
+	constructor(session: HeadlessSession, client: GameClient<3>, playerId: string) {
+		this.session = session;
+		this.client = client;
+		this.playerId = playerId;
+		// 時間切れ後も精算結果を参照できるよう、ランキングシーンに切り替わった後もメインシーンを保持する
+		client.game.onSceneChange.add((scene) => {
+			if (scene && "getPointManager" in scene) {
+				this.mainScene = scene;
+			}
+		});
+	}
+
+	/**
+	 * Checks which scene a client shows, after the scene has finished swiping in
+	 */
+	static isSceneOf(client: GameClient<3>, kind: "title" | "main" | "ranking"): boolean {
+		const scene = client.game.scene();
+		if (!scene || !scene.children || client.game.focusingCamera) {
+			return false;
+		}
+		switch (kind) {
+			case "title":
+				return scene.children.some(child => child.name != null && child.name.indexOf("titleJoinButton_") === 0);
+			case "main":
+				return "getPointManager" in scene && scene.children.length > 0;
+			case "ranking":
+				return "getRankingDisplayForTesting" in scene
+					&& (scene as unknown as RankingSceneHooks).getRankingDisplayForTesting() !== undefined;
+		}
+	}
+
+	/**
+	 * Checks which scene the bot's client shows
+	 */
+	isInScene(kind: "title" | "main" | "ranking"): boolean {
+		return ScriptedBot.isSceneOf(this.client, kind);
+	}
+
+	/**
+	 * Presses the join button of the title scene and waits until the press is processed
+	 * The game master starts the game with it, and the other players join
+	 */
+	async pressJoinButton(): Promise<void> {
+		const prefix = `titleJoinButton_${this.playerId}_`;
+		await this.session.advanceUntil(() => this.findByPrefix(prefix) !== undefined);
+		const name = this.findByPrefix(prefix)!.name!;
+		await this.tap(name);
+		// 押下が処理されるとボタンは作り直されるか、シーンごと破棄される
+		await this.session.advanceUntil(() => this.findAll(entity => entity.name === name).length === 0);
+	}
+
+	/**
+	 * Agrees to the terms of service and receives the agreement reward
+	 */
+	async agree(): Promise<void> {
+		await this.tap("agreement-checkbox");
+		await this.tap("agreement-modal");
+		await this.tap("success");
+	}
+
+	/**
+	 * Completes the profile task
+	 * @param avatarIndex Index of the avatar option (1-based)
+	 */
+	async setProfile(avatarIndex: number): Promise<void> {
+		await this.tap("executeTask_profile");
+		await this.tap(`radioButton_avatar${avatarIndex}`);
+		await this.tap("submitProfileButton");
+	}
+
+	/**
+	 * Completes the SNS link task, which reveals the timeline
+	 */
+	async linkSns(): Promise<void> {
+		await this.tap("executeTask_sns");
+		await this.tap("timelineUnlockModal_button_0");
+	}
+
+	/**
+	 * Completes the shopping link task, which reveals the shop app
+	 * The revealed shop app opens by itself, so the bot returns to the home screen from it
+	 */
+	async linkShopping(): Promise<void> {
+		await this.tap("executeTask_shopping");
+		await this.tap("shoppingUnlockModal_button_0");
+		await this.goBack();
+	}
+
+	/**
+	 * Opens the shop app from the home screen
+	 */
+	async openShop(): Promise<void> {
+		await this.tapText("🛒");
+	}
+
+	/**
+	 * Returns from an app to the home screen
+	 */
+	async goBack(): Promise<void> {
+		await this.tapText("← 戻る");
+	}
+
+	/**
+	 * Buys the item of the lowest price in the shop app
+	 * Prices fluctuate randomly, so scripts cannot tell in advance which item the bot can afford
+	 * @returns ID of the bought item
+	 */
+	async buyCheapest(): Promise<string> {
+		await this.session.advanceUntil(() => this.findByPrefix("shop_buy_") !== undefined);
+		// 購入ボタンの引数は「商品ID_表示価格」
+		const offers = this.findAll(entity => entity.name != null && entity.name.indexOf("shop_buy_") === 0 && entity.touchable)
+			.map(entity => String((entity as unknown as { msgArgs: string }).msgArgs))
+			.map(args => ({ itemId: args.substring(0, args.lastIndexOf("_")), price: Number(args.substring(args.lastIndexOf("_") + 1)) }))
+			.sort((a, b) => a.price - b.price);
+		if (offers.length === 0) {
+			throw new Error(`${this.playerId} found no item to buy`);
+		}
+
+		const itemId = offers[0].itemId;
+		await this.tap(`shop_buy_${itemId}`);
+		await this.tap("purchaseConfirmModal_button_0");
+		await this.tap("purchaseResultModal_button_0");
+		return itemId;
+	}
+
+	/**
+	 * Shares an item of the shop app on the timeline
+	 * @param itemId ID of the item
+	 */
+	async share(itemId: string): Promise<void> {
+		await this.tap(`shop_share_${itemId}`);
+		await this.tap("purchaseResultModal_button_0");
+	}
+
+	/**
+	 * Buys an item through a post on the timeline
+	 * @param sharerId ID of the player who shared the item
+	 */
+	async buyFromTimeline(sharerId: string): Promise<void> {
+		await this.tapByPrefix(`affiliate_buy_affiliate_${sharerId}_`);
+		await this.tapByPrefix("success_modal_");
+	}
+
+	/**
+	 * Taps the entity with the given name
+	 * @param name Name of the entity
+	 */
+	async tap(name: string): Promise<void> {
+		await this.tapWhenHittable(() => this.findAll(entity => entity.name === name), name);
+	}
+
+	/**
+	 * Taps the entity whose name starts with the given prefix
+	 * @param prefix Prefix of the name
+	 */
+	async tapByPrefix(prefix: string): Promise<void> {
+		await this.tapWhenHittable(() => this.findAll(entity => entity.name != null && entity.name.indexOf(prefix) === 0), prefix);
+	}
+
+	/**
+	 * Taps the label showing the given text (e.g. an app icon)
+	 * Labels are not touchable themselves, so the tap is taken by a sibling drawn under the label
+	 * @param text Text of the label (surrounding spaces are ignored)
+	 */
+	async tapText(text: string): Promise<void> {
+		await this.tapWhenHittable(
+			() => this.findAll(entity => "text" in entity && String(entity.text).trim() === text),
+			text,
+			label => label.parent as Entity
+		);
+	}
+
+	/**
+	 * Finds the first entity whose name starts with the given prefix
+	 */
+	findByPrefix(prefix: string): Entity | undefined {
+		return this.findAll(entity => entity.name != null && entity.name.indexOf(prefix) === 0)[0];
+	}
+
+	/**
+	 * Gets the bot's own player data
+	 */
+	getPlayer(): PlayerState {
+		return this.getMainSceneHooks().getGameContext().currentPlayer;
+	}
+
+	/**
+	 * Gets the point transactions of the bot
+	 */
+	getTransactions(): TransactionState[] {
+		return this.getMainSceneHooks().getPointManager().getTransactionHistory();
+	}
+
+	/**
+	 * Gets the value of the items the settlement app converts into points
+	 * @returns Settlement value, or undefined if the settlement app has not been opened
+	 */
+	getSettlementValue(): number | undefined {
+		const settlement = this.findAll(entity => "getCurrentSettlementValueForTesting" in entity, this.getMainScene())[0];
+		return settlement ? (settlement as unknown as SettlementHooks).getCurrentSettlementValueForTesting() : undefined;
+	}
+
+	/**
+	 * Gets the players in the order the ranking scene shows them
+	 */
+	getRanking(): PlayerState[] {
+		const display = (this.client.game.scene() as unknown as RankingSceneHooks).getRankingDisplayForTesting();
+		if (!display) {
+			throw new Error("Ranking is not shown");
+		}
+		return display.getRankedPlayersForTesting();
+	}
+
+	/**
+	 * Gets the score reported to the platform in ranking mode
+	 */
+	getReportedScore(): number {
+		return (this.client.game.vars as { gameState: { score: number } }).gameState.score;
+	}
+
+	/**
+	 * Waits until one of the found entities can be hit, then taps it
+	 * @param findTargets Finds the entities to tap
+	 * @param description Description of the entities for failure messages
+	 * @param getHitArea Gets the entity whose descendants may take the tap
+	 */
+	private async tapWhenHittable(findTargets: () => Entity[], description: string,
+		getHitArea: (target: Entity) => Entity = target => target): Promise<void> {
+		let tapPoint: { x: number; y: number } | undefined;
+		let blocker: string = "no such entity";
+		const findTapPoint = (): boolean => {
+			tapPoint = undefined;
+			for (const target of findTargets()) {
+				const point = target.localToGlobal({ x: target.width / 2, y: target.height / 2 });
+				// スライドイン中の画面は画面外にあり、タップできない
+				if (point.x < 0 || point.y < 0 || point.x >= this.client.game.width || point.y >= this.client.game.height) {
+					blocker = "off screen";
+					continue;
+				}
+				// シーン切り替え中はカメラがずれているため、カメラ越しに判定する
+				const hit = this.client.game.scene()!.findPointSourceByPoint(point, false, this.client.game.focusingCamera);
+				if (hit.target && this.contains(getHitArea(target), hit.target)) {
+					tapPoint = point;
+					return true;
+				}
+				blocker = hit.target ? `covered by ${hit.target.name ?? hit.target.constructor.name}` : "not touchable";
+			}
+			return false;
+		};
+
+		try {
+			await this.session.advanceUntil(findTapPoint);
+		}
+		catch (_error) {
+			throw new Error(`${this.playerId} could not tap ${description}: ${blocker}`);
+		}
+
+		const pointerId = ++this.pointerId;
+		this.client.sendPointDown(tapPoint!.x, tapPoint!.y, pointerId);
+		await this.session.step();
+		this.client.sendPointUp(tapPoint!.x, tapPoint!.y, pointerId);
+		await this.session.step();
+	}
+
+	/**
+	 * Finds every entity of a scene that matches the predicate in drawing order
+	 * @param predicate Condition of the entities
+	 * @param scene Scene to search (the current scene if omitted)
+	 */
+	private findAll(predicate: (entity: Entity) => boolean, scene: Scene | undefined = this.client.game.scene()): Entity[] {
+		const found: Entity[] = [];
+		const visit = (entities: Entity[]): void => {
+			for (const entity of entities) {
+				if (predicate(entity)) {
+					found.push(entity);
+				}
+				visit(entity.children ?? []);
+			}
+		};
+		visit(scene?.children ?? []);
+		// 後に描画されたものが手前に表示されるため、手前から順に試す
+		return found.reverse();
+	}
+
+	/**
+	 * Checks if an entity is the given entity or one of its descendants
+	 */
+	private contains(ancestor: Entity, entity: Entity): boolean {
+		// シーンは parent を持たないため、ルートに達すると undefined になる
+		for (let current: Entity | undefined = entity; current; current = (current as { parent?: Entity }).parent) {
+			if (current === ancestor) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Gets the main scene of the bot
+	 */
+	private getMainScene(): Scene {
+		if (!this.mainScene) {
+			throw new Error(`${this.playerId} has not entered the main scene`);
+		}
+		return this.mainScene;
+	}
+
+	/**
+	 * Gets the test hooks of the main scene
+	 */
+	private getMainSceneHooks(): MainSceneHooks {
+		return this.getMainScene() as unknown as MainSceneHooks;
+	}
+}
@@ -0,0 +1,53 @@
+import { HeadlessSession, ScriptedBot } from "./helper/scriptedBot";
+
+describe("マルチモードのセッション", () => {
+	let session: HeadlessSession;
+	let master: ScriptedBot;
+	let guest: ScriptedBot;
+
+	beforeEach(async () => {
+		session = new HeadlessSession();
+		[master, guest] = await session.startMulti([
+			{ id: "player1", name: "ゲームマスター" },
+			{ id: "player2", name: "参加者" },
+		]);
+	});
+
+	afterEach(async () => {
+		await session.destroy();
+	});
+
+	it("シェアした商品を他のプレイヤーが購入すると、両者の最終スコアが全クライアントで一致する", async () => {
+		for (const bot of [master, guest]) {
+			await bot.agree();
+			await bot.linkSns();
+			await bot.linkShopping();
+		}
+
+		await guest.openShop();
+		const itemId = await guest.buyCheapest();
+		await guest.share(itemId);
+		await guest.goBack();
+
+		await master.buyFromTimeline("player2");
+		expect(master.getPlayer().ownedItems).toEqual([itemId]);
+		const affiliateRewards = (): number => guest.getTransactions().filter(transaction => transaction.source === "affiliate").length;
+		await session.advanceUntil(() => affiliateRewards() > 0);
+
+		await session.finish();
+
+		for (const bot of [master, guest]) {
+			const settlements = bot.getTransactions().filter(transaction => transaction.source === "settlement");
+			expect(settlements.map(transaction => transaction.amount)).toEqual([bot.getSettlementValue()]);
+			expect(bot.getPlayer().points).toBe(bot.getTransactions().reduce((sum, transaction) => sum + transaction.amount, 0));
+		}
+
+		// 各クライアントのランキングで、プレイヤーの最終スコアが自身の計算と一致する
+		for (const viewer of [master, guest]) {
+			const ranking = viewer.getRanking();
+			for (const bot of [master, guest]) {
+				expect(ranking.find(ranked => ranked.id === bot.playerId)!.points).toBe(bot.getPlayer().points);
+			}
+		}
+	}, 300000);
+});
@@ -0,0 +1,60 @@
+import { HeadlessSession, ScriptedBot } from "./helper/scriptedBot";
+
+describe("ランキングモードのセッション", () => {
+	let session: HeadlessSession;
+	let bot: ScriptedBot;
+
+	beforeEach(async () => {
+		session = new HeadlessSession();
+		bot = await session.startRanking({ id: "player1", name: "ボット" }, 60, 42);
+	});
+
+	afterEach(async () => {
+		await session.destroy();
+	});
+
+	it("一通り遊んで時間切れになると、精算後の獲得ポイントでランキングされる", async () => {
+		await bot.agree();
+		await bot.setProfile(2);
+		await bot.linkSns();
+		await bot.linkShopping();
+		await bot.openShop();
+		const itemId = await bot.buyCheapest();
+		await bot.share(itemId);
+		await bot.goBack();
+
+		const player = bot.getPlayer();
+		expect(player.profile.avatar).not.toBe("😀");
+		expect(player.ownedItems).toEqual([itemId]);
+		const sources = bot.getTransactions().map(transaction => transaction.source);
+		expect(sources).toEqual(expect.arrayContaining(["join", "tasks", "shopping"]));
+		const pointsBeforeSettlement = player.points;
+
+		await session.finish();
+
+		// 所持アイテムは精算でポイントに換金される
+		const settlementValue = bot.getSettlementValue();
+		expect(settlementValue).toBeGreaterThan(0);
+		const settlements = bot.getTransactions().filter(transaction => transaction.source === "settlement");
+		expect(settlements.map(transaction => transaction.amount)).toEqual([settlementValue]);
+		expect(bot.getPlayer().ownedItems).toEqual([]);
+
+		// 残り時間中に確定したポイントバック・アフィリエイト報酬も含め、取引の合計が最終スコアになる
+		const finalPoints = bot.getPlayer().points;
+		expect(finalPoints).toBeGreaterThanOrEqual(pointsBeforeSettlement + settlementValue!);
+		expect(finalPoints).toBe(bot.getTransactions().reduce((sum, transaction) => sum + transaction.amount, 0));
+
+		const ranking = bot.getRanking();
+		expect(ranking.map(ranked => ranked.points)).toEqual([...ranking.map(ranked => ranked.points)].sort((a, b) => b - a));
+		expect(ranking.find(ranked => ranked.id === "player1")!.points).toBe(finalPoints);
+		expect(bot.getReportedScore()).toBe(finalPoints);
+	}, 120000);
+
+	it("何もせずに時間切れになっても、ランキングまで進行する", async () => {
+		await session.finish();
+
+		expect(bot.getSettlementValue()).toBeUndefined();
+		expect(bot.getRanking().some(ranked => ranked.id === "player1")).toBe(true);
+		expect(bot.getReportedScore()).toBe(0);
+	}, 120000);
+});
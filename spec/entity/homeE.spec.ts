@@ -4,7 +4,10 @@ import { HomeE } from "../../src/entity/homeE";
 import { LabelButtonE } from "../../src/entity/labelButtonE";
 import { ModalE } from "../../src/entity/modalE";
 import { ProfileEditorE } from "../../src/entity/profileEditorE";
+import { CampaignManager } from "../../src/manager/campaignManager";
+import { FleaMarketManager } from "../../src/manager/fleaMarketManager";
 import { MarketManager } from "../../src/manager/marketManager";
+import { NotificationManager } from "../../src/manager/notificationManager";
 import { PointManager } from "../../src/manager/pointManager";
 
 describe("HomeE", () => {
@@ -28,6 +31,16 @@ describe("HomeE", () => {
 		marketManager.initialize();
 		(scene as any).getMarketManager = () => marketManager;
 
+		const fleaMarketManager = new FleaMarketManager(scene, gameContext);
+		fleaMarketManager.initialize();
+
+		const campaignManager = new CampaignManager({
+			scene: scene,
+			gameContext: gameContext,
+			notificationManager: new NotificationManager(gameContext, scene),
+		});
+		campaignManager.initialize();
+
 		// Create header for testing
 		header = new HeaderE({
 			scene: scene,
@@ -46,6 +59,8 @@ describe("HomeE", () => {
 			header: header,
 			gameContext: gameContext,
 			marketManager: marketManager,
+			campaignManager: campaignManager,
+			fleaMarketManager: fleaMarketManager,
 			pointManager: new PointManager(gameContext, scene),
 			updateCurrentPlayerScore: (score: number) => { /* Mock function */ },
 			transitionToRanking: () => { /* Mock function */ },
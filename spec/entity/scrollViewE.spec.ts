@@ -0,0 +1,109 @@
+import { ScrollViewE } from "../../src/entity/scrollViewE";
+
+describe("ScrollViewE", () => {
+	let scrollView: ScrollViewE;
+
+	const drag = (deltaY: number, lastDeltaY: number): void => {
+		scrollView.onPointDown.fire({} as g.PointDownEvent);
+		scrollView.onPointMove.fire({ startDelta: { x: 0, y: deltaY }, prevDelta: { x: 0, y: lastDeltaY } } as g.PointMoveEvent);
+		scrollView.onPointUp.fire({} as g.PointUpEvent);
+	};
+
+	const advanceFrames = (frames: number): void => {
+		for (let i = 0; i < frames; i++) {
+			scene.onUpdate.fire();
+		}
+	};
+
+	beforeEach(() => {
+		scrollView = new ScrollViewE({
+			scene: scene,
+			width: 300,
+			height: 200,
+			contentHeight: 500,
+		});
+		scene.append(scrollView);
+	});
+
+	afterEach(() => {
+		scrollView.destroy();
+	});
+
+	describe("scrollTo", () => {
+		it("should move the content within its height", () => {
+			scrollView.scrollTo(120);
+
+			expect(scrollView.getScrollY()).toBe(120);
+			expect(scrollView.content.y).toBe(-120);
+
+			scrollView.scrollTo(1000);
+			expect(scrollView.getScrollY()).toBe(300);
+
+			scrollView.scrollTo(-50);
+			expect(scrollView.getScrollY()).toBe(0);
+		});
+
+		it("should not scroll while the content fits", () => {
+			scrollView.setContentHeight(150);
+			scrollView.scrollTo(100);
+
+			expect(scrollView.getMaxScrollY()).toBe(0);
+			expect(scrollView.getScrollY()).toBe(0);
+		});
+
+		it("should ease to the position when animated", () => {
+			scrollView.scrollTo(200, true);
+			expect(scrollView.getScrollY()).toBe(0);
+
+			advanceFrames(1);
+			expect(scrollView.getScrollY()).toBeGreaterThan(0);
+			expect(scrollView.getScrollY()).toBeLessThan(200);
+
+			advanceFrames(60);
+			expect(scrollView.getScrollY()).toBe(200);
+		});
+
+		it("should notify listeners of the scroll position", () => {
+			const listener = jest.fn();
+			scrollView.onScroll.add(listener);
+
+			scrollView.scrollTo(80);
+
+			expect(listener).toHaveBeenCalledWith(80);
+		});
+	});
+
+	describe("scrollBy", () => {
+		it("should shift the scroll position and keep it within the content", () => {
+			scrollView.scrollTo(100);
+			scrollView.scrollBy(90);
+			expect(scrollView.getScrollY()).toBe(190);
+
+			scrollView.scrollBy(500);
+			expect(scrollView.getScrollY()).toBe(300);
+		});
+	});
+
+	describe("drag", () => {
+		it("should keep moving by inertia after a fling and come to rest within the content", () => {
+			drag(-50, -20);
+			expect(scrollView.getScrollY()).toBe(50);
+
+			advanceFrames(1);
+			expect(scrollView.getScrollY()).toBeGreaterThan(50);
+
+			advanceFrames(300);
+			expect(scrollView.getScrollY()).toBeGreaterThan(50);
+			expect(scrollView.getScrollY()).toBeLessThanOrEqual(scrollView.getMaxScrollY());
+		});
+
+		it("should bounce back after being pulled beyond the top", () => {
+			drag(100, 0);
+			expect(scrollView.getScrollY()).toBeLessThan(0);
+			expect(scrollView.getScrollY()).toBeGreaterThan(-100); // Pulling beyond the edge is resisted
+
+			advanceFrames(60);
+			expect(scrollView.getScrollY()).toBe(0);
+		});
+	});
+});
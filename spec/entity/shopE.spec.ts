@@ -214,7 +214,7 @@ describe("ShopE", () => {
 			scene.append(shop);
 
 			// Find share button (should be disabled)
-			const shareButton = shop.children?.find(child =>
+			const shareButton = (shop as any).productScrollView.content.children?.find((child: g.E) =>
 				(child as any).name?.includes("shop_share")
 			);
 			expect(shareButton).toBeDefined();
@@ -242,7 +242,7 @@ describe("ShopE", () => {
 			scene.append(shop);
 
 			// Find share button (should be enabled)
-			const shareButton = shop.children?.find(child =>
+			const shareButton = (shop as any).productScrollView.content.children?.find((child: g.E) =>
 				(child as any).name?.includes("shop_share")
 			);
 			expect(shareButton).toBeDefined();
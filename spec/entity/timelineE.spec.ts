@@ -1,4 +1,5 @@
 import { TimelineE } from "../../src/entity/timelineE";
+import { ScrollViewE } from "../../src/entity/scrollViewE";
 import { SharedPostData, createSharedPost } from "../../src/data/sharedPostData";
 import { createItemData } from "../../src/data/itemData";
 import { AFFILIATE_CONFIG } from "../../src/config/affiliateConfig";
@@ -79,8 +80,8 @@ describe("TimelineE", () => {
 			timeline.addSharedPostForTesting(sharedPost);
 
 			// Verify post was added (timeline should recreate layout)
-			const scrollContainer = (timeline as any).scrollContainer as g.E;
-			expect(scrollContainer.children?.length).toBeGreaterThan(4); // Default items + at least one shared post
+			const scrollContent = (timeline as any).scrollView.content as g.E;
+			expect(scrollContent.children?.length).toBeGreaterThan(4); // Default items + at least one shared post
 		});
 
 		it("should display shared posts with correct information", () => {
@@ -140,8 +141,8 @@ describe("TimelineE", () => {
 			posts.forEach(post => timeline.addSharedPostForTesting(post));
 
 			// Timeline should handle multiple posts
-			const scrollContainer = (timeline as any).scrollContainer as g.E;
-			expect(scrollContainer.children?.length).toBeGreaterThan(4 + posts.length - 1); // Default items + shared posts
+			const scrollContent = (timeline as any).scrollView.content as g.E;
+			expect(scrollContent.children?.length).toBeGreaterThan(4 + posts.length - 1); // Default items + shared posts
 		});
 	});
 
@@ -484,6 +485,57 @@ describe("TimelineE", () => {
 		});
 	});
 
+	describe("Virtualized Rendering", () => {
+		const addPosts = (count: number, prefix: string = "virtual_post"): void => {
+			const testItem = createItemData({
+				id: "virtual_item",
+				name: "仮想化テストアイテム",
+				emoji: "📜",
+				category: "novel",
+				purchasePrice: 100,
+				individualPrice: 120,
+			});
+			itemManager.addItemDataForTesting(testItem);
+
+			for (let i = 0; i < count; i++) {
+				timeline.addSharedPostForTesting(createSharedPost({
+					id: `${prefix}_${i}`,
+					sharerId: "other_player",
+					sharerName: "仮想化テスター",
+					item: testItem,
+					sharedPrice: 90,
+					sharedAt: Date.now(),
+				}));
+			}
+		};
+
+		it("should only materialize rows in sight", () => {
+			addPosts(30);
+
+			const rowViews = (timeline as any).rowViews as Map<string, unknown>;
+			expect(rowViews.size).toBeGreaterThan(0);
+			expect(rowViews.size).toBeLessThan(30);
+			expect(rowViews.has("virtual_post_29")).toBe(true);
+			expect(rowViews.has("virtual_post_0")).toBe(false);
+		});
+
+		it("should keep the rows being read in place when new posts arrive", () => {
+			addPosts(30);
+			const scrollView = (timeline as any).scrollView as ScrollViewE;
+			scrollView.scrollTo(300);
+
+			addPosts(1, "new_post");
+
+			expect(scrollView.getScrollY()).toBe(390);
+			expect((timeline as any).newPostCount).toBe(1);
+
+			timeline.scrollToTop();
+
+			expect(scrollView.getScrollY()).toBe(0);
+			expect((timeline as any).newPostCount).toBe(0);
+		});
+	});
+
 	describe("Layout and Responsiveness", () => {
 		it("should handle different screen sizes", () => {
 			timeline.destroy();
@@ -0,0 +1,85 @@
+import { createFleaMarketListing, FleaMarketListing, markListingReserved } from "../../src/data/fleaMarketData";
+import { GameContext } from "../../src/data/gameContext";
+import { getDefaultCatalogItems } from "../../src/data/itemData";
+import { FleaMarketEvent, FleaMarketManager } from "../../src/manager/fleaMarketManager";
+
+describe("FleaMarketManager", () => {
+	let events: FleaMarketEvent[];
+
+	const createListing = (): FleaMarketListing => createFleaMarketListing({
+		id: "flea_seller_1",
+		sellerId: "seller",
+		sellerName: "出品者",
+		item: getDefaultCatalogItems()[0],
+		price: 150,
+		listedAt: 1000,
+	});
+
+	const createFleaMarketManager = (playerId: string, listing: FleaMarketListing): FleaMarketManager => {
+		const fleaMarketManager = new FleaMarketManager(scene, GameContext.createForTesting(playerId, "ranking"));
+		fleaMarketManager.initialize();
+		fleaMarketManager.restoreListings([listing]);
+		fleaMarketManager.addListingUpdateListener(event => events.push(event));
+		return fleaMarketManager;
+	};
+
+	beforeEach(() => {
+		events = [];
+	});
+
+	describe("requestPurchase", () => {
+		it("should reserve the listing until the seller hands over the item", () => {
+			const fleaMarketManager = createFleaMarketManager("buyer", createListing());
+
+			expect(fleaMarketManager.requestPurchase("flea_seller_1")).toBe(true);
+
+			const listing = fleaMarketManager.getListing("flea_seller_1")!;
+			expect(listing.status).toBe("reserved");
+			expect(listing.buyerId).toBe("buyer");
+			expect(events).toEqual([{ type: "reserved", listing }]);
+			expect(fleaMarketManager.getActiveListings()).toEqual([]);
+		});
+	});
+
+	describe("confirmDelivery", () => {
+		let reservedListing: FleaMarketListing;
+
+		beforeEach(() => {
+			reservedListing = createListing();
+			markListingReserved(reservedListing, "buyer", "購入者");
+		});
+
+		it("should sell the listing when the item was handed over", () => {
+			const fleaMarketManager = createFleaMarketManager("seller", reservedListing);
+
+			fleaMarketManager.confirmDelivery("flea_seller_1", true);
+
+			const listing = fleaMarketManager.getListing("flea_seller_1")!;
+			expect(listing.status).toBe("sold");
+			expect(listing.buyerId).toBe("buyer");
+			expect(events).toEqual([{ type: "sold", listing }]);
+		});
+
+		it("should cancel the listing and reject the purchase when the seller no longer holds the item", () => {
+			const fleaMarketManager = createFleaMarketManager("seller", reservedListing);
+
+			fleaMarketManager.confirmDelivery("flea_seller_1", false);
+
+			const listing = fleaMarketManager.getListing("flea_seller_1")!;
+			expect(listing.status).toBe("cancelled");
+			expect(events).toEqual([
+				{ type: "cancelled", listing },
+				{ type: "purchaseRejected", listingId: "flea_seller_1", buyerId: "buyer", price: 150 },
+			]);
+		});
+
+		it("should ignore deliveries reported by other players", () => {
+			const fleaMarketManager = createFleaMarketManager("buyer", reservedListing);
+
+			fleaMarketManager.confirmDelivery("flea_seller_1", true);
+
+			expect(fleaMarketManager.getListing("flea_seller_1")!.status).toBe("reserved");
+			expect(events).toEqual([]);
+		});
+	});
+});
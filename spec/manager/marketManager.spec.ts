@@ -0,0 +1,61 @@
+import { createGameConfig, getGameRules, SessionParameters } from "../../src/data/gameConfig";
+import { GameContext } from "../../src/data/gameContext";
+import { getDefaultCatalogItems } from "../../src/data/itemData";
+import { createInitialPlayerProfile, createPlayerData } from "../../src/data/playerData";
+import { MarketManager } from "../../src/manager/marketManager";
+
+describe("MarketManager", () => {
+	let marketManager: MarketManager;
+
+	const createMarketManager = (parameters: SessionParameters): MarketManager => {
+		const context = new GameContext(
+			createPlayerData("player1", createInitialPlayerProfile(), 0),
+			{ mode: "ranking", maxPlayers: 1, currentPlayers: 1 },
+			{ score: 0 },
+			new g.XorshiftRandomGenerator(0),
+			120,
+			60,
+			0,
+			getGameRules(createGameConfig(parameters, "ranking"))
+		);
+		return new MarketManager(scene, context);
+	};
+
+	const getPrices = (itemId: string): number[] => marketManager.getPriceHistory(itemId).map(entry => entry.price);
+
+	afterEach(() => {
+		marketManager.destroy();
+	});
+
+	describe("pricing models", () => {
+		it("should price items with the models selected by the session parameters", async () => {
+			marketManager = createMarketManager({ pricingModel: "demand", categoryPricingModels: { manga: "fixed" }, priceVolatility: 0 });
+			marketManager.initialize();
+			marketManager.recordPurchase("novel_volume1");
+			marketManager.recordPurchase("novel_volume1");
+			marketManager.recordPurchase("novel_volume1");
+			marketManager.recordPurchase("manga_volume1");
+
+			// Prices are calculated 100ms after initialization and every 3 seconds after that
+			await gameContext.advance(3000);
+			await gameContext.advance(3000);
+			await gameContext.advance(3000);
+			await gameContext.advance(3000);
+
+			// Demand-driven: 200 * (1 + 0.15 * demand), with demand fading by 0.8 per update
+			expect(getPrices("novel_volume1")).toEqual([290, 272, 257, 246]);
+			expect(getPrices("novel_volume2")).toEqual([200, 200, 200, 200]);
+			// Fixed by the category override despite the purchase
+			expect(getPrices("manga_volume1")).toEqual([100, 100, 100, 100]);
+		});
+
+		it("should resolve the models in the constructor", () => {
+			marketManager = createMarketManager({ pricingModel: "random_walk", categoryPricingModels: { novel: "fixed" } });
+
+			const [novel, manga] = getDefaultCatalogItems().filter(item => item.seriesNumber === 1);
+
+			expect(marketManager.getPricingModel(novel).type).toBe("fixed");
+			expect(marketManager.getPricingModel(manga).type).toBe("random_walk");
+		});
+	});
+});
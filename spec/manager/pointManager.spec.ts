@@ -0,0 +1,42 @@
+import { GameContext } from "../../src/data/gameContext";
+import { PointManager } from "../../src/manager/pointManager";
+
+describe("PointManager", () => {
+	let gameContext: GameContext;
+	let pointManager: PointManager;
+
+	beforeEach(() => {
+		gameContext = GameContext.createForTesting("player1", "ranking");
+		pointManager = new PointManager(gameContext, scene.game);
+	});
+
+	describe("revertToVerifiedScore", () => {
+		it("should set the score back to the verified score when the last change is rejected", () => {
+			pointManager.awardPoints(100, "ads", "Banner click", false);
+			pointManager.awardPoints(300, "tasks", "Unknown task", false);
+
+			const player = pointManager.revertToVerifiedScore({ playerId: "player1", score: 100, seq: 2, accepted: false });
+
+			expect(player.points).toBe(100);
+			expect(gameContext.currentPlayer.points).toBe(100);
+			expect(pointManager.getCurrentPoints()).toBe(100);
+		});
+
+		it("should keep changes made after the rejected one", () => {
+			pointManager.awardPoints(100, "ads", "Banner click", false);
+			pointManager.awardPoints(300, "tasks", "Unknown task", false);
+			pointManager.deductPoints(50, "shopping", "Purchase");
+
+			pointManager.revertToVerifiedScore({ playerId: "player1", score: 100, seq: 2, accepted: false });
+
+			expect(pointManager.getCurrentPoints()).toBe(50);
+		});
+
+		it("should keep the score if it already matches", () => {
+			pointManager.awardPoints(100, "ads", "Banner click", false);
+			const player = gameContext.currentPlayer;
+
+			expect(pointManager.revertToVerifiedScore({ playerId: "player1", score: 100, seq: 1, accepted: false })).toBe(player);
+		});
+	});
+});
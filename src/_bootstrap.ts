@@ -1,7 +1,9 @@
 // 通常このファイルを編集する必要はありません。ゲームの処理は main.js に記述してください
-import { main } from "./main";
+import { REPLAY_CONFIG } from "./config/replayConfig";
+import { createGameConfig } from "./data/gameConfig";
+import { main, replay } from "./main";
 
-export = () => {
+export = (param: g.GameMainParameterObject) => {
 	const vars: GameVars = {
 		gameState: {
 			score: 0
@@ -9,6 +11,16 @@ export = () => {
 	};
 	g.game.vars = vars;
 
+	// リプレイ再生時はセッションパラメーターを待たずに記録済みのセッションを再現します
+	const replayLog = param.args?.[REPLAY_CONFIG.GAME_ARGS_KEY];
+	if (typeof replayLog === "string") {
+		replay(replayLog);
+		return;
+	}
+
+	// QA 用に記録を有効にした場合のみセッションを記録します (g.game.vars.exportReplay() でログを取り出せます)
+	const recordReplay = param.args?.[REPLAY_CONFIG.RECORD_ARGS_KEY] === true;
+
 	const limitTickToWait = 3; // セッションパラメーターが来るまでに待つtick数
 
 	const scene = new g.Scene({
@@ -17,12 +29,13 @@ export = () => {
 	});
 	// セッションパラメーターを受け取ってゲームを開始します
 	scene.onMessage.add((msg) => {
-		if (msg.data && msg.data.type === "start" && msg.data.parameters?.totalTimeLimit) {
+		if (msg.data && msg.data.type === "start" && msg.data.parameters) {
 			if (msg.data.parameters.randomSeed != null) {
 				g.game.random = new g.XorshiftRandomGenerator(msg.data.parameters.randomSeed);
 			}
 			g.game.popScene();
-			main("ranking", msg.data.parameters.totalTimeLimit - 20);
+			// 不正な値は既定値に置き換えられるため、配信者が指定したルールで必ず開始できます
+			main(createGameConfig(msg.data.parameters, "ranking"), recordReplay);
 		}
 	});
 	scene.onLoad.add(() => {
@@ -32,7 +45,8 @@ export = () => {
 			// 待ち時間を超えた場合はゲームを開始します
 			if (currentTickCount > limitTickToWait) {
 				g.game.popScene();
-				main("multi", 100);
+				// マルチプレイでは全インスタンスで共通の g.game.random からシードを決め、同じタイムラインを配信します
+				main(createGameConfig({ randomSeed: Math.floor(g.game.random.generate() * 2147483647) }, "multi"), recordReplay);
 			}
 		});
 	});
@@ -12,6 +12,26 @@ export const AFFILIATE_CONFIG = {
 		MIN_PRICE_RATIO: 0.3,
 		/** Price volatility factor for time-based fluctuation (increased for more dramatic changes) */
 		VOLATILITY: 0.8,
+		/** Maximum price ratio relative to base price */
+		MAX_PRICE_RATIO: 3,
+		/** Number of past prices kept per item for price charts */
+		HISTORY_LENGTH: 20,
+		/** Mean-reverting random walk model */
+		RANDOM_WALK: {
+			/** Maximum step per update relative to base price */
+			STEP_RATIO: 0.2,
+			/** Share of the gap to the base price closed per update */
+			REVERSION_RATE: 0.3,
+		},
+		/** Demand-driven model */
+		DEMAND: {
+			/** Price increase per recent purchase relative to base price */
+			STEP_RATIO: 0.15,
+			/** Share of recent purchases kept per update */
+			DECAY_RATE: 0.8,
+			/** Random noise relative to base price */
+			NOISE_RATIO: 0.1,
+		},
 	},
 
 	/** Timeline configuration */
@@ -0,0 +1,44 @@
+/**
+ * Authority configuration constants
+ * Rules the active instance uses to validate point changes claimed by players in multi mode
+ */
+export const AUTHORITY_CONFIG = {
+	/** Point sources of one-time task rewards */
+	TASK_SOURCES: ["tasks", "task"],
+
+	/** Point source of the agreement reward (paid once per player) */
+	JOIN_SOURCE: "join",
+
+	/** Point source of affiliate rewards (must have been granted by the active instance) */
+	AFFILIATE_SOURCE: "affiliate",
+
+	/** Point source of shop and timeline purchases (checked against known prices) */
+	SHOPPING_SOURCE: "shopping",
+
+	/** Point source of item settlement (checked against the items the player owns) */
+	SETTLEMENT_SOURCE: "settlement",
+
+	/** Point source of ad banner rewards (a fixed reward per click) */
+	ADS_SOURCE: "ads",
+
+	/** Point source of login bonuses, gacha costs and gacha rewards (rewards must follow a paid draw) */
+	SOCIAL_GAME_SOURCE: "socialgame",
+
+	/** Point source of flea market payments, sales and refunds (sales and refunds must follow a trade the active instance saw) */
+	FLEA_MARKET_SOURCE: "fleamarket",
+
+	/** Point source of like and follow rewards (must follow a like or follow the active instance saw) */
+	SNS_SOURCE: "sns",
+
+	/** Point source of feed coupons (each coupon of the feed once, for its points, while it is offered) */
+	COUPON_SOURCE: "coupon",
+
+	/** Point source of point-back (bounded by the shopping payments matched with acquired items) */
+	POINT_BACK_SOURCE: "pointback",
+
+	/** Seconds a timed claim may be off, as it is timed by the player's instance before the message arrives */
+	CLOCK_TOLERANCE_SECONDS: 2,
+
+	/** Number of recent market price updates a purchase may have been priced at (prices change while a purchase is in flight) */
+	PRICE_TOLERANCE_UPDATES: 3,
+} as const;
@@ -0,0 +1,35 @@
+/**
+ * Campaign configuration constants
+ * Centralizes all sale-campaign-related configuration values
+ */
+export const CAMPAIGN_CONFIG = {
+	/** Number of campaigns scheduled per game */
+	COUNT: 3,
+
+	/** Elapsed game seconds before the first campaign starts */
+	FIRST_START_SECONDS: 20,
+
+	/** Delay before broadcasting the schedule so that other instances can set up listeners */
+	SCHEDULE_DELAY: 100,
+
+	/** Category discount: every item of one category is discounted */
+	CATEGORY_DISCOUNT: {
+		TITLE: "シリーズセール",
+		DISCOUNT_RATE: 0.3,
+		DURATION_SECONDS: 30,
+	},
+
+	/** Point-back multiplier: shop point back is multiplied */
+	POINT_BACK: {
+		TITLE: "ポイント還元キャンペーン",
+		MULTIPLIER: 1.5,
+		DURATION_SECONDS: 30,
+	},
+
+	/** Flash sale: one item is heavily discounted for a short time */
+	FLASH_SALE: {
+		TITLE: "タイムセール",
+		DISCOUNT_RATE: 0.5,
+		DURATION_SECONDS: 15,
+	},
+} as const;
@@ -0,0 +1,51 @@
+/**
+ * CPU player configuration constants
+ * Centralizes all CPU-player-related configuration values
+ */
+export const CPU_PLAYER_CONFIG = {
+	/** Sessions with fewer players than this are filled with CPU players */
+	MIN_PLAYERS: 4,
+
+	/** Interval between CPU action rounds in milliseconds */
+	ACTION_INTERVAL: 4000,
+
+	/** Delay before registering CPU players so that other instances can set up listeners */
+	REGISTRATION_DELAY: 100,
+
+	/** CPU player profiles, used in order */
+	PROFILES: [
+		{ name: "ポイ活ロボ", avatar: "🤖", behavior: "balanced" },
+		{ name: "アフィリ職人", avatar: "👾", behavior: "affiliator" },
+		{ name: "買い物上手", avatar: "🦾", behavior: "shopper" },
+	],
+
+	/** Behaviour profiles; chances are per action round */
+	BEHAVIORS: {
+		balanced: {
+			TASK_CHANCE: 0.3,
+			SHARE_CHANCE: 0.2,
+			BUY_CHANCE: 0.2,
+			PASSIVE_POINTS_MIN: 10,
+			PASSIVE_POINTS_MAX: 30,
+		},
+		affiliator: {
+			TASK_CHANCE: 0.3,
+			SHARE_CHANCE: 0.4,
+			BUY_CHANCE: 0.1,
+			PASSIVE_POINTS_MIN: 5,
+			PASSIVE_POINTS_MAX: 20,
+		},
+		shopper: {
+			TASK_CHANCE: 0.3,
+			SHARE_CHANCE: 0.1,
+			BUY_CHANCE: 0.4,
+			PASSIVE_POINTS_MIN: 10,
+			PASSIVE_POINTS_MAX: 40,
+		},
+	},
+} as const;
+
+/**
+ * CPU behaviour profile name
+ */
+export type CpuBehaviorType = keyof typeof CPU_PLAYER_CONFIG.BEHAVIORS;
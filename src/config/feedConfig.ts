@@ -0,0 +1,45 @@
+/**
+ * Feed configuration constants
+ * Centralizes the schedule and contents of the scripted brand posts pushed to the timeline
+ */
+export const FEED_CONFIG = {
+	/** Elapsed game seconds before the first feed post */
+	FIRST_POST_SECONDS: 10,
+
+	/** Shortest seconds between feed posts */
+	MIN_INTERVAL_SECONDS: 10,
+
+	/** Longest seconds between feed posts */
+	MAX_INTERVAL_SECONDS: 20,
+
+	/** Sale announcements linking to the shop */
+	SALE: {
+		AUTHOR_NAME: "🏪 ポイ活ストア公式",
+		WEIGHT: 2,
+		TEXT: "が好評発売中！ショップをチェック",
+		CAMPAIGN_TEXT: "開催中！ショップをチェック",
+		BUTTON_TEXT: "ショップへ",
+	},
+
+	/** Limited-time coupons granting points to each player who taps them before they expire */
+	COUPON: {
+		AUTHOR_NAME: "🎟️ クーポン速報",
+		WEIGHT: 2,
+		POINTS: [20, 30, 50],
+		DURATION_SECONDS: 15,
+		BUTTON_TEXT: "受け取る",
+	},
+
+	/** Hints on how to earn points, posted in order */
+	HINT: {
+		AUTHOR_NAME: "💡 ポイ活ヒント",
+		WEIGHT: 1,
+		MESSAGES: [
+			"セール中の商品は安く買えるチャンス！タイムセールを見逃さないで",
+			"同じシリーズの商品を揃えると精算時にボーナスがもらえます",
+			"ポイント還元キャンペーン中はショップのポイントバックが増えます",
+			"シェアした商品が購入されるとアフィリエイト報酬がもらえます",
+			"期間限定ミッションをクリアしてボーナスポイントを獲得しよう",
+		],
+	},
+} as const;
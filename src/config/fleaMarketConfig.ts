@@ -0,0 +1,17 @@
+/**
+ * Flea market configuration constants
+ * Centralizes all flea-market-related configuration values
+ */
+export const FLEA_MARKET_CONFIG = {
+	/** Selectable listing price ratios relative to the item's purchase price */
+	PRICE_RATIOS: [0.5, 1, 1.5],
+
+	/** Minimum listing price */
+	MIN_PRICE: 10,
+
+	/** Maximum listing price ratio relative to the item's purchase price */
+	MAX_PRICE_RATIO: 3,
+
+	/** Maximum number of active listings per player */
+	MAX_ACTIVE_LISTINGS_PER_PLAYER: 5,
+} as const;
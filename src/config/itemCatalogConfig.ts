@@ -0,0 +1,47 @@
+/**
+ * Item catalog configuration
+ * Defines item categories (series) and their items; new series can be added here
+ * without touching ItemManager, settlement entities or collection tasks
+ */
+export const ITEM_CATALOG_CONFIG = {
+	/** Item categories in display order */
+	CATEGORIES: [
+		{
+			id: "novel",
+			name: "小説シリーズ",
+			shortName: "小説",
+			description: "上巻・下巻の2冊セット",
+			emoji: "📖",
+			/** Icon of the collection task for this series */
+			collectionIcon: "📚",
+			/** Reward points of the collection task for this series */
+			collectionReward: 1000,
+			purchasePrice: 200,
+			individualPrice: 150,
+			setPrice: 1000,
+			items: [
+				{ id: "novel_volume1", name: "小説 上巻" },
+				{ id: "novel_volume2", name: "小説 下巻" },
+			],
+		},
+		{
+			id: "manga",
+			name: "マンガシリーズ",
+			shortName: "マンガ",
+			description: "1巻〜5巻の5冊セット",
+			emoji: "📚",
+			collectionIcon: "📖",
+			collectionReward: 2500,
+			purchasePrice: 100,
+			individualPrice: 50,
+			setPrice: 2500,
+			items: [
+				{ id: "manga_volume1", name: "マンガ 1巻" },
+				{ id: "manga_volume2", name: "マンガ 2巻" },
+				{ id: "manga_volume3", name: "マンガ 3巻" },
+				{ id: "manga_volume4", name: "マンガ 4巻" },
+				{ id: "manga_volume5", name: "マンガ 5巻" },
+			],
+		},
+	],
+} as const;
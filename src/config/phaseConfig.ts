@@ -0,0 +1,42 @@
+/**
+ * Phase progression configuration
+ * Defines how features are unlocked one after another (次々と解禁される機能) without touching HomeE or TaskManager
+ */
+export const PHASE_CONFIG = {
+	/**
+	 * Phases after the tutorial in the order they are entered
+	 * A phase is entered once the previous one was entered and its conditions hold; time-up moves the game to settlement regardless.
+	 * completedTasks: task IDs the player must have completed, elapsedSeconds: game seconds that must have passed,
+	 * banners: ad banners enabled (true) or disabled (false) on entry, unlocks: features unlocked in the phase,
+	 * each once its own completedTasks are completed as well
+	 */
+	PHASES: [
+		{
+			phase: "basic",
+			completedTasks: [],
+			elapsedSeconds: 0,
+			banners: {},
+			unlocks: [
+				{ feature: "timeline", completedTasks: ["sns"], banners: { sns_recommend: false } },
+			],
+		},
+		{
+			phase: "shopping",
+			completedTasks: ["shopping"],
+			elapsedSeconds: 0,
+			banners: { shopping_recommend: false },
+			unlocks: [
+				{ feature: "shop", completedTasks: [], banners: {} },
+			],
+		},
+		{
+			phase: "advanced",
+			completedTasks: ["share"],
+			elapsedSeconds: 0,
+			banners: {},
+			unlocks: [
+				{ feature: "fleaMarket", completedTasks: [], banners: {} },
+			],
+		},
+	],
+} as const;
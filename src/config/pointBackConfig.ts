@@ -0,0 +1,23 @@
+/**
+ * Point-back configuration constants
+ * Centralizes all point-back-related configuration values
+ */
+export const POINT_BACK_CONFIG = {
+	/** Point source under which point-back is recorded */
+	SOURCE: "pointback",
+
+	/** Point-back rate applied when no category or item rate is configured */
+	DEFAULT_RATE: 0.5,
+
+	/** Point-back rates by item category ID (override the default rate) */
+	CATEGORY_RATES: {} as Record<string, number>,
+
+	/** Point-back rates by item ID (override category rates) */
+	ITEM_RATES: {} as Record<string, number>,
+
+	/** Upper bound of the rate after campaign multipliers */
+	MAX_RATE: 1,
+
+	/** Seconds until pending point-back is paid (0 pays immediately); pending points are lost if the game ends first */
+	MATURITY_SECONDS: 20,
+} as const;
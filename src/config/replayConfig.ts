@@ -0,0 +1,17 @@
+/**
+ * Replay configuration constants
+ * Recording of sessions so that QA can reproduce desync and scoring bugs in a headless game
+ */
+export const REPLAY_CONFIG = {
+	/** Key of the game argument that turns recording on (sessions are not recorded without it) */
+	RECORD_ARGS_KEY: "recordReplay",
+
+	/** Maximum number of recorded entries (later entries are dropped to bound memory use) */
+	MAX_ENTRIES: 50000,
+
+	/** Version of the exported log format (logs of other versions cannot be played back) */
+	FORMAT_VERSION: 3,
+
+	/** Key of the game argument carrying a log to play back */
+	GAME_ARGS_KEY: "replayLog",
+} as const;
@@ -0,0 +1,58 @@
+/**
+ * Session configuration constants
+ * Defaults and valid ranges of the session parameters a launcher can pass to customize a round
+ */
+export const SESSION_CONFIG = {
+	/** Session length in seconds when the launcher does not give one */
+	DEFAULT_TOTAL_TIME_LIMIT: 120,
+
+	/** Seconds of the session used by the title and ranking scenes rather than play */
+	RESERVED_TIME: 20,
+
+	/** Shortest play time in seconds (sessions too short for it play what remains after the reserved time) */
+	MIN_PLAY_TIME: 30,
+
+	/** Longest play time in seconds */
+	MAX_PLAY_TIME: 600,
+
+	/** Difficulty used when the launcher does not give one */
+	DEFAULT_DIFFICULTY: "normal",
+
+	/** Difficulty presets; explicit CPU count and price volatility parameters override them */
+	DIFFICULTIES: {
+		easy: {
+			CPU_COUNT: 1,
+			PRICE_VOLATILITY: 0.5,
+		},
+		normal: {
+			CPU_COUNT: 3,
+			PRICE_VOLATILITY: 1,
+		},
+		hard: {
+			CPU_COUNT: 3,
+			PRICE_VOLATILITY: 1.5,
+		},
+	},
+
+	/** Pricing model used when the launcher does not give one ("volatile", "random_walk", "demand" or "fixed") */
+	DEFAULT_PRICING_MODEL: "volatile",
+
+	/** Largest price volatility scale (1 keeps the configured pricing models as they are) */
+	MAX_PRICE_VOLATILITY: 2,
+
+	/** Seed of the scripted timeline feed when the launcher does not give a random seed */
+	DEFAULT_SEED: 1,
+
+	/** Apps a launcher can turn off; profile, shop and settlement apps are required to play */
+	OPTIONAL_APPS: ["socialGame", "fleaMarket"],
+} as const;
+
+/**
+ * Difficulty preset name
+ */
+export type Difficulty = keyof typeof SESSION_CONFIG.DIFFICULTIES;
+
+/**
+ * Identifier of an app a launcher can turn off
+ */
+export type OptionalAppId = typeof SESSION_CONFIG.OPTIONAL_APPS[number];
@@ -0,0 +1,20 @@
+/**
+ * SNS configuration constants
+ * Centralizes rewards of likes and follows on the timeline
+ */
+export const SNS_CONFIG = {
+	/** Points for liking a post (once per post) */
+	LIKE_REWARD: 5,
+
+	/** Points for the author of a post for every like received */
+	LIKED_REWARD: 10,
+
+	/** Points for following a player (once per player) */
+	FOLLOW_REWARD: 20,
+
+	/** Points for the followed player for every new follower */
+	FOLLOWED_REWARD: 30,
+
+	/** Author ID of the guide and feed posts, which are not written by any player */
+	GUIDE_AUTHOR_ID: "guide",
+} as const;
@@ -0,0 +1,26 @@
+/**
+ * Social game configuration constants
+ * Centralizes all login bonus and gacha configuration values
+ */
+export const SOCIAL_GAME_CONFIG = {
+	/** Login bonus configuration */
+	LOGIN_BONUS: {
+		/** Points awarded per login bonus claim */
+		REWARD: 30,
+		/** Seconds of game time before the next login bonus can be claimed */
+		INTERVAL_SECONDS: 20,
+	},
+
+	/** Gacha configuration */
+	GACHA: {
+		/** Points spent per gacha draw */
+		COST: 50,
+		/** Reward table; weights are relative draw chances (the expected reward stays below the cost, so drawing never farms points) */
+		REWARDS: [
+			{ id: "gacha_n", rarity: "N", name: "ハズレ", emoji: "🪨", points: 10, weight: 50 },
+			{ id: "gacha_r", rarity: "R", name: "コイン", emoji: "🪙", points: 40, weight: 30 },
+			{ id: "gacha_sr", rarity: "SR", name: "ジュエル", emoji: "💎", points: 100, weight: 15 },
+			{ id: "gacha_ssr", rarity: "SSR", name: "王冠", emoji: "👑", points: 300, weight: 5 },
+		],
+	},
+} as const;
@@ -0,0 +1,57 @@
+/**
+ * Task configuration constants
+ * Centralizes targets of progress-style tasks and the schedule of time-limited missions
+ */
+export const TASK_CONFIG = {
+	/** Number of items to buy for the purchase task */
+	PURCHASE_TARGET: 3,
+
+	/** Points to hold at once for the points task */
+	POINTS_TARGET: 1000,
+
+	/** Elapsed game seconds before the first mission appears */
+	MISSION_FIRST_SECONDS: 30,
+
+	/** Seconds between mission appearances */
+	MISSION_INTERVAL_SECONDS: 30,
+
+	/**
+	 * Missions offered in turn until the game ends
+	 * A mission is skipped while its required task is not completed, and expires after its duration
+	 */
+	MISSIONS: [
+		{
+			ID: "quickPurchase",
+			ICON: "⏱️",
+			TITLE: "20秒以内に商品を2つ購入する",
+			EVENT: "itemPurchased",
+			TARGET: 2,
+			ON_SALE: false,
+			DURATION_SECONDS: 20,
+			REWARD: 120,
+			REQUIRED_TASK: "shopping",
+		},
+		{
+			ID: "salePurchase",
+			ICON: "🔥",
+			TITLE: "セール中の商品を購入する",
+			EVENT: "itemPurchased",
+			TARGET: 1,
+			ON_SALE: true,
+			DURATION_SECONDS: 30,
+			REWARD: 100,
+			REQUIRED_TASK: "shopping",
+		},
+		{
+			ID: "quickShare",
+			ICON: "📢",
+			TITLE: "30秒以内に商品を2回シェアする",
+			EVENT: "postShared",
+			TARGET: 2,
+			ON_SALE: false,
+			DURATION_SECONDS: 30,
+			REWARD: 150,
+			REQUIRED_TASK: "share",
+		},
+	],
+} as const;
@@ -27,3 +27,27 @@ export interface AffiliatePurchaseMessage {
 	/** Reward points for the sharer */
 	rewardPoints: number;
 }
+
+/**
+ * Message interface for broadcasting that a shared post was shown on a player's timeline
+ */
+export interface AffiliateImpressionMessage {
+	/** ID of the shown post */
+	postId: string;
+	/** ID of the player whose timeline showed the post */
+	playerId: string;
+	/** ID of the player who shared the post */
+	sharerId: string;
+}
+
+/**
+ * Message interface for broadcasting that a player tapped the buy button of a shared post
+ */
+export interface AffiliateClickMessage {
+	/** ID of the tapped post */
+	postId: string;
+	/** ID of the player who tapped the buy button */
+	playerId: string;
+	/** ID of the player who shared the post */
+	sharerId: string;
+}
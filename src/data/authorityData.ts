@@ -0,0 +1,406 @@
+import { AFFILIATE_CONFIG } from "../config/affiliateConfig";
+import { AUTHORITY_CONFIG } from "../config/authorityConfig";
+import { POINT_BACK_CONFIG } from "../config/pointBackConfig";
+import { SOCIAL_GAME_CONFIG } from "../config/socialGameConfig";
+import { CompactPointTransaction, POINT_CONSTANTS } from "../manager/pointManager";
+import { applyDiscountRate } from "./campaignData";
+import { FeedPostData } from "./feedPostData";
+import { ItemData } from "./itemData";
+import { getMissionTaskMissionId, getMissionTaskRound, getTaskMetadata } from "./taskConstants";
+import { createMissionTask, getDefaultMissions, getMissionRound, getRoundMission } from "./taskData";
+
+/**
+ * Authoritative record of a player's points kept by the active instance
+ */
+export interface PlayerLedger {
+	/** Player ID */
+	playerId: string;
+	/** Score made of accepted transactions only */
+	verifiedScore: number;
+	/** Sequence number of the last processed transaction */
+	lastSeq: number;
+	/** Tasks the player announced as completed */
+	completedTaskIds: string[];
+	/** Completed tasks whose reward has been accepted */
+	rewardedTaskIds: string[];
+	/** Whether the agreement reward has been accepted */
+	joinRewarded: boolean;
+	/** Whether the settlement has been accepted */
+	settled: boolean;
+	/** Affiliate rewards granted by the active instance but not claimed yet */
+	affiliateCredit: number;
+	/** Shopping payments not yet matched with an acquired item, oldest first */
+	unmatchedPayments: number[];
+	/** Point-back the matched shopping payments may still pay */
+	pointBackAllowance: number;
+	/** Gacha draws paid but not rewarded yet */
+	pendingGachaDraws: number;
+	/** Elapsed game seconds of the last accepted login bonus */
+	lastLoginBonusAt?: number;
+	/** Flea market sales and refunds of rejected purchases not claimed yet */
+	fleaMarketCredits: number[];
+	/** Flea market purchases whose item has not arrived yet, refundable if it never does */
+	fleaMarketDeliveries: FleaMarketDelivery[];
+	/** Rewards of likes and follows the active instance saw but not claimed yet */
+	snsCredits: number[];
+	/** Feed coupons already claimed */
+	claimedCouponIds: string[];
+}
+
+/**
+ * Flea market purchase awaiting delivery of its item
+ */
+export interface FleaMarketDelivery {
+	/** ID of the bought item */
+	itemId: string;
+	/** Price paid */
+	price: number;
+}
+
+/**
+ * State of the game a claimed transaction is validated against
+ */
+export interface ClaimContext {
+	/** Settlement value of the items the player owns */
+	maxSettlementValue: number;
+	/** Elapsed game seconds when the claim arrived */
+	elapsedSeconds: number;
+	/** Coupon posts of the feed */
+	coupons: FeedPostData[];
+}
+
+/**
+ * Result of validating a claimed transaction
+ */
+export interface TransactionVerdict {
+	/** Ledger after the transaction */
+	ledger: PlayerLedger;
+	/** Whether the transaction counts towards the verified score */
+	accepted: boolean;
+	/** Why the transaction was rejected */
+	reason?: string;
+}
+
+/**
+ * Creates an empty ledger for a player
+ * @param playerId Player ID
+ */
+export function createPlayerLedger(playerId: string): PlayerLedger {
+	return {
+		playerId: playerId,
+		verifiedScore: POINT_CONSTANTS.INITIAL_POINTS,
+		lastSeq: 0,
+		completedTaskIds: [],
+		rewardedTaskIds: [],
+		joinRewarded: false,
+		settled: false,
+		affiliateCredit: 0,
+		unmatchedPayments: [],
+		pointBackAllowance: 0,
+		pendingGachaDraws: 0,
+		fleaMarketCredits: [],
+		fleaMarketDeliveries: [],
+		snsCredits: [],
+		claimedCouponIds: []
+	};
+}
+
+/**
+ * Gets the reward of a task
+ * @param taskId Task ID
+ * @returns Reward points, or undefined for unknown tasks
+ */
+export function getTaskReward(taskId: string): number | undefined {
+	return getTaskMetadata(taskId)?.rewardPoints;
+}
+
+/**
+ * Calculates the affiliate reward of a purchase through a shared post
+ * @param sharedPrice Price at which the item was shared
+ */
+export function calculateAffiliateReward(sharedPrice: number): number {
+	return Math.floor(sharedPrice * AFFILIATE_CONFIG.REWARD_RATE);
+}
+
+/**
+ * Gets the lowest price a player may legitimately have paid for an item
+ * @param item Purchased item
+ * @param recentPrices Recent market prices of the item
+ * @param sharedPrices Prices at which the item was shared on the timeline
+ * @param discountRate Campaign discount rate applying to the item
+ */
+export function getMinAcceptablePrice(item: ItemData, recentPrices: number[], sharedPrices: number[], discountRate: number): number {
+	const marketPrices = recentPrices.length > 0
+		? recentPrices
+		: [Math.floor(item.purchasePrice * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO)];
+	return applyDiscountRate(Math.min(...marketPrices, ...sharedPrices), discountRate);
+}
+
+/**
+ * Records a task completion announced by a player
+ * @param ledger Player ledger
+ * @param taskId Completed task ID
+ * @param elapsedSeconds Elapsed game seconds when the completion arrived
+ * @returns Updated ledger (unchanged for unknown, already completed, not yet offered or expired tasks)
+ */
+export function recordLedgerTaskCompletion(ledger: PlayerLedger, taskId: string, elapsedSeconds: number): PlayerLedger {
+	if (getTaskReward(taskId) === undefined || ledger.completedTaskIds.indexOf(taskId) >= 0
+		|| !isMissionTaskOpen(ledger, taskId, elapsedSeconds)) {
+		return ledger;
+	}
+	return { ...ledger, completedTaskIds: [...ledger.completedTaskIds, taskId] };
+}
+
+/**
+ * Checks that a mission task has been offered to the player and has not expired
+ * Tasks other than missions are always open
+ */
+function isMissionTaskOpen(ledger: PlayerLedger, taskId: string, elapsedSeconds: number): boolean {
+	const missionId = getMissionTaskMissionId(taskId);
+	if (missionId === undefined) {
+		return true;
+	}
+
+	const round = getMissionTaskRound(taskId);
+	if (round === undefined || round > getMissionRound(elapsedSeconds)) {
+		return false;
+	}
+
+	const mission = getRoundMission(getDefaultMissions(), round);
+	const task = createMissionTask(mission, round);
+	return mission.id === missionId
+		&& ledger.completedTaskIds.indexOf(mission.requiredTaskId) >= 0
+		&& elapsedSeconds <= task.expiresAt! + AUTHORITY_CONFIG.CLOCK_TOLERANCE_SECONDS;
+}
+
+/**
+ * Adds an affiliate reward granted by the active instance
+ * @param ledger Sharer's ledger
+ * @param rewardPoints Granted reward
+ */
+export function grantAffiliateCredit(ledger: PlayerLedger, rewardPoints: number): PlayerLedger {
+	return { ...ledger, affiliateCredit: ledger.affiliateCredit + rewardPoints };
+}
+
+/**
+ * Adds a flea market sale or a refund of a rejected purchase owed to a player
+ * @param ledger Player's ledger
+ * @param amount Owed points
+ */
+export function grantFleaMarketCredit(ledger: PlayerLedger, amount: number): PlayerLedger {
+	return { ...ledger, fleaMarketCredits: [...ledger.fleaMarketCredits, amount] };
+}
+
+/**
+ * Adds the reward of a like or follow owed to a player
+ * @param ledger Player's ledger
+ * @param amount Owed points
+ */
+export function grantSnsCredit(ledger: PlayerLedger, amount: number): PlayerLedger {
+	return { ...ledger, snsCredits: [...ledger.snsCredits, amount] };
+}
+
+/**
+ * Records a flea market purchase whose item is to be delivered to the buyer
+ * @param ledger Buyer's ledger
+ * @param delivery Bought item and price
+ */
+export function recordFleaMarketDelivery(ledger: PlayerLedger, delivery: FleaMarketDelivery): PlayerLedger {
+	return { ...ledger, fleaMarketDeliveries: [...ledger.fleaMarketDeliveries, delivery] };
+}
+
+/**
+ * Matches an acquired item with a flea market purchase awaiting delivery, which can no longer be refunded
+ * @param ledger Buyer's ledger
+ * @param itemId Acquired item ID
+ * @returns Updated ledger, or undefined when no purchase of the item awaits delivery
+ */
+export function matchFleaMarketDelivery(ledger: PlayerLedger, itemId: string): PlayerLedger | undefined {
+	const index = ledger.fleaMarketDeliveries.findIndex(delivery => delivery.itemId === itemId);
+	if (index < 0) {
+		return undefined;
+	}
+	return { ...ledger, fleaMarketDeliveries: ledger.fleaMarketDeliveries.filter((_, i) => i !== index) };
+}
+
+/**
+ * Matches the oldest unmatched shopping payment with an acquired item
+ * Underpaid purchases are charged the shortfall; the payment allows point-back of up to the maximum rate
+ * @param ledger Buyer's ledger
+ * @param minPrice Lowest acceptable price of the acquired item
+ * @returns Updated ledger and the charged shortfall (0 when paid in full or no payment was waiting)
+ */
+export function matchLedgerPayment(ledger: PlayerLedger, minPrice: number): { ledger: PlayerLedger; shortfall: number } {
+	if (ledger.unmatchedPayments.length === 0) {
+		return { ledger, shortfall: 0 };
+	}
+
+	const [paid, ...unmatchedPayments] = ledger.unmatchedPayments;
+	const shortfall = Math.max(0, minPrice - paid);
+	return {
+		ledger: {
+			...ledger,
+			verifiedScore: ledger.verifiedScore - shortfall,
+			unmatchedPayments,
+			pointBackAllowance: ledger.pointBackAllowance + Math.floor(paid * POINT_BACK_CONFIG.MAX_RATE)
+		},
+		shortfall
+	};
+}
+
+/**
+ * Validates a transaction claimed by a player and applies it to the verified score when accepted
+ * Transactions must follow the last processed one; gaps and replays are rejected without consuming a sequence number
+ * Sources without rules are rejected
+ * @param ledger Player ledger
+ * @param transaction Claimed transaction
+ * @param context State of the game when the claim arrived
+ */
+export function applyClaimedTransaction(
+	ledger: PlayerLedger,
+	transaction: CompactPointTransaction,
+	context: ClaimContext
+): TransactionVerdict {
+	if (transaction.seq !== ledger.lastSeq + 1) {
+		return { ledger, accepted: false, reason: `expected transaction ${ledger.lastSeq + 1} but got ${transaction.seq}` };
+	}
+
+	const validated = validateTransaction({ ...ledger, lastSeq: transaction.seq }, transaction, context);
+	if (validated.reason !== undefined) {
+		return { ledger: validated.ledger, accepted: false, reason: validated.reason };
+	}
+
+	return {
+		ledger: { ...validated.ledger, verifiedScore: validated.ledger.verifiedScore + transaction.amount },
+		accepted: true
+	};
+}
+
+/**
+ * Checks a transaction against the rules of its source
+ * @returns Ledger with the rule state consumed, and the rejection reason if any
+ */
+function validateTransaction(
+	ledger: PlayerLedger,
+	transaction: CompactPointTransaction,
+	context: ClaimContext
+): { ledger: PlayerLedger; reason?: string } {
+	const amount = transaction.amount;
+	const source = transaction.source;
+
+	if ((AUTHORITY_CONFIG.TASK_SOURCES as readonly string[]).indexOf(source) >= 0) {
+		const taskId = ledger.completedTaskIds.find(id =>
+			ledger.rewardedTaskIds.indexOf(id) < 0 && getTaskReward(id) === amount);
+		if (taskId === undefined) {
+			return { ledger, reason: `no completed task rewards ${amount}pt` };
+		}
+		return { ledger: { ...ledger, rewardedTaskIds: [...ledger.rewardedTaskIds, taskId] } };
+	}
+
+	switch (source) {
+		case AUTHORITY_CONFIG.JOIN_SOURCE:
+			if (ledger.joinRewarded || amount !== POINT_CONSTANTS.TASK_AGREEMENT_REWARD) {
+				return { ledger, reason: "agreement reward is paid once" };
+			}
+			return { ledger: { ...ledger, joinRewarded: true } };
+		case AUTHORITY_CONFIG.AFFILIATE_SOURCE:
+			if (amount <= 0 || amount > ledger.affiliateCredit) {
+				return { ledger, reason: `affiliate reward of ${amount}pt was not granted` };
+			}
+			return { ledger: { ...ledger, affiliateCredit: ledger.affiliateCredit - amount } };
+		case AUTHORITY_CONFIG.SHOPPING_SOURCE:
+			if (amount >= 0) {
+				return { ledger, reason: "shopping can only spend points" };
+			}
+			return { ledger: { ...ledger, unmatchedPayments: [...ledger.unmatchedPayments, -amount] } };
+		case AUTHORITY_CONFIG.SETTLEMENT_SOURCE:
+			if (ledger.settled || amount > context.maxSettlementValue) {
+				return { ledger, reason: `settlement of ${amount}pt exceeds owned items` };
+			}
+			return { ledger: { ...ledger, settled: true } };
+		case AUTHORITY_CONFIG.ADS_SOURCE:
+			if (amount !== POINT_CONSTANTS.AD_BANNER_CLICK_REWARD) {
+				return { ledger, reason: `ad banners reward ${POINT_CONSTANTS.AD_BANNER_CLICK_REWARD}pt, not ${amount}pt` };
+			}
+			return { ledger };
+		case AUTHORITY_CONFIG.SOCIAL_GAME_SOURCE:
+			return validateSocialGameTransaction(ledger, amount, context.elapsedSeconds);
+		case AUTHORITY_CONFIG.FLEA_MARKET_SOURCE:
+			return validateFleaMarketTransaction(ledger, amount);
+		case AUTHORITY_CONFIG.SNS_SOURCE: {
+			const creditIndex = ledger.snsCredits.indexOf(amount);
+			if (creditIndex < 0) {
+				return { ledger, reason: `no like or follow rewards ${amount}pt` };
+			}
+			return { ledger: { ...ledger, snsCredits: ledger.snsCredits.filter((_, i) => i !== creditIndex) } };
+		}
+		case AUTHORITY_CONFIG.COUPON_SOURCE: {
+			const coupon = context.coupons.find(post => post.couponPoints === amount && ledger.claimedCouponIds.indexOf(post.id) < 0
+				&& post.publishAt <= context.elapsedSeconds
+				&& context.elapsedSeconds < post.expiresAt! + AUTHORITY_CONFIG.CLOCK_TOLERANCE_SECONDS);
+			if (!coupon) {
+				return { ledger, reason: `no offered coupon gives ${amount}pt` };
+			}
+			return { ledger: { ...ledger, claimedCouponIds: [...ledger.claimedCouponIds, coupon.id] } };
+		}
+		case AUTHORITY_CONFIG.POINT_BACK_SOURCE:
+			if (amount <= 0 || amount > ledger.pointBackAllowance) {
+				return { ledger, reason: `point-back of ${amount}pt exceeds matched purchases` };
+			}
+			return { ledger: { ...ledger, pointBackAllowance: ledger.pointBackAllowance - amount } };
+		default:
+			return { ledger, reason: `unknown source ${source}` };
+	}
+}
+
+/**
+ * Checks a gacha cost, a gacha reward following a paid draw, or a login bonus claimed once per interval
+ */
+function validateSocialGameTransaction(
+	ledger: PlayerLedger,
+	amount: number,
+	elapsedSeconds: number
+): { ledger: PlayerLedger; reason?: string } {
+	if (amount === -SOCIAL_GAME_CONFIG.GACHA.COST) {
+		return { ledger: { ...ledger, pendingGachaDraws: ledger.pendingGachaDraws + 1 } };
+	}
+
+	const isGachaReward = SOCIAL_GAME_CONFIG.GACHA.REWARDS.some(reward => reward.points === amount);
+	if (ledger.pendingGachaDraws > 0 && isGachaReward) {
+		return { ledger: { ...ledger, pendingGachaDraws: ledger.pendingGachaDraws - 1 } };
+	}
+
+	if (amount === SOCIAL_GAME_CONFIG.LOGIN_BONUS.REWARD) {
+		const nextClaimAt = ledger.lastLoginBonusAt === undefined
+			? 0
+			: ledger.lastLoginBonusAt + SOCIAL_GAME_CONFIG.LOGIN_BONUS.INTERVAL_SECONDS - AUTHORITY_CONFIG.CLOCK_TOLERANCE_SECONDS;
+		if (elapsedSeconds < nextClaimAt) {
+			return { ledger, reason: "login bonus claimed before its interval" };
+		}
+		return { ledger: { ...ledger, lastLoginBonusAt: elapsedSeconds } };
+	}
+
+	return { ledger, reason: `no paid gacha draw rewards ${amount}pt` };
+}
+
+/**
+ * Checks a flea market payment, or a sale or refund owed by a trade the active instance saw
+ */
+function validateFleaMarketTransaction(ledger: PlayerLedger, amount: number): { ledger: PlayerLedger; reason?: string } {
+	if (amount < 0) {
+		return { ledger };
+	}
+
+	const creditIndex = ledger.fleaMarketCredits.indexOf(amount);
+	if (creditIndex >= 0) {
+		return { ledger: { ...ledger, fleaMarketCredits: ledger.fleaMarketCredits.filter((_, i) => i !== creditIndex) } };
+	}
+
+	// Purchases whose item could not be delivered are refunded by the buyer's instance
+	const deliveryIndex = ledger.fleaMarketDeliveries.findIndex(delivery => delivery.price === amount);
+	if (deliveryIndex >= 0) {
+		return { ledger: { ...ledger, fleaMarketDeliveries: ledger.fleaMarketDeliveries.filter((_, i) => i !== deliveryIndex) } };
+	}
+
+	return { ledger, reason: `no flea market trade owes ${amount}pt` };
+}
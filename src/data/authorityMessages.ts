@@ -0,0 +1,13 @@
+/**
+ * Message interface for broadcasting a player's score verified by the active instance
+ */
+export interface ScoreVerifiedMessage {
+	/** ID of the player whose score was verified */
+	playerId: string;
+	/** Score made of accepted transactions only */
+	score: number;
+	/** Sequence number of the transaction that was validated */
+	seq: number;
+	/** Whether the transaction was accepted */
+	accepted: boolean;
+}
@@ -0,0 +1,151 @@
+import { CAMPAIGN_CONFIG } from "../config/campaignConfig";
+import { getCategoryIds, getItemCategoryInfo, ItemData } from "./itemData";
+
+/**
+ * Kinds of sale campaigns
+ */
+export type CampaignType = "category_discount" | "point_back" | "flash_sale";
+
+/**
+ * Time-boxed sale campaign on the game timeline
+ */
+export interface CampaignData {
+	/** Unique campaign ID */
+	id: string;
+	/** Kind of campaign */
+	type: CampaignType;
+	/** Display title */
+	title: string;
+	/** Elapsed game seconds when the campaign starts */
+	startAt: number;
+	/** Elapsed game seconds when the campaign ends (exclusive) */
+	endAt: number;
+	/** Target category (category discount only) */
+	categoryId?: string;
+	/** Target item (flash sale only) */
+	itemId?: string;
+	/** Price discount rate (0 for point-back campaigns) */
+	discountRate: number;
+	/** Shop point-back multiplier (1 for discount campaigns) */
+	pointBackMultiplier: number;
+}
+
+/**
+ * Checks if a campaign is running at the given elapsed time
+ * @param campaign Campaign to check
+ * @param elapsedSeconds Elapsed game seconds
+ */
+export function isCampaignActive(campaign: CampaignData, elapsedSeconds: number): boolean {
+	return campaign.startAt <= elapsedSeconds && elapsedSeconds < campaign.endAt;
+}
+
+/**
+ * Checks if an item is discounted by a campaign
+ * @param campaign Campaign to check
+ * @param item Item to check
+ */
+export function isCampaignTarget(campaign: CampaignData, item: ItemData): boolean {
+	switch (campaign.type) {
+		case "category_discount":
+			return campaign.categoryId === item.category;
+		case "flash_sale":
+			return campaign.itemId === item.id;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Gets the largest discount rate applying to an item
+ * @param campaigns Currently active campaigns
+ * @param item Item to check
+ * @returns Discount rate (0 if no campaign targets the item)
+ */
+export function getCampaignDiscountRate(campaigns: CampaignData[], item: ItemData): number {
+	return campaigns
+		.filter(campaign => isCampaignTarget(campaign, item))
+		.reduce((rate, campaign) => Math.max(rate, campaign.discountRate), 0);
+}
+
+/**
+ * Applies a discount rate to a price
+ * @param price Original price
+ * @param discountRate Discount rate between 0 and 1
+ * @returns Discounted price (at least 1)
+ */
+export function applyDiscountRate(price: number, discountRate: number): number {
+	if (discountRate <= 0) {
+		return price;
+	}
+	return Math.max(1, Math.floor(price * (1 - discountRate)));
+}
+
+/**
+ * Gets a short summary of a campaign's effect for announcements
+ * @param campaign Campaign to summarize
+ */
+export function getCampaignSummary(campaign: CampaignData): string {
+	if (campaign.type === "point_back") {
+		return `ポイントバック${campaign.pointBackMultiplier}倍`;
+	}
+	return `${Math.round(campaign.discountRate * 100)}%OFF`;
+}
+
+/**
+ * Creates a campaign schedule spread over the game timeline
+ * @param random Random generator deciding campaign kinds and targets
+ * @param totalSeconds Total game time in seconds
+ * @param items Catalog items that can be discounted
+ * @returns Campaigns in start order
+ */
+export function createCampaignSchedule(random: g.RandomGenerator, totalSeconds: number, items: ItemData[]): CampaignData[] {
+	const types: CampaignType[] = ["category_discount", "point_back", "flash_sale"];
+	const categoryIds = getCategoryIds(items);
+	const campaigns: CampaignData[] = [];
+	const slotSeconds = Math.max(0, totalSeconds - CAMPAIGN_CONFIG.FIRST_START_SECONDS) / CAMPAIGN_CONFIG.COUNT;
+
+	for (let i = 0; i < CAMPAIGN_CONFIG.COUNT; i++) {
+		const type = types[Math.floor(random.generate() * types.length)];
+		const startAt = CAMPAIGN_CONFIG.FIRST_START_SECONDS + Math.floor(i * slotSeconds);
+		const id = `campaign_${i + 1}`;
+
+		if (type === "category_discount" && categoryIds.length > 0) {
+			const categoryId = categoryIds[Math.floor(random.generate() * categoryIds.length)];
+			const categoryName = getItemCategoryInfo(categoryId)?.name ?? categoryId;
+			campaigns.push({
+				id,
+				type,
+				title: `${categoryName}${CAMPAIGN_CONFIG.CATEGORY_DISCOUNT.TITLE}`,
+				startAt,
+				endAt: Math.min(totalSeconds, startAt + CAMPAIGN_CONFIG.CATEGORY_DISCOUNT.DURATION_SECONDS),
+				categoryId,
+				discountRate: CAMPAIGN_CONFIG.CATEGORY_DISCOUNT.DISCOUNT_RATE,
+				pointBackMultiplier: 1
+			});
+		} else if (type === "flash_sale" && items.length > 0) {
+			const item = items[Math.floor(random.generate() * items.length)];
+			campaigns.push({
+				id,
+				type,
+				title: `${item.name} ${CAMPAIGN_CONFIG.FLASH_SALE.TITLE}`,
+				startAt,
+				endAt: Math.min(totalSeconds, startAt + CAMPAIGN_CONFIG.FLASH_SALE.DURATION_SECONDS),
+				itemId: item.id,
+				discountRate: CAMPAIGN_CONFIG.FLASH_SALE.DISCOUNT_RATE,
+				pointBackMultiplier: 1
+			});
+		} else {
+			campaigns.push({
+				id,
+				type: "point_back",
+				title: CAMPAIGN_CONFIG.POINT_BACK.TITLE,
+				startAt,
+				endAt: Math.min(totalSeconds, startAt + CAMPAIGN_CONFIG.POINT_BACK.DURATION_SECONDS),
+				discountRate: 0,
+				pointBackMultiplier: CAMPAIGN_CONFIG.POINT_BACK.MULTIPLIER
+			});
+		}
+	}
+
+	return campaigns;
+}
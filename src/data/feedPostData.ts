@@ -0,0 +1,134 @@
+import { FEED_CONFIG } from "../config/feedConfig";
+import { CampaignData, getCampaignSummary } from "./campaignData";
+import { ItemData } from "./itemData";
+import { SharedPostData } from "./sharedPostData";
+
+/**
+ * Kinds of scripted feed posts
+ */
+export type FeedPostKind = "sale" | "coupon" | "hint";
+
+/**
+ * Scripted brand post pushed to the timeline by the feed
+ */
+export interface FeedPostData {
+	/** Unique post ID */
+	id: string;
+	/** Kind of post */
+	kind: FeedPostKind;
+	/** Display name of the brand posting */
+	authorName: string;
+	/** Post text */
+	text: string;
+	/** Elapsed game seconds when the post is published */
+	publishAt: number;
+	/** Featured item (sale only) */
+	itemId?: string;
+	/** Points granted by tapping the coupon (coupon only) */
+	couponPoints?: number;
+	/** Elapsed game seconds when the coupon expires (coupon only, exclusive) */
+	expiresAt?: number;
+}
+
+/**
+ * Post shown on the timeline, either shared by a player or pushed by the feed
+ */
+export type TimelinePostData = SharedPostData | FeedPostData;
+
+/**
+ * Checks if a timeline post is a feed post rather than a post shared by a player
+ * @param post Timeline post to check
+ */
+export function isFeedPost(post: TimelinePostData): post is FeedPostData {
+	return (post as FeedPostData).kind !== undefined;
+}
+
+/**
+ * Checks if a coupon can still be claimed at the given elapsed time
+ * @param post Feed post to check
+ * @param elapsedSeconds Elapsed game seconds
+ */
+export function isCouponAvailable(post: FeedPostData, elapsedSeconds: number): boolean {
+	return post.kind === "coupon" && post.expiresAt !== undefined && elapsedSeconds < post.expiresAt;
+}
+
+/**
+ * Gets the text of a sale post announcing a running campaign instead of its featured item
+ * @param campaign Running campaign
+ */
+export function getCampaignAnnouncementText(campaign: CampaignData): string {
+	return `📢 ${campaign.title} (${getCampaignSummary(campaign)}) ${FEED_CONFIG.SALE.CAMPAIGN_TEXT}`;
+}
+
+/**
+ * Creates the feed posts of a round
+ * The same random seed always creates the same feed, so every instance of a session shows the same posts
+ * @param random Random generator deciding post kinds, featured items and coupon points
+ * @param totalSeconds Total game time in seconds
+ * @param items Catalog items that sale posts can feature
+ * @returns Feed posts in publish order
+ */
+export function createFeedSchedule(random: g.RandomGenerator, totalSeconds: number, items: ItemData[]): FeedPostData[] {
+	const posts: FeedPostData[] = [];
+	const intervalRange = FEED_CONFIG.MAX_INTERVAL_SECONDS - FEED_CONFIG.MIN_INTERVAL_SECONDS + 1;
+	let hintIndex = 0;
+
+	for (let publishAt = FEED_CONFIG.FIRST_POST_SECONDS; publishAt < totalSeconds; ) {
+		const id = `feed_${posts.length + 1}`;
+		const kind = pickKind(random);
+
+		if (kind === "sale" && items.length > 0) {
+			const item = items[Math.floor(random.generate() * items.length)];
+			posts.push({
+				id,
+				kind,
+				authorName: FEED_CONFIG.SALE.AUTHOR_NAME,
+				text: `🛍️ ${item.emoji} ${item.name}${FEED_CONFIG.SALE.TEXT}`,
+				publishAt,
+				itemId: item.id
+			});
+		} else if (kind === "coupon") {
+			const points = FEED_CONFIG.COUPON.POINTS[Math.floor(random.generate() * FEED_CONFIG.COUPON.POINTS.length)];
+			posts.push({
+				id,
+				kind,
+				authorName: FEED_CONFIG.COUPON.AUTHOR_NAME,
+				text: `🎟️ ${points}ptクーポン配布中！${FEED_CONFIG.COUPON.DURATION_SECONDS}秒以内にタップで受け取り`,
+				publishAt,
+				couponPoints: points,
+				expiresAt: Math.min(totalSeconds, publishAt + FEED_CONFIG.COUPON.DURATION_SECONDS)
+			});
+		} else {
+			posts.push({
+				id,
+				kind: "hint",
+				authorName: FEED_CONFIG.HINT.AUTHOR_NAME,
+				text: FEED_CONFIG.HINT.MESSAGES[hintIndex % FEED_CONFIG.HINT.MESSAGES.length],
+				publishAt
+			});
+			hintIndex++;
+		}
+
+		publishAt += FEED_CONFIG.MIN_INTERVAL_SECONDS + Math.floor(random.generate() * intervalRange);
+	}
+
+	return posts;
+}
+
+function pickKind(random: g.RandomGenerator): FeedPostKind {
+	const weights: Array<[FeedPostKind, number]> = [
+		["sale", FEED_CONFIG.SALE.WEIGHT],
+		["coupon", FEED_CONFIG.COUPON.WEIGHT],
+		["hint", FEED_CONFIG.HINT.WEIGHT]
+	];
+	const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+	let value = random.generate() * totalWeight;
+
+	for (const [kind, weight] of weights) {
+		if (value < weight) {
+			return kind;
+		}
+		value -= weight;
+	}
+	return "hint";
+}
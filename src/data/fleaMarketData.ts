@@ -0,0 +1,88 @@
+import { ItemData } from "./itemData";
+
+/**
+ * Status of a flea market listing
+ */
+export type FleaMarketListingStatus = "active" | "reserved" | "sold" | "cancelled";
+
+/**
+ * Flea market listing data
+ * Represents an owned item put up for sale by a player
+ */
+export interface FleaMarketListing {
+	/** Unique listing ID */
+	id: string;
+	/** ID of the player who listed the item */
+	sellerId: string;
+	/** Name of the player who listed the item */
+	sellerName: string;
+	/** Listed item data */
+	item: ItemData;
+	/** Asking price in points */
+	price: number;
+	/** Timestamp when listed */
+	listedAt: number;
+	/** Current listing status */
+	status: FleaMarketListingStatus;
+	/** ID of the player who bought the item (only when reserved or sold) */
+	buyerId?: string;
+	/** Name of the player who bought the item (only when reserved or sold) */
+	buyerName?: string;
+}
+
+/**
+ * Creates a new flea market listing
+ * @param options Listing creation options
+ */
+export function createFleaMarketListing(options: {
+	id: string;
+	sellerId: string;
+	sellerName: string;
+	item: ItemData;
+	price: number;
+	listedAt: number;
+}): FleaMarketListing {
+	return {
+		id: options.id,
+		sellerId: options.sellerId,
+		sellerName: options.sellerName,
+		item: options.item,
+		price: options.price,
+		listedAt: options.listedAt,
+		status: "active"
+	};
+}
+
+/**
+ * Marks a listing as reserved for the given buyer until the seller hands over the item
+ * @param listing The listing to update
+ * @param buyerId ID of the buying player
+ * @param buyerName Name of the buying player
+ */
+export function markListingReserved(listing: FleaMarketListing, buyerId: string, buyerName: string): void {
+	listing.status = "reserved";
+	listing.buyerId = buyerId;
+	listing.buyerName = buyerName;
+}
+
+/**
+ * Marks a listing as sold to the given buyer
+ * @param listing The listing to update
+ * @param buyerId ID of the buying player
+ * @param buyerName Name of the buying player
+ */
+export function markListingSold(listing: FleaMarketListing, buyerId: string, buyerName: string): void {
+	listing.status = "sold";
+	listing.buyerId = buyerId;
+	listing.buyerName = buyerName;
+}
+
+/**
+ * Marks a listing as cancelled by its seller
+ * @param listing The listing to update
+ */
+export function markListingCancelled(listing: FleaMarketListing): void {
+	listing.status = "cancelled";
+	delete listing.buyerId;
+	delete listing.buyerName;
+}
@@ -0,0 +1,47 @@
+import { FleaMarketListing } from "./fleaMarketData";
+
+/**
+ * Message interface for broadcasting a new flea market listing
+ */
+export interface FleaMarketListMessage {
+	/** The listing put up for sale */
+	listing: FleaMarketListing;
+}
+
+/**
+ * Message interface for broadcasting a flea market purchase request
+ * The first request received for an active listing wins
+ */
+export interface FleaMarketPurchaseMessage {
+	/** ID of the listing to purchase */
+	listingId: string;
+	/** ID of the player who made the purchase */
+	buyerId: string;
+	/** Name of the player who made the purchase */
+	buyerName: string;
+	/** Price paid by the buyer */
+	price: number;
+}
+
+/**
+ * Message interface for broadcasting a flea market listing cancellation
+ */
+export interface FleaMarketCancelMessage {
+	/** ID of the listing to cancel */
+	listingId: string;
+	/** ID of the player who listed the item */
+	sellerId: string;
+}
+
+/**
+ * Message interface for broadcasting whether the seller handed over a reserved item
+ * The item is delivered to the buyer only if the seller still held it
+ */
+export interface FleaMarketDeliveryMessage {
+	/** ID of the reserved listing */
+	listingId: string;
+	/** ID of the player who listed the item */
+	sellerId: string;
+	/** Whether the item was removed from the seller's inventory */
+	delivered: boolean;
+}
@@ -0,0 +1,253 @@
+import { CPU_PLAYER_CONFIG } from "../config/cpuPlayerConfig";
+import { ITEM_CATALOG_CONFIG } from "../config/itemCatalogConfig";
+import { Difficulty, OptionalAppId, SESSION_CONFIG } from "../config/sessionConfig";
+import { isPricingModelType, PricingModelType } from "./pricingModel";
+
+/**
+ * Rules of a round that do not depend on the game mode
+ * Kept by GameContext so that managers and entities can read them
+ */
+export interface GameRules {
+	/** Difficulty preset the rules were derived from */
+	difficulty: Difficulty;
+	/** Item categories on sale, in catalog order */
+	categoryIds: string[];
+	/** Maximum number of CPU players filling empty seats */
+	cpuCount: number;
+	/** Optional apps shown on the home screen */
+	enabledApps: OptionalAppId[];
+	/** Scale of random price swings (1 keeps the configured pricing models as they are) */
+	priceVolatility: number;
+	/** Pricing model of the round */
+	pricingModel: PricingModelType;
+	/** Pricing models overriding the round model, keyed by item category ID */
+	categoryPricingModels: { [categoryId: string]: PricingModelType };
+	/** Seed of the scripted timeline feed, the same on every instance of a session */
+	seed: number;
+}
+
+/**
+ * Validated configuration of a round
+ */
+export interface GameConfig extends GameRules {
+	/** Game mode */
+	mode: "multi" | "ranking";
+	/** Play time in seconds */
+	totalTimeLimit: number;
+}
+
+/**
+ * Session parameters sent by the launcher in the "start" message
+ * Every value is unchecked because launchers and streamers can send anything
+ */
+export interface SessionParameters {
+	/** Game mode */
+	mode?: unknown;
+	/** Session length in seconds, including the title and ranking scenes */
+	totalTimeLimit?: unknown;
+	/** Difficulty preset name */
+	difficulty?: unknown;
+	/** Item category IDs to put on sale */
+	catalog?: unknown;
+	/** Maximum number of CPU players */
+	cpuCount?: unknown;
+	/** Optional apps to show */
+	apps?: unknown;
+	/** Scale of random price swings */
+	priceVolatility?: unknown;
+	/** Pricing model name */
+	pricingModel?: unknown;
+	/** Pricing model names keyed by item category ID */
+	categoryPricingModels?: unknown;
+	/** Random seed of the session */
+	randomSeed?: unknown;
+}
+
+/**
+ * Rules of a round started without session parameters
+ */
+export const DEFAULT_GAME_RULES: Readonly<GameRules> = getGameRules(createGameConfig({}, "ranking"));
+
+/**
+ * Creates a validated game configuration from session parameters
+ * Invalid values are replaced with defaults and out-of-range numbers are clamped, so that a round always starts
+ * @param parameters Session parameters sent by the launcher
+ * @param defaultMode Game mode used when the parameters do not name a valid one
+ * @returns Game configuration
+ */
+export function createGameConfig(parameters: SessionParameters, defaultMode: "multi" | "ranking"): GameConfig {
+	const difficulty = parseDifficulty(parameters.difficulty);
+	const preset = SESSION_CONFIG.DIFFICULTIES[difficulty];
+	const totalTimeLimit = parseNumber(parameters.totalTimeLimit, "totalTimeLimit", SESSION_CONFIG.DEFAULT_TOTAL_TIME_LIMIT);
+
+	return {
+		mode: parseMode(parameters.mode, defaultMode),
+		totalTimeLimit: parsePlayTime(totalTimeLimit),
+		difficulty: difficulty,
+		categoryIds: parseCategoryIds(parameters.catalog),
+		cpuCount: clamp(
+			Math.floor(parseNumber(parameters.cpuCount, "cpuCount", preset.CPU_COUNT)),
+			0,
+			CPU_PLAYER_CONFIG.PROFILES.length
+		),
+		enabledApps: parseEnabledApps(parameters.apps),
+		priceVolatility: clamp(
+			parseNumber(parameters.priceVolatility, "priceVolatility", preset.PRICE_VOLATILITY),
+			0,
+			SESSION_CONFIG.MAX_PRICE_VOLATILITY
+		),
+		pricingModel: parsePricingModel(parameters.pricingModel),
+		categoryPricingModels: parseCategoryPricingModels(parameters.categoryPricingModels),
+		seed: Math.max(0, Math.floor(parseNumber(parameters.randomSeed, "randomSeed", SESSION_CONFIG.DEFAULT_SEED)))
+	};
+}
+
+/**
+ * Gets the rules of a round, leaving out the settings GameContext keeps as game mode and state
+ * @param config Game configuration
+ */
+export function getGameRules(config: GameConfig): GameRules {
+	return {
+		difficulty: config.difficulty,
+		categoryIds: [...config.categoryIds],
+		cpuCount: config.cpuCount,
+		enabledApps: [...config.enabledApps],
+		priceVolatility: config.priceVolatility,
+		pricingModel: config.pricingModel,
+		categoryPricingModels: { ...config.categoryPricingModels },
+		seed: config.seed
+	};
+}
+
+/**
+ * Checks if a value is a game configuration, e.g. one read back from a replay log
+ * @param value Value to check
+ */
+export function isGameConfig(value: unknown): value is GameConfig {
+	return isRecord(value)
+		&& (value.mode === "multi" || value.mode === "ranking")
+		&& typeof value.totalTimeLimit === "number"
+		&& isDifficulty(value.difficulty)
+		&& isStringArray(value.categoryIds)
+		&& typeof value.cpuCount === "number"
+		&& isStringArray(value.enabledApps)
+		&& typeof value.priceVolatility === "number"
+		&& isPricingModelType(value.pricingModel)
+		&& isRecord(value.categoryPricingModels)
+		&& Object.keys(value.categoryPricingModels).every(categoryId => isPricingModelType(value.categoryPricingModels[categoryId]))
+		&& typeof value.seed === "number";
+}
+
+function parseMode(value: unknown, defaultMode: "multi" | "ranking"): "multi" | "ranking" {
+	if (value === "multi" || value === "ranking") {
+		return value;
+	}
+	if (value !== undefined) {
+		console.warn(`Unknown game mode: ${value}, using ${defaultMode} mode`);
+	}
+	return defaultMode;
+}
+
+function parseDifficulty(value: unknown): Difficulty {
+	if (isDifficulty(value)) {
+		return value;
+	}
+	if (value !== undefined) {
+		console.warn(`Unknown difficulty: ${value}, using ${SESSION_CONFIG.DEFAULT_DIFFICULTY} difficulty`);
+	}
+	return SESSION_CONFIG.DEFAULT_DIFFICULTY;
+}
+
+function parsePlayTime(totalTimeLimit: number): number {
+	// The session must never outlast the platform limit, so short sessions get less than the minimum play time
+	const availableTime = Math.max(0, Math.floor(totalTimeLimit - SESSION_CONFIG.RESERVED_TIME));
+	if (availableTime < SESSION_CONFIG.MIN_PLAY_TIME) {
+		console.warn(`totalTimeLimit ${totalTimeLimit} leaves less than ${SESSION_CONFIG.MIN_PLAY_TIME}s of play, using ${availableTime}s`);
+		return availableTime;
+	}
+	return Math.min(availableTime, SESSION_CONFIG.MAX_PLAY_TIME);
+}
+
+function parseNumber(value: unknown, name: string, defaultValue: number): number {
+	if (typeof value === "number" && isFinite(value)) {
+		return value;
+	}
+	if (value !== undefined) {
+		console.warn(`Invalid ${name}: ${value}, using ${defaultValue}`);
+	}
+	return defaultValue;
+}
+
+function parseCategoryIds(value: unknown): string[] {
+	const allCategoryIds: string[] = ITEM_CATALOG_CONFIG.CATEGORIES.map(category => category.id);
+	if (value === undefined) {
+		return allCategoryIds;
+	}
+	// Keep catalog order regardless of the order in the parameters
+	const categoryIds = Array.isArray(value) ? allCategoryIds.filter(id => value.indexOf(id) !== -1) : [];
+	if (categoryIds.length === 0) {
+		console.warn(`No known item category in catalog: ${JSON.stringify(value)}, using the whole catalog`);
+		return allCategoryIds;
+	}
+	return categoryIds;
+}
+
+function parseEnabledApps(value: unknown): OptionalAppId[] {
+	const optionalApps: OptionalAppId[] = [...SESSION_CONFIG.OPTIONAL_APPS];
+	if (value === undefined) {
+		return optionalApps;
+	}
+	if (!Array.isArray(value)) {
+		console.warn(`Invalid apps: ${JSON.stringify(value)}, showing every app`);
+		return optionalApps;
+	}
+	// An empty list is valid: the round is played with the required apps only
+	return optionalApps.filter(appId => value.indexOf(appId) !== -1);
+}
+
+function parsePricingModel(value: unknown): PricingModelType {
+	if (isPricingModelType(value)) {
+		return value;
+	}
+	if (value !== undefined) {
+		console.warn(`Unknown pricing model: ${value}, using ${SESSION_CONFIG.DEFAULT_PRICING_MODEL} model`);
+	}
+	return SESSION_CONFIG.DEFAULT_PRICING_MODEL;
+}
+
+function parseCategoryPricingModels(value: unknown): { [categoryId: string]: PricingModelType } {
+	const models: { [categoryId: string]: PricingModelType } = {};
+	if (value === undefined) {
+		return models;
+	}
+	if (!isRecord(value)) {
+		console.warn(`Invalid categoryPricingModels: ${JSON.stringify(value)}, using the round model for every category`);
+		return models;
+	}
+
+	const allCategoryIds: string[] = ITEM_CATALOG_CONFIG.CATEGORIES.map(category => category.id);
+	Object.keys(value).forEach(categoryId => {
+		if (allCategoryIds.indexOf(categoryId) !== -1 && isPricingModelType(value[categoryId])) {
+			models[categoryId] = value[categoryId];
+		} else {
+			console.warn(`Invalid pricing model of category ${categoryId}: ${value[categoryId]}, using the round model`);
+		}
+	});
+	return models;
+}
+
+function isDifficulty(value: unknown): value is Difficulty {
+	return typeof value === "string" && Object.keys(SESSION_CONFIG.DIFFICULTIES).indexOf(value) !== -1;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+	return typeof value === "object" && value !== null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(element => typeof element === "string");
+}
@@ -1,4 +1,5 @@
 
+import { DEFAULT_GAME_RULES, GameRules } from "./gameConfig";
 import { NotificationData } from "./notificationData";
 import { PlayerData, PlayerProfile, createPlayerData } from "./playerData";
 
@@ -57,6 +58,7 @@ export interface GameMode {
 export class GameContext {
 	private _gameState: GameState;
 	private _gameMode: GameMode;
+	private _rules: GameRules;
 	private _refGameVarsGameState: { score: number };
 	private _fps: number;
 	private _localRandom: g.RandomGenerator;
@@ -65,6 +67,7 @@ export class GameContext {
 	private _notifications: NotificationData[];
 	private _eventListeners: Map<string, Array<(data: any) => void>>;
 	private _achievedTaskIds: Set<string>;
+	private _followGraph: Map<string, Set<string>>;
 
 	/**
 	 * Creates a game context for testing with default values
@@ -93,7 +96,8 @@ export class GameContext {
 		localRandom: g.RandomGenerator = new g.XorshiftRandomGenerator(0),
 		timeLimit: number = 120,
 		fps: number = 60,
-		currentTime: number = 0
+		currentTime: number = 0,
+		rules: GameRules = DEFAULT_GAME_RULES
 	) {
 		this._refGameVarsGameState = refGameVarsGameState;
 		this._gameState = {
@@ -108,11 +112,13 @@ export class GameContext {
 		this._localRandom = localRandom;
 
 		this._gameMode = gameMode;
+		this._rules = rules;
 		this._currentPlayer = initialPlayerData;
 		this._allPlayers = new Map();
 		this._notifications = [];
 		this._eventListeners = new Map();
 		this._achievedTaskIds = new Set();
+		this._followGraph = new Map();
 
 		// Add current player to all players map
 		this._allPlayers.set(this._currentPlayer.id, this._currentPlayer);
@@ -125,6 +131,13 @@ export class GameContext {
 		return this._gameMode;
 	}
 
+	/**
+	 * Gets the rules of the round given by the session parameters
+	 */
+	get rules(): Readonly<GameRules> {
+		return this._rules;
+	}
+
 	get localRandom(): g.RandomGenerator {
 		return this._localRandom;
 	}
@@ -205,6 +218,16 @@ export class GameContext {
 		return true; // Successfully decremented time
 	}
 
+	/**
+	 * Restores the remaining time in frames from the snapshot of a running game
+	 * @param remainingFrame Remaining frames on the active instance
+	 */
+	restoreRemainingFrame(remainingFrame: number): void {
+		this._gameState.remainingFrame = Math.max(0, Math.min(remainingFrame, this._gameState.totalTimeLimit * this._fps));
+		this._gameState.remainingTime = Math.max(0, Math.floor(this._gameState.remainingFrame / this._fps));
+		this.emit("timeUpdated", this._gameState.remainingTime);
+	}
+
 	getCurrentTimestamp(): number {
 		return this._gameState.totalTimeLimit * this._fps - this._gameState.remainingFrame;
 	}
@@ -344,6 +367,55 @@ export class GameContext {
 		return this._achievedTaskIds.has(taskId);
 	}
 
+	/**
+	 * Records that a player follows another player
+	 * @param followerId ID of the player who follows
+	 * @param followeeId ID of the followed player
+	 * @returns True if recorded, false if following oneself or already following
+	 */
+	addFollow(followerId: string, followeeId: string): boolean {
+		if (followerId === followeeId || this.isFollowing(followerId, followeeId)) {
+			return false;
+		}
+		if (!this._followGraph.has(followerId)) {
+			this._followGraph.set(followerId, new Set());
+		}
+		this._followGraph.get(followerId)!.add(followeeId);
+		this.emit("followAdded", { followerId, followeeId });
+		return true;
+	}
+
+	/**
+	 * Checks if a player follows another player
+	 * @param followerId ID of the player who may follow
+	 * @param followeeId ID of the player who may be followed
+	 */
+	isFollowing(followerId: string, followeeId: string): boolean {
+		return this._followGraph.get(followerId)?.has(followeeId) ?? false;
+	}
+
+	/**
+	 * Gets IDs of the players a player follows
+	 * @param playerId Player ID
+	 */
+	getFollowing(playerId: string): string[] {
+		return Array.from(this._followGraph.get(playerId) ?? []);
+	}
+
+	/**
+	 * Gets the number of players following a player
+	 * @param playerId Player ID
+	 */
+	getFollowerCount(playerId: string): number {
+		let count = 0;
+		this._followGraph.forEach(followees => {
+			if (followees.has(playerId)) {
+				count++;
+			}
+		});
+		return count;
+	}
+
 	/**
 	 * Emits an event to all registered listeners
 	 * @param event Event name
@@ -1,4 +1,4 @@
-import { POINT_CONSTANTS } from "../manager/pointManager";
+import { ITEM_CATALOG_CONFIG } from "../config/itemCatalogConfig";
 
 /**
  * Item data interface representing a purchasable product
@@ -9,8 +9,8 @@ export interface ItemData {
 	id: string;
 	/** Display name of the item */
 	name: string;
-	/** Category the item belongs to (novel, manga) */
-	category: "novel" | "manga";
+	/** Category the item belongs to (defined in the item catalog config) */
+	category: string;
 	/** Item number within the series (for display and set detection) */
 	seriesNumber: number;
 	/** Purchase price in points */
@@ -38,7 +38,7 @@ export interface OwnedItem {
  */
 export interface SetInfo {
 	/** Category name */
-	category: "novel" | "manga";
+	category: string;
 	/** Whether the set is complete */
 	isComplete: boolean;
 	/** Items in the set */
@@ -54,9 +54,11 @@ export interface SetInfo {
  */
 export interface ItemCategory {
 	/** Category identifier */
-	id: "novel" | "manga";
+	id: string;
 	/** Display name */
 	name: string;
+	/** Short display name used in task messages */
+	shortName: string;
 	/** Category description */
 	description: string;
 	/** Category emoji */
@@ -72,7 +74,7 @@ export interface ItemCategory {
 export function createItemData(options: {
 	id: string;
 	name: string;
-	category: "novel" | "manga";
+	category: string;
 	seriesNumber: number;
 	purchasePrice: number;
 	individualPrice: number;
@@ -103,109 +105,70 @@ export function createOwnedItem(item: ItemData, purchasedAt: number = 0): OwnedI
 	};
 }
 
+/**
+ * Gets metadata of all item categories in catalog order
+ */
+export function getItemCategories(): ItemCategory[] {
+	return ITEM_CATALOG_CONFIG.CATEGORIES.map(category => ({
+		id: category.id,
+		name: category.name,
+		shortName: category.shortName,
+		description: category.description,
+		emoji: category.emoji,
+		setBonusDescription: `セット完成で${category.setPrice}ポイント`
+	}));
+}
+
 /**
  * Gets item category metadata
  * @param categoryId Category identifier
+ * @returns Category metadata or undefined if the category is not in the catalog
  */
-export function getItemCategoryInfo(categoryId: "novel" | "manga"): ItemCategory {
-	const categories: { [key: string]: ItemCategory } = {
-		novel: {
-			id: "novel",
-			name: "小説シリーズ",
-			description: "上巻・下巻の2冊セット",
-			emoji: "📖",
-			setBonusDescription: `セット完成で${POINT_CONSTANTS.SET_CLOTHES_BONUS}ポイント`
-		},
-		manga: {
-			id: "manga",
-			name: "マンガシリーズ",
-			description: "1巻〜5巻の5冊セット",
-			emoji: "📚",
-			setBonusDescription: `セット完成で${POINT_CONSTANTS.SET_ELECTRONICS_BONUS}ポイント`
+export function getItemCategoryInfo(categoryId: string): ItemCategory | undefined {
+	return getItemCategories().find(category => category.id === categoryId);
+}
+
+/**
+ * Gets default catalog items from the item catalog config
+ * Series numbers follow the item order within each category
+ * @param categoryIds Categories on sale (defaults to every category, see GameRules.categoryIds)
+ */
+export function getDefaultCatalogItems(categoryIds?: string[]): ItemData[] {
+	const items: ItemData[] = [];
+
+	for (const category of ITEM_CATALOG_CONFIG.CATEGORIES) {
+		if (categoryIds && categoryIds.indexOf(category.id) === -1) {
+			continue;
 		}
-	};
+		category.items.forEach((item, index) => {
+			items.push(createItemData({
+				id: item.id,
+				name: item.name,
+				category: category.id,
+				seriesNumber: index + 1,
+				purchasePrice: category.purchasePrice,
+				individualPrice: category.individualPrice,
+				setPrice: category.setPrice,
+				emoji: category.emoji
+			}));
+		});
+	}
 
-	return categories[categoryId];
+	return items;
 }
 
 /**
- * Gets default catalog items based on specification
+ * Gets category IDs of the given items in order of first appearance
+ * @param items Items to collect categories from
  */
-export function getDefaultCatalogItems(): ItemData[] {
-	return [
-		// Novel series (上巻・下巻)
-		createItemData({
-			id: "novel_volume1",
-			name: "小説 上巻",
-			category: "novel",
-			seriesNumber: 1,
-			purchasePrice: 200,
-			individualPrice: 150,
-			setPrice: 1000,
-			emoji: "📖"
-		}),
-		createItemData({
-			id: "novel_volume2",
-			name: "小説 下巻",
-			category: "novel",
-			seriesNumber: 2,
-			purchasePrice: 200,
-			individualPrice: 150,
-			setPrice: 1000,
-			emoji: "📖"
-		}),
-		// Manga series (1巻-5巻)
-		createItemData({
-			id: "manga_volume1",
-			name: "マンガ 1巻",
-			category: "manga",
-			seriesNumber: 1,
-			purchasePrice: 100,
-			individualPrice: 50,
-			setPrice: 2500,
-			emoji: "📚"
-		}),
-		createItemData({
-			id: "manga_volume2",
-			name: "マンガ 2巻",
-			category: "manga",
-			seriesNumber: 2,
-			purchasePrice: 100,
-			individualPrice: 50,
-			setPrice: 2500,
-			emoji: "📚"
-		}),
-		createItemData({
-			id: "manga_volume3",
-			name: "マンガ 3巻",
-			category: "manga",
-			seriesNumber: 3,
-			purchasePrice: 100,
-			individualPrice: 50,
-			setPrice: 2500,
-			emoji: "📚"
-		}),
-		createItemData({
-			id: "manga_volume4",
-			name: "マンガ 4巻",
-			category: "manga",
-			seriesNumber: 4,
-			purchasePrice: 100,
-			individualPrice: 50,
-			setPrice: 2500,
-			emoji: "📚"
-		}),
-		createItemData({
-			id: "manga_volume5",
-			name: "マンガ 5巻",
-			category: "manga",
-			seriesNumber: 5,
-			purchasePrice: 100,
-			individualPrice: 50,
-			setPrice: 2500,
-			emoji: "📚"
-		})
-	];
+export function getCategoryIds(items: ItemData[]): string[] {
+	const categoryIds: string[] = [];
+	for (const item of items) {
+		if (categoryIds.indexOf(item.category) === -1) {
+			categoryIds.push(item.category);
+		}
+	}
+	return categoryIds;
 }
 
 /**
@@ -214,10 +177,9 @@ export function getDefaultCatalogItems(): ItemData[] {
  * @param allItems All available items
  */
 export function calculateSetInfo(ownedItems: OwnedItem[], allItems: ItemData[]): SetInfo[] {
-	const categories = ["novel", "manga"] as const;
 	const setInfos: SetInfo[] = [];
 
-	for (const category of categories) {
+	for (const category of getCategoryIds(allItems)) {
 		const categoryItems = allItems.filter(item => item.category === category);
 		const ownedCategoryItems = ownedItems
 			.filter(owned => owned.item.category === category)
@@ -0,0 +1,19 @@
+/**
+ * Message interface for broadcasting an item added to a player's inventory
+ */
+export interface ItemAcquiredMessage {
+	/** ID of the player who acquired the item */
+	playerId: string;
+	/** ID of the acquired item */
+	itemId: string;
+}
+
+/**
+ * Message interface for broadcasting an item removed from a player's inventory
+ */
+export interface ItemRemovedMessage {
+	/** ID of the player who lost the item */
+	playerId: string;
+	/** ID of the removed item */
+	itemId: string;
+}
@@ -0,0 +1,350 @@
+import { CampaignScheduleMessage } from "../manager/campaignManager";
+import { PriceUpdateMessage } from "../manager/marketManager";
+import { ScoreBroadcastMessage } from "../manager/pointManager";
+import {
+	AffiliateBroadcastMessage,
+	AffiliateClickMessage,
+	AffiliateImpressionMessage,
+	AffiliatePurchaseMessage
+} from "./affiliateMessages";
+import { ScoreVerifiedMessage } from "./authorityMessages";
+import {
+	FleaMarketCancelMessage,
+	FleaMarketDeliveryMessage,
+	FleaMarketListMessage,
+	FleaMarketPurchaseMessage
+} from "./fleaMarketMessages";
+import { ItemAcquiredMessage, ItemRemovedMessage } from "./itemMessages";
+import {
+	GameStartMessage,
+	PlayerActionMessage,
+	PlayerJoinedMessage,
+	ProfileUpdateMessage,
+	TaskCompletionMessage
+} from "./playerMessages";
+import { SnapshotRequestMessage, SnapshotResponseMessage } from "./snapshotMessages";
+import { SnsFollowMessage, SnsLikeMessage } from "./snsMessages";
+
+/**
+ * Version of the multiplayer message protocol
+ * Increment when a payload changes incompatibly; messages of other versions are dropped
+ */
+export const MESSAGE_PROTOCOL_VERSION = 1;
+
+/**
+ * Payload of every multiplayer message, keyed by message type
+ */
+export interface GameMessagePayloads {
+	profileUpdate: ProfileUpdateMessage;
+	scoreUpdate: ScoreBroadcastMessage;
+	affiliatePostShared: AffiliateBroadcastMessage;
+	affiliatePurchase: AffiliatePurchaseMessage;
+	playerJoined: PlayerJoinedMessage;
+	taskCompletion: TaskCompletionMessage;
+	itemAcquired: ItemAcquiredMessage;
+	itemRemoved: ItemRemovedMessage;
+	priceUpdate: PriceUpdateMessage;
+	campaignSchedule: CampaignScheduleMessage;
+	fleaMarketListed: FleaMarketListMessage;
+	fleaMarketPurchase: FleaMarketPurchaseMessage;
+	fleaMarketCancelled: FleaMarketCancelMessage;
+	fleaMarketDelivery: FleaMarketDeliveryMessage;
+	gameStart: GameStartMessage;
+	playerAction: PlayerActionMessage;
+	scoreVerified: ScoreVerifiedMessage;
+	affiliateRewardGranted: AffiliatePurchaseMessage;
+	snapshotRequest: SnapshotRequestMessage;
+	snapshotResponse: SnapshotResponseMessage;
+	snsLike: SnsLikeMessage;
+	snsFollow: SnsFollowMessage;
+	affiliateImpression: AffiliateImpressionMessage;
+	affiliateClick: AffiliateClickMessage;
+}
+
+/**
+ * Type of a multiplayer message
+ */
+export type GameMessageType = keyof GameMessagePayloads;
+
+/**
+ * Decoded multiplayer message, discriminated by type
+ */
+export type GameMessage = {
+	[K in GameMessageType]: {
+		/** Message type */
+		type: K;
+		/** Validated payload */
+		payload: GameMessagePayloads[K];
+	};
+}[GameMessageType];
+
+/**
+ * Result of decoding raw message event data
+ * "ignored" means the data is not a multiplayer message (e.g. button or platform messages)
+ */
+export type DecodeResult =
+	| { status: "ok"; message: GameMessage }
+	| { status: "ignored" }
+	| { status: "invalid"; reason: string };
+
+/**
+ * Schema entry of a message type
+ */
+interface MessageDefinition {
+	/** Key of the payload in the message event data */
+	dataKey: string;
+	/** Checks the shape of a received payload */
+	validate: (payload: Record<string, any>) => boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+	return typeof value === "object" && value !== null;
+}
+
+function isString(value: unknown): value is string {
+	return typeof value === "string" && value.length > 0;
+}
+
+function isNumber(value: unknown): value is number {
+	return typeof value === "number" && isFinite(value);
+}
+
+function isItem(value: unknown): boolean {
+	return isRecord(value) && isString(value.id) && isNumber(value.purchasePrice);
+}
+
+function isSharedPost(value: unknown): boolean {
+	return isRecord(value) && isString(value.id) && isString(value.sharerId) && isItem(value.item) && isNumber(value.sharedPrice);
+}
+
+function isAffiliatePurchase(payload: Record<string, any>): boolean {
+	return isString(payload.postId) && isString(payload.buyerId) && isString(payload.sharerId) && isNumber(payload.rewardPoints);
+}
+
+function isAffiliateAudience(payload: Record<string, any>): boolean {
+	// Players never count as the audience of their own posts
+	return isString(payload.postId) && isString(payload.playerId) && isString(payload.sharerId) && payload.playerId !== payload.sharerId;
+}
+
+function isPlayerItemMessage(payload: Record<string, any>): boolean {
+	return isString(payload.playerId) && isString(payload.itemId);
+}
+
+function isCampaign(value: unknown): boolean {
+	return isRecord(value) && isString(value.id) && isNumber(value.startAt) && isNumber(value.endAt);
+}
+
+function isFleaMarketListing(value: unknown): boolean {
+	return isRecord(value) && isString(value.id) && isString(value.sellerId) && isItem(value.item) && isNumber(value.price);
+}
+
+function isFollow(value: unknown): boolean {
+	return isRecord(value) && isString(value.followerId) && isString(value.followeeId) && value.followerId !== value.followeeId;
+}
+
+function isPostLikes(value: unknown): boolean {
+	return isRecord(value) && isString(value.postId) && Array.isArray(value.playerIds) && value.playerIds.every(isString);
+}
+
+function isPostAudience(value: unknown): boolean {
+	return isRecord(value) && isString(value.postId) && Array.isArray(value.viewerIds) && value.viewerIds.every(isString)
+		&& Array.isArray(value.clickerIds) && value.clickerIds.every(isString) && isNumber(value.purchases) && isNumber(value.commission);
+}
+
+function isPriceUpdate(value: unknown): boolean {
+	return isRecord(value) && isString(value.itemId) && isNumber(value.dynamicPrice) && isNumber(value.calculatedAt)
+		&& isNumber(value.remainingTime);
+}
+
+function isPlayerSnapshot(value: unknown): boolean {
+	return isRecord(value) && isString(value.id) && isRecord(value.profile) && isNumber(value.points)
+		&& Array.isArray(value.ownedItems) && Array.isArray(value.taskProgress);
+}
+
+function isGameSnapshot(value: unknown): boolean {
+	return isRecord(value) && Array.isArray(value.players) && value.players.every(isPlayerSnapshot)
+		&& Array.isArray(value.sharedPosts) && value.sharedPosts.every(isSharedPost)
+		&& Array.isArray(value.marketPrices) && value.marketPrices.every(isPriceUpdate)
+		&& isNumber(value.remainingFrame) && isRecord(value.transactionSeqs)
+		&& Array.isArray(value.campaigns) && value.campaigns.every(isCampaign)
+		&& Array.isArray(value.fleaMarketListings) && value.fleaMarketListings.every(isFleaMarketListing)
+		&& Array.isArray(value.follows) && value.follows.every(isFollow)
+		&& Array.isArray(value.likes) && value.likes.every(isPostLikes)
+		&& Array.isArray(value.affiliateAudiences) && value.affiliateAudiences.every(isPostAudience);
+}
+
+/**
+ * Wire format and validation of every message type
+ * Data keys match the hand-written messages this schema replaced
+ * Compatibility is not kept across versions: decodeMessage rejects messages whose version differs from MESSAGE_PROTOCOL_VERSION
+ */
+const MESSAGE_SCHEMA: { [K in GameMessageType]: MessageDefinition } = {
+	profileUpdate: {
+		dataKey: "profileData",
+		validate: payload => isString(payload.playerId) && typeof payload.name === "string" && typeof payload.avatar === "string"
+	},
+	scoreUpdate: {
+		dataKey: "scoreData",
+		validate: payload => isString(payload.playerId) && isNumber(payload.score)
+			&& (payload.transaction === undefined
+				|| (isRecord(payload.transaction) && isNumber(payload.transaction.seq)
+					&& isNumber(payload.transaction.amount) && isString(payload.transaction.source)))
+	},
+	affiliatePostShared: {
+		dataKey: "affiliateData",
+		validate: payload => isString(payload.playerId) && isSharedPost(payload.sharedPost)
+	},
+	affiliatePurchase: {
+		dataKey: "purchaseData",
+		validate: isAffiliatePurchase
+	},
+	playerJoined: {
+		dataKey: "playerData",
+		validate: payload => isString(payload.playerId) && payload.id === payload.playerId && isRecord(payload.profile)
+			&& isNumber(payload.points)
+	},
+	taskCompletion: {
+		dataKey: "taskData",
+		validate: payload => isString(payload.playerId) && isString(payload.taskId) && isNumber(payload.completedAt)
+	},
+	itemAcquired: {
+		dataKey: "itemData",
+		validate: isPlayerItemMessage
+	},
+	itemRemoved: {
+		dataKey: "itemData",
+		validate: isPlayerItemMessage
+	},
+	priceUpdate: {
+		dataKey: "priceData",
+		validate: isPriceUpdate
+	},
+	campaignSchedule: {
+		dataKey: "campaignData",
+		validate: payload => Array.isArray(payload.campaigns) && payload.campaigns.every(isCampaign)
+	},
+	fleaMarketListed: {
+		dataKey: "listingData",
+		validate: payload => isFleaMarketListing(payload.listing)
+	},
+	fleaMarketPurchase: {
+		dataKey: "purchaseData",
+		validate: payload => isString(payload.listingId) && isString(payload.buyerId) && isNumber(payload.price)
+	},
+	fleaMarketCancelled: {
+		dataKey: "cancelData",
+		validate: payload => isString(payload.listingId) && isString(payload.sellerId)
+	},
+	fleaMarketDelivery: {
+		dataKey: "deliveryData",
+		validate: payload => isString(payload.listingId) && isString(payload.sellerId) && typeof payload.delivered === "boolean"
+	},
+	gameStart: {
+		dataKey: "startData",
+		validate: payload => isString(payload.masterId)
+	},
+	playerAction: {
+		dataKey: "actionData",
+		validate: payload => (payload.action === "join" || payload.action === "leave") && isString(payload.playerId)
+	},
+	scoreVerified: {
+		dataKey: "verifiedData",
+		validate: payload => isString(payload.playerId) && isNumber(payload.score) && isNumber(payload.seq)
+			&& typeof payload.accepted === "boolean"
+	},
+	affiliateRewardGranted: {
+		dataKey: "rewardData",
+		validate: isAffiliatePurchase
+	},
+	snapshotRequest: {
+		dataKey: "requestData",
+		validate: payload => isString(payload.requesterId)
+	},
+	snapshotResponse: {
+		dataKey: "snapshotData",
+		validate: payload => isString(payload.requesterId) && isGameSnapshot(payload.snapshot)
+	},
+	snsLike: {
+		dataKey: "likeData",
+		validate: payload => isString(payload.postId) && isString(payload.playerId) && isString(payload.authorId)
+	},
+	snsFollow: {
+		dataKey: "followData",
+		validate: isFollow
+	},
+	affiliateImpression: {
+		dataKey: "impressionData",
+		validate: isAffiliateAudience
+	},
+	affiliateClick: {
+		dataKey: "clickData",
+		validate: isAffiliateAudience
+	}
+};
+
+/**
+ * Checks if a string is a registered message type
+ * @param type Value of the "type" field of received data
+ */
+export function isGameMessageType(type: unknown): type is GameMessageType {
+	return typeof type === "string" && Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMA, type);
+}
+
+/**
+ * Encodes a message into message event data
+ * @param type Message type
+ * @param payload Message payload
+ */
+export function encodeMessage<K extends GameMessageType>(type: K, payload: GameMessagePayloads[K]): Record<string, unknown> {
+	return {
+		type: type,
+		version: MESSAGE_PROTOCOL_VERSION,
+		[MESSAGE_SCHEMA[type].dataKey]: payload
+	};
+}
+
+/**
+ * Creates a message event to raise for a message
+ * @param type Message type
+ * @param payload Message payload
+ */
+export function createMessageEvent<K extends GameMessageType>(type: K, payload: GameMessagePayloads[K]): g.MessageEvent {
+	return new g.MessageEvent(encodeMessage(type, payload));
+}
+
+/**
+ * Decodes and validates message event data
+ * @param data Data of a received message event
+ */
+export function decodeMessage(data: unknown): DecodeResult {
+	if (!isRecord(data) || !isGameMessageType(data.type)) {
+		return { status: "ignored" };
+	}
+
+	const type = data.type;
+	if (data.version !== MESSAGE_PROTOCOL_VERSION) {
+		return { status: "invalid", reason: `unsupported version ${data.version} of ${type}` };
+	}
+
+	const payload = data[MESSAGE_SCHEMA[type].dataKey];
+	if (!isRecord(payload) || !MESSAGE_SCHEMA[type].validate(payload)) {
+		return { status: "invalid", reason: `malformed payload of ${type}` };
+	}
+
+	return { status: "ok", message: { type, payload } as GameMessage };
+}
+
+/**
+ * Name of the message sent by ButtonE in multi mode
+ * Button messages are addressed to a single entity and are not part of the typed protocol
+ */
+export const BUTTON_SUBMIT_MESSAGE_NAME = "submit";
+
+/**
+ * Checks if message event data is a submit message of the named button
+ * @param data Data of a received message event
+ * @param buttonName Name of the button
+ */
+export function isButtonSubmitMessage(data: unknown, buttonName: string): data is MessageData<{ name: string; args: unknown }> {
+	return isRecord(data) && data.name === BUTTON_SUBMIT_MESSAGE_NAME && isRecord(data.args) && data.args.name === buttonName;
+}
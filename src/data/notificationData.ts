@@ -170,3 +170,20 @@ export function createSaleCampaignNotification(campaignTitle: string, discount:
 		autoDismissMs: 5000
 	});
 }
+
+/**
+ * Creates a sale campaign end notification
+ * @param campaignTitle Campaign title
+ * @returns Sale campaign end notification
+ */
+export function createSaleCampaignEndedNotification(campaignTitle: string): NotificationData {
+	return createNotification({
+		type: "sale_campaign",
+		message: "セール終了",
+		description: `${campaignTitle}は終了しました`,
+		priority: "low",
+		timing: "immediate",
+		icon: "🏁",
+		autoDismissMs: 3000
+	});
+}
@@ -0,0 +1,112 @@
+import { PHASE_CONFIG } from "../config/phaseConfig";
+import { GamePhase } from "./gameContext";
+
+/**
+ * Condition to enter a phase or to unlock a feature
+ */
+export interface PhaseCondition {
+	/** Task IDs the player must have completed */
+	completedTasks: string[];
+	/** Game seconds that must have passed */
+	elapsedSeconds: number;
+}
+
+/**
+ * Feature unlocked in a phase
+ */
+export interface FeatureUnlock {
+	/** Feature ID (e.g. "shop", "timeline") */
+	feature: string;
+	/** Condition to hold in addition to the phase being entered */
+	condition: PhaseCondition;
+	/** Ad banners enabled (true) or disabled (false) on unlock */
+	banners: { [bannerId: string]: boolean };
+}
+
+/**
+ * Declarative definition of a progression phase
+ */
+export interface PhaseDefinition {
+	/** Phase entered */
+	phase: GamePhase;
+	/** Condition to enter the phase once the previous one was entered */
+	condition: PhaseCondition;
+	/** Ad banners enabled (true) or disabled (false) on entry */
+	banners: { [bannerId: string]: boolean };
+	/** Features unlocked in the phase */
+	unlocks: FeatureUnlock[];
+}
+
+/**
+ * Progress of the player that phase conditions are checked against
+ */
+export interface PhaseProgress {
+	/** IDs of tasks the player has completed */
+	completedTaskIds: string[];
+	/** Game seconds passed */
+	elapsedSeconds: number;
+}
+
+/**
+ * Gets the phase definitions of the phase config
+ * @returns Definitions in the order the phases are entered
+ */
+export function getDefaultPhaseDefinitions(): PhaseDefinition[] {
+	return PHASE_CONFIG.PHASES.map(definition => ({
+		// Phase names in the config are the values of GamePhase
+		phase: definition.phase as GamePhase,
+		condition: {
+			completedTasks: [...definition.completedTasks],
+			elapsedSeconds: definition.elapsedSeconds
+		},
+		banners: { ...definition.banners as { [bannerId: string]: boolean } },
+		unlocks: definition.unlocks.map(unlock => ({
+			feature: unlock.feature,
+			condition: { completedTasks: [...unlock.completedTasks], elapsedSeconds: 0 },
+			banners: { ...unlock.banners as { [bannerId: string]: boolean } }
+		}))
+	}));
+}
+
+/**
+ * Checks if a condition holds for the progress of the player
+ * @param condition Condition to check
+ * @param progress Progress of the player
+ */
+export function isPhaseConditionMet(condition: PhaseCondition, progress: PhaseProgress): boolean {
+	return progress.elapsedSeconds >= condition.elapsedSeconds
+		&& condition.completedTasks.every(taskId => progress.completedTaskIds.indexOf(taskId) !== -1);
+}
+
+/**
+ * Finds the last phase the player reaches from the current one
+ * Phases are entered in order, so a phase whose condition holds is not reached before the previous ones
+ * @param definitions Phase definitions in order
+ * @param currentIndex Index of the current phase (-1 before the first one)
+ * @param progress Progress of the player
+ * @returns Index of the reached phase (equal to currentIndex if no phase is entered)
+ */
+export function findReachedPhaseIndex(definitions: PhaseDefinition[], currentIndex: number, progress: PhaseProgress): number {
+	let index = currentIndex;
+	while (index + 1 < definitions.length && isPhaseConditionMet(definitions[index + 1].condition, progress)) {
+		index++;
+	}
+	return index;
+}
+
+/**
+ * Gets the features unlocked up to a phase
+ * @param definitions Phase definitions in order
+ * @param phaseIndex Index of the current phase (-1 before the first one)
+ * @param progress Progress of the player
+ * @returns Unlocked features in the order they are defined
+ */
+export function getUnlockedFeatures(definitions: PhaseDefinition[], phaseIndex: number, progress: PhaseProgress): FeatureUnlock[] {
+	const unlocks: FeatureUnlock[] = [];
+	definitions.slice(0, phaseIndex + 1).forEach(definition => {
+		definition.unlocks
+			.filter(unlock => isPhaseConditionMet(unlock.condition, progress))
+			.forEach(unlock => unlocks.push(unlock));
+	});
+	return unlocks;
+}
@@ -49,6 +49,8 @@ export interface PlayerData {
 	lastActiveAt: number;
 	/** Number of items owned before settlement (for ranking display) */
 	preSettlementItemCount?: number;
+	/** Whether this player is a CPU player filling an empty seat */
+	isCpu?: boolean;
 }
 
 export function createInitialPlayerProfile(): PlayerProfile {
@@ -132,3 +134,22 @@ export function addPlayerItem(playerData: PlayerData, itemId: string, currentTim
 		lastActiveAt: currentTime
 	};
 }
+
+/**
+ * Removes an item from player's owned items
+ * @param playerData Player data to update
+ * @param itemId Item ID to remove
+ * @param currentTime Current timestamp (optional, defaults to 0 for testing)
+ * @returns Updated player data
+ */
+export function removePlayerItem(playerData: PlayerData, itemId: string, currentTime: number = 0): PlayerData {
+	if (playerData.ownedItems.indexOf(itemId) === -1) {
+		return playerData; // Not owned
+	}
+
+	return {
+		...playerData,
+		ownedItems: playerData.ownedItems.filter(id => id !== itemId),
+		lastActiveAt: currentTime
+	};
+}
@@ -0,0 +1,51 @@
+import { PlayerData } from "./playerData";
+
+/**
+ * Message interface for broadcasting a player's profile
+ */
+export interface ProfileUpdateMessage {
+	/** ID of the player who updated the profile */
+	playerId: string;
+	/** Player name */
+	name: string;
+	/** Player avatar emoji */
+	avatar: string;
+}
+
+/**
+ * Message interface for broadcasting a player joining the game
+ */
+export interface PlayerJoinedMessage extends PlayerData {
+	/** ID of the player who joined */
+	playerId: string;
+}
+
+/**
+ * Message interface for broadcasting a completed task
+ */
+export interface TaskCompletionMessage {
+	/** ID of the player who completed the task */
+	playerId: string;
+	/** ID of the completed task */
+	taskId: string;
+	/** Timestamp when the task was completed */
+	completedAt: number;
+}
+
+/**
+ * Message interface for broadcasting the start of the game from the title scene
+ */
+export interface GameStartMessage {
+	/** ID of the game master who started the game */
+	masterId: string;
+}
+
+/**
+ * Message interface for broadcasting a player joining or leaving the title lobby
+ */
+export interface PlayerActionMessage {
+	/** Lobby action */
+	action: "join" | "leave";
+	/** ID of the player who acted */
+	playerId: string;
+}
@@ -0,0 +1,38 @@
+import { POINT_BACK_CONFIG } from "../config/pointBackConfig";
+import { ItemData } from "./itemData";
+
+/**
+ * Point-back rates, shaped like POINT_BACK_CONFIG
+ */
+export interface PointBackRates {
+	DEFAULT_RATE: number;
+	CATEGORY_RATES: Record<string, number>;
+	ITEM_RATES: Record<string, number>;
+	MAX_RATE: number;
+}
+
+/**
+ * Gets the point-back rate of an item
+ * Item rates take precedence over category rates, which take precedence over the default rate
+ * @param item Item being purchased
+ * @param campaignMultiplier Multiplier of running point-back campaigns
+ * @param rates Point-back rates (default: POINT_BACK_CONFIG)
+ * @returns Point-back rate between 0 and the maximum rate
+ */
+export function getPointBackRate(item: ItemData, campaignMultiplier: number = 1, rates: PointBackRates = POINT_BACK_CONFIG): number {
+	const itemRates: Record<string, number | undefined> = rates.ITEM_RATES;
+	const categoryRates: Record<string, number | undefined> = rates.CATEGORY_RATES;
+	const baseRate = itemRates[item.id] ?? categoryRates[item.category] ?? rates.DEFAULT_RATE;
+	return Math.min(rates.MAX_RATE, baseRate * campaignMultiplier);
+}
+
+/**
+ * Calculates point-back for a purchase
+ * @param item Item being purchased
+ * @param price Price actually paid
+ * @param campaignMultiplier Multiplier of running point-back campaigns
+ * @returns Point-back amount (rounded down)
+ */
+export function calculatePointBack(item: ItemData, price: number, campaignMultiplier: number = 1): number {
+	return Math.floor(price * getPointBackRate(item, campaignMultiplier));
+}
@@ -0,0 +1,62 @@
+/**
+ * Single recorded market price of an item
+ */
+export interface PriceHistoryEntry {
+	/** Market price before campaign discounts */
+	price: number;
+	/** Remaining time in seconds when the price was calculated */
+	remainingTime: number;
+}
+
+/**
+ * Summary of an item's price history
+ */
+export interface PriceHistoryStats {
+	/** Lowest recorded price */
+	min: number;
+	/** Highest recorded price */
+	max: number;
+	/** Latest recorded price */
+	current: number;
+}
+
+/**
+ * Appends a price to a history, dropping the oldest prices beyond the limit
+ * @param history Existing history in recording order
+ * @param entry Price to append
+ * @param maxLength Maximum number of prices to keep
+ * @returns New history array
+ */
+export function appendPriceHistory(history: PriceHistoryEntry[], entry: PriceHistoryEntry, maxLength: number): PriceHistoryEntry[] {
+	const updated = [...history, entry];
+	return updated.length > maxLength ? updated.slice(updated.length - maxLength) : updated;
+}
+
+/**
+ * Calculates min, max and current prices of a history
+ * @param history History in recording order
+ * @returns Stats, or undefined if nothing has been recorded
+ */
+export function getPriceHistoryStats(history: PriceHistoryEntry[]): PriceHistoryStats | undefined {
+	if (history.length === 0) {
+		return undefined;
+	}
+
+	const prices = history.map(entry => entry.price);
+	return {
+		min: Math.min(...prices),
+		max: Math.max(...prices),
+		current: prices[prices.length - 1]
+	};
+}
+
+/**
+ * Checks if a price is the lowest so far
+ * Requires at least two recorded prices so that the first price is not always the lowest
+ * @param history History in recording order
+ * @param price Price to check (e.g., current price including campaign discounts)
+ */
+export function isLowestPriceSoFar(history: PriceHistoryEntry[], price: number): boolean {
+	const stats = getPriceHistoryStats(history);
+	return history.length >= 2 && stats !== undefined && price <= stats.min;
+}
@@ -0,0 +1,160 @@
+import { AFFILIATE_CONFIG } from "../config/affiliateConfig";
+import { ItemData } from "./itemData";
+
+/**
+ * Built-in pricing model types
+ */
+export type PricingModelType = "volatile" | "random_walk" | "demand" | "fixed";
+
+const PRICING_MODEL_TYPES: PricingModelType[] = ["volatile", "random_walk", "demand", "fixed"];
+
+/**
+ * Inputs for a single price calculation
+ */
+export interface PricingContext {
+	/** Item to price */
+	item: ItemData;
+	/** Remaining game time in seconds */
+	remainingTime: number;
+	/** Total game time in seconds */
+	totalTime: number;
+	/** Previously calculated price, if any */
+	previousPrice?: number;
+	/** Recent purchases of the item by all players (decays over time) */
+	demand: number;
+	/** Random generator shared by all instances (GameContext.localRandom) */
+	random: g.RandomGenerator;
+}
+
+/**
+ * Calculates market prices of items
+ * Implementations must draw randomness only from PricingContext.random so that prices are deterministic
+ */
+export interface PricingModel {
+	/** Model type */
+	readonly type: PricingModelType;
+	/**
+	 * Calculates the next market price of an item
+	 * @param context Inputs for the calculation
+	 * @returns Price clamped to the valid range of the item
+	 */
+	calculatePrice(context: PricingContext): number;
+}
+
+/**
+ * Checks if a value names a built-in pricing model
+ * @param value Value to check
+ */
+export function isPricingModelType(value: unknown): value is PricingModelType {
+	return typeof value === "string" && PRICING_MODEL_TYPES.indexOf(value as PricingModelType) !== -1;
+}
+
+/**
+ * Clamps a price to the valid range relative to a base price
+ * @param basePrice Base price of the item
+ * @param price Price to clamp
+ */
+export function clampPrice(basePrice: number, price: number): number {
+	const minValidPrice = Math.floor(basePrice * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO);
+	const maxValidPrice = Math.floor(basePrice * AFFILIATE_CONFIG.PRICING.MAX_PRICE_RATIO);
+	return Math.max(minValidPrice, Math.min(maxValidPrice, Math.floor(price)));
+}
+
+/**
+ * Creates the volatile model: large random swings early in the game, stable prices late
+ * @param volatilityScale Scale of random price swings (see GameRules.priceVolatility)
+ */
+export function createVolatilePricingModel(volatilityScale: number = 1): PricingModel {
+	return {
+		type: "volatile",
+		calculatePrice: (context: PricingContext): number => {
+			const basePrice = context.item.purchasePrice;
+
+			// Calculate time factor (0 to 1, where 1 is start of game, 0 is end)
+			const remainingTime = Math.max(0, context.remainingTime);
+			const timeFactor = Math.max(0, Math.min(1, remainingTime / context.totalTime));
+
+			const randomValue = context.random.generate();
+			const volatility = AFFILIATE_CONFIG.PRICING.VOLATILITY * volatilityScale;
+
+			// EXTREME time factor effect: massive swings early, stability late
+			const timeVolatilityBoost = Math.pow(timeFactor, 0.3); // Cube root for even more dramatic early effect
+			const volatilityMultiplier = 1 + timeVolatilityBoost * 4; // Up to 5x volatility early game
+
+			// Create massive price swings using sine wave pattern for more dramatic effect
+			const waveEffect = Math.sin(randomValue * Math.PI * 2) * timeVolatilityBoost;
+			const baseMultiplier = 0.5 + randomValue; // Base range 0.5 to 1.5
+			const volatilityEffect = waveEffect * volatility * volatilityMultiplier;
+
+			return clampPrice(basePrice, basePrice * (baseMultiplier + volatilityEffect));
+		}
+	};
+}
+
+/**
+ * Creates the mean-reverting random walk model: prices drift step by step and are pulled back to the base price
+ * @param volatilityScale Scale of random price swings (see GameRules.priceVolatility)
+ */
+export function createRandomWalkPricingModel(volatilityScale: number = 1): PricingModel {
+	return {
+		type: "random_walk",
+		calculatePrice: (context: PricingContext): number => {
+			const basePrice = context.item.purchasePrice;
+			const previousPrice = context.previousPrice ?? basePrice;
+			const config = AFFILIATE_CONFIG.PRICING.RANDOM_WALK;
+
+			const reversion = (basePrice - previousPrice) * config.REVERSION_RATE;
+			const step = basePrice * config.STEP_RATIO * volatilityScale * (context.random.generate() * 2 - 1);
+			return clampPrice(basePrice, previousPrice + reversion + step);
+		}
+	};
+}
+
+/**
+ * Creates the demand-driven model: prices rise with recent purchases by all players
+ * @param volatilityScale Scale of random price noise (see GameRules.priceVolatility)
+ */
+export function createDemandPricingModel(volatilityScale: number = 1): PricingModel {
+	return {
+		type: "demand",
+		calculatePrice: (context: PricingContext): number => {
+			const basePrice = context.item.purchasePrice;
+			const config = AFFILIATE_CONFIG.PRICING.DEMAND;
+
+			const demandEffect = config.STEP_RATIO * context.demand;
+			const noise = config.NOISE_RATIO * volatilityScale * (context.random.generate() * 2 - 1);
+			return clampPrice(basePrice, basePrice * (1 + demandEffect + noise));
+		}
+	};
+}
+
+/**
+ * Creates the fixed model: prices always equal the base price
+ */
+export function createFixedPricingModel(): PricingModel {
+	return {
+		type: "fixed",
+		calculatePrice: (context: PricingContext): number => context.item.purchasePrice
+	};
+}
+
+/**
+ * Creates a built-in pricing model by type
+ * @param type Model type (unknown types fall back to the volatile model)
+ * @param volatilityScale Scale of random price swings (ignored by the fixed model)
+ */
+export function createPricingModel(type: string, volatilityScale: number = 1): PricingModel {
+	switch (type) {
+		case "random_walk":
+			return createRandomWalkPricingModel(volatilityScale);
+		case "demand":
+			return createDemandPricingModel(volatilityScale);
+		case "fixed":
+			return createFixedPricingModel();
+		case "volatile":
+			return createVolatilePricingModel(volatilityScale);
+		default:
+			console.warn(`Unknown pricing model: ${type}, using volatile model`);
+			return createVolatilePricingModel(volatilityScale);
+	}
+}
@@ -0,0 +1,143 @@
+import { REPLAY_CONFIG } from "../config/replayConfig";
+import { GameConfig, isGameConfig } from "./gameConfig";
+
+/**
+ * Recorded message event received by the recording instance
+ */
+export interface ReplayMessageEntry {
+	kind: "message";
+	/** Frame from GameContext.getCurrentTimestamp when the event was received */
+	frame: number;
+	/** Number of scene changes since recording started */
+	sceneIndex: number;
+	/** ID of the player who raised the event (undefined for events raised by the active instance) */
+	senderId?: string;
+	/** Data of the event */
+	data: unknown;
+}
+
+/**
+ * Recorded local action that does not go through message events (e.g. button presses in ranking mode)
+ */
+export interface ReplayActionEntry {
+	kind: "action";
+	/** Frame from GameContext.getCurrentTimestamp when the action was taken */
+	frame: number;
+	/** Number of scene changes since recording started */
+	sceneIndex: number;
+	/** Name of the entity that took the action */
+	name: string;
+	/** Arguments of the action */
+	args: unknown;
+}
+
+/**
+ * Single recorded entry
+ */
+export type ReplayEntry = ReplayMessageEntry | ReplayActionEntry;
+
+/**
+ * Recording of a session
+ * Playing it back requires a headless game client with the same role and player ID as the recording instance
+ */
+export interface ReplayLog {
+	/** Version of the log format */
+	version: number;
+	/** Game configuration of the session */
+	config: GameConfig;
+	/** Player ID of the recording instance (undefined on the active instance) */
+	selfId?: string;
+	/** Whether the recording instance was the active instance */
+	isActiveInstance: boolean;
+	/** Joined player IDs when recording started */
+	joinedPlayerIds: string[];
+	/** State of GameContext.localRandom when recording started */
+	randomState: g.XorshiftRandomGeneratorSerialization;
+	/** Recorded entries in the order they happened */
+	entries: ReplayEntry[];
+	/** Whether entries were dropped because the log reached REPLAY_CONFIG.MAX_ENTRIES */
+	truncated: boolean;
+}
+
+/**
+ * Creates an empty replay log
+ * @param session Session the log records
+ * @returns Replay log without entries
+ */
+export function createReplayLog(session: Omit<ReplayLog, "version" | "entries" | "truncated">): ReplayLog {
+	return {
+		...session,
+		joinedPlayerIds: [...session.joinedPlayerIds],
+		version: REPLAY_CONFIG.FORMAT_VERSION,
+		entries: [],
+		truncated: false
+	};
+}
+
+/**
+ * Exports a replay log as JSON
+ * @param log Replay log to export
+ * @returns JSON text
+ */
+export function serializeReplayLog(log: ReplayLog): string {
+	return JSON.stringify(log);
+}
+
+/**
+ * Imports a replay log exported by serializeReplayLog
+ * @param json JSON text
+ * @returns Replay log
+ * @throws Error if the text is not a replay log of the supported version
+ */
+export function parseReplayLog(json: string): ReplayLog {
+	const log: unknown = JSON.parse(json);
+	if (!isRecord(log)) {
+		throw new Error("Invalid replay log: not an object");
+	}
+	if (log.version !== REPLAY_CONFIG.FORMAT_VERSION) {
+		throw new Error(`Invalid replay log: unsupported version ${log.version}`);
+	}
+	if (!isGameConfig(log.config) || !Array.isArray(log.joinedPlayerIds)
+		|| !log.joinedPlayerIds.every((playerId: unknown) => typeof playerId === "string") || !isRecord(log.randomState)) {
+		throw new Error("Invalid replay log: malformed session");
+	}
+	if (!Array.isArray(log.entries) || !log.entries.every(isReplayEntry)) {
+		throw new Error("Invalid replay log: malformed entries");
+	}
+	return log as ReplayLog;
+}
+
+/**
+ * Finds the end of the entries that are due for playback
+ * Entries of earlier scenes are due as well, so that nothing is skipped when a scene changes early
+ * @param entries Recorded entries
+ * @param startIndex Index of the first entry not played back yet
+ * @param sceneIndex Number of scene changes since playback started
+ * @param frame Current frame from GameContext.getCurrentTimestamp
+ * @returns Index after the last due entry (equal to startIndex if none is due)
+ */
+export function findDueEntriesEnd(entries: ReplayEntry[], startIndex: number, sceneIndex: number, frame: number): number {
+	let index = startIndex;
+	while (index < entries.length && isDue(entries[index], sceneIndex, frame)) {
+		index++;
+	}
+	return index;
+}
+
+function isDue(entry: ReplayEntry, sceneIndex: number, frame: number): boolean {
+	return entry.sceneIndex < sceneIndex || (entry.sceneIndex === sceneIndex && entry.frame <= frame);
+}
+
+function isReplayEntry(value: unknown): value is ReplayEntry {
+	if (!isRecord(value) || typeof value.frame !== "number" || typeof value.sceneIndex !== "number") {
+		return false;
+	}
+	if (value.kind === "message") {
+		return value.senderId === undefined || typeof value.senderId === "string";
+	}
+	return value.kind === "action" && typeof value.name === "string";
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+	return typeof value === "object" && value !== null;
+}
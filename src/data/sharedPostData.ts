@@ -55,3 +55,41 @@ export function createSharedPost(options: {
 export function incrementPurchaseCount(sharedPost: SharedPostData): void {
 	sharedPost.purchaseCount++;
 }
+
+/**
+ * Performance of a shared post, tracked for its sharer
+ */
+export interface SharedPostStats {
+	/** The shared post */
+	post: SharedPostData;
+	/** Number of players whose timelines showed the post */
+	views: number;
+	/** Number of players who tapped the buy button of the post */
+	clicks: number;
+	/** Number of purchases made through the post */
+	purchases: number;
+	/** Total affiliate commission earned through the post */
+	commission: number;
+}
+
+/**
+ * Gets the share of clicks that ended in a purchase
+ * @param stats Performance of a post, or totals of several posts
+ * @returns Conversion rate between 0 and 1, 0 without clicks
+ */
+export function getConversionRate(stats: { clicks: number; purchases: number }): number {
+	return stats.clicks > 0 ? Math.min(1, stats.purchases / stats.clicks) : 0;
+}
+
+/**
+ * Sums up the performance of several posts
+ * @param statsList Performance of each post
+ */
+export function sumSharedPostStats(statsList: SharedPostStats[]): { views: number; clicks: number; purchases: number; commission: number } {
+	return statsList.reduce((total, stats) => ({
+		views: total.views + stats.views,
+		clicks: total.clicks + stats.clicks,
+		purchases: total.purchases + stats.purchases,
+		commission: total.commission + stats.commission
+	}), { views: 0, clicks: 0, purchases: 0, commission: 0 });
+}
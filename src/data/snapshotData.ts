@@ -0,0 +1,145 @@
+import { PriceUpdateMessage } from "../manager/marketManager";
+import { CampaignData } from "./campaignData";
+import { FleaMarketListing } from "./fleaMarketData";
+import { PlayerData, TaskProgress } from "./playerData";
+import { SharedPostData } from "./sharedPostData";
+import { SnsFollowMessage } from "./snsMessages";
+
+/**
+ * Player data in a form that survives message serialization
+ * Task progress is kept as an array because Maps are not serializable
+ */
+export interface PlayerSnapshot extends Omit<PlayerData, "taskProgress"> {
+	/** Task completion progress */
+	taskProgress: TaskProgress[];
+}
+
+/**
+ * Players who liked a timeline post
+ */
+export interface PostLikesSnapshot {
+	/** ID of the liked post */
+	postId: string;
+	/** IDs of the players who liked the post */
+	playerIds: string[];
+}
+
+/**
+ * Audience of a shared post
+ */
+export interface PostAudienceSnapshot {
+	/** ID of the shared post */
+	postId: string;
+	/** IDs of the players who viewed the post */
+	viewerIds: string[];
+	/** IDs of the players who tapped the buy button of the post */
+	clickerIds: string[];
+	/** Number of purchases made through the post */
+	purchases: number;
+	/** Commission earned by the sharer */
+	commission: number;
+}
+
+/**
+ * State of the apps of a running game, kept by their managers
+ */
+export interface AppSnapshot {
+	/** Sale campaigns in start order */
+	campaigns: CampaignData[];
+	/** Flea market listings in listing order, including sold and cancelled ones */
+	fleaMarketListings: FleaMarketListing[];
+	/** Follows between players */
+	follows: SnsFollowMessage[];
+	/** Likes of timeline posts */
+	likes: PostLikesSnapshot[];
+	/** Audiences of shared posts */
+	affiliateAudiences: PostAudienceSnapshot[];
+}
+
+/**
+ * State of a running game sent to late-joining and reconnecting instances
+ */
+export interface GameSnapshot extends AppSnapshot {
+	/** Every player in the game, including CPU players */
+	players: PlayerSnapshot[];
+	/** Shared posts in the order they were shared */
+	sharedPosts: SharedPostData[];
+	/** Latest market price of every priced item */
+	marketPrices: PriceUpdateMessage[];
+	/** Remaining time in frames */
+	remainingFrame: number;
+	/** Sequence number of the last validated point transaction, keyed by player ID */
+	transactionSeqs: { [playerId: string]: number };
+}
+
+/**
+ * Converts player data into a serializable snapshot
+ * @param player Player data to convert
+ * @returns Player snapshot
+ */
+export function toPlayerSnapshot(player: PlayerData): PlayerSnapshot {
+	return {
+		...player,
+		profile: { ...player.profile },
+		ownedItems: [...player.ownedItems],
+		taskProgress: Array.from(player.taskProgress.values()).map(progress => ({ ...progress }))
+	};
+}
+
+/**
+ * Converts a player snapshot back into player data
+ * @param snapshot Player snapshot to convert
+ * @returns Player data
+ */
+export function fromPlayerSnapshot(snapshot: PlayerSnapshot): PlayerData {
+	const taskProgress = new Map<string, TaskProgress>();
+	snapshot.taskProgress.forEach(progress => taskProgress.set(progress.taskId, { ...progress }));
+
+	return {
+		...snapshot,
+		profile: { ...snapshot.profile },
+		ownedItems: [...snapshot.ownedItems],
+		taskProgress: taskProgress
+	};
+}
+
+/**
+ * Creates a snapshot of a running game
+ * @param players Every player in the game
+ * @param sharedPosts Shared posts in the order they were shared
+ * @param marketPrices Latest market prices
+ * @param remainingFrame Remaining time in frames
+ * @param getTransactionSeq Gets the sequence number of the last validated point transaction of a player
+ * @param apps State of the apps (apps left out are sent empty)
+ * @returns Game snapshot
+ */
+export function createGameSnapshot(
+	players: PlayerData[],
+	sharedPosts: SharedPostData[],
+	marketPrices: PriceUpdateMessage[],
+	remainingFrame: number,
+	getTransactionSeq: (playerId: string) => number = () => 0,
+	apps: Partial<AppSnapshot> = {}
+): GameSnapshot {
+	const transactionSeqs: { [playerId: string]: number } = {};
+	players.forEach(player => {
+		transactionSeqs[player.id] = getTransactionSeq(player.id);
+	});
+
+	return {
+		players: players.map(toPlayerSnapshot),
+		sharedPosts: sharedPosts.map(post => ({ ...post })),
+		marketPrices: marketPrices.map(price => ({ ...price })),
+		remainingFrame: remainingFrame,
+		transactionSeqs: transactionSeqs,
+		campaigns: (apps.campaigns ?? []).map(campaign => ({ ...campaign })),
+		fleaMarketListings: (apps.fleaMarketListings ?? []).map(listing => ({ ...listing })),
+		follows: (apps.follows ?? []).map(follow => ({ ...follow })),
+		likes: (apps.likes ?? []).map(postLikes => ({ ...postLikes, playerIds: [...postLikes.playerIds] })),
+		affiliateAudiences: (apps.affiliateAudiences ?? []).map(audience => ({
+			...audience,
+			viewerIds: [...audience.viewerIds],
+			clickerIds: [...audience.clickerIds]
+		}))
+	};
+}
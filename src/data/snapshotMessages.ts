@@ -0,0 +1,19 @@
+import { GameSnapshot } from "./snapshotData";
+
+/**
+ * Message interface for asking the active instance for the state of a running game
+ */
+export interface SnapshotRequestMessage {
+	/** ID of the player whose instance needs the state */
+	requesterId: string;
+}
+
+/**
+ * Message interface for sending the state of a running game to one instance
+ */
+export interface SnapshotResponseMessage {
+	/** ID of the player whose instance requested the state */
+	requesterId: string;
+	/** State of the game */
+	snapshot: GameSnapshot;
+}
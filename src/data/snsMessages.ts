@@ -0,0 +1,21 @@
+/**
+ * Message interface for broadcasting a like of a timeline post
+ */
+export interface SnsLikeMessage {
+	/** ID of the liked post */
+	postId: string;
+	/** ID of the player who liked the post */
+	playerId: string;
+	/** ID of the player who wrote the post */
+	authorId: string;
+}
+
+/**
+ * Message interface for broadcasting a follow between players
+ */
+export interface SnsFollowMessage {
+	/** ID of the player who follows */
+	followerId: string;
+	/** ID of the followed player */
+	followeeId: string;
+}
@@ -0,0 +1,54 @@
+/**
+ * Gacha reward rarity
+ */
+export type GachaRarity = "N" | "R" | "SR" | "SSR";
+
+/**
+ * Gacha reward data
+ * Represents one entry of the gacha reward table
+ */
+export interface GachaReward {
+	/** Unique reward ID */
+	id: string;
+	/** Reward rarity */
+	rarity: GachaRarity;
+	/** Display name */
+	name: string;
+	/** Display emoji */
+	emoji: string;
+	/** Points awarded when drawn */
+	points: number;
+	/** Relative draw chance */
+	weight: number;
+}
+
+/**
+ * Draws a reward from a weighted reward table
+ * @param rewards Reward table to draw from (must not be empty)
+ * @param random Random generator used for the draw
+ * @returns The drawn reward
+ */
+export function drawGachaReward(rewards: readonly GachaReward[], random: g.RandomGenerator): GachaReward {
+	const totalWeight = rewards.reduce((sum, reward) => sum + reward.weight, 0);
+	let threshold = random.generate() * totalWeight;
+
+	for (const reward of rewards) {
+		threshold -= reward.weight;
+		if (threshold < 0) {
+			return reward;
+		}
+	}
+
+	// Fallback for floating point rounding
+	return rewards[rewards.length - 1];
+}
+
+/**
+ * Calculates the average points awarded per draw
+ * @param rewards Reward table (must not be empty)
+ * @returns Expected reward points of a draw
+ */
+export function getGachaExpectedReward(rewards: readonly GachaReward[]): number {
+	const totalWeight = rewards.reduce((sum, reward) => sum + reward.weight, 0);
+	return rewards.reduce((sum, reward) => sum + reward.points * reward.weight, 0) / totalWeight;
+}
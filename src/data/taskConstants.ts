@@ -1,3 +1,5 @@
+import { ITEM_CATALOG_CONFIG } from "../config/itemCatalogConfig";
+import { TASK_CONFIG } from "../config/taskConfig";
 import { POINT_CONSTANTS } from "../manager/pointManager";
 
 /**
@@ -49,34 +51,150 @@ export const TASK_METADATA: { [key: string]: TaskMetadata } = {
 		rewardPoints: POINT_CONSTANTS.TASK_AGREEMENT_REWARD,
 		reward: `${POINT_CONSTANTS.TASK_AGREEMENT_REWARD}pt`,
 	},
+	buyItems: {
+		id: "buyItems",
+		icon: "🛍️",
+		title: `商品を${TASK_CONFIG.PURCHASE_TARGET}つ購入する`,
+		rewardPoints: POINT_CONSTANTS.TASK_PURCHASE_REWARD,
+		reward: `${POINT_CONSTANTS.TASK_PURCHASE_REWARD}pt`,
+	},
+	earnPoints: {
+		id: "earnPoints",
+		icon: "💎",
+		title: `${TASK_CONFIG.POINTS_TARGET}ポイント貯める`,
+		rewardPoints: POINT_CONSTANTS.TASK_POINTS_REWARD,
+		reward: `${POINT_CONSTANTS.TASK_POINTS_REWARD}pt`,
+	},
 } as const;
 
 /**
- * Collection task metadata (series completion tasks)
+ * Advanced task metadata (発展タスク)
+ * Completed by using the affiliate and flea market features for the first time
  */
-export const COLLECTION_TASK_METADATA: { [key: string]: TaskMetadata } = {
-	novel_collection: {
-		id: "novel_collection",
-		icon: "📚",
-		title: "小説シリーズコレクション",
-		rewardPoints: POINT_CONSTANTS.SET_CLOTHES_BONUS,
-		reward: `${POINT_CONSTANTS.SET_CLOTHES_BONUS}pt`,
+export const ADVANCED_TASK_METADATA: { [key: string]: TaskMetadata } = {
+	share: {
+		id: "share",
+		icon: "📣",
+		title: "商品をシェアする",
+		rewardPoints: POINT_CONSTANTS.TASK_SHARE_REWARD,
+		reward: `${POINT_CONSTANTS.TASK_SHARE_REWARD}pt`,
 	},
-	manga_collection: {
-		id: "manga_collection",
-		icon: "📖",
-		title: "マンガシリーズコレクション",
-		rewardPoints: POINT_CONSTANTS.SET_ELECTRONICS_BONUS,
-		reward: `${POINT_CONSTANTS.SET_ELECTRONICS_BONUS}pt`,
+	affiliateSale: {
+		id: "affiliateSale",
+		icon: "🤝",
+		title: "紹介した商品を購入してもらう",
+		rewardPoints: POINT_CONSTANTS.TASK_AFFILIATE_SALE_REWARD,
+		reward: `${POINT_CONSTANTS.TASK_AFFILIATE_SALE_REWARD}pt`,
+	},
+	fleaMarketListing: {
+		id: "fleaMarketListing",
+		icon: "🏷️",
+		title: "フリマに出品する",
+		rewardPoints: POINT_CONSTANTS.TASK_FLEA_MARKET_LISTING_REWARD,
+		reward: `${POINT_CONSTANTS.TASK_FLEA_MARKET_LISTING_REWARD}pt`,
 	},
 } as const;
 
 /**
- * Get all task metadata including collections
+ * Gets the collection task ID for an item category
+ * @param categoryId Item category ID
+ */
+export function getCollectionTaskId(categoryId: string): string {
+	return `${categoryId}_collection`;
+}
+
+/**
+ * Collection task metadata (series completion tasks)
+ * Generated from the item catalog config, one task per category
+ */
+export const COLLECTION_TASK_METADATA: { [key: string]: TaskMetadata } = ITEM_CATALOG_CONFIG.CATEGORIES.reduce(
+	(metadata, category) => {
+		const taskId = getCollectionTaskId(category.id);
+		metadata[taskId] = {
+			id: taskId,
+			icon: category.collectionIcon,
+			title: `${category.name}コレクション`,
+			rewardPoints: category.collectionReward,
+			reward: `${category.collectionReward}pt`,
+		};
+		return metadata;
+	},
+	{} as { [key: string]: TaskMetadata }
+);
+
+/**
+ * Gets the item category ID of a collection task
+ * @param taskId Task ID to check
+ * @returns Category ID or undefined if the task is not a collection task
+ */
+export function getCollectionTaskCategoryId(taskId: string): string | undefined {
+	const category = ITEM_CATALOG_CONFIG.CATEGORIES.find(c => getCollectionTaskId(c.id) === taskId);
+	return category?.id;
+}
+
+/**
+ * Mission metadata (time-limited tasks offered repeatedly)
+ * Keyed by mission ID; every appearance of a mission is a task of its own (see getMissionTaskId)
+ */
+export const MISSION_TASK_METADATA: { [key: string]: TaskMetadata } = TASK_CONFIG.MISSIONS.reduce(
+	(metadata, mission) => {
+		metadata[mission.ID] = {
+			id: mission.ID,
+			icon: mission.ICON,
+			title: mission.TITLE,
+			rewardPoints: mission.REWARD,
+			reward: `${mission.REWARD}pt`,
+		};
+		return metadata;
+	},
+	{} as { [key: string]: TaskMetadata }
+);
+
+/**
+ * Gets the task ID of an appearance of a mission
+ * @param missionId Mission ID
+ * @param round Number of missions that have appeared so far, including this one
+ */
+export function getMissionTaskId(missionId: string, round: number): string {
+	return `${missionId}_mission_${round}`;
+}
+
+/**
+ * Gets the mission ID of a mission task
+ * @param taskId Task ID to check
+ * @returns Mission ID or undefined if the task is not a mission task
+ */
+export function getMissionTaskMissionId(taskId: string): string | undefined {
+	const separatorIndex = taskId.lastIndexOf("_mission_");
+	if (separatorIndex < 0) {
+		return undefined;
+	}
+	const missionId = taskId.substring(0, separatorIndex);
+	return MISSION_TASK_METADATA[missionId] ? missionId : undefined;
+}
+
+/**
+ * Gets the round in which a mission task appeared
+ * @param taskId Task ID to check
+ * @returns Round number starting from 1, or undefined if the task ID carries no valid round
+ */
+export function getMissionTaskRound(taskId: string): number | undefined {
+	const separator = "_mission_";
+	const separatorIndex = taskId.lastIndexOf(separator);
+	if (separatorIndex < 0) {
+		return undefined;
+	}
+	const roundText = taskId.substring(separatorIndex + separator.length);
+	return /^[1-9][0-9]*$/.test(roundText) ? Number(roundText) : undefined;
+}
+
+/**
+ * Get all task metadata including advanced and collection tasks
  */
 export function getAllTaskMetadata(): { [key: string]: TaskMetadata } {
 	return {
 		...TASK_METADATA,
+		...ADVANCED_TASK_METADATA,
 		...COLLECTION_TASK_METADATA,
 	};
 }
@@ -86,5 +204,6 @@ export function getAllTaskMetadata(): { [key: string]: TaskMetadata } {
  */
 export function getTaskMetadata(taskId: string): TaskMetadata | undefined {
 	const allTasks = getAllTaskMetadata();
-	return allTasks[taskId];
+	const missionId = getMissionTaskMissionId(taskId);
+	return allTasks[taskId] ?? (missionId !== undefined ? MISSION_TASK_METADATA[missionId] : undefined);
 }
@@ -1,4 +1,14 @@
-import { POINT_CONSTANTS } from "../manager/pointManager";
+import { ITEM_CATALOG_CONFIG } from "../config/itemCatalogConfig";
+import { OptionalAppId } from "../config/sessionConfig";
+import { TASK_CONFIG } from "../config/taskConfig";
+import {
+	ADVANCED_TASK_METADATA,
+	COLLECTION_TASK_METADATA,
+	getCollectionTaskId,
+	getMissionTaskId,
+	MISSION_TASK_METADATA,
+	TASK_METADATA
+} from "./taskConstants";
 
 /**
  * Task data interface representing a game task
@@ -17,6 +27,12 @@ export interface TaskData {
 	id: string;
 	/** Whether the task is completed */
 	completed: boolean;
+	/** Progress toward the target of progress-style tasks */
+	progress?: number;
+	/** Progress to reach (shown as "progress/target" if greater than 1) */
+	progressTarget?: number;
+	/** Seconds left to complete a time-limited task */
+	remainingSeconds?: number;
 }
 
 /**
@@ -34,7 +50,70 @@ export interface TaskRequirement {
 /**
  * Task category for grouping related tasks
  */
-export type TaskCategory = "basic" | "profile" | "social" | "shopping" | "advanced" | "system" | "collection";
+export type TaskCategory = "basic" | "profile" | "social" | "shopping" | "advanced" | "system" | "collection" | "mission";
+
+/**
+ * Game events that advance task progress
+ * itemPurchased: the player got an item, pointsChanged: the points of the player changed,
+ * postShared: the player shared a product, affiliateRewarded: another player bought through the player's post,
+ * fleaMarketListed: the player listed an item, collectionCompleted: the player owns a whole series
+ */
+export type TaskEventType =
+	| "itemPurchased"
+	| "pointsChanged"
+	| "postShared"
+	| "affiliateRewarded"
+	| "fleaMarketListed"
+	| "collectionCompleted";
+
+/**
+ * Game event notified to TaskManager
+ */
+export interface TaskEvent {
+	/** Event type */
+	type: TaskEventType;
+	/** Item category the event is about (item and collection events) */
+	category?: string;
+	/** Points of the player after the change (pointsChanged) */
+	points?: number;
+	/** Whether the item was bought on a sale campaign (itemPurchased) */
+	onSale?: boolean;
+}
+
+/**
+ * Condition that completes a task
+ */
+export interface TaskTrigger {
+	/** Event that advances the progress */
+	event: TaskEventType;
+	/** Progress to reach: number of events, or points for pointsChanged */
+	target: number;
+	/** Item category the events must be about */
+	category?: string;
+	/** Whether only purchases on a sale campaign count */
+	onSale?: boolean;
+}
+
+/**
+ * What executing a task does
+ * profileEditor: opens the profile editor, and the task is completed when the profile is saved
+ * link: links an external service in a modal, and the task is completed by its OK button
+ * guide: explains a task completed by its trigger (with the description and reward unless a message is given)
+ */
+export type TaskAction =
+	| { type: "profileEditor" }
+	| {
+		type: "link";
+		/** Entity name of the modal */
+		modalName: string;
+		title: string;
+		message: string;
+		/** Notification shown on completion in addition to the achievement effect */
+		notification: string;
+		/** Whether to open the shop app after completion */
+		openShop?: boolean;
+	}
+	| { type: "guide"; title?: string; message?: string };
 
 /**
  * Extended task data with additional metadata
@@ -46,12 +125,34 @@ export interface ExtendedTaskData extends TaskData {
 	description?: string;
 	/** Prerequisites for unlocking this task */
 	prerequisites: TaskRequirement[];
-	/** Features unlocked when this task is completed */
+	/** Features unlocked when this task is completed (see the phase config) */
 	unlocks: string[];
 	/** Whether this task is currently available */
 	available: boolean;
 	/** Priority for display order */
 	priority: number;
+	/** What executing the task does */
+	action: TaskAction;
+	/** Condition that completes the task (tasks without one are completed by their action) */
+	trigger?: TaskTrigger;
+	/** Optional app the task needs (the task is left out if the rules of the round turned the app off) */
+	requiredApp?: OptionalAppId;
+	/** Elapsed game seconds at which a time-limited task expires */
+	expiresAt?: number;
+}
+
+/**
+ * Mission definition (time-limited task offered repeatedly mid-game)
+ */
+export interface MissionDefinition {
+	/** Mission ID */
+	id: string;
+	/** Condition that completes the mission */
+	trigger: TaskTrigger;
+	/** Seconds to complete the mission after it appears */
+	durationSeconds: number;
+	/** Task that must be completed before the mission is offered */
+	requiredTaskId: string;
 }
 
 /**
@@ -89,16 +190,24 @@ export function createExtendedTaskData(
 		prerequisites?: TaskRequirement[];
 		unlocks?: string[];
 		priority?: number;
+		action: TaskAction;
+		trigger?: TaskTrigger;
+		requiredApp?: OptionalAppId;
 	}
 ): ExtendedTaskData {
 	return {
 		...baseTask,
+		progress: metadata.trigger ? 0 : undefined,
+		progressTarget: metadata.trigger?.target,
 		category: metadata.category,
 		description: metadata.description,
 		prerequisites: metadata.prerequisites || [],
 		unlocks: metadata.unlocks || [],
 		available: true,
-		priority: metadata.priority || 0
+		priority: metadata.priority || 0,
+		action: metadata.action,
+		trigger: metadata.trigger,
+		requiredApp: metadata.requiredApp
 	};
 }
 
@@ -113,85 +222,185 @@ export function arePrerequisitesMet(task: ExtendedTaskData, completedTasks: Set<
 	);
 }
 
+/**
+ * Gets the progress of a task after a game event
+ * @param trigger Trigger of the task
+ * @param event Game event
+ * @param progress Current progress
+ * @returns New progress (unchanged if the event does not match the trigger), at most the target
+ */
+export function getTaskProgress(trigger: TaskTrigger, event: TaskEvent, progress: number): number {
+	if (event.type !== trigger.event
+		|| (trigger.category !== undefined && event.category !== trigger.category)
+		|| (trigger.onSale && !event.onSale)) {
+		return progress;
+	}
+	// Point events tell the amount reached, other events are counted
+	const nextProgress = event.type === "pointsChanged" ? Math.max(progress, event.points ?? 0) : progress + 1;
+	return Math.min(nextProgress, trigger.target);
+}
+
 /**
  * Gets default game tasks based on specification
+ * Tasks are listed in display order; new tasks are added here without changing TaskManager
  */
 export function getDefaultGameTasks(): ExtendedTaskData[] {
-	const basicTask = createTaskData({
-		id: "profile",
-		icon: "👤",
-		title: "プロフィール設定",
-		reward: `${POINT_CONSTANTS.TASK_PROFILE_REWARD}ポイント`,
-		rewardPoints: POINT_CONSTANTS.TASK_PROFILE_REWARD
-	});
-
-	const snsTask = createTaskData({
-		id: "sns",
-		icon: "📱",
-		title: "SNS連携",
-		reward: `${POINT_CONSTANTS.TASK_SNS_REWARD}ポイント`,
-		rewardPoints: POINT_CONSTANTS.TASK_SNS_REWARD
-	});
-
-	const shoppingTask = createTaskData({
-		id: "shopping",
-		icon: "🛒",
-		title: "通販利用",
-		reward: `${POINT_CONSTANTS.TASK_SHOPPING_REWARD}ポイント`,
-		rewardPoints: POINT_CONSTANTS.TASK_SHOPPING_REWARD
-	});
-
-	const novelCollectionTask = createTaskData({
-		id: "novel_collection",
-		icon: "📖",
-		title: "小説コレクション完成",
-		reward: `${POINT_CONSTANTS.SERIES_COLLECTION_BONUS}ポイント`,
-		rewardPoints: POINT_CONSTANTS.SERIES_COLLECTION_BONUS
-	});
-
-	const mangaCollectionTask = createTaskData({
-		id: "manga_collection",
-		icon: "📚",
-		title: "マンガコレクション完成",
-		reward: `${POINT_CONSTANTS.SERIES_COLLECTION_BONUS}ポイント`,
-		rewardPoints: POINT_CONSTANTS.SERIES_COLLECTION_BONUS
+	// One collection task per item category in the catalog
+	const collectionTasks = ITEM_CATALOG_CONFIG.CATEGORIES.map(category => {
+		const metadata = COLLECTION_TASK_METADATA[getCollectionTaskId(category.id)];
+		return createExtendedTaskData({ ...metadata, completed: false }, {
+			category: "collection",
+			description: `${category.name}の全巻を集めてコレクションを完成させます`,
+			prerequisites: [{ taskId: "shopping", required: true, unlocks: "Collection features" }],
+			unlocks: ["collection_bonus"],
+			priority: 4,
+			action: {
+				type: "guide",
+				title: `${category.shortName}コレクション`,
+				message: `${category.shortName}シリーズをコンプリートしよう！\n\n` +
+					`該当する商品をすべて購入すると${metadata.rewardPoints}ポイントの報酬がもらえます。\n\n通販アプリで商品を確認してみましょう。`
+			},
+			trigger: { event: "collectionCompleted", target: 1, category: category.id }
+		});
 	});
 
 	return [
-		createExtendedTaskData(basicTask, {
+		createExtendedTaskData({ ...TASK_METADATA.profile, completed: false }, {
 			category: "profile",
 			description: "プロフィール情報を設定してゲームを開始します",
 			prerequisites: [],
 			unlocks: ["profile_editor", "basic_features"],
-			priority: 1
+			priority: 1,
+			action: { type: "profileEditor" }
 		}),
-		createExtendedTaskData(snsTask, {
+		createExtendedTaskData({ ...TASK_METADATA.shopping, completed: false }, {
+			category: "shopping",
+			description: "通販機能を利用してアイテム購入を解禁します",
+			prerequisites: [],
+			unlocks: ["shop"],
+			priority: 2,
+			action: {
+				type: "link",
+				modalName: "shoppingUnlockModal",
+				title: "通販アプリ解放！",
+				message: "通販サービスと連携しました！\n\n通販アプリが利用可能になりました。\n商品を購入してポイントを獲得しましょう！",
+				notification: "shopping",
+				openShop: true
+			}
+		}),
+		createExtendedTaskData({ ...TASK_METADATA.sns, completed: false }, {
 			category: "social",
 			description: "SNS機能を利用してタイムライン機能を解禁します",
-			prerequisites: [{ taskId: "profile", required: true, unlocks: "SNS features" }],
-			unlocks: ["timeline", "social_features"],
-			priority: 2
+			prerequisites: [],
+			unlocks: ["timeline"],
+			priority: 3,
+			action: {
+				type: "link",
+				modalName: "timelineUnlockModal",
+				title: "タイムライン機能解放！",
+				message: "SNSと連携しました！\n\nタイムライン機能が利用可能になりました。\n他のユーザーの投稿を見て、オトクなセール商品をゲットしましょう！",
+				notification: "sns"
+			}
 		}),
-		createExtendedTaskData(shoppingTask, {
+		...collectionTasks,
+		createExtendedTaskData({ ...TASK_METADATA.buyItems, completed: false }, {
 			category: "shopping",
-			description: "通販機能を利用してアイテム購入を解禁します",
-			prerequisites: [{ taskId: "profile", required: true, unlocks: "Shopping features" }],
-			unlocks: ["shop", "item_management"],
-			priority: 3
+			description: `通販アプリやタイムラインで商品を${TASK_CONFIG.PURCHASE_TARGET}つ購入します`,
+			prerequisites: [{ taskId: "shopping", required: true, unlocks: "Purchase task" }],
+			priority: 5,
+			action: { type: "guide" },
+			trigger: { event: "itemPurchased", target: TASK_CONFIG.PURCHASE_TARGET }
 		}),
-		createExtendedTaskData(novelCollectionTask, {
-			category: "collection",
-			description: "小説シリーズの全巻を集めてコレクションを完成させます",
-			prerequisites: [{ taskId: "shopping", required: true, unlocks: "Collection features" }],
-			unlocks: ["collection_bonus"],
-			priority: 4
+		createExtendedTaskData({ ...TASK_METADATA.earnPoints, completed: false }, {
+			category: "basic",
+			description: `ポイントを貯めて、所持ポイントを${TASK_CONFIG.POINTS_TARGET}ポイントにします`,
+			prerequisites: [{ taskId: "profile", required: true, unlocks: "Points task" }],
+			priority: 5,
+			action: { type: "guide" },
+			trigger: { event: "pointsChanged", target: TASK_CONFIG.POINTS_TARGET }
 		}),
-		createExtendedTaskData(mangaCollectionTask, {
-			category: "collection",
-			description: "マンガシリーズの全巻を集めてコレクションを完成させます",
-			prerequisites: [{ taskId: "shopping", required: true, unlocks: "Collection features" }],
-			unlocks: ["collection_bonus"],
-			priority: 5
+		// Advanced tasks appear once the features they use are available and are completed by using them
+		createExtendedTaskData({ ...ADVANCED_TASK_METADATA.share, completed: false }, {
+			category: "advanced",
+			description: "通販で購入した商品をタイムラインでシェアします",
+			prerequisites: [
+				{ taskId: "sns", required: true, unlocks: "Product sharing" },
+				{ taskId: "shopping", required: true, unlocks: "Product sharing" }
+			],
+			unlocks: ["fleaMarket"],
+			priority: 6,
+			action: { type: "guide" },
+			trigger: { event: "postShared", target: 1 }
+		}),
+		createExtendedTaskData({ ...ADVANCED_TASK_METADATA.affiliateSale, completed: false }, {
+			category: "advanced",
+			description: "シェアした商品を他のプレイヤーに購入してもらい、アフィリエイト報酬を獲得します",
+			prerequisites: [{ taskId: "share", required: true, unlocks: "Affiliate rewards" }],
+			priority: 6,
+			action: { type: "guide" },
+			trigger: { event: "affiliateRewarded", target: 1 }
+		}),
+		createExtendedTaskData({ ...ADVANCED_TASK_METADATA.fleaMarketListing, completed: false }, {
+			category: "advanced",
+			description: "持っている商品をフリマアプリに出品します",
+			prerequisites: [{ taskId: "share", required: true, unlocks: "Flea market" }],
+			priority: 6,
+			action: { type: "guide" },
+			trigger: { event: "fleaMarketListed", target: 1 },
+			requiredApp: "fleaMarket"
 		})
 	];
 }
+
+/**
+ * Gets the missions offered in turn, as configured
+ */
+export function getDefaultMissions(): MissionDefinition[] {
+	return TASK_CONFIG.MISSIONS.map(mission => ({
+		id: mission.ID,
+		trigger: { event: mission.EVENT, target: mission.TARGET, onSale: mission.ON_SALE },
+		durationSeconds: mission.DURATION_SECONDS,
+		requiredTaskId: mission.REQUIRED_TASK
+	}));
+}
+
+/**
+ * Gets the number of missions that have appeared by a point in the game
+ * @param elapsedSeconds Elapsed game seconds
+ */
+export function getMissionRound(elapsedSeconds: number): number {
+	if (elapsedSeconds < TASK_CONFIG.MISSION_FIRST_SECONDS) {
+		return 0;
+	}
+	return Math.floor((elapsedSeconds - TASK_CONFIG.MISSION_FIRST_SECONDS) / TASK_CONFIG.MISSION_INTERVAL_SECONDS) + 1;
+}
+
+/**
+ * Gets the mission offered in a round (missions are repeated in turn)
+ * @param missions Missions offered in turn
+ * @param round Round number, starting from 1
+ */
+export function getRoundMission(missions: MissionDefinition[], round: number): MissionDefinition {
+	return missions[(round - 1) % missions.length];
+}
+
+/**
+ * Creates the task of a mission appearing in a round
+ * @param mission Mission definition
+ * @param round Round number, starting from 1
+ */
+export function createMissionTask(mission: MissionDefinition, round: number): ExtendedTaskData {
+	const metadata = MISSION_TASK_METADATA[mission.id];
+	const startSeconds = TASK_CONFIG.MISSION_FIRST_SECONDS + (round - 1) * TASK_CONFIG.MISSION_INTERVAL_SECONDS;
+	const task = createExtendedTaskData({ ...metadata, id: getMissionTaskId(mission.id, round), completed: false }, {
+		category: "mission",
+		description: `期間限定ミッション！\n${metadata.title}（時間切れになると消えてしまいます）`,
+		prerequisites: [{ taskId: mission.requiredTaskId, required: true, unlocks: "Mission" }],
+		priority: 0,
+		action: { type: "guide" },
+		trigger: mission.trigger
+	});
+	task.expiresAt = startSeconds + mission.durationSeconds;
+	task.remainingSeconds = mission.durationSeconds;
+	return task;
+}
@@ -1,4 +1,5 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
+import { OptionalAppId } from "../config/sessionConfig";
 
 /**
  * Animation configuration constants
@@ -10,6 +11,13 @@ const ANIMATION_CONFIG = {
 	SHOP_HIGHLIGHT_OPACITY: 0.8,
 } as const;
 
+/**
+ * App icon arrangement constants
+ */
+const APP_LIST_CONFIG = {
+	APP_ICON_MAX_SPACING: 180,
+} as const;
+
 /**
  * Layout configuration interface
  */
@@ -30,6 +38,8 @@ interface AppConfig {
 	color: string;
 	badge?: string;
 	visible?: boolean;
+	/** Set for apps the rules of a round can turn off */
+	optionalAppId?: OptionalAppId;
 }
 
 /**
@@ -44,12 +54,18 @@ export interface AppListParameterObject extends g.EParameterObject {
 	onProfileClick?: () => void;
 	/** Callback when shop app is clicked */
 	onShopClick?: () => void;
+	/** Callback when social game app is clicked */
+	onSocialGameClick?: () => void;
+	/** Callback when flea market app is clicked */
+	onFleaMarketClick?: () => void;
 	/** Callback when settlement app is clicked */
 	onSettlementClick?: () => void;
 	/** Callback when settlement app is triggered automatically */
 	onAutomaticSettlementClick?: () => void;
 	/** Callback when shop app is revealed */
 	onShopAppReveal?: () => void;
+	/** Optional apps to show (defaults to every app) */
+	enabledApps?: OptionalAppId[];
 }
 
 /**
@@ -59,13 +75,17 @@ export class AppListE extends g.E {
 	private readonly layout: LayoutConfig;
 	private readonly onProfileClick?: () => void;
 	private readonly onShopClick?: () => void;
+	private readonly onSocialGameClick?: () => void;
+	private readonly onFleaMarketClick?: () => void;
 	private readonly onSettlementClick?: () => void;
 	private readonly onAutomaticSettlementClick?: () => void;
 	private readonly onShopAppReveal?: () => void;
 	private readonly apps: AppConfig[];
 	private shopAppElements: g.E[] = [];
 	private settlementAppElements: g.E[] = [];
+	private fleaMarketAppElements: g.E[] = [];
 	private shopAppVisible: boolean = false;
+	private fleaMarketAppVisible: boolean = false;
 	private settlementAppVisible: boolean = false;
 	private settlementIsAutomatic: boolean = false;
 
@@ -78,29 +98,43 @@ export class AppListE extends g.E {
 
 		this.onProfileClick = options.onProfileClick;
 		this.onShopClick = options.onShopClick;
+		this.onSocialGameClick = options.onSocialGameClick;
+		this.onFleaMarketClick = options.onFleaMarketClick;
 		this.onSettlementClick = options.onSettlementClick;
 		this.onAutomaticSettlementClick = options.onAutomaticSettlementClick;
 		this.onShopAppReveal = options.onShopAppReveal;
 		this.layout = this.createLayoutConfig(options.width, options.height);
 
 		// Initialize apps configuration
+		const enabledApps = options.enabledApps;
 		this.apps = [
 			{ icon: "👤", name: "プロフィール", color: "#00796b", visible: true },
 			{ icon: "🛒", name: "通販", color: "#00796b", visible: false }, // Initially hidden
-			// { icon: "🎮", name: "ソシャゲ", color: "#e74c3c", badge: "1", visible: true }, // Not implemented yet
-			// { icon: "🛍️", name: "フリマ", color: "#7f8c8d", visible: true }, // Not implemented yet
+			{ icon: "🎮", name: "ソシャゲ", color: "#00796b", visible: true, optionalAppId: "socialGame" as const },
+			{ icon: "🛍️", name: "フリマ", color: "#00796b", visible: false, optionalAppId: "fleaMarket" as const }, // Initially hidden
 			{ icon: "💰", name: "精算", color: "#00796b", visible: false }, // Initially hidden
-		];
+		].filter(app => !app.optionalAppId || !enabledApps || enabledApps.indexOf(app.optionalAppId) !== -1);
 
 		this.createLayout();
 	}
 
 	/**
 	 * Reveals the shop app with animation
+	 * The shop app may have been revealed already as a feature of the phase, in which case only autoOpen is applied
 	 * @param autoOpen Whether to automatically open shop after reveal (default: true)
 	 */
 	revealShopApp(autoOpen: boolean = true, onComplete?: () => void): void {
-		if (this.shopAppVisible) return;
+		if (this.shopAppVisible) {
+			if (autoOpen) {
+				// Wait for the fade-in that may still be running
+				new Timeline(this.scene).create(this)
+					.wait(ANIMATION_CONFIG.SHOP_FADE_IN_DURATION)
+					.call(() => this.highlightShopApp(onComplete));
+			} else if (onComplete) {
+				onComplete();
+			}
+			return;
+		}
 
 		// Update app visibility state
 		const shopApp = this.apps.find(app => app.name === "通販");
@@ -112,7 +146,7 @@ export class AppListE extends g.E {
 		// Create the shop app icon (calculate actual index dynamically)
 		const iconLayout = this.layout.children!.icon;
 		const shopIndex = this.apps.findIndex(app => app.name === "通販");
-		const appX = this.layout.x + iconLayout.x + (shopIndex * 180);
+		const appX = this.getAppX(shopIndex);
 		const appY = this.layout.y + iconLayout.y;
 
 		this.createAppIcon(shopApp!, appX, appY, shopIndex, false); // false = not automatic
@@ -148,6 +182,36 @@ export class AppListE extends g.E {
 		}
 	}
 
+	/**
+	 * Reveals the flea market app with fade-in animation
+	 * Does nothing if the rules of the round turned the flea market off
+	 */
+	revealFleaMarketApp(): void {
+		if (this.fleaMarketAppVisible) return;
+
+		const fleaMarketIndex = this.apps.findIndex(app => app.name === "フリマ");
+		if (fleaMarketIndex === -1) return;
+
+		// Update app visibility state
+		const fleaMarketApp = this.apps[fleaMarketIndex];
+		fleaMarketApp.visible = true;
+		this.fleaMarketAppVisible = true;
+
+		const iconLayout = this.layout.children!.icon;
+		this.createAppIcon(fleaMarketApp, this.getAppX(fleaMarketIndex), this.layout.y + iconLayout.y, fleaMarketIndex, false);
+
+		// Start with opacity 0 for fade-in effect
+		this.fleaMarketAppElements.forEach(element => {
+			element.opacity = 0;
+		});
+
+		const timeline = new Timeline(this.scene);
+		this.fleaMarketAppElements.forEach(element => {
+			timeline.create(element)
+				.to({ opacity: 1 }, ANIMATION_CONFIG.SHOP_FADE_IN_DURATION);
+		});
+	}
+
 	/**
 	 * Highlights the shop app with a special effect and automatically opens shop
 	 */
@@ -205,7 +269,7 @@ export class AppListE extends g.E {
 		// Create the settlement app icon (calculate actual index dynamically)
 		const iconLayout = this.layout.children!.icon;
 		const settlementIndex = this.apps.findIndex(app => app.name === "精算");
-		const appX = this.layout.x + iconLayout.x + (settlementIndex * 180);
+		const appX = this.getAppX(settlementIndex);
 		const appY = this.layout.y + iconLayout.y;
 
 		this.createAppIcon(settlementApp!, appX, appY, settlementIndex, isAutomatic);
@@ -272,7 +336,7 @@ export class AppListE extends g.E {
 			children: {
 				title: { x: 0, y: -25, width: 100, height: 16 },
 				icon: {
-					x: 60,
+					x: 20,
 					y: 10,
 					width: 80,
 					height: 80,
@@ -331,13 +395,26 @@ export class AppListE extends g.E {
 		// Create visible app icons
 		this.apps.forEach((app, index) => {
 			if (app.visible) {
-				const appX = this.layout.x + iconLayout.x + (index * 180);
+				const appX = this.getAppX(index);
 				const appY = this.layout.y + iconLayout.y;
 				this.createAppIcon(app, appX, appY, index, false); // false = not automatic
 			}
 		});
 	}
 
+	/**
+	 * Gets x position of an app icon so that all apps fit in the navigation width
+	 * @param appIndex Index of the app in the apps configuration
+	 */
+	private getAppX(appIndex: number): number {
+		const iconLayout = this.layout.children!.icon;
+		const availableWidth = this.layout.width - iconLayout.x * 2 - iconLayout.width;
+		const spacing = this.apps.length > 1
+			? Math.min(APP_LIST_CONFIG.APP_ICON_MAX_SPACING, availableWidth / (this.apps.length - 1))
+			: 0;
+		return this.layout.x + iconLayout.x + appIndex * spacing;
+	}
+
 	/**
 	 * Creates a single app icon
 	 * @param isAutomatic Whether this is being created during automatic settlement reveal
@@ -387,6 +464,24 @@ export class AppListE extends g.E {
 			});
 		}
 
+		// Add click handler for social game app
+		if (app.name === "ソシャゲ") {
+			iconBg.onPointDown.add(() => {
+				if (this.onSocialGameClick) {
+					this.onSocialGameClick();
+				}
+			});
+		}
+
+		// Add click handler for flea market app
+		if (app.name === "フリマ") {
+			iconBg.onPointDown.add(() => {
+				if (this.onFleaMarketClick) {
+					this.onFleaMarketClick();
+				}
+			});
+		}
+
 		// Add click handler for settlement app
 		if (app.name === "精算") {
 			// Disable touchability during automatic settlement to avoid unintentional behavior
@@ -472,6 +567,11 @@ export class AppListE extends g.E {
 			}
 		}
 
+		// Store flea market app elements for later manipulation
+		if (app.name === "フリマ") {
+			this.fleaMarketAppElements = [iconBg, iconLabel, nameLabel];
+		}
+
 		// Store settlement app elements for later manipulation
 		if (app.name === "精算") {
 			this.settlementAppElements = [iconBg, iconLabel, nameLabel];
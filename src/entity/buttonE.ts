@@ -1,3 +1,6 @@
+import { BUTTON_SUBMIT_MESSAGE_NAME, isButtonSubmitMessage } from "../data/messageSchema";
+import { ReplayRecorder } from "../manager/replayRecorder";
+
 /**
  * Message arguments structure for ButtonE communication
  * @template T Type of the arguments
@@ -135,7 +138,7 @@ export abstract class ButtonE<T, A extends ButtonEParameterObject<T>> extends g.
 			this.createLoadingOverlay();
 
 			const message: MessageData<ButtonEMessageArgs<T>> = {
-				name: "submit",
+				name: BUTTON_SUBMIT_MESSAGE_NAME,
 				args: {
 					name: this.name,
 					args: this.msgArgs
@@ -143,6 +146,8 @@ export abstract class ButtonE<T, A extends ButtonEParameterObject<T>> extends g.
 			};
 			this.scene.game.raiseEvent(new g.MessageEvent(message));
 		} else {
+			// No message event to record in single player mode, so the press is recorded as a local action
+			ReplayRecorder.forGame(this.scene.game)?.recordAction(this.name, this.msgArgs);
 			this.onReceive(this.msgArgs);
 		}
 	}
@@ -187,8 +192,8 @@ export abstract class ButtonE<T, A extends ButtonEParameterObject<T>> extends g.
 
 		if (this.multi) {
 			this.onMessage.add(e => {
-				if (e.player?.id === this.scene.game.selfId && e.data.name === "submit" && e.data.args?.name === this.name) {
-					this.onReceive(e.data.args?.args);
+				if (e.player?.id === this.scene.game.selfId && isButtonSubmitMessage(e.data, this.name)) {
+					this.onReceive(e.data.args.args as T);
 				}
 			});
 		}
@@ -0,0 +1,722 @@
+import { FleaMarketListing } from "../data/fleaMarketData";
+import { ItemData, OwnedItem } from "../data/itemData";
+import { FleaMarketManager } from "../manager/fleaMarketManager";
+import { ItemManager } from "../manager/itemManager";
+import { adjustLabelWidthToFit } from "../util/labelUtils";
+import { LabelButtonE } from "./labelButtonE";
+import { ModalE } from "./modalE";
+
+/**
+ * Flea market configuration constants
+ */
+const FLEA_MARKET_UI_CONFIG = {
+	// Layout constants
+	HEADER_HEIGHT: 69, // HeaderE height
+	LIST_Y_OFFSET: 69 + 69 + 20,
+	LIST_MARGIN: 20,
+	SELL_COLUMN_X: 230, // 戻るボタンのレイアウトの都合により右側から表示
+	COLUMN_WIDTH: 500,
+	COLUMN_SPACING: 30,
+	COLUMN_TITLE_HEIGHT: 40,
+	ROW_HEIGHT: 70,
+	ROW_SPACING: 6,
+	MAX_VISIBLE_ROWS: 6,
+
+	// Row button
+	ROW_BUTTON_WIDTH: 110,
+	ROW_BUTTON_HEIGHT: 56,
+
+	// Modal constants
+	MODAL_WIDTH: 760,
+	MODAL_HEIGHT: 300,
+	MODAL_BUTTON_WIDTH: 160,
+	MODAL_BUTTON_HEIGHT: 120,
+	MODAL_BUTTON_SPACING: 10,
+
+	// Colors
+	BACKGROUND_COLOR: "#ecf0f1",
+	HEADER_COLOR: "#2c3e50",
+	ROW_COLOR: "white",
+	TEXT_COLOR: "#2c3e50",
+	SUB_TEXT_COLOR: "#7f8c8d",
+	PRICE_COLOR: "#e74c3c",
+	SELL_BUTTON_COLOR: "#f57c00",
+	BUY_BUTTON_COLOR: "#689f38",
+	CANCEL_BUTTON_COLOR: "#95a5a6",
+	DISABLED_BUTTON_COLOR: "#616161",
+	SUCCESS_COLOR: "#0288d1",
+	ERROR_COLOR: "#e74c3c",
+} as const;
+
+/**
+ * Parameter object for FleaMarket
+ */
+export interface FleaMarketParameterObject extends g.EParameterObject {
+	/** Whether multiplayer mode or not */
+	multi: boolean;
+	/** Screen width */
+	width: number;
+	/** Screen height */
+	height: number;
+	/** Item manager instance */
+	itemManager: ItemManager;
+	/** Flea market manager instance */
+	fleaMarketManager: FleaMarketManager;
+	/** Callback to get current player ID */
+	onGetPlayerId: () => string;
+	/** Callback to check if player has enough points */
+	onCheckPoints: () => number;
+	/** Callback to deduct points for purchase */
+	onDeductPoints: (amount: number) => void;
+	/** Callback to refund points when a purchase request could not be sent */
+	onRefundPoints: (amount: number) => void;
+	/** Callback when back button is pressed */
+	onBack?: () => void;
+}
+
+/**
+ * Flea market screen entity
+ * Left column lists the player's owned items for sale, right column lists other players' items
+ */
+export class FleaMarketE extends g.E {
+	static assetIds: string[] = [...ModalE.assetIds];
+
+	private readonly multi: boolean;
+	private readonly screenWidth: number;
+	private readonly itemManager: ItemManager;
+	private readonly fleaMarketManager: FleaMarketManager;
+	private readonly onGetPlayerId: () => string;
+	private readonly onCheckPoints: () => number;
+	private readonly onDeductPoints: (amount: number) => void;
+	private readonly onRefundPoints: (amount: number) => void;
+	private readonly onBack?: () => void;
+	private listContainer?: g.E;
+	private currentModal?: ModalE<string>;
+	private rowButtons: Map<string, LabelButtonE<string>> = new Map();
+
+	/**
+	 * Creates a new FleaMarket instance
+	 * @param options Configuration options for the flea market screen
+	 */
+	constructor(options: FleaMarketParameterObject) {
+		super(options);
+
+		this.multi = options.multi;
+		this.screenWidth = options.width;
+		this.itemManager = options.itemManager;
+		this.fleaMarketManager = options.fleaMarketManager;
+		this.onGetPlayerId = options.onGetPlayerId;
+		this.onCheckPoints = options.onCheckPoints;
+		this.onDeductPoints = options.onDeductPoints;
+		this.onRefundPoints = options.onRefundPoints;
+		this.onBack = options.onBack;
+
+		this.createLayout(options.width, options.height);
+		this.refreshListings();
+	}
+
+	/**
+	 * Rebuilds both columns from the current inventory and listings
+	 * Should be called whenever listings or inventory change
+	 */
+	refreshListings(): void {
+		if (this.listContainer) {
+			this.listContainer.destroy();
+		}
+		this.rowButtons.clear();
+
+		this.listContainer = new g.E({ scene: this.scene });
+		this.append(this.listContainer);
+
+		this.createSellColumn();
+		this.createBuyColumn();
+	}
+
+	/**
+	 * Force closes all modals when time reaches zero
+	 */
+	forceCloseAllModals(): void {
+		this.closeModal();
+	}
+
+	/**
+	 * Gets a row button by its name (for testing)
+	 * @param name The button name (e.g., "flea_sell_novel_volume1")
+	 */
+	getRowButtonForTesting(name: string): LabelButtonE<string> | undefined {
+		return this.rowButtons.get(name);
+	}
+
+	/**
+	 * Creates background, header and back button
+	 */
+	private createLayout(width: number, height: number): void {
+		const background = new g.FilledRect({
+			scene: this.scene,
+			width: width,
+			height: height - FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT * 2,
+			x: 0,
+			y: FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT * 2,
+			cssColor: FLEA_MARKET_UI_CONFIG.BACKGROUND_COLOR,
+		});
+		this.append(background);
+
+		const headerBg = new g.FilledRect({
+			scene: this.scene,
+			width: width,
+			height: FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT,
+			x: 0,
+			y: FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT,
+			cssColor: FLEA_MARKET_UI_CONFIG.HEADER_COLOR,
+		});
+		this.append(headerBg);
+
+		const title = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 36,
+				fontColor: "white",
+			}),
+			text: "フリマ",
+			x: width / 2,
+			y: FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT * 1.5,
+			anchorX: 0.5,
+			anchorY: 0.5
+		});
+		this.append(title);
+
+		// Back button (same placement as ShopE)
+		const backBackground = new g.FilledRect({
+			scene: this.scene,
+			x: 0,
+			y: FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT * 2,
+			width: 200,
+			height: 80,
+			cssColor: FLEA_MARKET_UI_CONFIG.HEADER_COLOR,
+			touchable: true,
+			local: true,
+		});
+		backBackground.onPointDown.add(() => {
+			if (this.onBack) {
+				this.onBack();
+			}
+		});
+		this.append(backBackground);
+
+		const backLabel = new g.Label({
+			scene: this.scene,
+			x: 100,
+			y: FLEA_MARKET_UI_CONFIG.HEADER_HEIGHT * 2 + 40,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 36,
+				fontColor: "white",
+			}),
+			text: "  ← 戻る",
+			anchorX: 0.5,
+			anchorY: 0.5
+		});
+		this.append(backLabel);
+	}
+
+	/**
+	 * Creates the left column with the player's owned items
+	 */
+	private createSellColumn(): void {
+		const x = FLEA_MARKET_UI_CONFIG.SELL_COLUMN_X;
+		const ownedItems = this.itemManager.getOwnedItems();
+		this.createColumnTitle("出品する", x);
+
+		if (ownedItems.length === 0) {
+			this.createEmptyLabel("所持アイテムがありません", x);
+			return;
+		}
+
+		const playerId = this.onGetPlayerId();
+		const ownListings = this.fleaMarketManager.getActiveListingsBySeller(playerId);
+
+		ownedItems.slice(0, FLEA_MARKET_UI_CONFIG.MAX_VISIBLE_ROWS).forEach((ownedItem, index) => {
+			const listing = ownListings.find(l => l.item.id === ownedItem.item.id);
+			this.createOwnedItemRow(ownedItem, listing, x, this.getRowY(index));
+		});
+
+		this.createOverflowLabel(ownedItems.length, x);
+	}
+
+	/**
+	 * Creates the right column with other players' active listings
+	 */
+	private createBuyColumn(): void {
+		const x = FLEA_MARKET_UI_CONFIG.SELL_COLUMN_X + FLEA_MARKET_UI_CONFIG.COLUMN_WIDTH + FLEA_MARKET_UI_CONFIG.COLUMN_SPACING;
+		const playerId = this.onGetPlayerId();
+		const listings = this.fleaMarketManager.getActiveListings().filter(listing => listing.sellerId !== playerId);
+		this.createColumnTitle("出品中の商品", x);
+
+		if (listings.length === 0) {
+			this.createEmptyLabel("出品中の商品はありません", x);
+			return;
+		}
+
+		listings.slice(0, FLEA_MARKET_UI_CONFIG.MAX_VISIBLE_ROWS).forEach((listing, index) => {
+			this.createListingRow(listing, x, this.getRowY(index));
+		});
+
+		this.createOverflowLabel(listings.length, x);
+	}
+
+	/**
+	 * Gets y position of a row
+	 */
+	private getRowY(index: number): number {
+		return FLEA_MARKET_UI_CONFIG.LIST_Y_OFFSET
+			+ FLEA_MARKET_UI_CONFIG.COLUMN_TITLE_HEIGHT
+			+ index * (FLEA_MARKET_UI_CONFIG.ROW_HEIGHT + FLEA_MARKET_UI_CONFIG.ROW_SPACING);
+	}
+
+	/**
+	 * Creates a column title label
+	 */
+	private createColumnTitle(text: string, x: number): void {
+		const title = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 24,
+				fontColor: FLEA_MARKET_UI_CONFIG.TEXT_COLOR,
+				fontWeight: "bold"
+			}),
+			text: text,
+			x: x,
+			y: FLEA_MARKET_UI_CONFIG.LIST_Y_OFFSET,
+		});
+		this.listContainer!.append(title);
+	}
+
+	/**
+	 * Creates a placeholder label for an empty column
+	 */
+	private createEmptyLabel(text: string, x: number): void {
+		const label = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 20,
+				fontColor: FLEA_MARKET_UI_CONFIG.SUB_TEXT_COLOR
+			}),
+			text: text,
+			x: x,
+			y: this.getRowY(0),
+		});
+		this.listContainer!.append(label);
+	}
+
+	/**
+	 * Shows the number of rows that did not fit in the column
+	 */
+	private createOverflowLabel(totalCount: number, x: number): void {
+		if (totalCount <= FLEA_MARKET_UI_CONFIG.MAX_VISIBLE_ROWS) {
+			return;
+		}
+
+		const label = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 20,
+				fontColor: FLEA_MARKET_UI_CONFIG.SUB_TEXT_COLOR
+			}),
+			text: `ほか${totalCount - FLEA_MARKET_UI_CONFIG.MAX_VISIBLE_ROWS}件`,
+			x: x,
+			y: this.getRowY(FLEA_MARKET_UI_CONFIG.MAX_VISIBLE_ROWS),
+		});
+		this.listContainer!.append(label);
+	}
+
+	/**
+	 * Creates the common row frame with emoji and item name
+	 * @returns Row container
+	 */
+	private createRowFrame(item: ItemData, subText: string, x: number, y: number): g.E {
+		const row = new g.E({ scene: this.scene, x: x, y: y });
+
+		const rowBg = new g.FilledRect({
+			scene: this.scene,
+			width: FLEA_MARKET_UI_CONFIG.COLUMN_WIDTH,
+			height: FLEA_MARKET_UI_CONFIG.ROW_HEIGHT,
+			cssColor: FLEA_MARKET_UI_CONFIG.ROW_COLOR,
+		});
+		row.append(rowBg);
+
+		const emoji = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 40,
+			}),
+			text: item.emoji,
+			x: 10,
+			y: 12,
+		});
+		row.append(emoji);
+
+		const name = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 22,
+				fontColor: FLEA_MARKET_UI_CONFIG.TEXT_COLOR,
+			}),
+			text: item.name,
+			x: 70,
+			y: 8,
+		});
+		adjustLabelWidthToFit(name, FLEA_MARKET_UI_CONFIG.COLUMN_WIDTH - FLEA_MARKET_UI_CONFIG.ROW_BUTTON_WIDTH - 90);
+		row.append(name);
+
+		const sub = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 18,
+				fontColor: FLEA_MARKET_UI_CONFIG.SUB_TEXT_COLOR,
+			}),
+			text: subText,
+			x: 70,
+			y: 40,
+		});
+		adjustLabelWidthToFit(sub, FLEA_MARKET_UI_CONFIG.COLUMN_WIDTH - FLEA_MARKET_UI_CONFIG.ROW_BUTTON_WIDTH - 90);
+		row.append(sub);
+
+		this.listContainer!.append(row);
+		return row;
+	}
+
+	/**
+	 * Creates a row button and stores its reference
+	 */
+	private createRowButton(row: g.E, options: {
+		name: string;
+		args: string;
+		text: string;
+		backgroundColor: string;
+		onComplete: (args: string) => void;
+	}): LabelButtonE<string> {
+		const button = new LabelButtonE({
+			scene: this.scene,
+			multi: this.multi,
+			name: options.name,
+			args: options.args,
+			text: options.text,
+			width: FLEA_MARKET_UI_CONFIG.ROW_BUTTON_WIDTH,
+			height: FLEA_MARKET_UI_CONFIG.ROW_BUTTON_HEIGHT,
+			x: FLEA_MARKET_UI_CONFIG.COLUMN_WIDTH - FLEA_MARKET_UI_CONFIG.ROW_BUTTON_WIDTH - 7,
+			y: (FLEA_MARKET_UI_CONFIG.ROW_HEIGHT - FLEA_MARKET_UI_CONFIG.ROW_BUTTON_HEIGHT) / 2,
+			backgroundColor: options.backgroundColor,
+			textColor: "white",
+			fontSize: 22,
+			onComplete: options.onComplete
+		});
+		row.append(button);
+		this.rowButtons.set(options.name, button);
+		return button;
+	}
+
+	/**
+	 * Creates a row for one of the player's owned items
+	 * @param listing Active listing of the item, if listed
+	 */
+	private createOwnedItemRow(ownedItem: OwnedItem, listing: FleaMarketListing | undefined, x: number, y: number): void {
+		const item = ownedItem.item;
+		const subText = listing ? `出品中: ${listing.price}pt` : `購入価格: ${item.purchasePrice}pt`;
+		const row = this.createRowFrame(item, subText, x, y);
+
+		if (listing) {
+			this.createRowButton(row, {
+				name: `flea_cancel_${listing.id}`,
+				args: listing.id,
+				text: "取消",
+				backgroundColor: FLEA_MARKET_UI_CONFIG.CANCEL_BUTTON_COLOR,
+				onComplete: (listingId: string) => this.handleCancel(listingId)
+			});
+		} else {
+			this.createRowButton(row, {
+				name: `flea_sell_${item.id}`,
+				args: item.id,
+				text: "出品",
+				backgroundColor: FLEA_MARKET_UI_CONFIG.SELL_BUTTON_COLOR,
+				onComplete: (itemId: string) => this.handleSell(itemId)
+			});
+		}
+	}
+
+	/**
+	 * Creates a row for another player's listing
+	 */
+	private createListingRow(listing: FleaMarketListing, x: number, y: number): void {
+		const row = this.createRowFrame(listing.item, `${listing.price}pt / 出品者: ${listing.sellerName}`, x, y);
+		const isOwned = this.itemManager.ownsItem(listing.item.id);
+
+		const button = this.createRowButton(row, {
+			name: `flea_buy_${listing.id}`,
+			args: listing.id,
+			text: isOwned ? "所持済" : "購入",
+			backgroundColor: isOwned ? FLEA_MARKET_UI_CONFIG.DISABLED_BUTTON_COLOR : FLEA_MARKET_UI_CONFIG.BUY_BUTTON_COLOR,
+			onComplete: (listingId: string) => this.handleBuy(listingId)
+		});
+		if (isOwned) {
+			button.touchable = false;
+		}
+	}
+
+	/**
+	 * Handles sell button click
+	 * @param itemId The ID of the owned item to list
+	 */
+	private handleSell(itemId: string): void {
+		const item = this.itemManager.getItem(itemId);
+		if (!item || !this.itemManager.ownsItem(itemId)) {
+			this.showResultModal("出品失敗", "このアイテムは所持していません。", false);
+			return;
+		}
+
+		this.showSellModal(item);
+	}
+
+	/**
+	 * Shows the listing modal with selectable prices (SellModal)
+	 * @param item The item to list
+	 */
+	private showSellModal(item: ItemData): void {
+		this.closeModal();
+
+		const modal = new ModalE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "fleaMarketSellModal",
+			args: item.id,
+			title: "出品",
+			message: `${item.name}を出品しますか？\n\n購入価格: ${item.purchasePrice}pt\n出品価格を選んでください`,
+			width: FLEA_MARKET_UI_CONFIG.MODAL_WIDTH,
+			height: FLEA_MARKET_UI_CONFIG.MODAL_HEIGHT,
+			onClose: () => this.closeModalWithReactivation(`flea_sell_${item.id}`),
+		});
+
+		const prices = this.fleaMarketManager.getPriceOptions(item);
+		const buttonCount = prices.length + 1;
+		const step = FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_WIDTH + FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_SPACING;
+		const firstOffset = -step * (buttonCount - 1) / 2;
+
+		modal.replaceCloseButtons([
+			...prices.map((price, index) => ({
+				text: `${price}pt`,
+				backgroundColor: FLEA_MARKET_UI_CONFIG.SELL_BUTTON_COLOR,
+				textColor: "white",
+				width: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_WIDTH,
+				height: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+				x: firstOffset + index * step,
+				y: -40,
+				onComplete: () => this.executeListing(item, price)
+			})),
+			{
+				text: "キャンセル",
+				backgroundColor: FLEA_MARKET_UI_CONFIG.CANCEL_BUTTON_COLOR,
+				textColor: "white",
+				width: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_WIDTH,
+				height: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+				x: firstOffset + prices.length * step,
+				y: -40,
+				onComplete: () => this.reactivateRowButton(`flea_sell_${item.id}`)
+			}
+		]);
+
+		this.currentModal = modal;
+		this.scene.append(modal);
+	}
+
+	/**
+	 * Lists an item at the selected price
+	 */
+	private executeListing(item: ItemData, price: number): void {
+		const listing = this.fleaMarketManager.requestListing(item, price);
+		if (!listing) {
+			this.reactivateRowButton(`flea_sell_${item.id}`);
+			this.showResultModal("出品失敗", "このアイテムは出品できません。", false);
+			return;
+		}
+
+		this.showResultModal("出品完了", `${item.name}を${price}ptで出品しました！\n\n売れるとポイントを獲得できます。`, true);
+	}
+
+	/**
+	 * Handles cancel button click on one of the player's listings
+	 * @param listingId The listing to cancel
+	 */
+	private handleCancel(listingId: string): void {
+		if (!this.fleaMarketManager.requestCancel(listingId)) {
+			this.showResultModal("取消失敗", "この出品は取り消せません。", false);
+			return;
+		}
+
+		this.showResultModal("取消完了", "出品を取り消しました。", true);
+	}
+
+	/**
+	 * Handles buy button click on another player's listing
+	 * @param listingId The listing to buy
+	 */
+	private handleBuy(listingId: string): void {
+		const listing = this.fleaMarketManager.getListing(listingId);
+		if (!listing || listing.status !== "active") {
+			this.showResultModal("購入失敗", "この商品はすでに売り切れました。", false);
+			return;
+		}
+
+		if (this.itemManager.ownsItem(listing.item.id)) {
+			this.reactivateRowButton(`flea_buy_${listingId}`);
+			this.showResultModal("購入失敗", "すでに所持しているアイテムです。", false);
+			return;
+		}
+
+		const currentPoints = this.onCheckPoints();
+		if (currentPoints < listing.price) {
+			this.reactivateRowButton(`flea_buy_${listingId}`);
+			this.showResultModal("購入失敗", `ポイントが不足しています。\n必要: ${listing.price}pt\n所持: ${currentPoints}pt`, false);
+			return;
+		}
+
+		this.showPurchaseConfirmationModal(listing);
+	}
+
+	/**
+	 * Shows purchase confirmation modal
+	 */
+	private showPurchaseConfirmationModal(listing: FleaMarketListing): void {
+		this.closeModal();
+
+		const modal = new ModalE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "fleaMarketPurchaseConfirmModal",
+			args: listing.id,
+			title: "購入確認",
+			message: `${listing.item.name}を購入しますか？\n\n価格: ${listing.price}pt\n出品者: ${listing.sellerName}`,
+			width: 600,
+			height: FLEA_MARKET_UI_CONFIG.MODAL_HEIGHT,
+			onClose: () => this.closeModalWithReactivation(`flea_buy_${listing.id}`),
+		});
+
+		modal.replaceCloseButtons([
+			{
+				text: "購入",
+				backgroundColor: FLEA_MARKET_UI_CONFIG.BUY_BUTTON_COLOR,
+				textColor: "white",
+				width: 180,
+				height: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+				onComplete: () => this.executePurchase(listing)
+			},
+			{
+				text: "キャンセル",
+				backgroundColor: FLEA_MARKET_UI_CONFIG.CANCEL_BUTTON_COLOR,
+				textColor: "white",
+				width: 180,
+				height: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+				onComplete: () => this.reactivateRowButton(`flea_buy_${listing.id}`)
+			}
+		]);
+
+		this.currentModal = modal;
+		this.scene.append(modal);
+	}
+
+	/**
+	 * Pays for a listing and sends the purchase request
+	 * The item is delivered when the purchase is accepted
+	 */
+	private executePurchase(listing: FleaMarketListing): void {
+		// The item may have been acquired while the confirmation was shown
+		if (this.itemManager.ownsItem(listing.item.id)) {
+			this.reactivateRowButton(`flea_buy_${listing.id}`);
+			this.showResultModal("購入失敗", "すでに所持しているアイテムです。", false);
+			return;
+		}
+
+		this.onDeductPoints(listing.price);
+
+		if (!this.fleaMarketManager.requestPurchase(listing.id)) {
+			this.onRefundPoints(listing.price);
+			this.showResultModal("購入失敗", "この商品はすでに売り切れました。", false);
+			return;
+		}
+
+		this.showResultModal("購入申込", `${listing.item.name}の購入を申し込みました！\n\n-${listing.price}pt\n売り切れの場合は返金されます。`, true);
+	}
+
+	/**
+	 * Shows a result modal
+	 */
+	private showResultModal(title: string, message: string, isSuccess: boolean): void {
+		this.closeModal();
+
+		const modal = new ModalE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "fleaMarketResultModal",
+			args: "",
+			title: title,
+			message: message,
+			width: 400,
+			height: 200,
+			onClose: () => this.closeModal(),
+		});
+
+		modal.replaceCloseButton({
+			text: "OK",
+			backgroundColor: isSuccess ? FLEA_MARKET_UI_CONFIG.SUCCESS_COLOR : FLEA_MARKET_UI_CONFIG.ERROR_COLOR,
+			textColor: "white",
+			width: 180,
+			height: FLEA_MARKET_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+			onComplete: () => this.closeModal()
+		});
+
+		this.currentModal = modal;
+		this.scene.append(modal);
+	}
+
+	/**
+	 * Reactivates a row button after modal closure
+	 * @param name The button name
+	 */
+	private reactivateRowButton(name: string): void {
+		const button = this.rowButtons.get(name);
+		if (button) {
+			button.reactivate();
+		}
+	}
+
+	/**
+	 * Closes the current modal and reactivates a row button
+	 */
+	private closeModalWithReactivation(name: string): void {
+		this.closeModal();
+		this.reactivateRowButton(name);
+	}
+
+	/**
+	 * Closes the current modal
+	 */
+	private closeModal(): void {
+		if (this.currentModal) {
+			this.currentModal.destroy();
+			this.currentModal = undefined;
+		}
+	}
+}
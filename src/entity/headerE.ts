@@ -52,6 +52,14 @@ export class HeaderE extends g.E {
 		this.pointDisplay.setScore(score);
 	}
 
+	/**
+	 * Updates the displayed pending point-back
+	 * @param pendingPoints Points that have not been paid yet
+	 */
+	setPendingPoints(pendingPoints: number): void {
+		this.pointDisplay.setPendingPoints(pendingPoints);
+	}
+
 	/**
 	 * Gets the current score
 	 * @returns Current score
@@ -1,22 +1,38 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
+import { POINT_BACK_CONFIG } from "../config/pointBackConfig";
+import { SNS_CONFIG } from "../config/snsConfig";
 import { AffiliateBroadcastMessage } from "../data/affiliateMessages";
 import { GameContext } from "../data/gameContext";
 import { ItemData } from "../data/itemData";
+import { ItemAcquiredMessage, ItemRemovedMessage } from "../data/itemMessages";
+import { addPlayerItem, PlayerData, removePlayerItem } from "../data/playerData";
+import { calculatePointBack } from "../data/pointBackData";
 import { createSharedPost, SharedPostData } from "../data/sharedPostData";
 import { TaskData } from "../data/taskData";
-import { ItemManager } from "../manager/itemManager";
+import { AffiliateAnalyticsManager } from "../manager/affiliateAnalyticsManager";
+import { CampaignManager } from "../manager/campaignManager";
+import { FeedEvent, FeedManager } from "../manager/feedManager";
+import { FleaMarketEvent, FleaMarketManager } from "../manager/fleaMarketManager";
+import { ItemChangeEvent, ItemManager } from "../manager/itemManager";
 import { MarketManager } from "../manager/marketManager";
+import { MessageBus } from "../manager/messageBus";
+import { PhaseEvent, PhaseManager } from "../manager/phaseManager";
 import { PointManager, POINT_CONSTANTS } from "../manager/pointManager";
+import { SnsEvent, SnsManager } from "../manager/snsManager";
+import { SocialGameManager } from "../manager/socialGameManager";
 import { TaskManager, TaskExecutionContext } from "../manager/taskManager";
 import { AdBannerE, BannerData, BannerContext } from "./adBannerE";
 import { AppListE } from "./appListE";
+import { FleaMarketE } from "./fleaMarketE";
 import { HeaderE } from "./headerE";
 import { ItemListE } from "./itemListE";
 import { ModalE } from "./modalE";
+import { MyShareStatsE } from "./myShareStatsE";
 import { PointDisplayE } from "./pointDisplayE";
 import { ProfileEditorE } from "./profileEditorE";
 import { SettlementE } from "./settlementE";
 import { ShopE } from "./shopE";
+import { SocialGameE } from "./socialGameE";
 import { TaskListE } from "./taskListE";
 import { TimelineE } from "./timelineE";
 
@@ -55,8 +71,20 @@ export interface HomeParameterObject extends g.EParameterObject {
 	gameContext: GameContext;
 	/** Market manager instance for price management */
 	marketManager: MarketManager;
+	/** Campaign manager instance for sale campaigns */
+	campaignManager: CampaignManager;
 	/** Point manager instance for centralized point management */
 	pointManager: PointManager;
+	/** Flea market manager instance for player-to-player listings */
+	fleaMarketManager: FleaMarketManager;
+	/** Phase manager instance that unlocks features as the game progresses */
+	phaseManager: PhaseManager;
+	/** SNS manager instance for likes and follows on the timeline */
+	snsManager: SnsManager;
+	/** Feed manager instance for scripted sale, coupon and hint posts on the timeline */
+	feedManager: FeedManager;
+	/** Affiliate analytics manager instance for views, clicks and purchases of shared posts */
+	affiliateAnalyticsManager: AffiliateAnalyticsManager;
 	/** Function to update current player score in MainScene */
 	updateCurrentPlayerScore: (score: number) => void;
 	/** Function to block user interaction via MainScene */
@@ -81,16 +109,26 @@ export class HomeE extends g.E {
 	private itemList!: ItemListE;
 	private profileEditor?: ProfileEditorE;
 	private shop?: ShopE;
+	private socialGame?: SocialGameE;
+	private fleaMarket?: FleaMarketE;
 	private settlement?: SettlementE;
 	private pointManager!: PointManager;
 	private currentModal?: ModalE<string>;
 	private swipeOverlay?: g.FilledRect;
+	private myShareStats?: MyShareStatsE;
 
 	// Management systems
 	private taskManager!: TaskManager;
 	private itemManager!: ItemManager;
+	private socialGameManager!: SocialGameManager;
 	private gameContext: GameContext;
 	private marketManager!: MarketManager;
+	private campaignManager: CampaignManager;
+	private fleaMarketManager: FleaMarketManager;
+	private phaseManager: PhaseManager;
+	private snsManager: SnsManager;
+	private feedManager: FeedManager;
+	private affiliateAnalyticsManager: AffiliateAnalyticsManager;
 
 	// MainScene function callbacks
 	private updateCurrentPlayerScore!: (score: number) => void;
@@ -103,6 +141,8 @@ export class HomeE extends g.E {
 	private isProfileEditorVisible: boolean = false;
 	private isTimelineVisible: boolean = false;
 	private isShopVisible: boolean = false;
+	private isSocialGameVisible: boolean = false;
+	private isFleaMarketVisible: boolean = false;
 	private isSettlementVisible: boolean = false;
 
 	// Affiliate system
@@ -195,16 +235,42 @@ export class HomeE extends g.E {
 		this.screenHeight = options.height;
 		this.gameContext = options.gameContext;
 		this.marketManager = options.marketManager;
+		this.campaignManager = options.campaignManager;
 		this.pointManager = options.pointManager;
+		this.fleaMarketManager = options.fleaMarketManager;
+		this.phaseManager = options.phaseManager;
+		this.snsManager = options.snsManager;
+		this.feedManager = options.feedManager;
+		this.affiliateAnalyticsManager = options.affiliateAnalyticsManager;
 		this.updateCurrentPlayerScore = options.updateCurrentPlayerScore;
 		this.blockUserInteraction = options.blockUserInteraction;
 		this.unblockUserInteraction = options.unblockUserInteraction;
 
 		// Initialize managers
 		this.initializeItemManager();
+		this.initializeSocialGameManager();
 		this.initializeTaskManager();
 
 		this.createComponents(options.width, options.height);
+
+		// Apply flea market trades that involve the current player
+		this.fleaMarketManager.addListingUpdateListener((event: FleaMarketEvent) => this.handleFleaMarketEvent(event));
+
+		// Reward likes and follows that involve the current player
+		this.snsManager.addSnsListener((event: SnsEvent) => this.handleSnsEvent(event));
+
+		// Push feed posts to the timeline, including ones published before the home screen was created
+		this.feedManager.getPublishedPosts().forEach(post => this.timeline.addFeedPost(post));
+		this.feedManager.addFeedListener((event: FeedEvent) => this.handleFeedEvent(event));
+
+		// Advance point tasks whenever points of the current player change, whatever the source
+		this.gameContext.on("playerUpdated", (player: PlayerData) => {
+			this.taskManager.handleEvent({ type: "pointsChanged", points: player.points });
+		});
+
+		// Reveal features as the game progresses, including ones unlocked before the home screen was created
+		this.phaseManager.getUnlockedFeatures().forEach(feature => this.unlockFeature(feature));
+		this.phaseManager.addPhaseListener((event: PhaseEvent) => this.handlePhaseEvent(event));
 	}
 
 	/**
@@ -236,6 +302,52 @@ export class HomeE extends g.E {
 		this.updateCurrentPlayerScore(newScore);
 	}
 
+	/**
+	 * Grants point-back for a purchase under the "pointback" source
+	 * Point-back is held as pending points until it matures, unless maturity is disabled
+	 * @param item Purchased item
+	 * @param price Price actually paid
+	 * @returns Granted point-back amount
+	 */
+	grantPointBack(item: ItemData, price: number): number {
+		const pointBack = calculatePointBack(item, price, this.campaignManager.getPointBackMultiplier());
+		if (pointBack <= 0) {
+			return 0;
+		}
+
+		const description = `Point back for ${item.name}`;
+		if (POINT_BACK_CONFIG.MATURITY_SECONDS > 0) {
+			const gameState = this.gameContext.gameState;
+			const maturesAt = gameState.totalTimeLimit - gameState.remainingTime + POINT_BACK_CONFIG.MATURITY_SECONDS;
+			this.pointManager.addPendingPoints(pointBack, POINT_BACK_CONFIG.SOURCE, description, maturesAt);
+			this.header.setPendingPoints(this.pointManager.getPendingPoints());
+		} else {
+			this.addScore(pointBack, POINT_BACK_CONFIG.SOURCE, description);
+		}
+		return pointBack;
+	}
+
+	/**
+	 * Pays pending point-back that has matured
+	 * Pending point-back is lost once the game time is over
+	 */
+	settleMaturedPointBack(): void {
+		const gameState = this.gameContext.gameState;
+		if (gameState.remainingTime <= 0) {
+			return;
+		}
+
+		const matured = this.pointManager.settlePendingPoints(gameState.totalTimeLimit - gameState.remainingTime);
+		if (matured.length === 0) {
+			return;
+		}
+
+		const newScore = this.pointManager.getCurrentPoints();
+		this.header.setScore(newScore);
+		this.header.setPendingPoints(this.pointManager.getPendingPoints());
+		this.updateCurrentPlayerScore(newScore);
+	}
+
 	/**
 	 * Sets the remaining time based on remain frame number
 	 * @param remainFrame The remaining frames
@@ -292,6 +404,7 @@ export class HomeE extends g.E {
 	 * Adds a shared post to the timeline from broadcast
 	 */
 	addSharedPostToTimeline(sharedPost: SharedPostData): void {
+		this.affiliateAnalyticsManager.trackPost(sharedPost);
 		if (this.timeline) {
 			this.timeline.addSharedPost(sharedPost);
 		}
@@ -304,6 +417,7 @@ export class HomeE extends g.E {
 		this.addScore(rewardPoints, "affiliate", `Affiliate commission from ${buyerName || "他のプレイヤー"}`);
 		// Use non-blocking notification bar instead of modal
 		this.showAffiliateRewardNotification(rewardPoints, buyerName || "他のプレイヤー");
+		this.taskManager.handleEvent({ type: "affiliateRewarded" });
 	}
 
 	/**
@@ -315,6 +429,25 @@ export class HomeE extends g.E {
 		}
 	}
 
+	/**
+	 * Restores items, tasks and unlocked apps of a player who reconnected to a running game
+	 * Nothing is broadcast because other players already know this state
+	 * @param player Player data received in the game snapshot
+	 */
+	restorePlayerState(player: PlayerData): void {
+		player.ownedItems.forEach(itemId => this.itemManager.restoreOwnedItem(itemId, player.lastActiveAt));
+		this.itemList.refreshItems();
+
+		const visibleTaskItems = this.taskList.getVisibleTaskItems();
+		player.taskProgress.forEach(progress => {
+			if (progress.completed && this.taskManager.restoreCompletedTask(progress.taskId)
+				&& visibleTaskItems.has(progress.taskId)) {
+				this.taskList.completeTaskExternal(progress.taskId);
+			}
+		});
+		this.refreshTaskList();
+	}
+
 	/**
 	 * Returns to home screen if currently viewing other apps
 	 */
@@ -324,6 +457,16 @@ export class HomeE extends g.E {
 			this.switchBackFromShop();
 		}
 
+		// If viewing social game, switch back to home
+		if (this.isSocialGameVisible) {
+			this.switchBackFromSocialGame();
+		}
+
+		// If viewing flea market, switch back to home
+		if (this.isFleaMarketVisible) {
+			this.switchBackFromFleaMarket();
+		}
+
 		// If viewing settlement, switch back to home
 		if (this.isSettlementVisible) {
 			this.switchBackFromSettlement();
@@ -349,6 +492,8 @@ export class HomeE extends g.E {
 
 		// hide all other app windows
 		this.shop?.hide();
+		this.socialGame?.hide();
+		this.fleaMarket?.hide();
 		this.profileEditor?.hide();
 	}
 
@@ -364,6 +509,16 @@ export class HomeE extends g.E {
 			this.shop.forceCloseAllModals();
 		}
 
+		// Close modals in social game if visible
+		if (this.socialGame && this.isSocialGameVisible) {
+			this.socialGame.forceCloseAllModals();
+		}
+
+		// Close modals in flea market if visible
+		if (this.fleaMarket && this.isFleaMarketVisible) {
+			this.fleaMarket.forceCloseAllModals();
+		}
+
 		// Close modals in settlement if visible
 		if (this.settlement && this.isSettlementVisible) {
 			this.settlement.forceCloseAllModals();
@@ -374,7 +529,15 @@ export class HomeE extends g.E {
 	 * Initializes ItemManager
 	 */
 	private initializeItemManager(): void {
-		this.itemManager = new ItemManager();
+		this.itemManager = new ItemManager(this.gameContext.rules.categoryIds);
+		this.itemManager.addItemChangeListener((event: ItemChangeEvent) => this.recordItemChange(event));
+	}
+
+	/**
+	 * Initializes SocialGameManager
+	 */
+	private initializeSocialGameManager(): void {
+		this.socialGameManager = new SocialGameManager(this.gameContext);
 	}
 
 	/**
@@ -388,7 +551,6 @@ export class HomeE extends g.E {
 			gameContext: this.gameContext,
 			onScoreAdd: (points: number, taskData: TaskData) => this.addScore(points, "tasks", `${taskData.title} completion reward`),
 			onProfileSwitch: () => this.switchToProfileEditor(),
-			onTimelineReveal: () => this.revealTimeline(),
 			onShopAppReveal: (onComplete) => this.appList.revealShopApp(true, onComplete),
 			onModalCreate: (modal: ModalE<string>) => {
 				this.currentModal = modal;
@@ -416,10 +578,13 @@ export class HomeE extends g.E {
 				this.taskList.completeTaskExternal(taskId);
 				this.recordTaskCompletion(taskId);
 			},
+			onTaskProgress: (taskId: string) => this.taskList.updateTaskProgress(taskId),
+			onTaskExpire: (taskId: string) => this.taskList.removeTaskExternal(taskId),
 			onTaskListRefresh: () => this.refreshTaskList()
 		};
 
 		this.taskManager = new TaskManager(context);
+		this.taskManager.initialize();
 	}
 
 	/**
@@ -494,11 +659,17 @@ export class HomeE extends g.E {
 			height: height,
 			opacity: 0, // Initially hide timeline completely - will be shown after SNS task completion
 			itemManager: this.itemManager,
+			snsManager: this.snsManager,
+			feedManager: this.feedManager,
+			affiliateAnalyticsManager: this.affiliateAnalyticsManager,
+			onOpenShop: () => this.openShopFromFeed(),
+			onOpenMyShares: () => this.showMyShares(),
 			onAffiliatePurchase: (postId: string, buyerName: string, rewardPoints: number) =>
 				this.handleAffiliatePurchase(postId, buyerName, rewardPoints),
 			onCheckPoints: () => this.getScore(),
 			onDeductPoints: (amount: number) => this.addScore(-amount, "shopping", "Item purchase"),
 			onItemPurchased: (item: ItemData) => this.onItemPurchased(item),
+			onPointBack: (item: ItemData, price: number) => this.grantPointBack(item, price),
 			onCheckOwnership: (itemId: string) => this.itemManager.ownsItem(itemId),
 			onGetPlayerName: () => {
 				return this.gameContext.currentPlayer.profile.name;
@@ -517,12 +688,11 @@ export class HomeE extends g.E {
 			height: height,
 			onProfileClick: () => this.switchToProfileEditor(),
 			onShopClick: () => this.switchToShop(),
+			onSocialGameClick: () => this.switchToSocialGame(),
+			onFleaMarketClick: () => this.switchToFleaMarket(),
 			onSettlementClick: () => this.switchToSettlement(),
 			onAutomaticSettlementClick: () => this.switchToSettlement(),
-			onShopAppReveal: () => {
-				// Disable shopping recommend ad when shop app is revealed
-				this.adBanner.setBannerEnabled("shopping_recommend", false);
-			}
+			enabledApps: this.gameContext.rules.enabledApps
 		});
 		this.append(this.appList);
 
@@ -756,6 +926,36 @@ export class HomeE extends g.E {
 
 
 
+	/**
+	 * Applies a phase event to the home screen
+	 * @param event Phase event notified by PhaseManager
+	 */
+	private handlePhaseEvent(event: PhaseEvent): void {
+		Object.keys(event.banners).forEach(bannerId => this.adBanner.setBannerEnabled(bannerId, event.banners[bannerId]));
+		if (event.type === "featureUnlocked") {
+			this.unlockFeature(event.feature);
+		}
+	}
+
+	/**
+	 * Reveals the component of an unlocked feature
+	 * Features without a component of the home screen are left to the screens that check PhaseManager
+	 * @param feature Feature ID
+	 */
+	private unlockFeature(feature: string): void {
+		switch (feature) {
+			case "timeline":
+				this.revealTimeline();
+				break;
+			case "shop":
+				this.appList.revealShopApp(false); // false = don't auto-open
+				break;
+			case "fleaMarket":
+				this.appList.revealFleaMarketApp();
+				break;
+		}
+	}
+
 	/**
 	 * Reveals timeline with fade-in animation
 	 */
@@ -767,9 +967,6 @@ export class HomeE extends g.E {
 		// Make timeline visible first
 		this.timeline.show();
 
-		// Disable SNS recommend ad when timeline is revealed
-		this.adBanner.setBannerEnabled("sns_recommend", false);
-
 		// Refresh shop to show share buttons if shop exists
 		if (this.shop) {
 			this.shop.refreshForTimelineReveal();
@@ -868,9 +1065,11 @@ export class HomeE extends g.E {
 				y: 0,
 				itemManager: this.itemManager,
 				marketManager: this.marketManager,
+				campaignManager: this.campaignManager,
 				onCheckPoints: () => this.getScore(),
 				onDeductPoints: (amount: number) => this.addScore(-amount, "shopping", "Item purchase"),
 				onItemPurchased: (item: ItemData) => this.onItemPurchased(item),
+				onPointBack: (item: ItemData, price: number) => this.grantPointBack(item, price),
 				onBack: () => this.switchBackFromShop(),
 				onGetRemainingTime: () => this.getRemainingTime(),
 				onIsTimelineRevealed: () => this.isTimelineVisible,
@@ -952,6 +1151,204 @@ export class HomeE extends g.E {
 		});
 	}
 
+	/**
+	 * Switches from HomeE to SocialGameE with swipe animation
+	 */
+	private switchToSocialGame(): void {
+		if (this.isSocialGameVisible) return;
+
+		// Block user interactions during transition
+		if (this.blockUserInteraction) {
+			this.blockUserInteraction("socialGameTransition", "Transitioning to social game");
+		}
+
+		// Create or reuse social game positioned off-screen to the right
+		if (!this.socialGame) {
+			this.socialGame = new SocialGameE({
+				scene: this.scene,
+				multi: this.gameContext.gameMode.mode === "multi",
+				width: this.screenWidth,
+				height: this.screenHeight,
+				x: this.screenWidth, // Start off-screen to the right
+				y: 0,
+				gameContext: this.gameContext,
+				socialGameManager: this.socialGameManager,
+				onCheckPoints: () => this.getScore(),
+				onDeductPoints: (amount: number) => this.addScore(-amount, "socialgame", "Gacha draw"),
+				onAwardPoints: (amount: number, description: string) => this.addScore(amount, "socialgame", description),
+				onBack: () => this.switchBackFromSocialGame()
+			});
+			this.append(this.socialGame);
+		} else {
+			// Reposition existing social game off-screen for animation
+			this.socialGame.x = this.screenWidth;
+		}
+
+		this.isSocialGameVisible = true;
+
+		// Create overlay to prevent user interactions during animation
+		this.createSwipeOverlay();
+
+		// Create swipe animation: HomeE slides left, SocialGameE slides in from right
+		const timeline = new Timeline(this.scene);
+
+		// Animate HomeE sections sliding out to the left
+		this.getHomeSections().forEach(section => {
+			timeline.create(section)
+				.to({ x: section.x - ANIMATION_CONFIG.SCREEN_SWIPE_DISTANCE }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION);
+		});
+
+		// Animate SocialGameE sliding in from the right
+		timeline.create(this.socialGame)
+			.to({ x: 0 }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION)
+			.call(() => {
+				// Remove overlay when animation completes
+				this.removeSwipeOverlay();
+				// Unblock user interactions after transition completes
+				if (this.unblockUserInteraction) {
+					this.unblockUserInteraction("socialGameTransition");
+				}
+			});
+	}
+
+	/**
+	 * Switches back from SocialGameE to HomeE with swipe animation
+	 */
+	private switchBackFromSocialGame(): void {
+		if (!this.isSocialGameVisible || !this.socialGame) return;
+
+		// Block user interactions during transition
+		if (this.blockUserInteraction) {
+			this.blockUserInteraction("socialGameBackTransition", "Transitioning back from social game");
+		}
+
+		// Create overlay to prevent user interactions during animation
+		this.createSwipeOverlay();
+
+		// Create swipe animation: SocialGameE slides right, HomeE slides in from left
+		const timeline = new Timeline(this.scene);
+
+		// Animate SocialGameE sliding out to the right
+		timeline.create(this.socialGame)
+			.to({ x: this.screenWidth }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION)
+			.call(() => {
+				// Don't destroy social game - keep it for reuse, just mark as not visible
+				this.isSocialGameVisible = false;
+				// Remove overlay when animation completes
+				this.removeSwipeOverlay();
+				// Unblock user interactions after transition completes
+				if (this.unblockUserInteraction) {
+					this.unblockUserInteraction("socialGameBackTransition");
+				}
+			});
+
+		// Animate HomeE sections sliding back in from the left
+		this.getHomeSections().forEach(section => {
+			timeline.create(section)
+				.to({ x: section.x + ANIMATION_CONFIG.SCREEN_SWIPE_DISTANCE }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION);
+		});
+	}
+
+	/**
+	 * Switches from HomeE to FleaMarketE with swipe animation
+	 */
+	private switchToFleaMarket(): void {
+		if (this.isFleaMarketVisible) return;
+
+		// Block user interactions during transition
+		if (this.blockUserInteraction) {
+			this.blockUserInteraction("fleaMarketTransition", "Transitioning to flea market");
+		}
+
+		// Create or reuse flea market positioned off-screen to the right
+		if (!this.fleaMarket) {
+			this.fleaMarket = new FleaMarketE({
+				scene: this.scene,
+				multi: this.gameContext.gameMode.mode === "multi",
+				width: this.screenWidth,
+				height: this.screenHeight,
+				x: this.screenWidth, // Start off-screen to the right
+				y: 0,
+				itemManager: this.itemManager,
+				fleaMarketManager: this.fleaMarketManager,
+				onGetPlayerId: () => this.gameContext.currentPlayer.id,
+				onCheckPoints: () => this.getScore(),
+				onDeductPoints: (amount: number) => this.addScore(-amount, "fleamarket", "Flea market purchase"),
+				onRefundPoints: (amount: number) => this.addScore(amount, "fleamarket", "Flea market purchase refund"),
+				onBack: () => this.switchBackFromFleaMarket()
+			});
+			this.append(this.fleaMarket);
+		} else {
+			// Reposition existing flea market off-screen and reflect latest inventory
+			this.fleaMarket.x = this.screenWidth;
+			this.fleaMarket.refreshListings();
+		}
+
+		this.isFleaMarketVisible = true;
+
+		// Create overlay to prevent user interactions during animation
+		this.createSwipeOverlay();
+
+		// Create swipe animation: HomeE slides left, FleaMarketE slides in from right
+		const timeline = new Timeline(this.scene);
+
+		// Animate HomeE sections sliding out to the left
+		this.getHomeSections().forEach(section => {
+			timeline.create(section)
+				.to({ x: section.x - ANIMATION_CONFIG.SCREEN_SWIPE_DISTANCE }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION);
+		});
+
+		// Animate FleaMarketE sliding in from the right
+		timeline.create(this.fleaMarket)
+			.to({ x: 0 }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION)
+			.call(() => {
+				// Remove overlay when animation completes
+				this.removeSwipeOverlay();
+				// Unblock user interactions after transition completes
+				if (this.unblockUserInteraction) {
+					this.unblockUserInteraction("fleaMarketTransition");
+				}
+			});
+	}
+
+	/**
+	 * Switches back from FleaMarketE to HomeE with swipe animation
+	 */
+	private switchBackFromFleaMarket(): void {
+		if (!this.isFleaMarketVisible || !this.fleaMarket) return;
+
+		// Block user interactions during transition
+		if (this.blockUserInteraction) {
+			this.blockUserInteraction("fleaMarketBackTransition", "Transitioning back from flea market");
+		}
+
+		// Create overlay to prevent user interactions during animation
+		this.createSwipeOverlay();
+
+		// Create swipe animation: FleaMarketE slides right, HomeE slides in from left
+		const timeline = new Timeline(this.scene);
+
+		// Animate FleaMarketE sliding out to the right
+		timeline.create(this.fleaMarket)
+			.to({ x: this.screenWidth }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION)
+			.call(() => {
+				// Don't destroy flea market - keep it for reuse, just mark as not visible
+				this.isFleaMarketVisible = false;
+				// Remove overlay when animation completes
+				this.removeSwipeOverlay();
+				// Unblock user interactions after transition completes
+				if (this.unblockUserInteraction) {
+					this.unblockUserInteraction("fleaMarketBackTransition");
+				}
+			});
+
+		// Animate HomeE sections sliding back in from the left
+		this.getHomeSections().forEach(section => {
+			timeline.create(section)
+				.to({ x: section.x + ANIMATION_CONFIG.SCREEN_SWIPE_DISTANCE }, ANIMATION_CONFIG.SCREEN_SWIPE_DURATION);
+		});
+	}
+
 	/**
 	 * Switches from HomeE to SettlementE with swipe animation (always automatic mode)
 	 */
@@ -1057,15 +1454,35 @@ export class HomeE extends g.E {
 
 		// Broadcast task completion to other players
 		if (this.gameContext.gameMode.mode === "multi") {
-			const message = {
-				type: "taskCompletion",
-				taskData: {
-					playerId: this.gameContext.currentPlayer.id,
-					taskId: taskId,
-					completedAt: this.getNextTimestamp()
-				}
+			MessageBus.forScene(this.scene).publish("taskCompletion", {
+				playerId: this.gameContext.currentPlayer.id,
+				taskId: taskId,
+				completedAt: this.getNextTimestamp()
+			});
+		}
+	}
+
+	/**
+	 * Records inventory change in GameContext and broadcasts to other players
+	 * @param event The inventory change from ItemManager
+	 */
+	private recordItemChange(event: ItemChangeEvent): void {
+		const currentPlayer = this.gameContext.currentPlayer;
+		const updatedPlayer = event.type === "acquired"
+			? addPlayerItem(currentPlayer, event.itemId, this.getNextTimestamp())
+			: removePlayerItem(currentPlayer, event.itemId, this.getNextTimestamp());
+		this.gameContext.updateCurrentPlayer(updatedPlayer);
+
+		// Broadcast inventory change to other players
+		if (this.gameContext.gameMode.mode === "multi") {
+			const itemData: ItemAcquiredMessage | ItemRemovedMessage = {
+				playerId: currentPlayer.id,
+				itemId: event.itemId
 			};
-			this.scene.game.raiseEvent(new g.MessageEvent(message));
+			MessageBus.forScene(this.scene).publish(event.type === "acquired" ? "itemAcquired" : "itemRemoved", itemData);
+		} else if (event.type === "acquired") {
+			// In multi mode MarketManager picks up demand from the broadcast instead
+			this.marketManager.recordPurchase(event.itemId);
 		}
 	}
 
@@ -1128,7 +1545,12 @@ export class HomeE extends g.E {
 		// Refresh item list to show newly purchased item
 		this.itemList.refreshItems();
 
-		// Check for collection completion and auto-complete tasks
+		// Advance purchase tasks and auto-complete collection tasks
+		this.taskManager.handleEvent({
+			type: "itemPurchased",
+			category: item.category,
+			onSale: this.campaignManager.getDiscountRate(item) > 0
+		});
 		this.checkCollectionCompletion(item.category);
 
 		// Notify timeline about the purchase to update button states
@@ -1142,6 +1564,140 @@ export class HomeE extends g.E {
 		}
 	}
 
+	/**
+	 * Applies flea market events that involve the current player
+	 * Reserved items leave the seller's inventory and reach the buyer once the sale is confirmed,
+	 * rejected or undeliverable purchases are refunded
+	 * @param event The flea market event
+	 */
+	private handleFleaMarketEvent(event: FleaMarketEvent): void {
+		const playerId = this.gameContext.currentPlayer.id;
+
+		if (event.type === "listed" && event.listing.sellerId === playerId) {
+			this.taskManager.handleEvent({ type: "fleaMarketListed", category: event.listing.item.category });
+		} else if (event.type === "reserved" && event.listing.sellerId === playerId) {
+			// The buyer receives the item only if it is still in the inventory
+			const listing = event.listing;
+			const delivered = this.itemManager.removeItem(listing.item.id);
+			if (delivered) {
+				this.itemList.refreshItems();
+				this.shop?.updateButtonStatesAfterRemoval(listing.item.id);
+			}
+			this.fleaMarketManager.confirmDelivery(listing.id, delivered);
+		} else if (event.type === "sold") {
+			const listing = event.listing;
+			if (listing.sellerId === playerId) {
+				const buyerName = listing.buyerName || "他のプレイヤー";
+				this.addScore(listing.price, "fleamarket", `Sold ${listing.item.name} to ${buyerName}`);
+				this.showFleaMarketNotification(`フリマで売れました！ +${listing.price}pt\n${buyerName}さんが${listing.item.name}を購入しました！`);
+			}
+			if (listing.buyerId === playerId) {
+				if (this.itemManager.purchaseItem(listing.item.id, this.getNextTimestamp())) {
+					this.onItemPurchased(listing.item);
+					this.showFleaMarketNotification(`フリマで購入しました！\n${listing.sellerName}さんから${listing.item.name}を受け取りました！`);
+				} else {
+					// The item could not be delivered (e.g. it was bought in the shop meanwhile), so the payment is returned
+					this.addScore(listing.price, "fleamarket", "Flea market purchase refund");
+					this.showFleaMarketNotification(`フリマの商品を受け取れませんでした\n${listing.price}ptを返金しました`);
+				}
+			}
+		} else if (event.type === "purchaseRejected" && event.buyerId === playerId) {
+			this.addScore(event.price, "fleamarket", "Flea market purchase refund");
+			this.showFleaMarketNotification(`フリマの商品は売り切れでした\n${event.price}ptを返金しました`);
+		}
+
+		if (this.fleaMarket) {
+			this.fleaMarket.refreshListings();
+		}
+	}
+
+	/**
+	 * Applies SNS events to the timeline and rewards the players involved
+	 * Likes reward both the player who liked and the author, follows reward both the follower and the followed player
+	 * @param event The SNS event
+	 */
+	private handleSnsEvent(event: SnsEvent): void {
+		const playerId = this.gameContext.currentPlayer.id;
+
+		if (event.type === "liked") {
+			if (event.playerId === playerId) {
+				this.addScore(SNS_CONFIG.LIKE_REWARD, "sns", `Liked post ${event.postId}`);
+			}
+			if (event.authorId === playerId) {
+				this.addScore(SNS_CONFIG.LIKED_REWARD, "sns", `Post ${event.postId} was liked`);
+			}
+			this.timeline.updateLikeCount(event.postId);
+		} else if (event.type === "followed") {
+			if (event.followerId === playerId) {
+				this.addScore(SNS_CONFIG.FOLLOW_REWARD, "sns", `Followed ${event.followeeId}`);
+			}
+			if (event.followeeId === playerId) {
+				this.addScore(SNS_CONFIG.FOLLOWED_REWARD, "sns", `Followed by ${event.followerId}`);
+			}
+			this.timeline.updateFollowState(event.followeeId);
+		}
+	}
+
+	/**
+	 * Applies feed events to the timeline and rewards claimed coupons
+	 * @param event The feed event
+	 */
+	private handleFeedEvent(event: FeedEvent): void {
+		if (event.type === "published") {
+			this.timeline.addFeedPost(event.post);
+		} else {
+			if (event.type === "couponClaimed") {
+				this.addScore(event.points, "coupon", `Coupon claimed from ${event.post.id}`);
+			}
+			this.timeline.updateCouponState(event.post.id);
+		}
+	}
+
+	/**
+	 * Opens the shop from a sale post, or explains how to unlock it
+	 */
+	private openShopFromFeed(): void {
+		if (this.phaseManager.isFeatureUnlocked("shop")) {
+			this.switchToShop();
+			return;
+		}
+
+		this.closeModal();
+		this.currentModal = new ModalE({
+			scene: this.scene,
+			multi: this.gameContext.gameMode.mode === "multi",
+			name: "feedShopLockedModal",
+			args: "shop",
+			title: "通販アプリ未解放",
+			message: "通販サービスと連携すると\nショップで商品を購入できます。",
+			onClose: () => {
+				this.currentModal = undefined;
+			},
+		});
+		this.scene.append(this.currentModal);
+	}
+
+	/**
+	 * Shows the views, clicks, purchases and commission of the current player's shared posts
+	 */
+	private showMyShares(): void {
+		if (this.myShareStats) {
+			return;
+		}
+
+		this.myShareStats = new MyShareStatsE({
+			scene: this.scene,
+			multi: this.gameContext.gameMode.mode === "multi",
+			playerId: this.gameContext.currentPlayer.id,
+			analyticsManager: this.affiliateAnalyticsManager,
+			onClose: () => {
+				this.myShareStats?.destroy();
+				this.myShareStats = undefined;
+			}
+		});
+		this.scene.append(this.myShareStats);
+	}
+
 	/**
 	 * Checks if collection is complete and auto-completes collection tasks
 	 * @param category The category of the purchased item
@@ -1151,14 +1707,8 @@ export class HomeE extends g.E {
 			return;
 		}
 
-		// Find and complete the corresponding collection task
-		const taskId = `${category}_collection`;
-		const task = this.taskManager.getTask(taskId);
-
-		if (task && !task.completed) {
-			// Complete the collection task automatically (not execute)
-			this.taskManager.completeTask(taskId);
-		}
+		// Complete the corresponding collection task automatically (not execute)
+		this.taskManager.handleEvent({ type: "collectionCompleted", category });
 	}
 
 	/**
@@ -1257,15 +1807,15 @@ export class HomeE extends g.E {
 			sharedPost: sharedPost
 		};
 
-		const message = {
-			type: "affiliatePostShared",
-			affiliateData: affiliateMessage
-		};
+		MessageBus.forScene(this.scene).publish("affiliatePostShared", affiliateMessage);
 
-		this.scene.game.raiseEvent(new g.MessageEvent(message));
+		// Track views, clicks and purchases of the post for the sharer
+		this.affiliateAnalyticsManager.trackPost(sharedPost);
 
 		// Add to local timeline (batch animation will be handled automatically)
 		this.timeline.addSharedPost(sharedPost);
+
+		this.taskManager.handleEvent({ type: "postShared", category: item.category });
 	}
 
 	/**
@@ -1282,6 +1832,57 @@ export class HomeE extends g.E {
 		this.showAffiliateRewardNotification(rewardPoints, buyerName);
 	}
 
+	/**
+	 * Shows flea market trade notification
+	 * @param message Notification message
+	 */
+	private showFleaMarketNotification(message: string): void {
+		// Create notification that slides in from the right
+		const notification = new g.E({
+			scene: this.scene,
+			x: this.screenWidth, // Start off-screen to the right
+			y: ANIMATION_CONFIG.SNS_ACHIEVEMENT_Y_OFFSET + 300, // Position below affiliate notifications
+		});
+
+		// Background for notification
+		const notificationBg = new g.FilledRect({
+			scene: this.scene,
+			width: 350,
+			height: 80,
+			x: 0,
+			y: 0,
+			cssColor: "#00796b", // Teal color for flea market
+		});
+		notification.append(notificationBg);
+
+		// Notification text
+		const notificationText = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 14,
+				fontColor: "white",
+			}),
+			text: message,
+			x: 10,
+			y: 15,
+		});
+		notification.append(notificationText);
+
+		this.append(notification);
+
+		// Animate notification: slide in, wait, slide out
+		const timeline = new Timeline(this.scene);
+		timeline.create(notification)
+			.to({ x: this.screenWidth - ANIMATION_CONFIG.SNS_ACHIEVEMENT_POSITION_FROM_RIGHT }, ANIMATION_CONFIG.ACHIEVEMENT_SLIDE_DURATION)
+			.wait(ANIMATION_CONFIG.ACHIEVEMENT_DISPLAY_DURATION + 500)
+			.to({ x: this.screenWidth }, ANIMATION_CONFIG.ACHIEVEMENT_SLIDE_DURATION)
+			.call(() => {
+				notification.destroy();
+			});
+	}
+
 	/**
 	 * Shows affiliate reward notification
 	 * @param rewardPoints Points earned from affiliate
@@ -1522,13 +2123,12 @@ export class HomeE extends g.E {
 	private completeShoppingTaskFromProfile(shoppingTask: TaskData): void {
 		// Manually complete the task
 		shoppingTask.completed = true;
+		// Announce the completion before claiming its reward so that the authority can validate it
+		this.recordTaskCompletion(shoppingTask.id);
 
 		// Add points for task completion
 		this.addScore(shoppingTask.rewardPoints, "task", `Task completed: ${shoppingTask.title}`);
 
-		// Ensure shop app is available by revealing it without auto-open
-		this.appList.revealShopApp(false); // false = don't auto-open
-
 		// Remove task from UI
 		this.taskList.completeTaskExternal(shoppingTask.id);
 	}
@@ -143,6 +143,30 @@ export class ModalE<T> extends g.E {
 		return this._closeButton;
 	}
 
+	/**
+	 * Appends an entity below the message and enlarges the content to make room for it
+	 * Call this before replacing close buttons so that new buttons are placed below the entity
+	 * @param entity Entity to append (positioned by this method)
+	 */
+	appendBody(entity: g.E): void {
+		const margin = 20;
+		const messageBottom = Math.max(...this.messageLabels.map(label => label.y + label.height));
+		entity.x = 40;
+		entity.y = messageBottom + margin;
+		entity.modified();
+		this.content.append(entity);
+
+		// Keep the close button below the appended entity
+		const requiredWidth = entity.x + entity.width + 40;
+		const requiredHeight = entity.y + entity.height + margin + this._closeButton.height + 50;
+		if (requiredWidth > this.content.width || requiredHeight > this.content.height) {
+			this.content.resize(Math.max(this.content.width, requiredWidth), Math.max(this.content.height, requiredHeight));
+		}
+		this._closeButton.x = this.content.width / 2 - this._closeButton.width / 2;
+		this._closeButton.y = this.content.height - 50 - this._closeButton.height;
+		this._closeButton.modified();
+	}
+
 	/**
 	 * Replaces the close button with a custom button while maintaining proper closing behavior
 	 * @param options Configuration options for the new button
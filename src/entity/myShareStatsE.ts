@@ -0,0 +1,395 @@
+import { Timeline } from "@akashic-extension/akashic-timeline";
+import { getConversionRate, SharedPostStats, sumSharedPostStats } from "../data/sharedPostData";
+import { AffiliateAnalyticsEvent, AffiliateAnalyticsManager } from "../manager/affiliateAnalyticsManager";
+import { adjustLabelWidthToFit } from "../util/labelUtils";
+import { LabelButtonE } from "./labelButtonE";
+import { ScrollViewE } from "./scrollViewE";
+
+/**
+ * My shares configuration constants
+ */
+const MY_SHARES_CONFIG = {
+	// Modal constants
+	MODAL_WIDTH: 660,
+	MODAL_HEIGHT: 510,
+	CONTENT_MARGIN: 20,
+
+	// List constants
+	COLUMN_HEADER_Y: 80,
+	LIST_Y: 100,
+	LIST_HEIGHT: 300,
+	ROW_HEIGHT: 46,
+	ITEM_COLUMN_WIDTH: 230,
+	STAT_COLUMNS: [
+		{ title: "表示", x: 250 },
+		{ title: "クリック", x: 320 },
+		{ title: "購入", x: 400 },
+		{ title: "成約率", x: 460 },
+		{ title: "報酬", x: 540 },
+	],
+
+	// Button constants
+	BUTTON_WIDTH: 160,
+	BUTTON_HEIGHT: 70,
+
+	// Colors
+	BACKGROUND_COLOR: "white",
+	BORDER_COLOR: "#8e44ad",
+	HEADER_COLOR: "#2c3e50",
+	POSITIVE_COLOR: "#27ae60",
+	NEUTRAL_COLOR: "#7f8c8d",
+	LIST_BACKGROUND: "#f8f9fa",
+	ROW_SEPARATOR_COLOR: "#ecf0f1",
+
+	// Conversion rate highlighted as a hit
+	GOOD_CONVERSION_RATE: 0.5,
+
+	// Animation constants
+	SCALE_DURATION: 250,
+} as const;
+
+/**
+ * Modal listing the affiliate posts of the current player with their views, clicks, purchases,
+ * conversion rate and commission, so that the player learns which items and prices convert
+ * The list follows the analytics while the modal is open
+ */
+export class MyShareStatsE extends g.E {
+	private analyticsManager: AffiliateAnalyticsManager;
+	private playerId: string;
+	private multi: boolean;
+	private onCloseCallback: () => void;
+	private fonts!: { title: g.DynamicFont; subtitle: g.DynamicFont; item: g.DynamicFont; stat: g.DynamicFont; good: g.DynamicFont };
+	private scrollView!: ScrollViewE;
+	private totalLabel!: g.Label;
+	private commissionLabel!: g.Label;
+	private readonly analyticsListener: (event: AffiliateAnalyticsEvent) => void;
+
+	constructor(param: {
+		scene: g.Scene;
+		multi: boolean;
+		playerId: string;
+		analyticsManager: AffiliateAnalyticsManager;
+		onClose: () => void;
+	}) {
+		super({
+			scene: param.scene,
+			width: g.game.width,
+			height: g.game.height,
+			touchable: true
+		});
+
+		this.analyticsManager = param.analyticsManager;
+		this.playerId = param.playerId;
+		this.multi = param.multi;
+		this.onCloseCallback = param.onClose;
+
+		this.createFonts();
+		this.setupBackground();
+		this.setupModal();
+		this.refresh();
+
+		this.analyticsListener = (event: AffiliateAnalyticsEvent) => {
+			if (event.stats.post.sharerId === this.playerId) {
+				this.refresh();
+			}
+		};
+		this.analyticsManager.addAnalyticsListener(this.analyticsListener);
+	}
+
+	/**
+	 * Stops following the analytics
+	 */
+	override destroy(): void {
+		this.analyticsManager.removeAnalyticsListener(this.analyticsListener);
+		super.destroy();
+	}
+
+	/**
+	 * Creates fonts shared by all rows
+	 */
+	private createFonts(): void {
+		const createFont = (size: number, fontColor: string): g.DynamicFont => new g.DynamicFont({
+			game: this.scene.game,
+			fontFamily: "sans-serif",
+			size,
+			fontColor
+		});
+		this.fonts = {
+			title: createFont(20, MY_SHARES_CONFIG.HEADER_COLOR),
+			subtitle: createFont(13, MY_SHARES_CONFIG.NEUTRAL_COLOR),
+			item: createFont(14, MY_SHARES_CONFIG.HEADER_COLOR),
+			stat: createFont(14, MY_SHARES_CONFIG.NEUTRAL_COLOR),
+			good: createFont(14, MY_SHARES_CONFIG.POSITIVE_COLOR)
+		};
+	}
+
+	/**
+	 * Sets up overlay background
+	 */
+	private setupBackground(): void {
+		const overlay = new g.FilledRect({
+			scene: this.scene,
+			width: this.width,
+			height: this.height,
+			cssColor: "rgba(0, 0, 0, 0.7)",
+			touchable: true
+		});
+
+		// Prevent clicks from passing through
+		overlay.onPointDown.add(() => {
+			// Do nothing to block interaction
+		});
+
+		this.append(overlay);
+	}
+
+	/**
+	 * Sets up the modal with its header, list and footer
+	 */
+	private setupModal(): void {
+		const modalX = (this.width - MY_SHARES_CONFIG.MODAL_WIDTH) / 2;
+		const modalY = (this.height - MY_SHARES_CONFIG.MODAL_HEIGHT) / 2;
+
+		const border = new g.FilledRect({
+			scene: this.scene,
+			width: MY_SHARES_CONFIG.MODAL_WIDTH + 4,
+			height: MY_SHARES_CONFIG.MODAL_HEIGHT + 4,
+			x: modalX - 2,
+			y: modalY - 2,
+			cssColor: MY_SHARES_CONFIG.BORDER_COLOR
+		});
+		this.append(border);
+
+		const modal = new g.FilledRect({
+			scene: this.scene,
+			width: MY_SHARES_CONFIG.MODAL_WIDTH,
+			height: MY_SHARES_CONFIG.MODAL_HEIGHT,
+			x: modalX,
+			y: modalY,
+			cssColor: MY_SHARES_CONFIG.BACKGROUND_COLOR
+		});
+		this.append(modal);
+
+		this.addHeader(modal);
+		this.addList(modal);
+		this.addFooter(modal);
+		this.animateModalEntrance(modal, border);
+	}
+
+	/**
+	 * Adds title, subtitle and column titles
+	 */
+	private addHeader(modal: g.E): void {
+		modal.append(new g.Label({
+			scene: this.scene,
+			text: "📊 マイシェア分析",
+			font: this.fonts.title,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: MY_SHARES_CONFIG.CONTENT_MARGIN
+		}));
+
+		modal.append(new g.Label({
+			scene: this.scene,
+			text: "クリックされても買われない投稿は、価格が高すぎるかもしれません",
+			font: this.fonts.subtitle,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: MY_SHARES_CONFIG.CONTENT_MARGIN + 27
+		}));
+
+		const columnTitles = [{ title: "商品 / シェア価格", x: 10 }, ...MY_SHARES_CONFIG.STAT_COLUMNS];
+		columnTitles.forEach(column => {
+			modal.append(new g.Label({
+				scene: this.scene,
+				text: column.title,
+				font: this.fonts.subtitle,
+				x: MY_SHARES_CONFIG.CONTENT_MARGIN + column.x,
+				y: MY_SHARES_CONFIG.COLUMN_HEADER_Y
+			}));
+		});
+	}
+
+	/**
+	 * Adds the scrollable list of posts
+	 */
+	private addList(modal: g.E): void {
+		const listWidth = MY_SHARES_CONFIG.MODAL_WIDTH - MY_SHARES_CONFIG.CONTENT_MARGIN * 2;
+
+		modal.append(new g.FilledRect({
+			scene: this.scene,
+			width: listWidth,
+			height: MY_SHARES_CONFIG.LIST_HEIGHT,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: MY_SHARES_CONFIG.LIST_Y,
+			cssColor: MY_SHARES_CONFIG.LIST_BACKGROUND
+		}));
+
+		this.scrollView = new ScrollViewE({
+			scene: this.scene,
+			width: listWidth,
+			height: MY_SHARES_CONFIG.LIST_HEIGHT,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: MY_SHARES_CONFIG.LIST_Y
+		});
+		modal.append(this.scrollView);
+	}
+
+	/**
+	 * Adds totals and close button
+	 */
+	private addFooter(modal: g.E): void {
+		const startY = MY_SHARES_CONFIG.LIST_Y + MY_SHARES_CONFIG.LIST_HEIGHT + 10;
+
+		modal.append(new g.FilledRect({
+			scene: this.scene,
+			width: MY_SHARES_CONFIG.MODAL_WIDTH - MY_SHARES_CONFIG.CONTENT_MARGIN * 2,
+			height: 2,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: startY,
+			cssColor: MY_SHARES_CONFIG.BORDER_COLOR
+		}));
+
+		this.totalLabel = new g.Label({
+			scene: this.scene,
+			text: "",
+			font: this.fonts.stat,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: startY + 20
+		});
+		modal.append(this.totalLabel);
+
+		this.commissionLabel = new g.Label({
+			scene: this.scene,
+			text: "",
+			font: this.fonts.good,
+			x: MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: startY + 50
+		});
+		modal.append(this.commissionLabel);
+
+		const closeButton = new LabelButtonE({
+			scene: this.scene,
+			multi: this.multi,
+			text: "閉じる",
+			fontFamily: "sans-serif",
+			width: MY_SHARES_CONFIG.BUTTON_WIDTH,
+			height: MY_SHARES_CONFIG.BUTTON_HEIGHT,
+			x: MY_SHARES_CONFIG.MODAL_WIDTH - MY_SHARES_CONFIG.BUTTON_WIDTH - MY_SHARES_CONFIG.CONTENT_MARGIN,
+			y: startY + 15,
+			name: "my_shares_close_button",
+			args: "close_my_shares",
+			onComplete: () => this.onCloseCallback()
+		});
+		modal.append(closeButton);
+	}
+
+	/**
+	 * Shows the current performance of every post and the totals
+	 */
+	private refresh(): void {
+		const statsList = this.analyticsManager.getPlayerPostStats(this.playerId);
+		const content = this.scrollView.content;
+		(content.children ?? []).slice().forEach(child => child.destroy());
+
+		if (statsList.length === 0) {
+			content.append(new g.Label({
+				scene: this.scene,
+				text: "まだシェアした商品がありません。ショップで商品をシェアしてみましょう",
+				font: this.fonts.stat,
+				x: 10,
+				y: 20
+			}));
+		}
+		statsList.forEach((stats, index) => {
+			const row = this.createRow(stats);
+			row.y = index * MY_SHARES_CONFIG.ROW_HEIGHT;
+			content.append(row);
+		});
+		this.scrollView.setContentHeight(statsList.length * MY_SHARES_CONFIG.ROW_HEIGHT);
+
+		const total = sumSharedPostStats(statsList);
+		this.totalLabel.text = `合計 表示${total.views} / クリック${total.clicks} / 購入${total.purchases}`
+			+ ` / 成約率${this.formatRate(getConversionRate(total))}`;
+		this.totalLabel.invalidate();
+		this.commissionLabel.text = `総報酬: ${total.commission}pt`;
+		this.commissionLabel.invalidate();
+	}
+
+	/**
+	 * Creates the row of a post
+	 */
+	private createRow(stats: SharedPostStats): g.E {
+		const row = new g.E({
+			scene: this.scene,
+			width: this.scrollView.width,
+			height: MY_SHARES_CONFIG.ROW_HEIGHT
+		});
+
+		row.append(new g.FilledRect({
+			scene: this.scene,
+			width: row.width,
+			height: 1,
+			y: MY_SHARES_CONFIG.ROW_HEIGHT - 1,
+			cssColor: MY_SHARES_CONFIG.ROW_SEPARATOR_COLOR
+		}));
+
+		const itemLabel = new g.Label({
+			scene: this.scene,
+			text: `${stats.post.item.emoji} ${stats.post.item.name}`,
+			font: this.fonts.item,
+			x: 10,
+			y: 6
+		});
+		adjustLabelWidthToFit(itemLabel, MY_SHARES_CONFIG.ITEM_COLUMN_WIDTH);
+		row.append(itemLabel);
+
+		row.append(new g.Label({
+			scene: this.scene,
+			text: `${stats.post.sharedPrice}pt (定価 ${stats.post.item.purchasePrice}pt)`,
+			font: this.fonts.subtitle,
+			x: 10,
+			y: 26
+		}));
+
+		const conversionRate = getConversionRate(stats);
+		const values = [
+			`${stats.views}`,
+			`${stats.clicks}`,
+			`${stats.purchases}`,
+			this.formatRate(conversionRate),
+			`${stats.commission}pt`
+		];
+		values.forEach((value, index) => {
+			const isGood = (index === 3 && stats.clicks > 0 && conversionRate >= MY_SHARES_CONFIG.GOOD_CONVERSION_RATE)
+				|| (index === 4 && stats.commission > 0);
+			row.append(new g.Label({
+				scene: this.scene,
+				text: value,
+				font: isGood ? this.fonts.good : this.fonts.stat,
+				x: MY_SHARES_CONFIG.STAT_COLUMNS[index].x,
+				y: 14
+			}));
+		});
+
+		return row;
+	}
+
+	/**
+	 * Formats a rate between 0 and 1 as a percentage
+	 */
+	private formatRate(rate: number): string {
+		return `${Math.round(rate * 100)}%`;
+	}
+
+	/**
+	 * Animates modal entrance
+	 */
+	private animateModalEntrance(modal: g.E, border: g.E): void {
+		[modal, border].forEach(entity => {
+			entity.opacity = 0;
+			entity.scaleX = 0.8;
+			entity.scaleY = 0.8;
+			new Timeline(this.scene).create(entity)
+				.to({ opacity: 1, scaleX: 1, scaleY: 1 }, MY_SHARES_CONFIG.SCALE_DURATION);
+		});
+	}
+}
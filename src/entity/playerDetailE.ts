@@ -1,5 +1,6 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
 import { GameContext } from "../data/gameContext";
+import { getDefaultCatalogItems } from "../data/itemData";
 import { PlayerData } from "../data/playerData";
 import { PointManager } from "../manager/pointManager";
 import { adjustLabelWidthToFit } from "../util/labelUtils";
@@ -21,6 +22,11 @@ const DETAIL_CONFIG = {
 	AVATAR_SIZE: 80,
 	PROFILE_SECTION_HEIGHT: 120,
 
+	// Owned item list
+	MAX_ITEM_NAMES: 3,
+	ITEM_LIST_MAX_WIDTH: 420,
+	ITEM_LIST_COLOR: "#7f8c8d",
+
 	// Score section
 	SCORE_SECTION_HEIGHT: 130,
 
@@ -293,21 +299,37 @@ export class PlayerDetailE extends g.E {
 			})
 		});
 
-		// Show owned items count only for current player
-		if (this.player.id === this.gameContext.currentPlayer.id) {
-			const ownedItems = this.player.preSettlementItemCount ?? (this.player.ownedItems?.length || 0);
-			const itemsStat = new g.Label({
+		// Owned items are kept in sync for every player by item broadcasts
+		const ownedItems = this.player.preSettlementItemCount ?? (this.player.ownedItems?.length || 0);
+		const itemsStat = new g.Label({
+			scene: this.scene,
+			text: `所持アイテム: ${ownedItems}個`,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 14,
+				fontColor: DETAIL_CONFIG.HEADER_COLOR
+			}),
+			y: DETAIL_CONFIG.LINE_HEIGHT
+		});
+		statsContainer.append(itemsStat);
+
+		// Owned item list (empty after settlement)
+		const itemNames = this.getOwnedItemNames();
+		if (itemNames.length > 0) {
+			const itemListLabel = new g.Label({
 				scene: this.scene,
-				text: `所持アイテム: ${ownedItems}個`,
+				text: this.formatItemNames(itemNames),
 				font: new g.DynamicFont({
 					game: this.scene.game,
 					fontFamily: "sans-serif",
 					size: 14,
-					fontColor: DETAIL_CONFIG.HEADER_COLOR
+					fontColor: DETAIL_CONFIG.ITEM_LIST_COLOR
 				}),
-				y: DETAIL_CONFIG.LINE_HEIGHT
+				y: DETAIL_CONFIG.LINE_HEIGHT * 2
 			});
-			statsContainer.append(itemsStat);
+			adjustLabelWidthToFit(itemListLabel, DETAIL_CONFIG.ITEM_LIST_MAX_WIDTH);
+			statsContainer.append(itemListLabel);
 		}
 
 		statsContainer.append(tasksStat);
@@ -316,6 +338,26 @@ export class PlayerDetailE extends g.E {
 		return startY + DETAIL_CONFIG.PROFILE_SECTION_HEIGHT + DETAIL_CONFIG.SECTION_SPACING;
 	}
 
+	/**
+	 * Gets display names of the player's owned items
+	 */
+	private getOwnedItemNames(): string[] {
+		const catalogItems = getDefaultCatalogItems();
+		return (this.player.ownedItems ?? []).map(itemId => {
+			const item = catalogItems.find(catalogItem => catalogItem.id === itemId);
+			return item ? item.name : itemId;
+		});
+	}
+
+	/**
+	 * Formats owned item names, abbreviating items beyond the display limit
+	 */
+	private formatItemNames(itemNames: string[]): string {
+		const visibleNames = itemNames.slice(0, DETAIL_CONFIG.MAX_ITEM_NAMES).join("、");
+		const hiddenCount = itemNames.length - DETAIL_CONFIG.MAX_ITEM_NAMES;
+		return hiddenCount > 0 ? `${visibleNames} 他${hiddenCount}個` : visibleNames;
+	}
+
 	/**
 	 * Adds score section with breakdown button
 	 */
@@ -346,41 +388,23 @@ export class PlayerDetailE extends g.E {
 		});
 		modal.append(sectionTitle);
 
-		// Score content (different for current player vs others)
-		if (this.player.id === this.gameContext.currentPlayer.id) {
-			// For current player: show breakdown button
-			this.breakdownButton = new LabelButtonE({
-				scene: this.scene,
-				multi: this.gameContext.gameMode.mode === "multi",
-				text: "内訳表示",
-				fontFamily: "sans-serif",
-				width: 160,
-				height: 80,
-				fontSize: 32,
-				x: DETAIL_CONFIG.CONTENT_MARGIN + 20,
-				y: startY + 45,
-				backgroundColor: "#689f38",
-				name: `score_breakdown_button_${this.player.id}`,
-				args: "show_breakdown",
-				onComplete: () => this.showScoreBreakdown()
-			});
-			modal.append(this.breakdownButton);
-		} else {
-			// For other players: show "no details available" message
-			const noDetailsLabel = new g.Label({
-				scene: this.scene,
-				text: "詳細情報なし",
-				font: new g.DynamicFont({
-					game: this.scene.game,
-					fontFamily: "sans-serif",
-					size: 14,
-					fontColor: DETAIL_CONFIG.HEADER_COLOR
-				}),
-				x: DETAIL_CONFIG.CONTENT_MARGIN + 20,
-				y: startY + 45
-			});
-			modal.append(noDetailsLabel);
-		}
+		// Score content: breakdown button for every player using the shared point ledger
+		this.breakdownButton = new LabelButtonE({
+			scene: this.scene,
+			multi: this.gameContext.gameMode.mode === "multi",
+			text: "内訳表示",
+			fontFamily: "sans-serif",
+			width: 160,
+			height: 80,
+			fontSize: 32,
+			x: DETAIL_CONFIG.CONTENT_MARGIN + 20,
+			y: startY + 45,
+			backgroundColor: "#689f38",
+			name: `score_breakdown_button_${this.player.id}`,
+			args: "show_breakdown",
+			onComplete: () => this.showScoreBreakdown()
+		});
+		modal.append(this.breakdownButton);
 
 		return startY + DETAIL_CONFIG.SCORE_SECTION_HEIGHT + DETAIL_CONFIG.SECTION_SPACING;
 	}
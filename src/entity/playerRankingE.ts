@@ -5,6 +5,7 @@ import { PointManager } from "../manager/pointManager";
 import { adjustLabelWidthToFit } from "../util/labelUtils";
 import { LabelButtonE } from "./labelButtonE";
 import { PlayerDetailE } from "./playerDetailE";
+import { ScrollViewE } from "./scrollViewE";
 
 /**
  * Player ranking configuration constants
@@ -225,16 +226,30 @@ export class PlayerRankingE extends g.E {
 
 	/**
 	 * Creates ranking items
+	 * Items scroll in a scroll view below the header when more players are ranked than fit on the screen
 	 */
 	private createRankingItems(): void {
+		// Leave room for the thick border of the current player's item at the edges of the scroll view
+		const padding = RANKING_CONFIG.SELF_BORDER_WIDTH;
+		const itemPitch = RANKING_CONFIG.RANK_ITEM_HEIGHT + RANKING_CONFIG.RANK_ITEM_SPACING;
+
+		const scrollView = new ScrollViewE({
+			scene: this.scene,
+			width: this.width,
+			height: this.height - RANKING_CONFIG.CONTENT_Y_OFFSET + padding,
+			y: RANKING_CONFIG.CONTENT_Y_OFFSET - padding,
+			contentHeight: (padding * 2) + (this.rankedPlayers.length * itemPitch) - RANKING_CONFIG.RANK_ITEM_SPACING,
+		});
+		this.append(scrollView);
+
 		for (let i = 0; i < this.rankedPlayers.length; i++) {
 			const player = this.rankedPlayers[i];
 			const rank = i + 1;
-			const yPosition = RANKING_CONFIG.CONTENT_Y_OFFSET + (i * (RANKING_CONFIG.RANK_ITEM_HEIGHT + RANKING_CONFIG.RANK_ITEM_SPACING));
+			const yPosition = padding + (i * itemPitch);
 
 			const rankItem = this.createRankingItem(player, rank, yPosition, i);
 			this.rankingItems.push(rankItem);
-			this.append(rankItem);
+			scrollView.content.append(rankItem);
 		}
 	}
 
@@ -303,7 +318,9 @@ export class PlayerRankingE extends g.E {
 		container.append(avatar);
 
 		// Player name with width adjustment
-		const displayName = isCurrentPlayer ? `${player.profile.name} （あなた）` : player.profile.name;
+		const displayName = isCurrentPlayer
+			? `${player.profile.name} （あなた）`
+			: player.isCpu ? `${player.profile.name} （CPU）` : player.profile.name;
 		const nameLabel = new g.Label({
 			scene: this.scene,
 			text: displayName,
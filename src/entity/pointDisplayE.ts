@@ -39,6 +39,8 @@ export class PointDisplayE extends g.E {
 	// Score display components
 	private scorePrefixLabel!: g.Label;
 	private scoreNumberE!: NumberE;
+	private pendingLabel!: g.Label;
+	private pendingPoints: number = 0;
 
 	// Time display components
 	private timePrefixLabel!: g.Label;
@@ -89,6 +91,15 @@ export class PointDisplayE extends g.E {
 		this.updateScore();
 	}
 
+	/**
+	 * Sets the pending point-back and updates display
+	 * @param pendingPoints Points that have not been paid yet
+	 */
+	setPendingPoints(pendingPoints: number): void {
+		this.pendingPoints = pendingPoints;
+		this.updatePendingPoints();
+	}
+
 	/**
 	 * Sets the remaining time and updates display
 	 * @param remainingSec Remaining time in seconds
@@ -124,7 +135,8 @@ export class PointDisplayE extends g.E {
 					height: 20,
 					children: {
 						prefix: { x: 0, y: 0, width: 80, height: 20 },
-						number: { x: 80, y: 0, width: 80, height: 20 }
+						number: { x: 80, y: 0, width: 80, height: 20 },
+						pending: { x: 0, y: 28, width: 80, height: 14 }
 					}
 				},
 				time: {
@@ -204,6 +216,22 @@ export class PointDisplayE extends g.E {
 			y: scoreLayout.y + numberLayout.y,
 		});
 		this.append(this.scoreNumberE);
+
+		// Pending point-back label (hidden while nothing is pending)
+		const pendingLayout = scoreLayout.children!.pending;
+		this.pendingLabel = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 12,
+				fontColor: "#ffd54f",
+			}),
+			text: " ",
+			x: scoreLayout.x + pendingLayout.x,
+			y: scoreLayout.y + pendingLayout.y,
+		});
+		this.append(this.pendingLabel);
 	}
 
 	/**
@@ -249,6 +277,20 @@ export class PointDisplayE extends g.E {
 		}
 	}
 
+	/**
+	 * Updates the pending point-back display
+	 */
+	private updatePendingPoints(): void {
+		if (this.pendingLabel) {
+			const pendingLayout = this.layout.children!.score.children!.pending;
+			this.pendingLabel.text = this.pendingPoints > 0 ? `保留 +${this.pendingPoints}pt` : " ";
+			this.pendingLabel.scaleX = 1;
+			this.pendingLabel.invalidate();
+			// Keep the label beside the score number
+			adjustLabelWidthToFit(this.pendingLabel, pendingLayout.width);
+		}
+	}
+
 	/**
 	 * Updates the time display
 	 */
@@ -0,0 +1,147 @@
+import { getPriceHistoryStats, PriceHistoryEntry } from "../data/priceHistoryData";
+
+/**
+ * Price chart configuration constants
+ */
+const PRICE_CHART_CONFIG = {
+	// Layout constants
+	LABEL_WIDTH: 130,
+	LABEL_FONT_SIZE: 16,
+	LINE_WIDTH: 2,
+	MARKER_SIZE: 8,
+	CURRENT_MARKER_SIZE: 12,
+
+	// Colors
+	BACKGROUND_COLOR: "#f8f9fa",
+	LINE_COLOR: "#0288d1",
+	MIN_COLOR: "#27ae60",
+	MAX_COLOR: "#e74c3c",
+	CURRENT_COLOR: "#d84315",
+	TEXT_COLOR: "#2c3e50",
+} as const;
+
+/**
+ * Parameter object for PriceChart
+ */
+export interface PriceChartParameterObject extends g.EParameterObject {
+	/** Chart width including marker labels */
+	width: number;
+	/** Chart height */
+	height: number;
+	/** Price history in recording order */
+	history: PriceHistoryEntry[];
+}
+
+/**
+ * Sparkline of an item's price history with min/max/current markers
+ */
+export class PriceChartE extends g.E {
+	/**
+	 * Creates a new PriceChart instance
+	 * @param options Configuration options for the price chart
+	 */
+	constructor(options: PriceChartParameterObject) {
+		super(options);
+
+		const plotWidth = this.width - PRICE_CHART_CONFIG.LABEL_WIDTH;
+		this.append(new g.FilledRect({
+			scene: this.scene,
+			width: plotWidth,
+			height: this.height,
+			cssColor: PRICE_CHART_CONFIG.BACKGROUND_COLOR,
+		}));
+
+		const stats = getPriceHistoryStats(options.history);
+		if (!stats) {
+			this.createMarkerLabel("価格推移なし", PRICE_CHART_CONFIG.TEXT_COLOR, 0);
+			return;
+		}
+
+		const points = this.toPlotPoints(options.history.map(entry => entry.price), stats.min, stats.max, plotWidth);
+		this.createSparkline(points);
+
+		// Highlight min and max prices with markers
+		const prices = options.history.map(entry => entry.price);
+		this.createMarker(points[prices.lastIndexOf(stats.max)], PRICE_CHART_CONFIG.MAX_COLOR, PRICE_CHART_CONFIG.MARKER_SIZE);
+		this.createMarker(points[prices.lastIndexOf(stats.min)], PRICE_CHART_CONFIG.MIN_COLOR, PRICE_CHART_CONFIG.MARKER_SIZE);
+		this.createMarker(points[points.length - 1], PRICE_CHART_CONFIG.CURRENT_COLOR, PRICE_CHART_CONFIG.CURRENT_MARKER_SIZE);
+
+		const lineHeight = this.height / 3;
+		this.createMarkerLabel(`最高 ${stats.max}pt`, PRICE_CHART_CONFIG.MAX_COLOR, 0);
+		this.createMarkerLabel(`現在 ${stats.current}pt`, PRICE_CHART_CONFIG.CURRENT_COLOR, lineHeight);
+		this.createMarkerLabel(`最安 ${stats.min}pt`, PRICE_CHART_CONFIG.MIN_COLOR, lineHeight * 2);
+	}
+
+	/**
+	 * Converts prices to plot coordinates, higher prices drawn higher
+	 */
+	private toPlotPoints(prices: number[], min: number, max: number, plotWidth: number): Array<{ x: number; y: number }> {
+		const margin = PRICE_CHART_CONFIG.CURRENT_MARKER_SIZE / 2;
+		const usableWidth = plotWidth - margin * 2;
+		const usableHeight = this.height - margin * 2;
+		const range = max - min;
+
+		return prices.map((price, index) => ({
+			x: margin + (prices.length > 1 ? usableWidth * index / (prices.length - 1) : usableWidth / 2),
+			y: margin + (range > 0 ? usableHeight * (max - price) / range : usableHeight / 2)
+		}));
+	}
+
+	/**
+	 * Connects consecutive points with rotated thin rectangles
+	 */
+	private createSparkline(points: Array<{ x: number; y: number }>): void {
+		for (let i = 1; i < points.length; i++) {
+			const from = points[i - 1];
+			const to = points[i];
+			const dx = to.x - from.x;
+			const dy = to.y - from.y;
+
+			this.append(new g.FilledRect({
+				scene: this.scene,
+				width: Math.sqrt(dx * dx + dy * dy),
+				height: PRICE_CHART_CONFIG.LINE_WIDTH,
+				x: from.x,
+				y: from.y,
+				anchorX: 0,
+				anchorY: 0.5,
+				angle: Math.atan2(dy, dx) * 180 / Math.PI,
+				cssColor: PRICE_CHART_CONFIG.LINE_COLOR,
+			}));
+		}
+	}
+
+	/**
+	 * Creates a square marker centered on a point
+	 */
+	private createMarker(point: { x: number; y: number }, color: string, size: number): void {
+		this.append(new g.FilledRect({
+			scene: this.scene,
+			width: size,
+			height: size,
+			x: point.x,
+			y: point.y,
+			anchorX: 0.5,
+			anchorY: 0.5,
+			cssColor: color,
+		}));
+	}
+
+	/**
+	 * Creates a price label to the right of the plot
+	 */
+	private createMarkerLabel(text: string, color: string, y: number): void {
+		this.append(new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: PRICE_CHART_CONFIG.LABEL_FONT_SIZE,
+				fontColor: color,
+			}),
+			text: text,
+			x: this.width - PRICE_CHART_CONFIG.LABEL_WIDTH + 10,
+			y: y,
+		}));
+	}
+}
@@ -1,5 +1,6 @@
 import { resolvePlayerInfo } from "@akashic-extension/resolve-player-info";
 import { GameContext } from "../data/gameContext";
+import { MessageBus } from "../manager/messageBus";
 import { adjustLabelWidthToFit } from "../util/labelUtils";
 import { LabelButtonE } from "./labelButtonE";
 import { RadioButtonGroupE, RadioButtonOption } from "./radioButtonGroupE";
@@ -109,15 +110,10 @@ export class ProfileEditorE extends g.E {
 		if (!this.scene) return;
 
 		if (this.gameContext.gameMode.mode === "multi") {
-			const message = {
-				type: "profileUpdate",
-				profileData: {
-					playerId: this.gameContext.currentPlayer.id,
-					...this.gameContext.currentPlayer.profile
-				}
-			};
-
-			this.scene.game.raiseEvent(new g.MessageEvent(message));
+			MessageBus.forScene(this.scene).publish("profileUpdate", {
+				playerId: this.gameContext.currentPlayer.id,
+				...this.gameContext.currentPlayer.profile
+			});
 		}
 	}
 
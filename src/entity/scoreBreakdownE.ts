@@ -1,10 +1,11 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
 import { GameContext } from "../data/gameContext";
 import { PlayerData } from "../data/playerData";
-import { getAllTaskMetadata } from "../data/taskConstants";
+import { getTaskMetadata } from "../data/taskConstants";
 import { PointManager } from "../manager/pointManager";
 import { adjustLabelWidthToFit } from "../util/labelUtils";
 import { LabelButtonE } from "./labelButtonE";
+import { ScrollViewE } from "./scrollViewE";
 
 /**
  * Score breakdown configuration constants
@@ -49,6 +50,8 @@ interface ScoreSource {
 	description: string;
 	points: number;
 	timestamp?: number;
+	/** Whether the points have not been paid yet */
+	pending?: boolean;
 }
 
 /**
@@ -107,16 +110,14 @@ export class ScoreBreakdownE extends g.E {
 	private calculateScoreBreakdown(): void {
 		this.scoreItems = [];
 
-		// Use centralized task metadata instead of duplicated lookup
-		const taskMetadata = getAllTaskMetadata();
-
 		// Show achieved tasks with their reward points
-		const achievedTaskIds = this.gameContext.getAchievedTaskIds();
+		const achievedTaskIds = this.getAchievedTaskIds();
 		let totalTaskPoints = 0;
 
 		if (achievedTaskIds.length > 0) {
 			for (const taskId of achievedTaskIds) {
-				const taskInfo = taskMetadata[taskId];
+				// Use centralized task metadata instead of duplicated lookup
+				const taskInfo = getTaskMetadata(taskId);
 				if (taskInfo) {
 					this.scoreItems.push({
 						category: "タスク報酬",
@@ -153,9 +154,34 @@ export class ScoreBreakdownE extends g.E {
 			});
 		}
 
+		// Show point-back that has not been paid yet; it is not part of the score
+		const pendingPoints = this.pointManager.getPendingPoints(this.player.id);
+		if (pendingPoints > 0) {
+			this.scoreItems.push({
+				category: "ポイントバック",
+				description: "保留中 (付与前に終了すると失効)",
+				points: pendingPoints,
+				pending: true
+			});
+		}
+
 		// Total is shown separately in footer, not in the breakdown list
 	}
 
+	/**
+	 * Gets achieved task IDs of the displayed player
+	 * Other players' tasks come from their synchronized task progress
+	 */
+	private getAchievedTaskIds(): string[] {
+		if (this.player.id === this.gameContext.currentPlayer.id) {
+			return this.gameContext.getAchievedTaskIds();
+		}
+
+		return Array.from(this.player.taskProgress.values())
+			.filter(progress => progress.completed)
+			.map(progress => progress.taskId);
+	}
+
 	/**
 	 * Gets actual point source breakdown from PointManager transaction history
 	 */
@@ -163,13 +189,18 @@ export class ScoreBreakdownE extends g.E {
 		const breakdown: ScoreSource[] = [];
 
 		// Get actual point summary by source from PointManager
-		const pointSummary = this.pointManager.getPointSummaryBySource();
+		const pointSummary = this.pointManager.getPointSummaryBySource(this.player.id);
 
 		// Map source categories to Japanese descriptions
 		const sourceDescriptions: Record<string, string> = {
 			"ads": "広告クリック",
 			"affiliate": "アフィリエイト",
+			"fleamarket": "フリマ",
+			"socialgame": "ソシャゲ",
+			"sns": "SNS",
+			"coupon": "クーポン",
 			"shopping": "ショッピング",
+			"pointback": "ポイントバック",
 			"join": "サービス参加",
 			"settlement": "アイテム精算",
 			"other": "その他活動"
@@ -206,7 +237,12 @@ export class ScoreBreakdownE extends g.E {
 		const descriptions: Record<string, string> = {
 			"ads": "バナー広告のクリック報酬",
 			"affiliate": "商品シェア・購入コミッション",
+			"fleamarket": "フリマでの売買",
+			"socialgame": "ログインボーナス・ガチャ",
+			"sns": "いいね・フォロー",
+			"coupon": "タイムラインのクーポン",
 			"shopping": "商品購入による支出",
+			"pointback": "購入時のポイント還元",
 			"join": "サービス利用開始ボーナス",
 			"settlement": "所持アイテムのポイント変換",
 			"other": "タイムライン活動等"
@@ -326,12 +362,16 @@ export class ScoreBreakdownE extends g.E {
 
 	/**
 	 * Adds score items list
+	 * Items scroll above the footer when the player earned points from more sources than fit in the list
 	 */
 	private addScoreItems(modal: g.E, startY: number): number {
+		const listWidth = BREAKDOWN_CONFIG.MODAL_WIDTH - (BREAKDOWN_CONFIG.CONTENT_MARGIN * 2);
+		const listHeight = BREAKDOWN_CONFIG.SCROLL_AREA_HEIGHT + BREAKDOWN_CONFIG.SECTION_SPACING - 50; // Up to the footer
+
 		// Scroll area background
 		const scrollBg = new g.FilledRect({
 			scene: this.scene,
-			width: BREAKDOWN_CONFIG.MODAL_WIDTH - (BREAKDOWN_CONFIG.CONTENT_MARGIN * 2),
+			width: listWidth,
 			height: BREAKDOWN_CONFIG.SCROLL_AREA_HEIGHT,
 			x: BREAKDOWN_CONFIG.CONTENT_MARGIN,
 			y: startY,
@@ -339,18 +379,28 @@ export class ScoreBreakdownE extends g.E {
 		});
 		modal.append(scrollBg);
 
+		const scrollView = new ScrollViewE({
+			scene: this.scene,
+			width: listWidth,
+			height: listHeight,
+			x: BREAKDOWN_CONFIG.CONTENT_MARGIN,
+			y: startY,
+			contentHeight: (this.scoreItems.length * BREAKDOWN_CONFIG.ITEM_HEIGHT) + 20
+		});
+		modal.append(scrollView);
+
 		// Add score items
-		let itemY = startY + 10;
+		let itemY = 10;
 		for (let i = 0; i < this.scoreItems.length; i++) {
 			const scoreItem = this.scoreItems[i];
 			const itemContainer = this.createScoreItem(scoreItem, i);
-			itemContainer.x = BREAKDOWN_CONFIG.CONTENT_MARGIN + 10;
+			itemContainer.x = 10;
 			itemContainer.y = itemY;
-			modal.append(itemContainer);
+			scrollView.content.append(itemContainer);
 			itemY += BREAKDOWN_CONFIG.ITEM_HEIGHT;
 		}
 
-		return startY + BREAKDOWN_CONFIG.SCROLL_AREA_HEIGHT + BREAKDOWN_CONFIG.SECTION_SPACING - 50;
+		return startY + listHeight;
 	}
 
 	/**
@@ -394,8 +444,12 @@ export class ScoreBreakdownE extends g.E {
 		container.append(description);
 
 		// Points
-		const pointsColor = scoreItem.points > 0 ? BREAKDOWN_CONFIG.POSITIVE_COLOR : BREAKDOWN_CONFIG.NEGATIVE_COLOR;
-		const pointsText = scoreItem.points > 0 ? `+${scoreItem.points}pt` : `${scoreItem.points}pt`;
+		let pointsColor: string = scoreItem.points > 0 ? BREAKDOWN_CONFIG.POSITIVE_COLOR : BREAKDOWN_CONFIG.NEGATIVE_COLOR;
+		let pointsText = scoreItem.points > 0 ? `+${scoreItem.points}pt` : `${scoreItem.points}pt`;
+		if (scoreItem.pending) {
+			pointsColor = BREAKDOWN_CONFIG.NEUTRAL_COLOR;
+			pointsText = `(${pointsText})`;
+		}
 
 		const points = new g.Label({
 			scene: this.scene,
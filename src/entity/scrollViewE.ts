@@ -0,0 +1,299 @@
+/**
+ * Scroll view configuration constants
+ */
+const SCROLL_CONFIG = {
+	// Inertia constants (per frame)
+	FRICTION: 0.95, // Ratio of the fling velocity kept every frame
+	MIN_VELOCITY: 0.5, // Fling stops under this velocity in pixels per frame
+	DRAG_VELOCITY_DECAY: 0.5, // Velocity decay while the pointer holds still during a drag
+
+	// Bounce constants
+	OVERSCROLL_RESISTANCE: 0.4, // Ratio of the drag distance applied beyond the edges
+	OVERSCROLL_FRICTION: 0.6, // Ratio of the fling velocity kept every frame beyond the edges
+	MAX_OVERSCROLL: 100,
+	SPRING_RATE: 0.25, // Ratio of the remaining distance covered every frame while bouncing back or scrolling to a target
+	SNAP_DISTANCE: 0.5,
+
+	// Scrollbar constants
+	SCROLLBAR_WIDTH: 6,
+	SCROLLBAR_MARGIN: 3,
+	SCROLLBAR_MIN_HEIGHT: 30,
+	SCROLLBAR_COLOR: "rgba(0, 0, 0, 0.35)",
+} as const;
+
+/**
+ * Parameter object for ScrollViewE
+ */
+export interface ScrollViewParameterObject extends g.PaneParameterObject {
+	/** Height of the scrolled content, the view does not scroll while the content fits (default: view height) */
+	contentHeight?: number;
+	/** Color of the scrollbar indicator */
+	scrollbarColor?: string;
+}
+
+/**
+ * Vertical scroll container clipping its content to the view
+ * Entities appended to `content` scroll by drag, keep moving by inertia after a fling and bounce back at the edges.
+ * Scrolling is local to each player, so the view handles pointer events locally and never raises events
+ */
+export class ScrollViewE extends g.Pane {
+	/** Container of the scrolled entities; entities appended to the view itself stay fixed on top of the content */
+	readonly content: g.E;
+	/** Fired with the scroll position whenever it changes */
+	readonly onScroll: g.Trigger<number> = new g.Trigger();
+	private readonly scrollbar: g.FilledRect;
+	private contentHeight: number;
+	private scrollY: number = 0;
+	private velocity: number = 0;
+	private dragging: boolean = false;
+	private dragStartScrollY: number = 0;
+	private movedThisFrame: boolean = false;
+	private targetScrollY?: number;
+	private readonly updateHandler: () => void;
+	private updating: boolean = false;
+
+	/**
+	 * Creates a new ScrollViewE instance
+	 * @param options Configuration options for the scroll view
+	 */
+	constructor(options: ScrollViewParameterObject) {
+		super({
+			...options,
+			touchable: true,
+			local: true,
+		});
+		this.contentHeight = options.contentHeight ?? options.height;
+
+		this.content = new g.E({
+			scene: this.scene,
+			width: this.width,
+			height: this.contentHeight,
+		});
+		this.append(this.content);
+
+		this.scrollbar = new g.FilledRect({
+			scene: this.scene,
+			width: SCROLL_CONFIG.SCROLLBAR_WIDTH,
+			height: SCROLL_CONFIG.SCROLLBAR_MIN_HEIGHT,
+			x: this.width - SCROLL_CONFIG.SCROLLBAR_WIDTH - SCROLL_CONFIG.SCROLLBAR_MARGIN,
+			cssColor: options.scrollbarColor ?? SCROLL_CONFIG.SCROLLBAR_COLOR,
+		});
+		this.append(this.scrollbar);
+
+		this.updateHandler = () => this.handleUpdate();
+		this.onPointDown.add(() => this.handleDragStart());
+		this.onPointMove.add((ev) => this.handleDragMove(ev));
+		this.onPointUp.add(() => this.handleDragEnd());
+
+		this.updateScrollbar();
+	}
+
+	/**
+	 * Gets the scroll position, 0 at the top of the content
+	 */
+	getScrollY(): number {
+		return this.scrollY;
+	}
+
+	/**
+	 * Gets the largest scroll position within the content
+	 */
+	getMaxScrollY(): number {
+		return Math.max(0, this.contentHeight - this.height);
+	}
+
+	/**
+	 * Sets the height of the scrolled content and keeps the scroll position within it
+	 * @param height Height of the content
+	 */
+	setContentHeight(height: number): void {
+		this.contentHeight = height;
+		this.content.height = height;
+		this.content.modified();
+		if (!this.dragging && this.targetScrollY === undefined && this.velocity === 0) {
+			this.setScrollY(this.clamp(this.scrollY));
+		}
+		this.updateScrollbar();
+	}
+
+	/**
+	 * Scrolls to the given position, stopping any drag or fling
+	 * @param y Scroll position, clamped to the content
+	 * @param animate Whether to ease to the position instead of jumping
+	 */
+	scrollTo(y: number, animate: boolean = false): void {
+		const target = this.clamp(y);
+		this.dragging = false;
+		this.velocity = 0;
+
+		if (animate) {
+			this.targetScrollY = target;
+			this.startUpdate();
+			return;
+		}
+
+		this.targetScrollY = undefined;
+		this.setScrollY(target);
+	}
+
+	/**
+	 * Shifts the scroll position by the given distance without stopping an ongoing drag or fling
+	 * Used when content is inserted above the entities in sight, so that they stay in place under the pointer
+	 * @param dy Distance to shift, positive to scroll down
+	 */
+	scrollBy(dy: number): void {
+		this.dragStartScrollY += dy;
+		if (this.targetScrollY !== undefined) {
+			this.targetScrollY = this.clamp(this.targetScrollY + dy);
+		}
+		// A drag or fling in progress bounces back by itself, otherwise the position must stay within the content
+		const y = this.scrollY + dy;
+		this.setScrollY(this.dragging || this.updating ? y : this.clamp(y));
+	}
+
+	/**
+	 * Stops scrolling and releases the frame handler
+	 */
+	override destroy(destroySurface?: boolean): void {
+		this.stopUpdate();
+		super.destroy(destroySurface);
+	}
+
+	/**
+	 * Handles drag start, catching the content if it is flung or bouncing
+	 */
+	private handleDragStart(): void {
+		this.dragging = true;
+		this.dragStartScrollY = this.scrollY;
+		this.targetScrollY = undefined;
+		this.velocity = 0;
+		this.startUpdate();
+	}
+
+	/**
+	 * Handles drag movement, resisting beyond the edges
+	 */
+	private handleDragMove(ev: g.PointMoveEvent): void {
+		if (!this.dragging) {
+			return;
+		}
+
+		const y = this.dragStartScrollY - ev.startDelta.y;
+		const bounded = this.clamp(y);
+		const overscroll = Math.max(-SCROLL_CONFIG.MAX_OVERSCROLL,
+			Math.min((y - bounded) * SCROLL_CONFIG.OVERSCROLL_RESISTANCE, SCROLL_CONFIG.MAX_OVERSCROLL));
+
+		this.velocity = -ev.prevDelta.y;
+		this.movedThisFrame = true;
+		this.setScrollY(bounded + overscroll);
+	}
+
+	/**
+	 * Handles drag end, flinging the content by the last drag velocity
+	 */
+	private handleDragEnd(): void {
+		this.dragging = false;
+		if (Math.abs(this.velocity) < SCROLL_CONFIG.MIN_VELOCITY) {
+			this.velocity = 0;
+		}
+	}
+
+	/**
+	 * Moves the content by inertia, bounces it back into the edges or eases it to the target every frame
+	 */
+	private handleUpdate(): void {
+		if (this.dragging) {
+			// Holding the pointer still before release should not fling the content
+			if (!this.movedThisFrame) {
+				this.velocity *= SCROLL_CONFIG.DRAG_VELOCITY_DECAY;
+			}
+			this.movedThisFrame = false;
+			return;
+		}
+
+		if (this.velocity !== 0) {
+			const outOfBounds = this.clamp(this.scrollY) !== this.scrollY;
+			this.velocity *= outOfBounds ? SCROLL_CONFIG.OVERSCROLL_FRICTION : SCROLL_CONFIG.FRICTION;
+			if (Math.abs(this.velocity) < SCROLL_CONFIG.MIN_VELOCITY) {
+				this.velocity = 0;
+			} else {
+				const y = this.scrollY + this.velocity;
+				this.setScrollY(Math.max(-SCROLL_CONFIG.MAX_OVERSCROLL, Math.min(y, this.getMaxScrollY() + SCROLL_CONFIG.MAX_OVERSCROLL)));
+				return;
+			}
+		}
+
+		const target = this.targetScrollY ?? this.clamp(this.scrollY);
+		const distance = target - this.scrollY;
+		if (Math.abs(distance) <= SCROLL_CONFIG.SNAP_DISTANCE) {
+			this.targetScrollY = undefined;
+			this.setScrollY(target);
+			this.stopUpdate();
+			return;
+		}
+		this.setScrollY(this.scrollY + distance * SCROLL_CONFIG.SPRING_RATE);
+	}
+
+	/**
+	 * Moves the content to the scroll position and notifies listeners
+	 */
+	private setScrollY(y: number): void {
+		if (y === this.scrollY) {
+			return;
+		}
+		this.scrollY = y;
+		this.content.y = -Math.round(y);
+		this.content.modified();
+		this.updateScrollbar();
+		this.onScroll.fire(this.scrollY);
+	}
+
+	/**
+	 * Sizes and positions the scrollbar indicator, hiding it while the content fits
+	 * The indicator shrinks while the content is pulled beyond the edges
+	 */
+	private updateScrollbar(): void {
+		const maxScrollY = this.getMaxScrollY();
+		if (maxScrollY === 0) {
+			this.scrollbar.hide();
+			return;
+		}
+
+		const trackHeight = this.height - SCROLL_CONFIG.SCROLLBAR_MARGIN * 2;
+		const overscroll = Math.abs(this.scrollY - this.clamp(this.scrollY));
+		const height = Math.max(SCROLL_CONFIG.SCROLLBAR_MIN_HEIGHT, trackHeight * this.height / this.contentHeight - overscroll);
+		const ratio = this.clamp(this.scrollY) / maxScrollY;
+
+		this.scrollbar.height = height;
+		this.scrollbar.y = SCROLL_CONFIG.SCROLLBAR_MARGIN + (trackHeight - height) * ratio;
+		this.scrollbar.show();
+		this.scrollbar.modified();
+	}
+
+	/**
+	 * Clamps a scroll position to the content
+	 */
+	private clamp(y: number): number {
+		return Math.max(0, Math.min(y, this.getMaxScrollY()));
+	}
+
+	/**
+	 * Starts handling frames while the content moves
+	 */
+	private startUpdate(): void {
+		if (!this.updating) {
+			this.scene.onUpdate.add(this.updateHandler);
+			this.updating = true;
+		}
+	}
+
+	/**
+	 * Stops handling frames once the content rests
+	 */
+	private stopUpdate(): void {
+		if (this.updating) {
+			this.scene.onUpdate.remove(this.updateHandler);
+			this.updating = false;
+		}
+	}
+}
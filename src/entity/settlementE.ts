@@ -8,7 +8,9 @@ import {
 	groupItemsByCategory,
 	getItemCategoryInfo
 } from "../data/itemData";
+import { ItemRemovedMessage } from "../data/itemMessages";
 import { ItemManager } from "../manager/itemManager";
+import { MessageBus } from "../manager/messageBus";
 import { PointManager } from "../manager/pointManager";
 import { ItemConversionE } from "./itemConversionE";
 import { ModalE } from "./modalE";
@@ -114,10 +116,10 @@ export class SettlementE extends g.E {
 		// Create conversion displays for each category
 		let categoryIndex = 0;
 		for (const [categoryId] of itemsByCategory) {
-			const categoryInfo = getItemCategoryInfo(categoryId as "novel" | "manga");
+			const categoryInfo = getItemCategoryInfo(categoryId);
 			const setInfo = this.setInfos.find(info => info.category === categoryId);
 
-			if (setInfo) {
+			if (categoryInfo && setInfo) {
 				const conversionE = new ItemConversionE({
 					scene: this.scene,
 					categoryInfo: categoryInfo,
@@ -288,6 +290,15 @@ export class SettlementE extends g.E {
 				preSettlementItemCount: itemCountBeforeSettlement // Store count before clearing
 			};
 			this.gameContext.updateCurrentPlayer(updatedPlayer);
+
+			// Broadcast the cleared items after the settlement score so that other players value the settlement first
+			if (this.gameContext.gameMode.mode === "multi") {
+				const bus = MessageBus.forScene(this.scene);
+				player.ownedItems.forEach(itemId => {
+					const itemData: ItemRemovedMessage = { playerId: player.id, itemId };
+					bus.publish("itemRemoved", itemData);
+				});
+			}
 		}
 
 		// Show settlement result
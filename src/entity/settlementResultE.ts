@@ -1,6 +1,6 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
 import { GameContext } from "../data/gameContext";
-import { SetInfo } from "../data/itemData";
+import { getItemCategoryInfo, SetInfo } from "../data/itemData";
 
 /**
  * Settlement result configuration constants
@@ -227,7 +227,7 @@ export class SettlementResultE extends g.E {
 			scene: this.scene
 		});
 
-		const categoryName = setInfo.category === "novel" ? "小説シリーズ" : "マンガシリーズ";
+		const categoryName = getItemCategoryInfo(setInfo.category)?.name ?? setInfo.category;
 		const value = setInfo.isComplete ? setInfo.setBonus : setInfo.individualValue;
 		const statusText = setInfo.isComplete ? "(セット完成)" : "(個別計算)";
 		const textColor = setInfo.isComplete ? RESULT_CONFIG.SET_COMPLETE_COLOR : RESULT_CONFIG.INDIVIDUAL_COLOR;
@@ -1,10 +1,15 @@
 import { AFFILIATE_CONFIG } from "../config/affiliateConfig";
-import { ItemData } from "../data/itemData";
+import { POINT_BACK_CONFIG } from "../config/pointBackConfig";
+import { getCategoryIds, ItemData } from "../data/itemData";
+import { getPointBackRate } from "../data/pointBackData";
+import { isLowestPriceSoFar } from "../data/priceHistoryData";
+import { CampaignManager } from "../manager/campaignManager";
 import { ItemManager } from "../manager/itemManager";
 import { MarketManager } from "../manager/marketManager";
-import { POINT_CONSTANTS } from "../manager/pointManager";
 import { LabelButtonE } from "./labelButtonE";
 import { ModalE } from "./modalE";
+import { PriceChartE } from "./priceChartE";
+import { ScrollViewE } from "./scrollViewE";
 
 /**
  * Shop configuration constants
@@ -18,14 +23,16 @@ const SHOP_CONFIG = {
 	PRODUCT_GRID_BOTTOM_MARGIN: 200,
 
 	// Product layout
-	NOVEL_COLUMN_OFFSET: 230, // 戻るボタンのレイアウトの都合により左側に表示
-	MANGA_ROW_OFFSET: 260, // Increased offset to prevent row overlap
+	FIRST_ROW_COLUMN_OFFSET: 230, // 戻るボタンのレイアウトの都合により左側に表示
+	ROW_OFFSET: 260, // Increased offset to prevent row overlap
 
 	// Modal constants
 	MODAL_WIDTH: 600,
 	MODAL_HEIGHT: 250,
 	MODAL_BUTTON_WIDTH: 180,
 	MODAL_BUTTON_HEIGHT: 120,
+	PRICE_CHART_WIDTH: 440,
+	PRICE_CHART_HEIGHT: 90,
 
 	// Colors
 	BACKGROUND_COLOR: "#ecf0f1",
@@ -35,9 +42,8 @@ const SHOP_CONFIG = {
 	CANCEL_BUTTON_COLOR: "#95a5a6",
 	SUCCESS_COLOR: "#0288d1",
 	ERROR_COLOR: "#e74c3c",
-
-	// Point back system
-	POINT_BACK_RATE: POINT_CONSTANTS.SHOPPING_POINT_BACK_RATE, // 10% point back rate
+	SALE_TAG_COLOR: "#d84315",
+	LOWEST_BADGE_COLOR: "#00897b",
 } as const;
 
 /**
@@ -65,12 +71,16 @@ export interface ShopParameterObject extends g.EParameterObject {
 	itemManager: ItemManager;
 	/** Market manager instance */
 	marketManager: MarketManager;
+	/** Campaign manager instance for sale tags and point-back multipliers */
+	campaignManager?: CampaignManager;
 	/** Callback to check if player has enough points */
 	onCheckPoints: () => number;
 	/** Callback to deduct points for purchase */
 	onDeductPoints: (amount: number) => void;
 	/** Callback when item is purchased successfully */
 	onItemPurchased: (item: ItemData) => void;
+	/** Callback to grant point-back for a purchase, returns granted points */
+	onPointBack?: (item: ItemData, price: number) => number;
 	/** Callback when back button is pressed */
 	onBack?: () => void;
 	/** Callback to get remaining time for dynamic pricing */
@@ -94,9 +104,11 @@ export class ShopE extends g.E {
 	private readonly layout: LayoutConfig;
 	private readonly itemManager: ItemManager;
 	private readonly marketManager: MarketManager;
+	private readonly campaignManager?: CampaignManager;
 	private readonly onCheckPoints: () => number;
 	private readonly onDeductPoints: (amount: number) => void;
 	private readonly onItemPurchased: (item: ItemData) => void;
+	private readonly onPointBack?: (item: ItemData, price: number) => number;
 	private readonly onBack?: () => void;
 	private readonly onGetRemainingTime: () => number;
 	private readonly onIsTimelineRevealed: () => boolean;
@@ -104,9 +116,12 @@ export class ShopE extends g.E {
 	private readonly onSnsConnectionRequest?: () => void;
 	private readonly onPriceUpdate?: () => void;
 	private currentModal?: ModalE<string>;
+	private productScrollView?: ScrollViewE; // Scrolls product rows that do not fit below the header
 	private purchaseButtons: Map<string, LabelButtonE<string>> = new Map(); // Store button references for reactivation
 	private shareButtons: Map<string, LabelButtonE<string>> = new Map(); // Store share button references
 	private priceLabels: Map<string, g.Label> = new Map(); // Store price labels for real-time updates
+	private saleTagLabels: Map<string, g.Label> = new Map(); // Store sale tags shown during campaigns
+	private lowestBadgeLabels: Map<string, g.Label> = new Map(); // Store badges shown at the lowest price so far
 	// Store share button positions for recreation
 	private shareButtonPositions: Map<string, { x: number; y: number; width: number; height: number }> = new Map();
 	private priceUpdateListener?: () => void; // Listener for price updates from MarketManager
@@ -121,9 +136,11 @@ export class ShopE extends g.E {
 		this.multi = options.multi;
 		this.itemManager = options.itemManager;
 		this.marketManager = options.marketManager;
+		this.campaignManager = options.campaignManager;
 		this.onCheckPoints = options.onCheckPoints;
 		this.onDeductPoints = options.onDeductPoints;
 		this.onItemPurchased = options.onItemPurchased;
+		this.onPointBack = options.onPointBack;
 		this.onBack = options.onBack;
 		this.onGetRemainingTime = options.onGetRemainingTime;
 		this.onIsTimelineRevealed = options.onIsTimelineRevealed;
@@ -175,6 +192,21 @@ export class ShopE extends g.E {
 		}
 	}
 
+	/**
+	 * Updates button states after an owned item is removed (e.g., sold on the flea market)
+	 * @param removedItemId The ID of the item that was removed
+	 */
+	updateButtonStatesAfterRemoval(removedItemId: string): void {
+		// Restore the item's button so that it can be purchased again
+		const purchaseButton = this.purchaseButtons.get(removedItemId);
+		if (purchaseButton) {
+			purchaseButton.setText("購入");
+			purchaseButton.setBackgroundColor(SHOP_CONFIG.BUY_BUTTON_COLOR);
+			purchaseButton.touchable = true;
+			purchaseButton.reactivate();
+		}
+	}
+
 	/**
 	 * Cleanup method to clear intervals and resources
 	 */
@@ -189,6 +221,8 @@ export class ShopE extends g.E {
 		this.purchaseButtons.clear();
 		this.shareButtons.clear();
 		this.priceLabels.clear();
+		this.saleTagLabels.clear();
+		this.lowestBadgeLabels.clear();
 		this.shareButtonPositions.clear();
 
 		// Call parent destroy
@@ -255,8 +289,9 @@ export class ShopE extends g.E {
 		});
 		this.append(background);
 
-		this.createHeader();
 		this.createProductGrid();
+		// Header goes above the product grid so that the back button stays tappable over scrolled products
+		this.createHeader();
 	}
 
 	/**
@@ -331,29 +366,35 @@ export class ShopE extends g.E {
 
 	/**
 	 * Creates the product grid using real item data from ItemManager
+	 * Rows that do not fit below the header scroll in a scroll view reaching the bottom of the screen
 	 */
 	private createProductGrid(): void {
 		const availableItems = this.itemManager.getAvailableItems();
+		const categoryIds = getCategoryIds(availableItems);
+		const gridLayout = this.layout.children!.productGrid;
 
-		// Arrange novels in first row, manga in second row (single line each)
-		const novels = availableItems.filter(item => item.category === "novel");
-		const manga = availableItems.filter(item => item.category === "manga");
-
-		// Display novels in first row
-		novels.forEach((item, index) => {
-			const productX =
-				SHOP_CONFIG.NOVEL_COLUMN_OFFSET
-				+ this.layout.children!.productGrid.x
-				+ (index * SHOP_CONFIG.PRODUCT_GRID_SPACING);
-			const productY = this.layout.children!.productGrid.y;
-			this.createProductCard(item, productX, productY);
+		this.productScrollView = new ScrollViewE({
+			scene: this.scene,
+			width: this.width,
+			height: this.height - gridLayout.y,
+			y: gridLayout.y,
+			contentHeight: categoryIds.length * SHOP_CONFIG.ROW_OFFSET,
 		});
-
-		// Display manga in second row
-		manga.forEach((item, index) => {
-			const productX = this.layout.children!.productGrid.x + (index * SHOP_CONFIG.PRODUCT_GRID_SPACING);
-			const productY = this.layout.children!.productGrid.y + SHOP_CONFIG.MANGA_ROW_OFFSET;
-			this.createProductCard(item, productX, productY);
+		this.append(this.productScrollView);
+
+		// Arrange each category in its own row (single line each), in catalog order
+		categoryIds.forEach((categoryId, rowIndex) => {
+			const categoryItems = availableItems.filter(item => item.category === categoryId);
+			const columnOffset = rowIndex === 0 ? SHOP_CONFIG.FIRST_ROW_COLUMN_OFFSET : 0;
+
+			categoryItems.forEach((item, index) => {
+				const productX =
+					columnOffset
+					+ this.layout.children!.productGrid.x
+					+ (index * SHOP_CONFIG.PRODUCT_GRID_SPACING);
+				const productY = rowIndex * SHOP_CONFIG.ROW_OFFSET;
+				this.createProductCard(item, productX, productY);
+			});
 		});
 	}
 
@@ -381,6 +422,7 @@ export class ShopE extends g.E {
 		const priceLayout = productLayout.children!.price;
 		const buyButtonLayout = productLayout.children!.buyButton;
 		const shareButtonLayout = productLayout.children!.shareButton;
+		const content = this.productScrollView!.content;
 
 		// Get dynamic price from MarketManager cache
 		const dynamicPrice = this.getDynamicPrice(item);
@@ -394,7 +436,7 @@ export class ShopE extends g.E {
 			y: y,
 			cssColor: "white",
 		});
-		this.append(cardBg);
+		content.append(cardBg);
 
 		// Product image (emoji)
 		const productImage = new g.Label({
@@ -409,7 +451,7 @@ export class ShopE extends g.E {
 			y: y + imageLayout.y,
 			anchorX: 0.5
 		});
-		this.append(productImage);
+		content.append(productImage);
 
 		// Product name
 		const productName = new g.Label({
@@ -424,7 +466,7 @@ export class ShopE extends g.E {
 			x: x + nameLayout.x,
 			y: y + nameLayout.y,
 		});
-		this.append(productName);
+		content.append(productName);
 
 		// Product price (now dynamic with real-time updates)
 		const productPrice = new g.Label({
@@ -440,11 +482,47 @@ export class ShopE extends g.E {
 			x: x + priceLayout.x,
 			y: y + priceLayout.y,
 		});
-		this.append(productPrice);
+		content.append(productPrice);
 
 		// Store price label for real-time updates
 		this.priceLabels.set(item.id, productPrice);
 
+		// Sale tag below the price, shown only while a campaign discounts the item
+		const saleTag = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				fontWeight: "bold",
+				size: 18,
+				fontColor: SHOP_CONFIG.SALE_TAG_COLOR,
+			}),
+			text: " ",
+			x: x + priceLayout.x,
+			y: y + priceLayout.y + 40,
+		});
+		content.append(saleTag);
+		this.saleTagLabels.set(item.id, saleTag);
+		this.updateSaleTag(item);
+
+		// Badge at the card corner, shown only while the price is the lowest so far
+		const lowestBadge = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				fontWeight: "bold",
+				size: 18,
+				fontColor: SHOP_CONFIG.LOWEST_BADGE_COLOR,
+			}),
+			text: " ",
+			x: x + 10,
+			y: y + 10,
+		});
+		content.append(lowestBadge);
+		this.lowestBadgeLabels.set(item.id, lowestBadge);
+		this.updateLowestBadge(item, dynamicPrice);
+
 		// Check if item is already owned
 		const isOwned = this.itemManager.ownsItem(item.id);
 		const buttonColor = isOwned ? SHOP_CONFIG.OWNED_BUTTON_COLOR : SHOP_CONFIG.BUY_BUTTON_COLOR;
@@ -475,7 +553,7 @@ export class ShopE extends g.E {
 			buyButton.touchable = false;
 		}
 
-		this.append(buyButton);
+		content.append(buyButton);
 
 		// Create and store share button
 		this.createShareButton(item, x, y, shareButtonLayout, dynamicPrice);
@@ -522,7 +600,7 @@ export class ShopE extends g.E {
 
 		// Store share button reference
 		this.shareButtons.set(item.id, shareButton);
-		this.append(shareButton);
+		this.productScrollView!.content.append(shareButton);
 	}
 
 	/**
@@ -570,7 +648,7 @@ export class ShopE extends g.E {
 
 		// Validate dynamic price is within reasonable bounds of base price (updated for enhanced dynamics)
 		if (!this.isValidDynamicPrice(item, dynamicPrice)) {
-			const minValidPrice = Math.floor(item.purchasePrice * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO);
+			const minValidPrice = this.getMinValidPrice(item);
 			const maxValidPrice = item.purchasePrice * 3;
 			console.error(`Dynamic price ${dynamicPrice} out of valid range [${minValidPrice}, ${maxValidPrice}] for item ${itemId}`);
 			// Reactivate button for invalid price range
@@ -689,8 +767,8 @@ export class ShopE extends g.E {
 	private showPurchaseConfirmationModal(item: ItemData, dynamicPrice: number): void {
 		this.closeModal();
 
-		const pointBack = Math.floor(dynamicPrice * SHOP_CONFIG.POINT_BACK_RATE);
-		const pointBackRate = Math.floor(SHOP_CONFIG.POINT_BACK_RATE * 100);
+		const pointBack = Math.floor(dynamicPrice * this.getPointBackRate(item));
+		const pointBackRate = Math.floor(this.getPointBackRate(item) * 100);
 		const modalMessage = `${item.name}を購入しますか？\n\n価格: ${dynamicPrice}pt (変動価格)\n` +
 			`定価: ${item.purchasePrice}pt\nポイントバック: ${pointBack}pt (${pointBackRate}%)`;
 
@@ -706,6 +784,14 @@ export class ShopE extends g.E {
 			onClose: () => this.closeModal(),
 		});
 
+		// Show price trend so that players can judge whether the price is a good deal
+		modal.appendBody(new PriceChartE({
+			scene: this.scene,
+			width: SHOP_CONFIG.PRICE_CHART_WIDTH,
+			height: SHOP_CONFIG.PRICE_CHART_HEIGHT,
+			history: this.marketManager.getPriceHistory(item.id),
+		}));
+
 		// Add confirmation buttons
 		this.addConfirmationButtons(modal, item, dynamicPrice);
 
@@ -756,12 +842,8 @@ export class ShopE extends g.E {
 	 * @param dynamicPrice The current dynamic price
 	 */
 	private executePurchase(item: ItemData, dynamicPrice: number): void {
-		// Calculate point back
-		const pointBack = Math.floor(dynamicPrice * SHOP_CONFIG.POINT_BACK_RATE);
-
-		// Deduct purchase price but add point back
-		const netCost = dynamicPrice - pointBack;
-		this.onDeductPoints(netCost);
+		// Deduct full purchase price; point back is granted separately
+		this.onDeductPoints(dynamicPrice);
 
 		// Add item to inventory
 		const success = this.itemManager.purchaseItem(item.id);
@@ -770,8 +852,12 @@ export class ShopE extends g.E {
 			// Notify parent about successful purchase
 			this.onItemPurchased(item);
 
+			// Grant point back as its own transaction
+			const pointBack = this.onPointBack ? this.onPointBack(item, dynamicPrice) : 0;
+			const pointBackTiming = POINT_BACK_CONFIG.MATURITY_SECONDS > 0 ? `${POINT_BACK_CONFIG.MATURITY_SECONDS}秒後に付与` : "付与済み";
+
 			// Show success modal with point back info
-			this.showPurchaseModal(`${item.name}を購入しました！\n\n-${dynamicPrice}pt (変動価格)\n+${pointBack}pt (ポイントバック)\n実質 -${netCost}pt`, true);
+			this.showPurchaseModal(`${item.name}を購入しました！\n\n-${dynamicPrice}pt (変動価格)\n+${pointBack}pt (ポイントバック・${pointBackTiming})`, true);
 
 			// Update button states without recreating the entire display
 			this.scene.setTimeout(() => {
@@ -954,7 +1040,7 @@ export class ShopE extends g.E {
 
 					// Store new button reference
 					this.shareButtons.set(item.id, newShareButton);
-					this.append(newShareButton);
+					this.productScrollView!.content.append(newShareButton);
 				}
 				// If button is not touchable (already shared), leave it as-is
 			}
@@ -980,6 +1066,8 @@ export class ShopE extends g.E {
 					priceLabel.invalidate(); // Force redraw
 				}
 			}
+			this.updateSaleTag(item);
+			this.updateLowestBadge(item, currentPrice);
 
 			// Update purchase button args to match current price
 			const purchaseButton = this.purchaseButtons.get(item.id);
@@ -1001,6 +1089,59 @@ export class ShopE extends g.E {
 		});
 	}
 
+	/**
+	 * Shows or hides the sale tag of an item according to running campaigns
+	 * @param item The item to update the sale tag for
+	 */
+	private updateSaleTag(item: ItemData): void {
+		const saleTag = this.saleTagLabels.get(item.id);
+		if (!saleTag) {
+			return;
+		}
+
+		const discountRate = this.getDiscountRate(item);
+		const newText = discountRate > 0 ? `SALE ${Math.round(discountRate * 100)}%OFF` : " ";
+		if (saleTag.text !== newText) {
+			saleTag.text = newText;
+			saleTag.invalidate();
+		}
+	}
+
+	/**
+	 * Shows or hides the lowest-so-far badge of an item
+	 * @param item The item to update the badge for
+	 * @param currentPrice The current price including campaign discounts
+	 */
+	private updateLowestBadge(item: ItemData, currentPrice: number): void {
+		const badge = this.lowestBadgeLabels.get(item.id);
+		if (!badge) {
+			return;
+		}
+
+		const newText = isLowestPriceSoFar(this.marketManager.getPriceHistory(item.id), currentPrice) ? "最安値" : " ";
+		if (badge.text !== newText) {
+			badge.text = newText;
+			badge.invalidate();
+		}
+	}
+
+	/**
+	 * Gets the campaign discount rate currently applying to an item
+	 * @param item The item to check
+	 */
+	private getDiscountRate(item: ItemData): number {
+		return this.campaignManager ? this.campaignManager.getDiscountRate(item) : 0;
+	}
+
+	/**
+	 * Gets the point-back rate of an item including running point-back campaigns
+	 * @param item The item to get the rate for
+	 */
+	private getPointBackRate(item: ItemData): number {
+		const multiplier = this.campaignManager ? this.campaignManager.getPointBackMultiplier() : 1;
+		return getPointBackRate(item, multiplier);
+	}
+
 	/**
 	 * Validates if a dynamic price is within acceptable bounds for an item
 	 * @param item The item to validate price for
@@ -1008,9 +1149,18 @@ export class ShopE extends g.E {
 	 * @returns true if price is valid, false otherwise
 	 */
 	private isValidDynamicPrice(item: ItemData, dynamicPrice: number): boolean {
-		const minValidPrice = Math.floor(item.purchasePrice * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO);
+		const minValidPrice = this.getMinValidPrice(item);
 		const maxValidPrice = item.purchasePrice * 3; // Updated to match enhanced price range
 		return dynamicPrice >= minValidPrice && dynamicPrice <= maxValidPrice;
 	}
 
+	/**
+	 * Gets the lowest acceptable price for an item, allowing running campaign discounts
+	 * @param item The item to get the lower bound for
+	 */
+	private getMinValidPrice(item: ItemData): number {
+		const minMarketPrice = Math.floor(item.purchasePrice * AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO);
+		return this.campaignManager ? this.campaignManager.applyDiscount(item, minMarketPrice) : minMarketPrice;
+	}
+
 }
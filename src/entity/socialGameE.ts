@@ -0,0 +1,506 @@
+import { GameContext } from "../data/gameContext";
+import { GachaReward } from "../data/socialGameData";
+import { SocialGameManager } from "../manager/socialGameManager";
+import { LabelButtonE } from "./labelButtonE";
+import { ModalE } from "./modalE";
+
+/**
+ * Social game configuration constants
+ */
+const SOCIAL_GAME_UI_CONFIG = {
+	// Layout constants
+	HEADER_HEIGHT: 69, // HeaderE height
+	CARD_Y: 69 + 69 + 30,
+	CARD_X: 230, // 戻るボタンのレイアウトの都合により右側から表示
+	CARD_WIDTH: 500,
+	CARD_HEIGHT: 420,
+	CARD_SPACING: 30,
+	CARD_BUTTON_WIDTH: 300,
+	CARD_BUTTON_HEIGHT: 80,
+
+	// Modal constants
+	MODAL_WIDTH: 500,
+	MODAL_HEIGHT: 300,
+	MODAL_BUTTON_WIDTH: 180,
+	MODAL_BUTTON_HEIGHT: 120,
+
+	// Colors
+	BACKGROUND_COLOR: "#ecf0f1",
+	HEADER_COLOR: "#2c3e50",
+	CARD_COLOR: "white",
+	TEXT_COLOR: "#2c3e50",
+	SUB_TEXT_COLOR: "#7f8c8d",
+	LOGIN_BONUS_COLOR: "#0288d1",
+	GACHA_COLOR: "#e74c3c",
+	CANCEL_BUTTON_COLOR: "#95a5a6",
+	DISABLED_BUTTON_COLOR: "#616161",
+	SUCCESS_COLOR: "#0288d1",
+	ERROR_COLOR: "#e74c3c",
+} as const;
+
+/**
+ * Parameter object for SocialGame
+ */
+export interface SocialGameParameterObject extends g.EParameterObject {
+	/** Whether multiplayer mode or not */
+	multi: boolean;
+	/** Screen width */
+	width: number;
+	/** Screen height */
+	height: number;
+	/** Game context for time updates */
+	gameContext: GameContext;
+	/** Social game manager instance */
+	socialGameManager: SocialGameManager;
+	/** Callback to check if player has enough points */
+	onCheckPoints: () => number;
+	/** Callback to deduct points for a gacha draw */
+	onDeductPoints: (amount: number) => void;
+	/** Callback to award points from login bonus or gacha */
+	onAwardPoints: (amount: number, description: string) => void;
+	/** Callback when back button is pressed */
+	onBack?: () => void;
+}
+
+/**
+ * Social game screen entity
+ * Provides a timed login bonus and a gacha that spends points for a random reward
+ */
+export class SocialGameE extends g.E {
+	static assetIds: string[] = [...ModalE.assetIds];
+
+	private readonly multi: boolean;
+	private readonly gameContext: GameContext;
+	private readonly socialGameManager: SocialGameManager;
+	private readonly onCheckPoints: () => number;
+	private readonly onDeductPoints: (amount: number) => void;
+	private readonly onAwardPoints: (amount: number, description: string) => void;
+	private readonly onBack?: () => void;
+	private readonly timeUpdateListener: () => void;
+	private loginBonusButton!: LabelButtonE<string>;
+	private gachaButton!: LabelButtonE<string>;
+	private currentModal?: ModalE<string>;
+
+	/**
+	 * Creates a new SocialGame instance
+	 * @param options Configuration options for the social game screen
+	 */
+	constructor(options: SocialGameParameterObject) {
+		super(options);
+
+		this.multi = options.multi;
+		this.gameContext = options.gameContext;
+		this.socialGameManager = options.socialGameManager;
+		this.onCheckPoints = options.onCheckPoints;
+		this.onDeductPoints = options.onDeductPoints;
+		this.onAwardPoints = options.onAwardPoints;
+		this.onBack = options.onBack;
+
+		this.createLayout(options.width, options.height);
+		this.createLoginBonusCard();
+		this.createGachaCard();
+
+		// Refresh login bonus countdown as game time advances
+		this.timeUpdateListener = () => this.updateLoginBonusButton();
+		this.gameContext.on("timeUpdated", this.timeUpdateListener);
+		this.updateLoginBonusButton();
+	}
+
+	/**
+	 * Force closes all modals when time reaches zero
+	 */
+	forceCloseAllModals(): void {
+		this.closeModal();
+	}
+
+	/**
+	 * Gets the login bonus button (for testing)
+	 */
+	getLoginBonusButtonForTesting(): LabelButtonE<string> {
+		return this.loginBonusButton;
+	}
+
+	/**
+	 * Gets the gacha button (for testing)
+	 */
+	getGachaButtonForTesting(): LabelButtonE<string> {
+		return this.gachaButton;
+	}
+
+	/**
+	 * Cleanup method to remove time listener
+	 */
+	override destroy(): void {
+		this.gameContext.off("timeUpdated", this.timeUpdateListener);
+		super.destroy();
+	}
+
+	/**
+	 * Creates background, header and back button
+	 */
+	private createLayout(width: number, height: number): void {
+		const background = new g.FilledRect({
+			scene: this.scene,
+			width: width,
+			height: height - SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT * 2,
+			x: 0,
+			y: SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT * 2,
+			cssColor: SOCIAL_GAME_UI_CONFIG.BACKGROUND_COLOR,
+		});
+		this.append(background);
+
+		const headerBg = new g.FilledRect({
+			scene: this.scene,
+			width: width,
+			height: SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT,
+			x: 0,
+			y: SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT,
+			cssColor: SOCIAL_GAME_UI_CONFIG.HEADER_COLOR,
+		});
+		this.append(headerBg);
+
+		const title = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 36,
+				fontColor: "white",
+			}),
+			text: "ソシャゲ",
+			x: width / 2,
+			y: SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT * 1.5,
+			anchorX: 0.5,
+			anchorY: 0.5
+		});
+		this.append(title);
+
+		// Back button (same placement as ShopE)
+		const backBackground = new g.FilledRect({
+			scene: this.scene,
+			x: 0,
+			y: SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT * 2,
+			width: 200,
+			height: 80,
+			cssColor: SOCIAL_GAME_UI_CONFIG.HEADER_COLOR,
+			touchable: true,
+			local: true,
+		});
+		backBackground.onPointDown.add(() => {
+			if (this.onBack) {
+				this.onBack();
+			}
+		});
+		this.append(backBackground);
+
+		const backLabel = new g.Label({
+			scene: this.scene,
+			x: 100,
+			y: SOCIAL_GAME_UI_CONFIG.HEADER_HEIGHT * 2 + 40,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 36,
+				fontColor: "white",
+			}),
+			text: "  ← 戻る",
+			anchorX: 0.5,
+			anchorY: 0.5
+		});
+		this.append(backLabel);
+	}
+
+	/**
+	 * Creates a card container with background, emoji and title
+	 * @returns Card container
+	 */
+	private createCard(x: number, emoji: string, title: string, description: string): g.E {
+		const card = new g.E({ scene: this.scene, x: x, y: SOCIAL_GAME_UI_CONFIG.CARD_Y });
+
+		const cardBg = new g.FilledRect({
+			scene: this.scene,
+			width: SOCIAL_GAME_UI_CONFIG.CARD_WIDTH,
+			height: SOCIAL_GAME_UI_CONFIG.CARD_HEIGHT,
+			cssColor: SOCIAL_GAME_UI_CONFIG.CARD_COLOR,
+		});
+		card.append(cardBg);
+
+		const emojiLabel = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 80,
+			}),
+			text: emoji,
+			x: SOCIAL_GAME_UI_CONFIG.CARD_WIDTH / 2,
+			y: 70,
+			anchorX: 0.5,
+			anchorY: 0.5
+		});
+		card.append(emojiLabel);
+
+		const titleLabel = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 32,
+				fontColor: SOCIAL_GAME_UI_CONFIG.TEXT_COLOR,
+				fontWeight: "bold"
+			}),
+			text: title,
+			x: SOCIAL_GAME_UI_CONFIG.CARD_WIDTH / 2,
+			y: 150,
+			anchorX: 0.5,
+			anchorY: 0.5
+		});
+		card.append(titleLabel);
+
+		description.split("\n").forEach((line, index) => {
+			const descriptionLabel = new g.Label({
+				scene: this.scene,
+				font: new g.DynamicFont({
+					game: this.scene.game,
+					fontFamily: "sans-serif",
+					size: 20,
+					fontColor: SOCIAL_GAME_UI_CONFIG.SUB_TEXT_COLOR,
+				}),
+				text: line,
+				x: SOCIAL_GAME_UI_CONFIG.CARD_WIDTH / 2,
+				y: 200 + index * 28,
+				anchorX: 0.5,
+				anchorY: 0.5
+			});
+			card.append(descriptionLabel);
+		});
+
+		this.append(card);
+		return card;
+	}
+
+	/**
+	 * Creates the login bonus card
+	 */
+	private createLoginBonusCard(): void {
+		const reward = this.socialGameManager.getLoginBonusReward();
+		const card = this.createCard(
+			SOCIAL_GAME_UI_CONFIG.CARD_X,
+			"🎁",
+			"ログインボーナス",
+			`受け取ると${reward}ptもらえます\nしばらく待つとまた受け取れます`
+		);
+
+		this.loginBonusButton = new LabelButtonE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "socialgame_login_bonus",
+			args: "",
+			text: "受け取る",
+			width: SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_WIDTH,
+			height: SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_HEIGHT,
+			x: (SOCIAL_GAME_UI_CONFIG.CARD_WIDTH - SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_WIDTH) / 2,
+			y: SOCIAL_GAME_UI_CONFIG.CARD_HEIGHT - SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_HEIGHT - 30,
+			backgroundColor: SOCIAL_GAME_UI_CONFIG.LOGIN_BONUS_COLOR,
+			textColor: "white",
+			fontSize: 28,
+			onComplete: () => this.handleLoginBonusClaim()
+		});
+		card.append(this.loginBonusButton);
+	}
+
+	/**
+	 * Creates the gacha card
+	 */
+	private createGachaCard(): void {
+		const rewards = this.socialGameManager.getGachaRewards();
+		const totalWeight = rewards.reduce((sum, reward) => sum + reward.weight, 0);
+		const rateText = rewards
+			.map(reward => `${reward.rarity} ${reward.points}pt (${Math.round(reward.weight / totalWeight * 100)}%)`)
+			.join(" / ");
+		const card = this.createCard(
+			SOCIAL_GAME_UI_CONFIG.CARD_X + SOCIAL_GAME_UI_CONFIG.CARD_WIDTH + SOCIAL_GAME_UI_CONFIG.CARD_SPACING,
+			"🎰",
+			"ガチャ",
+			`1回${this.socialGameManager.getGachaCost()}pt\n${rateText}`
+		);
+
+		this.gachaButton = new LabelButtonE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "socialgame_gacha",
+			args: "",
+			text: "ガチャを回す",
+			width: SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_WIDTH,
+			height: SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_HEIGHT,
+			x: (SOCIAL_GAME_UI_CONFIG.CARD_WIDTH - SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_WIDTH) / 2,
+			y: SOCIAL_GAME_UI_CONFIG.CARD_HEIGHT - SOCIAL_GAME_UI_CONFIG.CARD_BUTTON_HEIGHT - 30,
+			backgroundColor: SOCIAL_GAME_UI_CONFIG.GACHA_COLOR,
+			textColor: "white",
+			fontSize: 28,
+			onComplete: () => this.handleGacha()
+		});
+		card.append(this.gachaButton);
+	}
+
+	/**
+	 * Updates login bonus button text and state from remaining wait time
+	 */
+	private updateLoginBonusButton(): void {
+		const waitSeconds = this.socialGameManager.getLoginBonusWaitSeconds();
+		if (waitSeconds > 0) {
+			this.loginBonusButton.setText(`あと${waitSeconds}秒`);
+			this.loginBonusButton.setBackgroundColor(SOCIAL_GAME_UI_CONFIG.DISABLED_BUTTON_COLOR);
+			this.loginBonusButton.touchable = false;
+		} else if (!this.loginBonusButton.touchable) {
+			this.loginBonusButton.setText("受け取る");
+			this.loginBonusButton.setBackgroundColor(SOCIAL_GAME_UI_CONFIG.LOGIN_BONUS_COLOR);
+			this.loginBonusButton.touchable = true;
+			this.loginBonusButton.reactivate();
+		}
+	}
+
+	/**
+	 * Handles login bonus button click
+	 */
+	private handleLoginBonusClaim(): void {
+		const reward = this.socialGameManager.claimLoginBonus();
+		if (reward === null) {
+			this.updateLoginBonusButton();
+			return;
+		}
+
+		this.onAwardPoints(reward, "Login bonus");
+		this.updateLoginBonusButton();
+		this.showResultModal("ログインボーナス", `ログインボーナスを受け取りました！\n\n+${reward}pt`, true);
+	}
+
+	/**
+	 * Handles gacha button click
+	 */
+	private handleGacha(): void {
+		const cost = this.socialGameManager.getGachaCost();
+		const currentPoints = this.onCheckPoints();
+		if (currentPoints < cost) {
+			this.gachaButton.reactivate();
+			this.showResultModal("ガチャ", `ポイントが不足しています。\n必要: ${cost}pt\n所持: ${currentPoints}pt`, false);
+			return;
+		}
+
+		this.showGachaModal(cost);
+	}
+
+	/**
+	 * Shows gacha confirmation modal (GachaModal)
+	 * @param cost Points spent per draw
+	 */
+	private showGachaModal(cost: number): void {
+		this.closeModal();
+
+		const modal = new ModalE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "gachaModal",
+			args: "",
+			title: "ガチャ",
+			message: `${cost}ptを使ってガチャを回しますか？`,
+			width: SOCIAL_GAME_UI_CONFIG.MODAL_WIDTH,
+			height: SOCIAL_GAME_UI_CONFIG.MODAL_HEIGHT,
+			onClose: () => this.closeModalWithGachaReactivation(),
+		});
+
+		modal.replaceCloseButtons([
+			{
+				text: "回す",
+				backgroundColor: SOCIAL_GAME_UI_CONFIG.GACHA_COLOR,
+				textColor: "white",
+				width: SOCIAL_GAME_UI_CONFIG.MODAL_BUTTON_WIDTH,
+				height: SOCIAL_GAME_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+				onComplete: () => this.executeGacha(cost)
+			},
+			{
+				text: "キャンセル",
+				backgroundColor: SOCIAL_GAME_UI_CONFIG.CANCEL_BUTTON_COLOR,
+				textColor: "white",
+				width: SOCIAL_GAME_UI_CONFIG.MODAL_BUTTON_WIDTH,
+				height: SOCIAL_GAME_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+				onComplete: () => this.closeModalWithGachaReactivation()
+			}
+		]);
+
+		this.currentModal = modal;
+		this.scene.append(modal);
+	}
+
+	/**
+	 * Pays for and draws the gacha
+	 * @param cost Points spent per draw
+	 */
+	private executeGacha(cost: number): void {
+		if (this.onCheckPoints() < cost) {
+			this.gachaButton.reactivate();
+			this.showResultModal("ガチャ", "ポイントが不足しています。", false);
+			return;
+		}
+
+		this.onDeductPoints(cost);
+		const reward: GachaReward = this.socialGameManager.drawGacha();
+		this.onAwardPoints(reward.points, `Gacha ${reward.rarity} reward`);
+
+		this.gachaButton.reactivate();
+		this.showResultModal(
+			"ガチャ結果",
+			`${reward.emoji} ${reward.rarity} ${reward.name}\n\n+${reward.points}pt`,
+			true
+		);
+	}
+
+	/**
+	 * Shows a result modal
+	 */
+	private showResultModal(title: string, message: string, isSuccess: boolean): void {
+		this.closeModal();
+
+		const modal = new ModalE({
+			scene: this.scene,
+			multi: this.multi,
+			name: "socialGameResultModal",
+			args: "",
+			title: title,
+			message: message,
+			width: 400,
+			height: 200,
+			onClose: () => this.closeModal(),
+		});
+
+		modal.replaceCloseButton({
+			text: "OK",
+			backgroundColor: isSuccess ? SOCIAL_GAME_UI_CONFIG.SUCCESS_COLOR : SOCIAL_GAME_UI_CONFIG.ERROR_COLOR,
+			textColor: "white",
+			width: SOCIAL_GAME_UI_CONFIG.MODAL_BUTTON_WIDTH,
+			height: SOCIAL_GAME_UI_CONFIG.MODAL_BUTTON_HEIGHT,
+			onComplete: () => this.closeModal()
+		});
+
+		this.currentModal = modal;
+		this.scene.append(modal);
+	}
+
+	/**
+	 * Closes the current modal and reactivates the gacha button
+	 */
+	private closeModalWithGachaReactivation(): void {
+		this.closeModal();
+		this.gachaButton.reactivate();
+	}
+
+	/**
+	 * Closes the current modal
+	 */
+	private closeModal(): void {
+		if (this.currentModal) {
+			this.currentModal.destroy();
+			this.currentModal = undefined;
+		}
+	}
+}
@@ -21,6 +21,7 @@ interface TaskItem {
 	taskData: TaskData;
 	container: g.E;
 	background: g.FilledRect;
+	titleLabel: g.Label;
 	elements: g.E[];
 	executeButton: LabelButtonE<string>;
 }
@@ -120,6 +121,30 @@ export class TaskListE extends g.E {
 		this.fadeOutAndRemoveTask(taskId);
 	}
 
+	/**
+	 * Removes a task that can no longer be completed (e.g. an expired mission) without completing it
+	 * @param taskId The ID of the task to remove
+	 */
+	removeTaskExternal(taskId: string): void {
+		const index = this.tasks.findIndex(task => task.id === taskId);
+		if (index >= 0) {
+			this.tasks.splice(index, 1);
+		}
+		this.fadeOutAndRemoveTask(taskId);
+	}
+
+	/**
+	 * Updates the progress shown in the title of a progress-style task
+	 * @param taskId The ID of the task whose progress changed
+	 */
+	updateTaskProgress(taskId: string): void {
+		const taskItem = this.taskItems.get(taskId);
+		if (taskItem) {
+			taskItem.titleLabel.text = this.getTaskTitle(taskItem.taskData);
+			taskItem.titleLabel.invalidate();
+		}
+	}
+
 	/**
 	 * Reactivates a task button after modal closure
 	 * @param taskId The ID of the task button to reactivate
@@ -327,7 +352,7 @@ export class TaskListE extends g.E {
 				size: 24,
 				fontColor: "white",
 			}),
-			text: task.title,
+			text: this.getTaskTitle(task),
 			x: titleLayout.x,
 			y: titleLayout.y,
 		});
@@ -376,6 +401,7 @@ export class TaskListE extends g.E {
 			taskData: task,
 			container: container,
 			background: taskBg,
+			titleLabel: titleLabel,
 			elements: [iconLabel, titleLabel, rewardLabel, executeBtn],
 			executeButton: executeBtn
 		};
@@ -384,29 +410,30 @@ export class TaskListE extends g.E {
 		this.append(container);
 	}
 
+	/**
+	 * Gets the title of a task, followed by its progress for progress-style tasks (e.g. "商品を3つ購入する (1/3)")
+	 * and the time left for time-limited tasks (e.g. "セール中の商品を購入する ⏱12秒")
+	 * @param task The task data
+	 */
+	private getTaskTitle(task: TaskData): string {
+		let title = task.title;
+		if (task.progressTarget !== undefined && task.progressTarget > 1) {
+			title += ` (${task.progress ?? 0}/${task.progressTarget})`;
+		}
+		if (task.remainingSeconds !== undefined) {
+			title += ` ⏱${task.remainingSeconds}秒`;
+		}
+		return title;
+	}
+
 	/**
 	 * Handles task execution when execute button is clicked
 	 * @param task The task data for the executed task
 	 */
 	private handleTaskExecute(task: TaskData): void {
-		// Check if there's an external handler for this task (profile, SNS, shopping tasks - complete once)
-		if (this.onTaskExecute && (
-			task.id === "profile" ||
-			task.id === "sns" ||
-			task.id === "shopping"
-		)) {
-			this.onTaskExecute(task);
-			// No reactivate needed - these tasks complete permanently
-			return;
-		}
-
-		// Collection tasks need external handler but with reactivation
-		if (this.onTaskExecute && (
-			task.id === "novel_collection" ||
-			task.id === "manga_collection"
-		)) {
+		// Tasks are executed by the external handler (TaskManager), which reactivates the button of tasks not completed by execution
+		if (this.onTaskExecute) {
 			this.onTaskExecute(task);
-			// Collection tasks will handle reactivation via TaskManager modal close
 			return;
 		}
 
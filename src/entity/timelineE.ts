@@ -1,25 +1,52 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
 import { AFFILIATE_CONFIG } from "../config/affiliateConfig";
+import { FEED_CONFIG } from "../config/feedConfig";
+import { SNS_CONFIG } from "../config/snsConfig";
 import { AffiliatePurchaseMessage } from "../data/affiliateMessages";
+import { FeedPostData, isFeedPost, TimelinePostData } from "../data/feedPostData";
 import { ItemData } from "../data/itemData";
 import { DUMMY_ID_FOR_ACTIVE_INSTANCE } from "../data/playerData";
 import { SharedPostData } from "../data/sharedPostData";
+import { AffiliateAnalyticsManager } from "../manager/affiliateAnalyticsManager";
+import { FeedManager } from "../manager/feedManager";
 import { ItemManager } from "../manager/itemManager";
+import { MessageBus } from "../manager/messageBus";
+import { SnsManager } from "../manager/snsManager";
 import { LabelButtonE } from "./labelButtonE";
 import { ModalE } from "./modalE";
+import { ScrollViewE } from "./scrollViewE";
 
 /**
  * Animation configuration constants
  */
 const ANIMATION_CONFIG = {
-	POST_SHIFT_DURATION: 400,
 	POST_FADE_IN_DURATION: 600,
-	POST_FADE_IN_DELAY: 200,
 	// Batch animation configuration
 	BATCH_POST_STAGGER: 150, // 複数投稿の段階的アニメーション間隔
 	BATCH_POST_MAX_SHOW: 3, // 一度に表示アニメーションする最大投稿数
 } as const;
 
+/**
+ * Virtualized list configuration constants
+ */
+const LIST_CONFIG = {
+	ROW_HEIGHT: 90, // ボタンのある投稿の高さ
+	COMPACT_ROW_HEIGHT: 70, // テキストだけの投稿の高さ
+	OVERSCAN: 90, // スクロール時のちらつきを防ぐため表示範囲の上下に余分に生成する高さ
+	NEW_POSTS_THRESHOLD: 10, // これ以上スクロールしていると新着投稿は表示中の投稿を動かさずに通知する
+} as const;
+
+/**
+ * Guide posts shown below every other post
+ */
+const GUIDE_POSTS = [
+	{ id: "guide_1", user: "[ガイド]", action: "📱 タイムラインでは他のプレイヤーがシェアした商品を購入できます" },
+	{ id: "guide_2", user: "[ガイド]", action: "💰 アフィリエイト機能で商品をシェアして、購入されるとポイント獲得！" },
+	{ id: "guide_3", user: "[ガイド]", action: "🛒 商品をどんどんシェアして、アフィリエイト報酬を得ましょう！" },
+	{ id: "guide_4", user: "[ガイド]", action: "💹 商品の価格は変化しますが、シェアされた商品はそのときの価格で購入できます" },
+	{ id: "guide_5", user: "[ガイド]", action: "👍 投稿にいいねしたり、プレイヤーをフォローしたりするとポイント獲得！" },
+] as const;
+
 /**
  * Layout configuration interface
  */
@@ -31,6 +58,36 @@ interface LayoutConfig {
 	children?: { [key: string]: LayoutConfig };
 }
 
+/**
+ * Row of the virtualized timeline list
+ */
+interface TimelineRow {
+	/** Post ID, also the key of the materialized row view */
+	id: string;
+	/** Post shown by the row (guide rows have none) */
+	post?: TimelinePostData;
+	/** Author and text of a guide row */
+	guide?: { user: string; action: string };
+	/** Y position of the row in the list content */
+	top: number;
+	/** Height of the row */
+	height: number;
+}
+
+/**
+ * Materialized view of a timeline row
+ * Backgrounds and labels are recycled for any row, while buttons are created per row because their names identify the post
+ */
+interface TimelineRowView {
+	container: g.E;
+	background: g.FilledRect;
+	avatar: g.FilledRect;
+	userName: g.Label;
+	actionText: g.Label;
+	priceText: g.Label;
+	buttons: g.E[];
+}
+
 /**
  * Parameter object for Timeline
  */
@@ -43,6 +100,16 @@ export interface TimelineParameterObject extends g.EParameterObject {
 	height: number;
 	/** Item manager instance */
 	itemManager: ItemManager;
+	/** SNS manager instance for likes and follows (reaction buttons are hidden without it) */
+	snsManager?: SnsManager;
+	/** Feed manager instance for coupon posts (coupons cannot be claimed without it) */
+	feedManager?: FeedManager;
+	/** Affiliate analytics manager instance reporting views and clicks of other players' posts */
+	affiliateAnalyticsManager?: AffiliateAnalyticsManager;
+	/** Callback when the shop link of a sale post is tapped */
+	onOpenShop?: () => void;
+	/** Callback when the analytics of own posts are opened (the button is hidden without it) */
+	onOpenMyShares?: () => void;
 	/** Callback when affiliate purchase is made */
 	onAffiliatePurchase?: (postId: string, buyerName: string, rewardPoints: number) => void;
 	/** Callback to check if player has enough points */
@@ -51,6 +118,8 @@ export interface TimelineParameterObject extends g.EParameterObject {
 	onDeductPoints?: (amount: number) => void;
 	/** Callback when item is purchased successfully */
 	onItemPurchased?: (item: ItemData) => void;
+	/** Callback to grant point-back for a purchase, returns granted points */
+	onPointBack?: (item: ItemData, price: number) => number;
 	/** Callback to check if player already owns an item */
 	onCheckOwnership?: (itemId: string) => boolean;
 	/** Callback to get current player name */
@@ -61,31 +130,41 @@ export interface TimelineParameterObject extends g.EParameterObject {
 
 /**
  * Timeline section component that displays timeline items
+ * Only rows in sight are materialized and their views are recycled while scrolling, so long timelines stay light
  */
 export class TimelineE extends g.E {
 	private readonly multi: boolean;
 	private readonly layout: LayoutConfig;
 	private readonly itemManager: ItemManager;
+	private readonly snsManager?: SnsManager;
+	private readonly feedManager?: FeedManager;
+	private readonly affiliateAnalyticsManager?: AffiliateAnalyticsManager;
+	private readonly onOpenShop?: () => void;
+	private readonly onOpenMyShares?: () => void;
 	private readonly onAffiliatePurchase?: (postId: string, buyerName: string, rewardPoints: number) => void;
 	private readonly onCheckPoints?: () => number;
 	private readonly onDeductPoints?: (amount: number) => void;
 	private readonly onItemPurchased?: (item: ItemData) => void;
+	private readonly onPointBack?: (item: ItemData, price: number) => number;
 	private readonly onCheckOwnership?: (itemId: string) => boolean;
 	private readonly onGetPlayerName?: () => string;
 	private readonly onGetPlayerId?: () => string;
-	private sharedPosts: SharedPostData[] = [];
+	private readonly fonts: { userName: g.DynamicFont; action: g.DynamicFont; price: g.DynamicFont; mutedPrice: g.DynamicFont };
+	private posts: TimelinePostData[] = []; // Shared and feed posts, newest first
 	private affiliateButtons: Map<string, LabelButtonE<string>> = new Map();
-	private timelineItems: g.E[] = [];
-	private loadingOverlay?: g.E;
-	private scrollContainer?: g.Pane;
-	private scrollOffset: number = 0;
-	private maxScrollOffset: number = 0;
-	private lastScrollY: number = 0;
-	private isScrolling: boolean = false;
-	private isAnimating: boolean = false;
+	private likeButtons: Map<string, LabelButtonE<string>> = new Map();
+	private followButtons: Map<string, { sharerId: string; button: LabelButtonE<string> }> = new Map();
+	private couponButtons: Map<string, LabelButtonE<string>> = new Map();
+	// Virtualized list properties
+	private rows: TimelineRow[] = [];
+	private rowViews: Map<string, TimelineRowView> = new Map();
+	private rowViewPool: TimelineRowView[] = [];
+	private newPostsPill?: g.FilledRect;
+	private newPostsLabel?: g.Label;
+	private newPostCount: number = 0;
+	private scrollView?: ScrollViewE;
 	// Batch processing properties
-	private batchPendingPosts: SharedPostData[] = [];
-	private batchProcessing: boolean = false;
+	private batchPendingPosts: TimelinePostData[] = [];
 	private batchTimer?: g.TimerIdentifier;
 
 	/**
@@ -97,17 +176,32 @@ export class TimelineE extends g.E {
 
 		this.multi = options.multi;
 		this.itemManager = options.itemManager;
+		this.snsManager = options.snsManager;
+		this.feedManager = options.feedManager;
+		this.affiliateAnalyticsManager = options.affiliateAnalyticsManager;
+		this.onOpenShop = options.onOpenShop;
+		this.onOpenMyShares = options.onOpenMyShares;
 		this.onAffiliatePurchase = options.onAffiliatePurchase;
 		this.onCheckPoints = options.onCheckPoints;
 		this.onDeductPoints = options.onDeductPoints;
 		this.onItemPurchased = options.onItemPurchased;
+		this.onPointBack = options.onPointBack;
 		this.onCheckOwnership = options.onCheckOwnership;
 		this.onGetPlayerName = options.onGetPlayerName;
 		this.onGetPlayerId = options.onGetPlayerId;
+		this.fonts = this.createFonts();
 		this.layout = this.createLayoutConfig(options.width, options.height);
 		this.createLayout();
 	}
 
+	/**
+	 * Shows the timeline, reporting the posts already in sight as viewed
+	 */
+	override show(): void {
+		super.show();
+		this.reportImpressions(this.rows.filter(row => this.rowViews.has(row.id)));
+	}
+
 	/**
 	 * Adds a shared post to the timeline with smooth animation
 	 * @param sharedPost The shared post data
@@ -117,7 +211,19 @@ export class TimelineE extends g.E {
 		this.batchPendingPosts.push(sharedPost);
 
 		// Start batch processing if not already in progress
-		if (!this.batchProcessing && !this.batchTimer) {
+		if (!this.batchTimer) {
+			this.startBatchProcessing();
+		}
+	}
+
+	/**
+	 * Adds a feed post to the timeline with the same animation as shared posts
+	 * @param feedPost The feed post data
+	 */
+	addFeedPost(feedPost: FeedPostData): void {
+		this.batchPendingPosts.push(feedPost);
+
+		if (!this.batchTimer) {
 			this.startBatchProcessing();
 		}
 	}
@@ -127,8 +233,7 @@ export class TimelineE extends g.E {
 	 * @param sharedPost The shared post data
 	 */
 	addSharedPostForTesting(sharedPost: SharedPostData): void {
-		this.sharedPosts.unshift(sharedPost); // Add to beginning
-		this.refreshTimeline(); // Use old synchronous method for tests
+		this.insertPosts([sharedPost], false);
 	}
 
 	/**
@@ -136,13 +241,47 @@ export class TimelineE extends g.E {
 	 * @param postId The ID of the post to update
 	 */
 	incrementPurchaseCount(postId: string): void {
-		const sharedPost = this.sharedPosts.find(post => post.id === postId);
+		const sharedPost = this.findSharedPost(postId);
 		if (sharedPost) {
 			sharedPost.purchaseCount++;
 			this.updatePurchaseCount(postId); // Update display without destroying children
 		}
 	}
 
+	/**
+	 * Updates the like button of a post after its likes changed
+	 * @param postId The ID of the liked post
+	 */
+	updateLikeCount(postId: string): void {
+		const button = this.likeButtons.get(postId);
+		if (button) {
+			this.applyLikeButtonState(postId, button);
+		}
+	}
+
+	/**
+	 * Updates the follow buttons of a player's posts after the player's followers changed
+	 * @param playerId The ID of the followed player
+	 */
+	updateFollowState(playerId: string): void {
+		this.followButtons.forEach(entry => {
+			if (entry.sharerId === playerId) {
+				this.applyFollowButtonState(playerId, entry.button);
+			}
+		});
+	}
+
+	/**
+	 * Updates the coupon button of a feed post after the coupon expired or was claimed
+	 * @param postId The ID of the coupon post
+	 */
+	updateCouponState(postId: string): void {
+		const button = this.couponButtons.get(postId);
+		if (button) {
+			this.applyCouponButtonState(postId, button);
+		}
+	}
+
 	/**
 	 * External callback for item purchases from other sources (shop, etc.)
 	 */
@@ -150,6 +289,15 @@ export class TimelineE extends g.E {
 		this.updateAllButtonsForItem(item.id);
 	}
 
+	/**
+	 * Scrolls back to the newest post and clears the new posts notice
+	 * @param animate Whether to ease to the top instead of jumping
+	 */
+	scrollToTop(animate: boolean = false): void {
+		this.clearNewPosts();
+		this.scrollView!.scrollTo(0, animate);
+	}
+
 	/**
 	 * Starts batch processing timer
 	 */
@@ -160,133 +308,80 @@ export class TimelineE extends g.E {
 	}
 
 	/**
-	 * Processes all batched posts with improved animation
+	 * Processes all batched posts at once
 	 */
 	private processBatchedPosts(): void {
-		if (this.batchProcessing || this.batchPendingPosts.length === 0) {
+		this.batchTimer = undefined;
+		if (this.batchPendingPosts.length === 0) {
 			return;
 		}
 
-		this.batchProcessing = true;
-		this.batchTimer = undefined;
-
 		// Get posts to process (in reverse order for proper timeline placement)
 		const postsToProcess = this.batchPendingPosts.reverse();
 		this.batchPendingPosts = [];
 
-		// Add all posts to data structure first
-		this.sharedPosts.unshift(...postsToProcess);
-
 		// Only animate if timeline is visible
-		if (this.opacity > 0) {
-			this.animateBatchedPosts(postsToProcess);
-		} else {
-			// Timeline is hidden, add posts without animation
-			this.addBatchedPostsSilently(postsToProcess);
-			this.batchProcessing = false;
-		}
-	}
-
-	/**
-	 * Animates multiple posts being added with staggered timing
-	 */
-	private animateBatchedPosts(posts: SharedPostData[]): void {
-		// Disable scrolling during animation
-		this.isAnimating = true;
-
-		// Create loading overlay during animation
-		this.createTimelineLoadingOverlay();
-
-		// Create timeline for batch animation
-		const timeline = new Timeline(this.scene);
-
-		// First, shift existing posts down by the number of new posts
-		const shiftDistance = posts.length * 90; // 90px per post
-		this.timelineItems.forEach((item) => {
-			const newY = item.y + shiftDistance;
-			timeline.create(item).to({ y: newY }, ANIMATION_CONFIG.POST_SHIFT_DURATION);
-		});
-
-		// After shift animation, create and fade in new posts with staggered timing
-		timeline.create(this).wait(ANIMATION_CONFIG.POST_SHIFT_DURATION).call(() => {
-			this.addBatchedPostsWithStagger(posts);
-		});
+		this.insertPosts(postsToProcess, this.opacity > 0);
 	}
 
 	/**
-	 * Adds batched posts with staggered fade-in animation
+	 * Inserts posts above every other post
+	 * At the top of the list the new posts come into sight, otherwise the rows being read stay in place
+	 * and the new posts pill lets the player jump to them
+	 * @param newPosts Posts to insert, newest first
+	 * @param animate Whether new posts in sight fade in
 	 */
-	private addBatchedPostsWithStagger(posts: SharedPostData[]): void {
-		// Limit the number of posts that get animated to prevent overwhelming the UI
-		const postsToAnimate = posts.slice(0, ANIMATION_CONFIG.BATCH_POST_MAX_SHOW);
-		const postsToAddSilently = posts.slice(ANIMATION_CONFIG.BATCH_POST_MAX_SHOW);
-
-		// Add non-animated posts silently first
-		postsToAddSilently.forEach((post, index) => {
-			const postY = index * 90 + this.scrollOffset;
-			const newPost = this.createAffiliateTimelineItem(post, index, postY);
-			this.timelineItems.unshift(newPost);
-		});
+	private insertPosts(newPosts: TimelinePostData[], animate: boolean): void {
+		const previousHeight = this.getContentHeight();
+		this.posts.unshift(...newPosts);
+		this.layoutRows();
+		const insertedHeight = this.getContentHeight() - previousHeight;
+
+		if (this.scrollView!.getScrollY() >= LIST_CONFIG.NEW_POSTS_THRESHOLD) {
+			this.scrollView!.scrollBy(insertedHeight);
+			this.newPostCount += newPosts.length;
+			this.updateNewPostsPill();
+			this.renderVisibleRows();
+			return;
+		}
 
-		// Animate the remaining posts with staggered timing
-		postsToAnimate.forEach((post, index) => {
-			const delay = index * ANIMATION_CONFIG.BATCH_POST_STAGGER;
-			const postIndex = postsToAddSilently.length + index;
-			this.scene.setTimeout(() => {
-				const postY = postIndex * 90 + this.scrollOffset;
-				const newPost = this.createAffiliateTimelineItem(post, postIndex, postY);
-
-				// Start with opacity 0 for fade-in effect
-				newPost.opacity = 0;
-				newPost.modified();
-				this.timelineItems.unshift(newPost);
-
-				// Fade in the new post
-				const fadeTimeline = new Timeline(this.scene);
-				fadeTimeline.create(newPost)
-					.wait(ANIMATION_CONFIG.POST_FADE_IN_DELAY)
-					.to({ opacity: 1 }, ANIMATION_CONFIG.POST_FADE_IN_DURATION)
-					.call(() => {
-						// If this is the last post being animated, complete the batch
-						if (index === postsToAnimate.length - 1) {
-							this.completeBatchAnimation();
-						}
-					});
-			}, delay);
-		});
+		this.scrollView!.scrollTo(0);
+		this.renderVisibleRows();
 
-		// If no posts were animated, complete immediately
-		if (postsToAnimate.length === 0) {
-			this.completeBatchAnimation();
+		if (animate) {
+			this.fadeInRows(newPosts.slice(0, ANIMATION_CONFIG.BATCH_POST_MAX_SHOW).map(post => post.id));
 		}
 	}
 
 	/**
-	 * Adds batched posts without animation (when timeline is hidden)
+	 * Fades in materialized rows with staggered timing
 	 */
-	private addBatchedPostsSilently(posts: SharedPostData[]): void {
-		posts.forEach((post, index) => {
-			const postY = index * 90 + this.scrollOffset;
-			const newPost = this.createAffiliateTimelineItem(post, index, postY);
-			this.timelineItems.unshift(newPost);
-		});
-
-		// Shift all existing posts down
-		this.timelineItems.forEach((item, index) => {
-			if (index >= posts.length) {
-				item.y = index * 90 + this.scrollOffset;
-				item.modified();
+	private fadeInRows(rowIds: string[]): void {
+		const timeline = new Timeline(this.scene);
+		rowIds.forEach((rowId, index) => {
+			const view = this.rowViews.get(rowId);
+			if (!view) {
+				return;
 			}
+			view.container.opacity = 0;
+			view.container.modified();
+			timeline.create(view.container)
+				.wait(index * ANIMATION_CONFIG.BATCH_POST_STAGGER)
+				.to({ opacity: 1 }, ANIMATION_CONFIG.POST_FADE_IN_DURATION);
 		});
 	}
 
 	/**
-	 * Completes batch animation processing
+	 * Creates the fonts shared by every row view
 	 */
-	private completeBatchAnimation(): void {
-		this.isAnimating = false;
-		this.batchProcessing = false;
-		this.destroyTimelineLoadingOverlay();
+	private createFonts(): { userName: g.DynamicFont; action: g.DynamicFont; price: g.DynamicFont; mutedPrice: g.DynamicFont } {
+		const game = this.scene.game;
+		return {
+			userName: new g.DynamicFont({ game, fontFamily: "sans-serif", size: 14, fontColor: "#2c3e50", fontWeight: "bold" }),
+			action: new g.DynamicFont({ game, fontFamily: "sans-serif", size: 12, fontColor: "#34495e" }),
+			price: new g.DynamicFont({ game, fontFamily: "sans-serif", size: 11, fontColor: "#e74c3c", fontWeight: "bold" }),
+			mutedPrice: new g.DynamicFont({ game, fontFamily: "sans-serif", size: 11, fontColor: "#95a5a6", fontWeight: "normal" })
+		};
 	}
 
 	/**
@@ -305,24 +400,26 @@ export class TimelineE extends g.E {
 					width: 700,
 					height: 35,
 					children: {
-						title: { x: 0, y: 0, width: 150, height: 20 }
+						title: { x: 0, y: 0, width: 150, height: 20 },
+						mySharesBtn: { x: 520, y: 0, width: 180, height: 32 }
 					}
 				},
 				item: {
 					x: 0,
 					y: 35,
 					width: 700,
-					height: 90,
+					height: LIST_CONFIG.ROW_HEIGHT,
 					children: {
 						avatar: { x: 0, y: 0, width: 40, height: 40 },
 						userName: { x: 50, y: 5, width: 150, height: 14 },
 						actionText: { x: 50, y: 25, width: 450, height: 12 },
 						priceText: { x: 50, y: 40, width: 200, height: 12 },
-						likeBtn: { x: 50, y: 60, width: 50, height: 12 },
-						commentBtn: { x: 120, y: 60, width: 70, height: 12 },
+						likeBtn: { x: 50, y: 58, width: 90, height: 28 },
+						followBtn: { x: 150, y: 58, width: 140, height: 28 },
 						buyBtn: { x: 510, y: 5, width: 120, height: 80 }
 					}
-				}
+				},
+				newPostsPill: { x: 250, y: 8, width: 200, height: 36 }
 			}
 		};
 	}
@@ -333,62 +430,22 @@ export class TimelineE extends g.E {
 	private createLayout(): void {
 		this.createHeader();
 		this.createScrollableContainer();
-		this.createTimelineItems();
+		this.createNewPostsPill();
+		this.layoutRows();
+		this.renderVisibleRows();
 	}
 
 
 	/**
-	 * Handles scroll start
-	 */
-	private handleScrollStart(ev: g.PointDownEvent): void {
-		if (this.isAnimating) {
-			return;
-		}
-		this.isScrolling = true;
-		this.lastScrollY = this.scrollOffset;
-	}
-
-	/**
-	 * Handles scroll movement
+	 * Handles scrolling of the list
 	 */
-	private handleScrollMove(ev: g.PointMoveEvent): void {
-		if (!this.isScrolling || !this.scrollContainer || this.isAnimating) {
-			return;
+	private handleScroll(scrollY: number): void {
+		// New posts are in sight again once the player scrolls back to the top
+		if (scrollY < LIST_CONFIG.NEW_POSTS_THRESHOLD) {
+			this.clearNewPosts();
 		}
 
-		const oldScrollOffset = this.scrollOffset;
-		this.scrollOffset = this.lastScrollY + ev.startDelta.y;
-
-		// Clamp scroll offset (negative values scroll down, positive scroll up)
-		this.scrollOffset = Math.max(-this.maxScrollOffset, Math.min(this.scrollOffset, 0));
-
-		// Round scroll offset to prevent micro-movements
-		this.scrollOffset = Math.round(this.scrollOffset);
-
-		// Only update if scroll offset actually changed significantly
-		if (Math.abs(oldScrollOffset - this.scrollOffset) < 1) {
-			return;
-		}
-
-		// Update all timeline items position based on scroll offset
-		this.timelineItems.forEach((item, index) => {
-			const oldY = item.y;
-			// Update item position based on index and scroll offset
-			const newY = index * 90 + this.scrollOffset;
-
-			// Only update if position actually changed
-			if (Math.abs(oldY - newY) >= 1) {
-				item.y = newY;
-				item.modified();
-			}
-		});
-	}
-
-	/**
-	 * Handles scroll end
-	 */
-	private handleScrollEnd(ev: g.PointUpEvent): void {
-		this.isScrolling = false;
+		this.renderVisibleRows();
 	}
 
 	/**
@@ -412,219 +469,342 @@ export class TimelineE extends g.E {
 			y: this.layout.y + titleLayout.y,
 		});
 		this.append(timelineTitle);
+
+		if (this.onOpenMyShares) {
+			const mySharesBtnLayout = headerLayout.children!.mySharesBtn;
+			const mySharesButton = new LabelButtonE({
+				scene: this.scene,
+				multi: this.multi,
+				name: "timeline_my_shares",
+				args: "my_shares",
+				text: "📊 マイシェア",
+				width: mySharesBtnLayout.width,
+				height: mySharesBtnLayout.height,
+				x: this.layout.x + mySharesBtnLayout.x,
+				y: this.layout.y + mySharesBtnLayout.y,
+				backgroundColor: "#8e44ad",
+				textColor: "white",
+				fontSize: 18,
+				onComplete: () => {
+					mySharesButton.reactivate();
+					this.onOpenMyShares!();
+				}
+			});
+			this.append(mySharesButton);
+		}
 	}
 
 	/**
-	 * Creates a scrollable container for timeline content
+	 * Creates a scroll view for timeline content
 	 */
 	private createScrollableContainer(): void {
-		// Create scrollable container that clips content
-		this.scrollContainer = new g.Pane({
+		this.scrollView = new ScrollViewE({
 			scene: this.scene,
 			width: this.layout.width,
 			height: this.layout.height - 35, // Subtract header height
 			x: this.layout.x,
 			y: this.layout.y + 35, // Position below header
-			touchable: true,
-			local: true
 		});
+		this.scrollView.onScroll.add((scrollY) => this.handleScroll(scrollY));
 
-		// Add scroll event handling
-		this.scrollContainer.onPointDown.add((ev) => this.handleScrollStart(ev));
-		this.scrollContainer.onPointMove.add((ev) => this.handleScrollMove(ev));
-		this.scrollContainer.onPointUp.add((ev) => this.handleScrollEnd(ev));
-
-		this.append(this.scrollContainer);
+		this.append(this.scrollView);
 	}
 
 	/**
-	 * Adds a post silently without animation to preserve existing timeline content
+	 * Creates the pill telling new posts arrived above while the player reads older ones
+	 * Tapping it jumps to the top; it is local because scrolling is local to each player
 	 */
-	private addPostSilently(): void {
-		// Create new post at the top position
-		const newPostY = this.scrollOffset;
-		const newPost = this.createAffiliateTimelineItem(this.sharedPosts[0], 0, newPostY);
-
-		// Shift all existing posts down by updating their base positions
-		this.timelineItems.forEach((item, index) => {
-			// Update item position based on index
-			item.y = (index + 1) * 90 + this.scrollOffset;
-			item.modified();
-		});
+	private createNewPostsPill(): void {
+		const pillLayout = this.layout.children!.newPostsPill;
 
-		// Add new post to beginning
-		this.timelineItems.unshift(newPost);
+		this.newPostsPill = new g.FilledRect({
+			scene: this.scene,
+			width: pillLayout.width,
+			height: pillLayout.height,
+			x: this.layout.x + pillLayout.x,
+			y: this.layout.y + 35 + pillLayout.y,
+			cssColor: "#3498db",
+			touchable: true,
+			local: true,
+		});
+		this.newPostsPill.onPointUp.add(() => this.scrollToTop(true));
 
-		// Add to scroll container
-		this.scrollContainer!.append(newPost);
+		this.newPostsLabel = new g.Label({
+			scene: this.scene,
+			font: new g.DynamicFont({
+				game: this.scene.game,
+				fontFamily: "sans-serif",
+				size: 16,
+				fontColor: "white",
+				fontWeight: "bold",
+			}),
+			text: "",
+			width: pillLayout.width,
+			y: (pillLayout.height - 16) / 2,
+			textAlign: "center",
+			widthAutoAdjust: false,
+		});
+		this.newPostsPill.append(this.newPostsLabel);
+		this.newPostsPill.hide();
 
-		// Update max scroll offset to account for new content
-		const totalContentHeight = this.timelineItems.length * 90;
-		const containerHeight = this.scrollContainer!.height;
-		this.maxScrollOffset = Math.max(0, totalContentHeight - containerHeight);
+		this.append(this.newPostsPill);
 	}
 
 	/**
-	 * Refreshes the timeline display (for testing only)
-	 * @deprecated Use animateNewPost() for production code
+	 * Shows the number of new posts above the rows being read
 	 */
-	private refreshTimeline(): void {
-		// Clear affiliate button references
-		this.affiliateButtons.clear();
-
-		// Clear timeline items array
-		this.timelineItems = [];
-
-		// Remove all timeline items except the first one (header)
-		if (this.children && this.children.length > 0) {
-			const childrenToRemove = this.children.slice(1); // All except first
-			childrenToRemove.forEach(child => {
-				child.destroy();
-			});
+	private updateNewPostsPill(): void {
+		if (!this.newPostsPill || !this.newPostsLabel) {
+			return;
 		}
+		this.newPostsLabel.text = `↑ 新着${this.newPostCount}件`;
+		this.newPostsLabel.invalidate();
+		this.newPostsPill.show();
+	}
 
-		this.createTimelineItems();
+	/**
+	 * Hides the new posts pill
+	 */
+	private clearNewPosts(): void {
+		this.newPostCount = 0;
+		if (this.newPostsPill) {
+			this.newPostsPill.hide();
+		}
 	}
 
 	/**
-	 * Creates timeline items
+	 * Lays out the rows of every post followed by the guide posts
 	 */
-	private createTimelineItems(): void {
-		const defaultItems = [
-			{ user: "[ガイド]", action: "📱 タイムラインでは他のプレイヤーがシェアした商品を購入できます",
-				reactions: { like: true, comment: true } },
-			{ user: "[ガイド]", action: "💰 アフィリエイト機能で商品をシェアして、購入されるとポイント獲得！", reactions: { like: true, comment: true } },
-			{ user: "[ガイド]", action: "🛒 商品をどんどんシェアして、アフィリエイト報酬を得ましょう！", reactions: { like: true, comment: true } },
-			{ user: "[ガイド]", action: "💹 商品の価格は変化しますが、シェアされた商品はそのときの価格で購入できます", reactions: { like: true, comment: true } },
+	private layoutRows(): void {
+		const entries: Array<{ id: string; post?: TimelinePostData; guide?: { user: string; action: string } }> = [
+			...this.posts.map(post => ({ id: post.id, post })),
+			...GUIDE_POSTS.map(guide => ({ id: guide.id, guide }))
 		];
 
-		let itemIndex = 0;
-
-		// Add shared posts first
-		this.sharedPosts.forEach((sharedPost) => {
-			const itemY = itemIndex * 90; // Relative to scroll container
-			const postItem = this.createAffiliateTimelineItem(sharedPost, 0, itemY); // X is 0 relative to container
-			this.timelineItems.push(postItem);
-			itemIndex++;
+		let top = 0;
+		this.rows = entries.map(entry => {
+			const row = { ...entry, top, height: this.getRowHeight(entry.post) };
+			top += row.height;
+			return row;
 		});
 
-		// Add default items
-		defaultItems.forEach((item) => {
-			const itemY = itemIndex * 90; // Relative to scroll container
-			const postItem = this.createTimelineItem(item.user, item.action, item.reactions, 0, itemY); // X is 0 relative to container
-			this.timelineItems.push(postItem);
-			itemIndex++;
+		this.scrollView!.setContentHeight(top);
+	}
+
+	/**
+	 * Gets the height of a row
+	 * Guide and hint posts have no action button, so their rows only need room for the text and the reactions
+	 */
+	private getRowHeight(post?: TimelinePostData): number {
+		if (post === undefined || (isFeedPost(post) && post.kind === "hint")) {
+			return LIST_CONFIG.COMPACT_ROW_HEIGHT;
+		}
+		return LIST_CONFIG.ROW_HEIGHT;
+	}
+
+	/**
+	 * Gets the height of the whole list content
+	 */
+	private getContentHeight(): number {
+		const lastRow = this.rows[this.rows.length - 1];
+		return lastRow ? lastRow.top + lastRow.height : 0;
+	}
+
+	/**
+	 * Materializes the rows in sight and releases the others for reuse
+	 */
+	private renderVisibleRows(): void {
+		const scrollY = this.scrollView!.getScrollY();
+		const viewTop = scrollY - LIST_CONFIG.OVERSCAN;
+		const viewBottom = scrollY + this.scrollView!.height + LIST_CONFIG.OVERSCAN;
+		const visibleRows = this.rows.filter(row => row.top + row.height > viewTop && row.top < viewBottom);
+		const visibleRowIds = visibleRows.map(row => row.id);
+
+		// Release rows out of sight first so that their views can be reused right away
+		this.rowViews.forEach((view, rowId) => {
+			if (visibleRowIds.indexOf(rowId) === -1) {
+				this.releaseRowView(rowId, view);
+			}
 		});
 
-		// Add all timeline items to scroll container
-		this.timelineItems.forEach(item => {
-			this.scrollContainer!.append(item);
+		const boundRows: TimelineRow[] = [];
+		visibleRows.forEach(row => {
+			let view = this.rowViews.get(row.id);
+			if (!view) {
+				view = this.acquireRowView();
+				this.rowViews.set(row.id, view);
+				this.bindRowView(view, row);
+				boundRows.push(row);
+			}
+			if (view.container.y !== row.top) {
+				view.container.y = row.top;
+				view.container.modified();
+			}
 		});
+		this.reportImpressions(boundRows);
+	}
 
-		// Calculate max scroll offset based on content height
-		const totalContentHeight = itemIndex * 90;
-		const containerHeight = this.scrollContainer!.height;
-		this.maxScrollOffset = Math.max(0, totalContentHeight - containerHeight);
+	/**
+	 * Reports other players' posts in the given rows as viewed, as long as the timeline is shown
+	 */
+	private reportImpressions(rows: TimelineRow[]): void {
+		if (!this.affiliateAnalyticsManager || !this.visible()) {
+			return;
+		}
+		rows.forEach(row => {
+			if (row.post && !isFeedPost(row.post) && !this.isSelfPosted(row.post)) {
+				this.affiliateAnalyticsManager!.recordImpression(row.post);
+			}
+		});
 	}
 
 	/**
-	 * Creates an affiliate timeline item for shared products
+	 * Takes a row view from the pool, or creates one if the pool is empty
 	 */
-	private createAffiliateTimelineItem(sharedPost: SharedPostData, x: number, y: number): g.E {
+	private acquireRowView(): TimelineRowView {
+		const pooledView = this.rowViewPool.pop();
+		if (pooledView) {
+			pooledView.container.show();
+			return pooledView;
+		}
+
 		const itemLayout = this.layout.children!.item;
 		const avatarLayout = itemLayout.children!.avatar;
 		const userNameLayout = itemLayout.children!.userName;
 		const actionTextLayout = itemLayout.children!.actionText;
 		const priceTextLayout = itemLayout.children!.priceText;
-		const buyBtnLayout = itemLayout.children!.buyBtn;
-
-		// Check if this is a self-posted item
-		const currentPlayerId = this.onGetPlayerId ? this.onGetPlayerId() : null;
-		const isSelfPosted = currentPlayerId && sharedPost.sharerId === currentPlayerId;
 
 		// Create container for the post
-		const postContainer = new g.E({
+		const container = new g.E({
 			scene: this.scene,
 			width: itemLayout.width,
 			height: itemLayout.height,
-			x: x,
-			y: y,
 		});
 
 		// Post background for visibility
-		const postBackground = new g.FilledRect({
+		const background = new g.FilledRect({
 			scene: this.scene,
 			width: itemLayout.width,
 			height: itemLayout.height,
-			x: 0,
-			y: 0,
 			cssColor: "white",
 		});
-		postContainer.append(postBackground);
+		container.append(background);
 
-		// User avatar (circle) - different color for self-posted
+		// User avatar (circle)
 		const avatar = new g.FilledRect({
 			scene: this.scene,
 			width: avatarLayout.width,
 			height: avatarLayout.height,
 			x: avatarLayout.x,
 			y: avatarLayout.y,
-			cssColor: isSelfPosted ? "#95a5a6" : "#3498db", // Gray for self-posted, blue for others
+			cssColor: "#ecf0f1",
 		});
-		postContainer.append(avatar);
+		container.append(avatar);
 
 		// User name
 		const userName = new g.Label({
 			scene: this.scene,
-			font: new g.DynamicFont({
-				game: this.scene.game,
-				fontFamily: "sans-serif",
-				size: 14,
-				fontColor: "#2c3e50",
-				fontWeight: "bold",
-			}),
-			text: sharedPost.sharerName,
+			font: this.fonts.userName,
+			text: "",
 			x: userNameLayout.x,
 			y: userNameLayout.y,
 		});
-		postContainer.append(userName);
-
-		// Action text - different for self-posted items
-		const actionTextContent = isSelfPosted
-			? `${sharedPost.item.emoji} ${sharedPost.item.name}をシェアしました (自分の投稿・${sharedPost.purchaseCount}人が購入)`
-			: `${sharedPost.item.emoji} ${sharedPost.item.name}をシェアしました！`;
+		container.append(userName);
 
+		// Action text
 		const actionText = new g.Label({
 			scene: this.scene,
-			font: new g.DynamicFont({
-				game: this.scene.game,
-				fontFamily: "sans-serif",
-				size: 12,
-				fontColor: isSelfPosted ? "#7f8c8d" : "#34495e", // Muted color for self-posted
-			}),
-			text: actionTextContent,
+			font: this.fonts.action,
+			text: "",
 			x: actionTextLayout.x,
 			y: actionTextLayout.y,
 			width: actionTextLayout.width,
 		});
-		postContainer.append(actionText);
+		container.append(actionText);
 
-		// Price text - muted styling for self-posted items
+		// Price text (shared posts only)
 		const priceText = new g.Label({
 			scene: this.scene,
-			font: new g.DynamicFont({
-				game: this.scene.game,
-				fontFamily: "sans-serif",
-				size: 11,
-				fontColor: isSelfPosted ? "#95a5a6" : "#e74c3c", // Muted color for self-posted
-				fontWeight: isSelfPosted ? "normal" : "bold", // Normal weight for self-posted
-			}),
-			text: `価格: ${sharedPost.sharedPrice}pt (アフィリエイト) / 定価: ${sharedPost.item.purchasePrice}pt`,
+			font: this.fonts.price,
+			text: "",
 			x: priceTextLayout.x,
 			y: priceTextLayout.y,
 		});
-		postContainer.append(priceText);
+		container.append(priceText);
+
+		this.scrollView!.content.append(container);
+		return { container, background, avatar, userName, actionText, priceText, buttons: [] };
+	}
+
+	/**
+	 * Returns a row view to the pool, destroying the buttons of its post
+	 */
+	private releaseRowView(rowId: string, view: TimelineRowView): void {
+		view.buttons.forEach(button => button.destroy());
+		view.buttons = [];
+		this.affiliateButtons.delete(rowId);
+		this.likeButtons.delete(rowId);
+		this.followButtons.delete(rowId);
+		this.couponButtons.delete(rowId);
+
+		view.container.hide();
+		this.rowViews.delete(rowId);
+		this.rowViewPool.push(view);
+	}
+
+	/**
+	 * Shows a row in a row view
+	 */
+	private bindRowView(view: TimelineRowView, row: TimelineRow): void {
+		view.container.height = row.height;
+		view.container.opacity = 1;
+		view.container.modified();
+		view.background.height = row.height;
+		view.priceText.hide();
+
+		if (row.post === undefined) {
+			this.bindGuideRow(view, row, row.guide!);
+		} else if (isFeedPost(row.post)) {
+			this.bindFeedRow(view, row, row.post);
+		} else {
+			this.bindSharedRow(view, row, row.post);
+		}
+
+		[view.userName, view.actionText, view.priceText].forEach(label => label.invalidate());
+	}
+
+	/**
+	 * Sets the common parts of a row view
+	 */
+	private setRowAppearance(view: TimelineRowView, colors: { background: string; avatar: string; userName?: string }): void {
+		view.background.cssColor = colors.background;
+		view.background.modified();
+		view.avatar.cssColor = colors.avatar;
+		view.avatar.modified();
+		view.userName.textColor = colors.userName;
+	}
+
+	/**
+	 * Shows a post shared by a player in a row view
+	 */
+	private bindSharedRow(view: TimelineRowView, row: TimelineRow, sharedPost: SharedPostData): void {
+		const buyBtnLayout = this.layout.children!.item.children!.buyBtn;
 
+		// Check if this is a self-posted item
+		const isSelfPosted = this.isSelfPosted(sharedPost);
+
+		// Different avatar color for self-posted: gray for self-posted, blue for others
+		this.setRowAppearance(view, { background: "white", avatar: isSelfPosted ? "#95a5a6" : "#3498db" });
+		view.userName.text = sharedPost.sharerName;
+
+		// Action text - different for self-posted items
+		view.actionText.text = this.getSharedPostText(sharedPost);
+		view.actionText.textColor = isSelfPosted ? "#7f8c8d" : undefined; // Muted color for self-posted
+
+		// Price text - muted styling for self-posted items
+		view.priceText.font = isSelfPosted ? this.fonts.mutedPrice : this.fonts.price;
+		view.priceText.text = `価格: ${sharedPost.sharedPrice}pt (アフィリエイト) / 定価: ${sharedPost.item.purchasePrice}pt`;
+		view.priceText.show();
 
 		// Only show buy button for non-self-posted items
 		if (!isSelfPosted) {
@@ -654,12 +834,125 @@ export class TimelineE extends g.E {
 			}
 
 			this.affiliateButtons.set(sharedPost.id, buyButton);
-			postContainer.append(buyButton);
+			this.appendRowButton(view, buyButton);
+
+			this.createFollowButton(view, row, sharedPost.sharerId);
+		}
+
+		this.createLikeButton(view, row, sharedPost.sharerId);
+	}
+
+	/**
+	 * Shows a feed post in a row view, tinted by its kind
+	 * Sale posts link to the shop and coupon posts grant points when tapped before they expire
+	 */
+	private bindFeedRow(view: TimelineRowView, row: TimelineRow, feedPost: FeedPostData): void {
+		const buyBtnLayout = this.layout.children!.item.children!.buyBtn;
+		const colors = {
+			sale: { background: "#fff5e6", avatar: "#e67e22" },
+			coupon: { background: "#fef9e7", avatar: "#f1c40f" },
+			hint: { background: "#eafaf1", avatar: "#27ae60" }
+		}[feedPost.kind];
+
+		// Tinted background and brand name tell brand posts from player posts
+		this.setRowAppearance(view, { ...colors, userName: colors.avatar });
+		view.userName.text = feedPost.authorName;
+		view.actionText.text = feedPost.text;
+		view.actionText.textColor = undefined;
+
+		if (feedPost.kind === "sale" && this.onOpenShop) {
+			const shopButton = new LabelButtonE({
+				scene: this.scene,
+				multi: this.multi,
+				name: `feed_shop_${feedPost.id}`,
+				args: feedPost.id,
+				text: FEED_CONFIG.SALE.BUTTON_TEXT,
+				width: buyBtnLayout.width,
+				height: buyBtnLayout.height,
+				x: buyBtnLayout.x,
+				y: buyBtnLayout.y,
+				backgroundColor: "#e67e22",
+				textColor: "white",
+				fontSize: 20,
+				onComplete: () => {
+					shopButton.reactivate();
+					this.onOpenShop!();
+				}
+			});
+			this.appendRowButton(view, shopButton);
+		} else if (feedPost.kind === "coupon" && this.feedManager) {
+			const couponButton = new LabelButtonE({
+				scene: this.scene,
+				multi: this.multi,
+				name: `feed_coupon_${feedPost.id}`,
+				args: feedPost.id,
+				text: `${feedPost.couponPoints}pt ${FEED_CONFIG.COUPON.BUTTON_TEXT}`,
+				width: buyBtnLayout.width,
+				height: buyBtnLayout.height,
+				x: buyBtnLayout.x,
+				y: buyBtnLayout.y,
+				backgroundColor: "#f39c12",
+				textColor: "white",
+				fontSize: 20,
+				onComplete: (postId: string) => {
+					this.feedManager!.claimCoupon(postId);
+					this.applyCouponButtonState(postId, couponButton);
+				}
+			});
+			this.applyCouponButtonState(feedPost.id, couponButton);
+
+			this.couponButtons.set(feedPost.id, couponButton);
+			this.appendRowButton(view, couponButton);
+		}
+
+		this.createLikeButton(view, row, SNS_CONFIG.GUIDE_AUTHOR_ID);
+	}
+
+	/**
+	 * Shows a guide post in a row view
+	 */
+	private bindGuideRow(view: TimelineRowView, row: TimelineRow, guide: { user: string; action: string }): void {
+		this.setRowAppearance(view, { background: "white", avatar: "#ecf0f1" });
+		view.userName.text = guide.user;
+		view.actionText.text = guide.action;
+		view.actionText.textColor = undefined;
+
+		this.createLikeButton(view, row, SNS_CONFIG.GUIDE_AUTHOR_ID);
+	}
+
+	/**
+	 * Appends a button to a row view, to be destroyed when the view is released
+	 */
+	private appendRowButton(view: TimelineRowView, button: g.E): void {
+		view.buttons.push(button);
+		view.container.append(button);
+	}
+
+	/**
+	 * Checks if a shared post was shared by the current player
+	 */
+	private isSelfPosted(sharedPost: SharedPostData): boolean {
+		const currentPlayerId = this.onGetPlayerId ? this.onGetPlayerId() : null;
+		return !!currentPlayerId && sharedPost.sharerId === currentPlayerId;
+	}
+
+	/**
+	 * Gets the text of a shared post, showing the purchase count once the item was bought through the post
+	 */
+	private getSharedPostText(sharedPost: SharedPostData): string {
+		const itemText = `${sharedPost.item.emoji} ${sharedPost.item.name}をシェアしました`;
+		if (this.isSelfPosted(sharedPost)) {
+			return `${itemText} (自分の投稿・${sharedPost.purchaseCount}人が購入)`;
 		}
+		return sharedPost.purchaseCount > 0 ? `${itemText} (${sharedPost.purchaseCount}人が購入)` : `${itemText}！`;
+	}
 
-		// Append container to scroll container and return it
-		this.scrollContainer!.append(postContainer);
-		return postContainer;
+	/**
+	 * Finds a post shared by a player
+	 */
+	private findSharedPost(postId: string): SharedPostData | undefined {
+		const post = this.posts.find(candidate => candidate.id === postId);
+		return post && !isFeedPost(post) ? post : undefined;
 	}
 
 	/**
@@ -667,7 +960,7 @@ export class TimelineE extends g.E {
 	 * @param postId The shared post ID
 	 */
 	private handleAffiliatePurchase(postId: string): void {
-		const sharedPost = this.sharedPosts.find(post => post.id === postId);
+		const sharedPost = this.findSharedPost(postId);
 		if (!sharedPost) {
 			console.error(`Shared post not found: ${postId}`);
 			return;
@@ -695,6 +988,9 @@ export class TimelineE extends g.E {
 			return;
 		}
 
+		// Count the click before the points check, so that sharers see prices that are out of reach
+		this.affiliateAnalyticsManager?.recordClick(sharedPost);
+
 		// Check if player has enough points
 		if (this.onCheckPoints) {
 			const currentPoints = this.onCheckPoints();
@@ -719,6 +1015,9 @@ export class TimelineE extends g.E {
 			this.onItemPurchased(sharedPost.item);
 		}
 
+		// Grant point back as its own transaction, same as shop purchases
+		const pointBack = this.onPointBack ? this.onPointBack(sharedPost.item, sharedPost.sharedPrice) : 0;
+
 		// Note: Don't increment purchase count locally here as it will be updated via broadcast message
 		// This prevents double-counting when the buyer receives their own broadcast
 
@@ -736,12 +1035,7 @@ export class TimelineE extends g.E {
 			rewardPoints: affiliateReward
 		};
 
-		const message = {
-			type: "affiliatePurchase",
-			purchaseData: purchaseMessage
-		};
-
-		this.scene.game.raiseEvent(new g.MessageEvent(message));
+		MessageBus.forScene(this.scene).publish("affiliatePurchase", purchaseMessage);
 
 		// Disable the buy button after purchase and update visual state
 		const buyButton = this.affiliateButtons.get(postId);
@@ -760,84 +1054,114 @@ export class TimelineE extends g.E {
 		this.updatePurchaseCount(postId);
 
 		// Show success modal consistent with shop purchase behavior
-		this.showSuccessModal(sharedPost.item, sharedPost.sharedPrice);
+		this.showSuccessModal(sharedPost.item, sharedPost.sharedPrice, pointBack);
 	}
 
 	/**
-	 * Creates a single timeline item
+	 * Creates the like button of a post (own posts show their likes but cannot be liked)
 	 */
-	private createTimelineItem(user: string, action: string, reactions: any, x: number, y: number): g.E {
+	private createLikeButton(view: TimelineRowView, row: TimelineRow, authorId: string): void {
+		if (!this.snsManager) {
+			return;
+		}
 		const itemLayout = this.layout.children!.item;
-		const avatarLayout = itemLayout.children!.avatar;
-		const userNameLayout = itemLayout.children!.userName;
-		const actionTextLayout = itemLayout.children!.actionText;
+		const likeBtnLayout = itemLayout.children!.likeBtn;
+		const currentPlayerId = this.onGetPlayerId ? this.onGetPlayerId() : null;
 
-		// Create container for the post
-		const postContainer = new g.E({
+		const likeButton = new LabelButtonE({
 			scene: this.scene,
-			width: itemLayout.width,
-			height: itemLayout.height,
-			x: x,
-			y: y,
+			multi: this.multi,
+			name: `sns_like_${row.id}`,
+			args: row.id,
+			text: "🤍 0",
+			width: likeBtnLayout.width,
+			height: likeBtnLayout.height,
+			x: likeBtnLayout.x,
+			y: likeBtnLayout.y + row.height - itemLayout.height, // Reactions stay at the bottom of the row
+			backgroundColor: "#fdedec",
+			textColor: "#e74c3c",
+			fontSize: 16,
+			onComplete: (likedPostId: string) => {
+				this.snsManager!.requestLike(likedPostId, authorId);
+				this.applyLikeButtonState(likedPostId, likeButton);
+			}
 		});
+		if (authorId === currentPlayerId) {
+			likeButton.touchable = false;
+		}
+		this.applyLikeButtonState(row.id, likeButton);
 
-		// Post background for visibility
-		const postBackground = new g.FilledRect({
-			scene: this.scene,
-			width: itemLayout.width,
-			height: itemLayout.height,
-			x: 0,
-			y: 0,
-			cssColor: "white",
-		});
-		postContainer.append(postBackground);
+		this.likeButtons.set(row.id, likeButton);
+		this.appendRowButton(view, likeButton);
+	}
 
-		// User avatar (circle)
-		const avatar = new g.FilledRect({
-			scene: this.scene,
-			width: avatarLayout.width,
-			height: avatarLayout.height,
-			x: avatarLayout.x,
-			y: avatarLayout.y,
-			cssColor: "#ecf0f1",
-		});
-		postContainer.append(avatar);
+	/**
+	 * Shows the like count of a post and disables the like button once liked
+	 */
+	private applyLikeButtonState(postId: string, button: LabelButtonE<string>): void {
+		const liked = this.snsManager!.hasLiked(postId);
+		button.setText(`${liked ? "❤️" : "🤍"} ${this.snsManager!.getLikeCount(postId)}`);
+		if (liked) {
+			button.touchable = false;
+		}
+	}
 
-		// User name
-		const userName = new g.Label({
-			scene: this.scene,
-			font: new g.DynamicFont({
-				game: this.scene.game,
-				fontFamily: "sans-serif",
-				size: 14,
-				fontColor: "#2c3e50",
-				fontWeight: "bold",
-			}),
-			text: user,
-			x: userNameLayout.x,
-			y: userNameLayout.y,
-		});
-		postContainer.append(userName);
+	/**
+	 * Creates the follow button of another player's post, showing the follower count of the player
+	 */
+	private createFollowButton(view: TimelineRowView, row: TimelineRow, sharerId: string): void {
+		if (!this.snsManager) {
+			return;
+		}
+		const itemLayout = this.layout.children!.item;
+		const followBtnLayout = itemLayout.children!.followBtn;
 
-		// Action text
-		const actionText = new g.Label({
+		const followButton = new LabelButtonE({
 			scene: this.scene,
-			font: new g.DynamicFont({
-				game: this.scene.game,
-				fontFamily: "sans-serif",
-				size: 12,
-				fontColor: "#34495e",
-			}),
-			text: action,
-			x: actionTextLayout.x,
-			y: actionTextLayout.y,
-			width: actionTextLayout.width,
+			multi: this.multi,
+			name: `sns_follow_${row.id}`,
+			args: sharerId,
+			text: "フォロー 👥0",
+			width: followBtnLayout.width,
+			height: followBtnLayout.height,
+			x: followBtnLayout.x,
+			y: followBtnLayout.y + row.height - itemLayout.height,
+			backgroundColor: "#3498db",
+			textColor: "white",
+			fontSize: 16,
+			onComplete: (followeeId: string) => {
+				this.snsManager!.requestFollow(followeeId);
+				this.updateFollowState(followeeId);
+			}
 		});
-		postContainer.append(actionText);
+		this.applyFollowButtonState(sharerId, followButton);
 
-		// Append container to scroll container and return it
-		this.scrollContainer!.append(postContainer);
-		return postContainer;
+		this.followButtons.set(row.id, { sharerId, button: followButton });
+		this.appendRowButton(view, followButton);
+	}
+
+	/**
+	 * Shows the follower count of a player and disables the follow button once followed
+	 */
+	private applyFollowButtonState(playerId: string, button: LabelButtonE<string>): void {
+		const following = this.snsManager!.isFollowing(playerId);
+		button.setText(`${following ? "フォロー中" : "フォロー"} 👥${this.snsManager!.getFollowerCount(playerId)}`);
+		if (following) {
+			button.touchable = false;
+			button.setBackgroundColor("#95a5a6");
+		}
+	}
+
+	/**
+	 * Disables the coupon button once the coupon was claimed or expired
+	 */
+	private applyCouponButtonState(postId: string, button: LabelButtonE<string>): void {
+		if (this.feedManager!.canClaimCoupon(postId)) {
+			return;
+		}
+		button.setText(this.feedManager!.isCouponClaimed(postId) ? "受取済" : "期限切れ");
+		button.touchable = false;
+		button.setBackgroundColor("#95a5a6");
 	}
 
 	/**
@@ -866,8 +1190,8 @@ export class TimelineE extends g.E {
 	/**
 	 * Shows success modal for affiliate purchase (consistent with shop behavior)
 	 */
-	private showSuccessModal(item: ItemData, price: number): void {
-		const successMessage = `アフィリエイト商品を購入しました！\n\n${item.emoji} ${item.name}\n価格: ${price}pt`;
+	private showSuccessModal(item: ItemData, price: number, pointBack: number): void {
+		const successMessage = `アフィリエイト商品を購入しました！\n\n${item.emoji} ${item.name}\n価格: ${price}pt\nポイントバック: ${pointBack}pt`;
 
 		const modal = new ModalE({
 			scene: this.scene,
@@ -888,8 +1212,8 @@ export class TimelineE extends g.E {
 	 * Updates all purchase buttons for a specific item ID (when item is purchased from any source)
 	 */
 	private updateAllButtonsForItem(itemId: string): void {
-		this.sharedPosts.forEach(post => {
-			if (post.item.id === itemId) {
+		this.posts.forEach(post => {
+			if (!isFeedPost(post) && post.item.id === itemId) {
 				const button = this.affiliateButtons.get(post.id);
 				if (button) {
 					button.touchable = false;
@@ -904,167 +1228,14 @@ export class TimelineE extends g.E {
 	/**
 	 * Updates purchase count display for a specific post without recreating
 	 * Shows purchase count for all posts to encourage affiliate activity
+	 * Rows out of sight show the count when they are materialized again
 	 */
 	private updatePurchaseCount(postId: string): void {
-		// Find the shared post
-		const sharedPost = this.sharedPosts.find(post => post.id === postId);
-		if (!sharedPost) return;
-
-		// Find the corresponding timeline item
-		const postIndex = this.sharedPosts.indexOf(sharedPost);
-		if (postIndex >= 0 && postIndex < this.timelineItems.length) {
-			const postItem = this.timelineItems[postIndex];
-			// Update action text to reflect new purchase count for all posts
-			const actionTextLabel = postItem.children && postItem.children[3]; // Assuming action text is forth child
-			if (actionTextLabel && actionTextLabel instanceof g.Label) {
-				const isSelfPosted = sharedPost.sharerId === this.scene.game.selfId;
-				const newText = isSelfPosted
-					? `${sharedPost.item.emoji} ${sharedPost.item.name}をシェアしました (自分の投稿・${sharedPost.purchaseCount}人が購入)`
-					: `${sharedPost.item.emoji} ${sharedPost.item.name}をシェアしました (${sharedPost.purchaseCount}人が購入)`;
-				actionTextLabel.text = newText;
-				actionTextLabel.invalidate();
-			}
-		}
-	}
-
-	/**
-	 * Creates loading overlay for timeline operations
-	 */
-	private createTimelineLoadingOverlay(): void {
-		if (this.loadingOverlay) {
-			return; // Already exists
-		}
-
-		// Create overlay covering timeline area
-		this.loadingOverlay = new g.E({
-			scene: this.scene,
-			width: this.layout.width,
-			height: this.layout.height,
-			x: this.layout.x,
-			y: this.layout.y,
-			touchable: true,
-			local: true,
-		});
-
-		// Semi-transparent background
-		const background = new g.FilledRect({
-			scene: this.scene,
-			width: this.layout.width,
-			height: this.layout.height,
-			cssColor: "rgba(0,0,0,0.3)",
-		});
-		this.loadingOverlay.append(background);
-
-		// Loading indicator
-		const loadingIcon = new g.FilledRect({
-			scene: this.scene,
-			width: 30,
-			height: 30,
-			cssColor: "#3498db",
-			x: this.layout.width / 2 - 15,
-			y: this.layout.height / 2 - 15,
-		});
-		this.loadingOverlay.append(loadingIcon);
-
-		// Add rotation animation
-		let rotation = 0;
-		const rotationHandler = (): void => {
-			rotation += 5;
-			if (rotation >= 360) rotation = 0;
-			loadingIcon.angle = rotation * Math.PI / 180;
-			loadingIcon.modified();
-		};
-		this.scene.onUpdate.add(rotationHandler);
+		const sharedPost = this.findSharedPost(postId);
+		const view = this.rowViews.get(postId);
+		if (!sharedPost || !view) return;
 
-		// Loading text
-		const loadingText = new g.Label({
-			scene: this.scene,
-			font: new g.DynamicFont({
-				game: this.scene.game,
-				fontFamily: "sans-serif",
-				size: 14,
-				fontColor: "white",
-			}),
-			text: "更新中...",
-			x: this.layout.width / 2 - 25,
-			y: this.layout.height / 2 + 20,
-		});
-		this.loadingOverlay.append(loadingText);
-
-		// Append to timeline
-		this.append(this.loadingOverlay);
-	}
-
-	/**
-	 * Destroys the timeline loading overlay
-	 */
-	private destroyTimelineLoadingOverlay(): void {
-		if (this.loadingOverlay) {
-			this.loadingOverlay.destroy();
-			this.loadingOverlay = undefined;
-		}
-	}
-
-	/**
-	 * Animates the addition of a new post with smooth transitions
-	 */
-	private animateNewPost(): void {
-		// Disable scrolling during animation
-		this.isAnimating = true;
-
-		// Create loading overlay during animation
-		this.createTimelineLoadingOverlay();
-
-		// Create timeline that will handle the animation
-		const timeline = new Timeline(this.scene);
-
-		// First, shift existing posts down
-		this.timelineItems.forEach((item, index) => {
-			const newY = item.y + 90; // Shift down by one post height
-			timeline.create(item).to({ y: newY }, ANIMATION_CONFIG.POST_SHIFT_DURATION);
-		});
-
-		// After shift animation, create and fade in new post
-		timeline.create(this).wait(ANIMATION_CONFIG.POST_SHIFT_DURATION).call(() => {
-			// Create new post at the top
-			const newPostY = this.scrollOffset;
-			const newPost = this.createAffiliateTimelineItem(this.sharedPosts[0], 0, newPostY);
-
-			// Start with opacity 0 for fade-in effect
-			newPost.opacity = 0;
-			newPost.modified();
-			this.timelineItems.unshift(newPost);
-
-			// Fade in the new post
-			const fadeTimeline = new Timeline(this.scene);
-			fadeTimeline.create(newPost)
-				.wait(ANIMATION_CONFIG.POST_FADE_IN_DELAY)
-				.to({ opacity: 1 }, ANIMATION_CONFIG.POST_FADE_IN_DURATION)
-				.call(() => {
-					const totalContentHeight = this.timelineItems.length * 90;
-					const containerHeight = this.scrollContainer!.height;
-					this.maxScrollOffset = Math.max(0, totalContentHeight - containerHeight);
-
-					// Fix all item positions after animation to prevent drift
-					this.fixItemPositions();
-
-					// Re-enable scrolling after animation
-					this.isAnimating = false;
-
-					// Animation complete, remove loading overlay
-					this.destroyTimelineLoadingOverlay();
-				});
-		});
-	}
-
-	/**
-	 * Fixes all item positions to their exact calculated values to prevent drift
-	 */
-	private fixItemPositions(): void {
-		this.timelineItems.forEach((item, index) => {
-			const correctY = index * 90 + this.scrollOffset;
-			item.y = correctY;
-			item.modified();
-		});
+		view.actionText.text = this.getSharedPostText(sharedPost);
+		view.actionText.invalidate();
 	}
 }
@@ -1,5 +1,21 @@
+import { GameConfig } from "./data/gameConfig";
+import { parseReplayLog } from "./data/replayData";
 import { TitleScene } from "./scene/titleScene";
 
-export function main(mode: "multi" | "ranking", totalTimeLimit: number): void {
-	g.game.pushScene(new TitleScene({ game: g.game, mode, totalTimeLimit }));
+/**
+ * Starts a round
+ * @param config Game configuration derived from the session parameters
+ * @param recordReplay Whether the session is recorded for playback (default: false)
+ */
+export function main(config: GameConfig, recordReplay: boolean = false): void {
+	g.game.pushScene(new TitleScene({ game: g.game, config, recordReplay }));
+}
+
+/**
+ * Reproduces a session recorded by ReplayRecorder
+ * @param json Log exported by ReplayRecorder.exportJson
+ */
+export function replay(json: string): void {
+	const log = parseReplayLog(json);
+	g.game.pushScene(new TitleScene({ game: g.game, config: log.config, replayLog: log }));
 }
@@ -0,0 +1,311 @@
+import { AffiliateClickMessage, AffiliateImpressionMessage, AffiliatePurchaseMessage } from "../data/affiliateMessages";
+import { GameContext } from "../data/gameContext";
+import { SharedPostData, SharedPostStats } from "../data/sharedPostData";
+import { PostAudienceSnapshot } from "../data/snapshotData";
+import { MessageBus } from "./messageBus";
+
+/**
+ * Affiliate analytics event notified to local listeners
+ */
+export type AffiliateAnalyticsEvent =
+	| { type: "viewed"; stats: SharedPostStats }
+	| { type: "clicked"; stats: SharedPostStats }
+	| { type: "purchased"; stats: SharedPostStats };
+
+/**
+ * Audience of a shared post
+ */
+interface PostAudience {
+	viewerIds: Set<string>;
+	clickerIds: Set<string>;
+	purchases: number;
+	commission: number;
+}
+
+/**
+ * Affiliate Analytics Manager tracks views, clicks, purchases and commission of shared posts
+ * so that sharers can learn which items and prices convert
+ * Views and clicks count each player once per post and never count the sharer
+ * In multi mode: impressions and clicks are broadcast and applied on all instances
+ * In ranking mode: impressions and clicks are applied locally right away
+ * Purchases are recorded by the caller once the affiliate reward is granted
+ */
+export class AffiliateAnalyticsManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private posts: Map<string, SharedPostData> = new Map();
+	private audiences: Map<string, PostAudience> = new Map();
+	private listeners: Array<(event: AffiliateAnalyticsEvent) => void> = [];
+	private reportedImpressionPostIds: Set<string> = new Set(); // Posts whose impression the current player already sent
+	private reportedClickPostIds: Set<string> = new Set(); // Posts whose click the current player already sent
+
+	/**
+	 * Creates a new AffiliateAnalyticsManager instance
+	 */
+	constructor(scene: g.Scene, context: GameContext) {
+		this.scene = scene;
+		this.context = context;
+	}
+
+	/**
+	 * Initializes the affiliate analytics manager
+	 */
+	initialize(): void {
+		if (this.getMode() === "multi") {
+			this.setupBroadcastListener();
+		}
+	}
+
+	/**
+	 * Gets the current mode
+	 */
+	getMode(): "multi" | "ranking" {
+		return this.context.gameMode.mode;
+	}
+
+	/**
+	 * Starts tracking a shared post
+	 * Events received before the post are kept and counted once it is tracked
+	 * @param sharedPost The shared post
+	 */
+	trackPost(sharedPost: SharedPostData): void {
+		if (!this.posts.has(sharedPost.id)) {
+			this.posts.set(sharedPost.id, sharedPost);
+		}
+	}
+
+	/**
+	 * Gets the performance of a shared post
+	 * @param postId Post ID
+	 * @returns Performance of the post, undefined if the post is not tracked
+	 */
+	getPostStats(postId: string): SharedPostStats | undefined {
+		const post = this.posts.get(postId);
+		if (!post) {
+			return undefined;
+		}
+
+		const audience = this.audiences.get(postId);
+		return {
+			post,
+			views: audience?.viewerIds.size ?? 0,
+			clicks: audience?.clickerIds.size ?? 0,
+			purchases: audience?.purchases ?? 0,
+			commission: audience?.commission ?? 0
+		};
+	}
+
+	/**
+	 * Gets the performance of every post shared by a player
+	 * @param playerId ID of the sharer
+	 * @returns Performance of each post, newest first
+	 */
+	getPlayerPostStats(playerId: string): SharedPostStats[] {
+		return Array.from(this.posts.values())
+			.filter(post => post.sharerId === playerId)
+			.sort((a, b) => b.sharedAt - a.sharedAt)
+			.map(post => this.getPostStats(post.id)!);
+	}
+
+	/**
+	 * Gets the audience of every post that was viewed, clicked or purchased
+	 * @returns Audiences in a serializable form
+	 */
+	getAudiences(): PostAudienceSnapshot[] {
+		return Array.from(this.audiences.entries()).map(([postId, audience]) => ({
+			postId,
+			viewerIds: Array.from(audience.viewerIds),
+			clickerIds: Array.from(audience.clickerIds),
+			purchases: audience.purchases,
+			commission: audience.commission
+		}));
+	}
+
+	/**
+	 * Restores audiences sent in a snapshot of a running game
+	 * Listeners are not notified; posts show their stats once tracked
+	 * @param audiences Audiences of shared posts
+	 */
+	restoreAudiences(audiences: PostAudienceSnapshot[]): void {
+		const playerId = this.context.currentPlayer.id;
+		audiences.forEach(snapshot => {
+			this.audiences.set(snapshot.postId, {
+				viewerIds: new Set(snapshot.viewerIds),
+				clickerIds: new Set(snapshot.clickerIds),
+				purchases: snapshot.purchases,
+				commission: snapshot.commission
+			});
+			// Reconnected: do not report the current player again
+			if (snapshot.viewerIds.indexOf(playerId) >= 0) {
+				this.reportedImpressionPostIds.add(snapshot.postId);
+			}
+			if (snapshot.clickerIds.indexOf(playerId) >= 0) {
+				this.reportedClickPostIds.add(snapshot.postId);
+			}
+		});
+	}
+
+	/**
+	 * Reports that a shared post was shown on the current player's timeline
+	 * @param sharedPost The shown post
+	 */
+	recordImpression(sharedPost: SharedPostData): void {
+		const playerId = this.context.currentPlayer.id;
+		if (sharedPost.sharerId === playerId || this.reportedImpressionPostIds.has(sharedPost.id)) {
+			return;
+		}
+		this.reportedImpressionPostIds.add(sharedPost.id);
+
+		const message: AffiliateImpressionMessage = { postId: sharedPost.id, playerId, sharerId: sharedPost.sharerId };
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("affiliateImpression", message);
+		} else {
+			this.handleImpression(message);
+		}
+	}
+
+	/**
+	 * Reports that the current player tapped the buy button of a shared post
+	 * @param sharedPost The tapped post
+	 */
+	recordClick(sharedPost: SharedPostData): void {
+		const playerId = this.context.currentPlayer.id;
+		if (sharedPost.sharerId === playerId || this.reportedClickPostIds.has(sharedPost.id)) {
+			return;
+		}
+		this.reportedClickPostIds.add(sharedPost.id);
+
+		const message: AffiliateClickMessage = { postId: sharedPost.id, playerId, sharerId: sharedPost.sharerId };
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("affiliateClick", message);
+		} else {
+			this.handleClick(message);
+		}
+	}
+
+	/**
+	 * Records a purchase made through a shared post
+	 * The buyer counts as a viewer and a clicker too, as CPU players buy without showing posts
+	 * @param purchase The granted affiliate purchase
+	 */
+	recordPurchase(purchase: AffiliatePurchaseMessage): void {
+		const audience = this.getAudience(purchase.postId);
+		audience.viewerIds.add(purchase.buyerId);
+		audience.clickerIds.add(purchase.buyerId);
+		audience.purchases++;
+		audience.commission += purchase.rewardPoints;
+		this.notifyPostListeners("purchased", purchase.postId);
+	}
+
+	/**
+	 * Registers a listener for affiliate analytics events
+	 * @param listener Function to call when a post is viewed, clicked or purchased
+	 */
+	addAnalyticsListener(listener: (event: AffiliateAnalyticsEvent) => void): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * Removes an affiliate analytics event listener
+	 * @param listener Function to remove from listeners
+	 */
+	removeAnalyticsListener(listener: (event: AffiliateAnalyticsEvent) => void): void {
+		const index = this.listeners.indexOf(listener);
+		if (index >= 0) {
+			this.listeners.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Sets up listener for impression and click broadcasts
+	 */
+	private setupBroadcastListener(): void {
+		const bus = MessageBus.forScene(this.scene);
+		bus.subscribe("affiliateImpression", (impressionData, senderId) => {
+			if (this.isSentByPlayer(impressionData.playerId, senderId, "affiliateImpression")) {
+				this.handleImpression(impressionData);
+			}
+		});
+		bus.subscribe("affiliateClick", (clickData, senderId) => {
+			if (this.isSentByPlayer(clickData.playerId, senderId, "affiliateClick")) {
+				this.handleClick(clickData);
+			}
+		});
+	}
+
+	/**
+	 * Checks that an impression or click was raised by the player it counts
+	 */
+	private isSentByPlayer(playerId: string, senderId: string | undefined, type: string): boolean {
+		if (senderId !== undefined && senderId !== playerId) {
+			console.warn(`Rejected ${type} message about ${playerId} raised by ${senderId}`);
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Applies an impression; a player views a post at most once
+	 */
+	private handleImpression(message: AffiliateImpressionMessage): void {
+		const audience = this.getAudience(message.postId);
+		if (message.playerId === message.sharerId || audience.viewerIds.has(message.playerId)) {
+			return;
+		}
+
+		audience.viewerIds.add(message.playerId);
+		this.notifyPostListeners("viewed", message.postId);
+	}
+
+	/**
+	 * Applies a click; a player clicks a post at most once
+	 */
+	private handleClick(message: AffiliateClickMessage): void {
+		const audience = this.getAudience(message.postId);
+		if (message.playerId === message.sharerId || audience.clickerIds.has(message.playerId)) {
+			return;
+		}
+
+		// Clicking implies the post was shown
+		audience.viewerIds.add(message.playerId);
+		audience.clickerIds.add(message.playerId);
+		this.notifyPostListeners("clicked", message.postId);
+	}
+
+	/**
+	 * Gets the audience of a post, creating it on first use
+	 */
+	private getAudience(postId: string): PostAudience {
+		let audience = this.audiences.get(postId);
+		if (!audience) {
+			audience = { viewerIds: new Set(), clickerIds: new Set(), purchases: 0, commission: 0 };
+			this.audiences.set(postId, audience);
+		}
+		return audience;
+	}
+
+	/**
+	 * Notifies listeners of a change of a tracked post
+	 */
+	private notifyPostListeners(type: AffiliateAnalyticsEvent["type"], postId: string): void {
+		const stats = this.getPostStats(postId);
+		if (stats) {
+			this.notifyListeners({ type, stats });
+		}
+	}
+
+	/**
+	 * Notifies all registered listeners of an affiliate analytics event
+	 */
+	private notifyListeners(event: AffiliateAnalyticsEvent): void {
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error in affiliate analytics listener:", error);
+			}
+		});
+	}
+}
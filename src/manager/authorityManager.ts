@@ -0,0 +1,373 @@
+import { AUTHORITY_CONFIG } from "../config/authorityConfig";
+import { SNS_CONFIG } from "../config/snsConfig";
+import { AffiliatePurchaseMessage } from "../data/affiliateMessages";
+import {
+	applyClaimedTransaction,
+	calculateAffiliateReward,
+	createPlayerLedger,
+	getMinAcceptablePrice,
+	grantAffiliateCredit,
+	grantFleaMarketCredit,
+	grantSnsCredit,
+	matchFleaMarketDelivery,
+	matchLedgerPayment,
+	PlayerLedger,
+	recordFleaMarketDelivery,
+	recordLedgerTaskCompletion
+} from "../data/authorityData";
+import { createFeedSchedule, FeedPostData } from "../data/feedPostData";
+import { GameContext } from "../data/gameContext";
+import {
+	calculateSetInfo,
+	calculateTotalSettlementValue,
+	createOwnedItem,
+	getDefaultCatalogItems,
+	ItemData,
+	OwnedItem
+} from "../data/itemData";
+import { ItemAcquiredMessage } from "../data/itemMessages";
+import { SharedPostData } from "../data/sharedPostData";
+import { CampaignManager } from "./campaignManager";
+import { FleaMarketEvent, FleaMarketManager } from "./fleaMarketManager";
+import { MarketManager } from "./marketManager";
+import { MessageBus } from "./messageBus";
+import { ScoreBroadcastMessage } from "./pointManager";
+import { SnsEvent, SnsManager } from "./snsManager";
+
+/**
+ * Parameter object for AuthorityManager
+ */
+export interface AuthorityManagerParameterObject {
+	/** Scene for message events */
+	scene: g.Scene;
+	/** Game context holding the items of every player */
+	gameContext: GameContext;
+	/** Market manager providing known prices */
+	marketManager: MarketManager;
+	/** Campaign manager providing running discounts */
+	campaignManager?: CampaignManager;
+	/** Flea market manager providing trades that owe sales and refunds */
+	fleaMarketManager?: FleaMarketManager;
+	/** SNS manager providing likes and follows that owe rewards */
+	snsManager?: SnsManager;
+}
+
+/**
+ * Authority Manager validates point changes claimed by players against known prices and rules
+ * In multi mode: only the active instance validates; it broadcasts verified scores and affiliate rewards,
+ * which other instances apply instead of the scores players announce themselves
+ * In ranking mode: nothing to validate, every point change is local
+ */
+export class AuthorityManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private marketManager: MarketManager;
+	private campaignManager?: CampaignManager;
+	private fleaMarketManager?: FleaMarketManager;
+	private snsManager?: SnsManager;
+	private isAuthority: boolean;
+	private catalogItems: ItemData[];
+	private coupons: FeedPostData[] = [];
+	private ledgers: Map<string, PlayerLedger> = new Map();
+	private knownPosts: Map<string, SharedPostData> = new Map();
+	private grantedPurchaseIds: Set<string> = new Set();
+	private unsubscribers: Array<() => void> = [];
+
+	/**
+	 * Creates a new AuthorityManager instance
+	 */
+	constructor(param: AuthorityManagerParameterObject) {
+		this.scene = param.scene;
+		this.context = param.gameContext;
+		this.marketManager = param.marketManager;
+		this.campaignManager = param.campaignManager;
+		this.fleaMarketManager = param.fleaMarketManager;
+		this.snsManager = param.snsManager;
+		this.catalogItems = getDefaultCatalogItems(this.context.rules.categoryIds);
+		this.isAuthority = this.context.gameMode.mode === "multi" && this.scene.game.isActiveInstance();
+	}
+
+	/**
+	 * Initializes the authority manager
+	 * Starts validating claims on the active instance in multi mode
+	 */
+	initialize(): void {
+		if (!this.isAuthority) {
+			return;
+		}
+
+		// The feed is created from the session seed, so the coupons every player is offered are known without messages
+		this.coupons = createFeedSchedule(
+			new g.XorshiftRandomGenerator(this.context.rules.seed),
+			this.context.gameState.totalTimeLimit,
+			this.catalogItems
+		).filter(post => post.kind === "coupon");
+
+		const bus = MessageBus.forScene(this.scene);
+		this.unsubscribers.push(
+			bus.subscribe("affiliatePostShared", (message, senderId) => {
+				if (this.isSentByPlayer(message.playerId, senderId, "affiliatePostShared")) {
+					this.knownPosts.set(message.sharedPost.id, message.sharedPost);
+				}
+			}),
+			bus.subscribe("affiliatePurchase", (message, senderId) => this.handleAffiliatePurchase(message, senderId)),
+			bus.subscribe("taskCompletion", (message, senderId) => {
+				if (this.isSentByPlayer(message.playerId, senderId, "taskCompletion")) {
+					const elapsedSeconds = this.getElapsedSeconds();
+					this.updateLedger(message.playerId, ledger => recordLedgerTaskCompletion(ledger, message.taskId, elapsedSeconds));
+				}
+			}),
+			bus.subscribe("itemAcquired", (message, senderId) => this.handleItemAcquired(message, senderId)),
+			bus.subscribe("scoreUpdate", (message, senderId) => this.handleScoreClaim(message, senderId))
+		);
+
+		const fleaMarketManager = this.fleaMarketManager;
+		if (fleaMarketManager) {
+			const listener = (event: FleaMarketEvent): void => this.handleFleaMarketEvent(event);
+			fleaMarketManager.addListingUpdateListener(listener);
+			this.unsubscribers.push(() => fleaMarketManager.removeListingUpdateListener(listener));
+		}
+
+		const snsManager = this.snsManager;
+		if (snsManager) {
+			const listener = (event: SnsEvent): void => this.handleSnsEvent(event);
+			snsManager.addSnsListener(listener);
+			this.unsubscribers.push(() => snsManager.removeSnsListener(listener));
+		}
+	}
+
+	/**
+	 * Checks if this instance validates point changes
+	 */
+	isAuthorityInstance(): boolean {
+		return this.isAuthority;
+	}
+
+	/**
+	 * Gets the verified score of a player
+	 * @param playerId Player ID
+	 */
+	getVerifiedScore(playerId: string): number {
+		return this.getLedger(playerId).verifiedScore;
+	}
+
+	/**
+	 * Gets the sequence number of the last validated point transaction of a player
+	 * @param playerId Player ID
+	 */
+	getLastSeq(playerId: string): number {
+		return this.getLedger(playerId).lastSeq;
+	}
+
+	/**
+	 * Cleans up the authority manager
+	 */
+	destroy(): void {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers = [];
+		this.ledgers.clear();
+		this.knownPosts.clear();
+		this.grantedPurchaseIds.clear();
+	}
+
+	/**
+	 * Validates a score change announced by a player and broadcasts the verified score
+	 */
+	private handleScoreClaim(claim: ScoreBroadcastMessage, senderId?: string): void {
+		const transaction = claim.transaction;
+		if (!transaction || !this.isSentByPlayer(claim.playerId, senderId, "scoreUpdate")) {
+			return; // Plain score announcements do not change the verified score
+		}
+
+		const ledger = this.getLedger(claim.playerId);
+		let accepted = true;
+		if (senderId === undefined) {
+			// Point changes of CPU players are made by this instance itself
+			if (transaction.seq <= ledger.lastSeq) {
+				return; // Already validated
+			}
+			this.ledgers.set(claim.playerId, {
+				...ledger,
+				lastSeq: transaction.seq,
+				verifiedScore: ledger.verifiedScore + transaction.amount
+			});
+		} else {
+			const verdict = applyClaimedTransaction(ledger, transaction, {
+				maxSettlementValue: this.getSettlementValue(claim.playerId),
+				elapsedSeconds: this.getElapsedSeconds(),
+				coupons: this.coupons
+			});
+			if (!verdict.accepted) {
+				console.warn(`Rejected ${transaction.source} transaction ${transaction.seq} of ${claim.playerId}: ${verdict.reason}`);
+			}
+			this.ledgers.set(claim.playerId, verdict.ledger);
+			accepted = verdict.accepted;
+		}
+
+		this.publishVerifiedScore(claim.playerId, accepted);
+	}
+
+	/**
+	 * Validates an affiliate purchase against the shared post and grants the sharer's reward
+	 */
+	private handleAffiliatePurchase(purchase: AffiliatePurchaseMessage, senderId?: string): void {
+		if (!this.isSentByPlayer(purchase.buyerId, senderId, "affiliatePurchase")) {
+			return;
+		}
+
+		const post = this.knownPosts.get(purchase.postId);
+		const purchaseId = `${purchase.postId}_${purchase.buyerId}`;
+		if (!post || post.sharerId !== purchase.sharerId || post.sharerId === purchase.buyerId
+			|| this.grantedPurchaseIds.has(purchaseId)) {
+			console.warn(`Rejected affiliate purchase of post ${purchase.postId} by ${purchase.buyerId}`);
+			return;
+		}
+
+		const rewardPoints = calculateAffiliateReward(post.sharedPrice);
+		this.grantedPurchaseIds.add(purchaseId);
+		this.updateLedger(post.sharerId, ledger => grantAffiliateCredit(ledger, rewardPoints));
+		MessageBus.forScene(this.scene).publish("affiliateRewardGranted", { ...purchase, rewardPoints });
+	}
+
+	/**
+	 * Matches an acquired item with the buyer's pending shopping payment and charges underpayment
+	 */
+	private handleItemAcquired(message: ItemAcquiredMessage, senderId?: string): void {
+		if (!this.isSentByPlayer(message.playerId, senderId, "itemAcquired")) {
+			return;
+		}
+
+		const ledger = this.getLedger(message.playerId);
+		const delivered = matchFleaMarketDelivery(ledger, message.itemId);
+		if (delivered) {
+			this.ledgers.set(message.playerId, delivered);
+			return; // Bought at the flea market, which is not paid at market prices
+		}
+
+		const item = this.catalogItems.find(candidate => candidate.id === message.itemId);
+		if (!item || ledger.unmatchedPayments.length === 0) {
+			return; // Acquired without shopping (games, etc.)
+		}
+
+		const result = matchLedgerPayment(ledger, this.getMinAcceptablePrice(item));
+		this.ledgers.set(message.playerId, result.ledger);
+		if (result.shortfall > 0) {
+			console.warn(`Charged ${message.playerId} ${result.shortfall}pt for underpaying ${item.id}`);
+			this.publishVerifiedScore(message.playerId, false);
+		}
+	}
+
+	/**
+	 * Records the sales and refunds a flea market trade owes, as the traders' instances will claim them
+	 */
+	private handleFleaMarketEvent(event: FleaMarketEvent): void {
+		if (event.type === "sold") {
+			const listing = event.listing;
+			this.updateLedger(listing.sellerId, ledger => grantFleaMarketCredit(ledger, listing.price));
+			if (listing.buyerId) {
+				const delivery = { itemId: listing.item.id, price: listing.price };
+				this.updateLedger(listing.buyerId, ledger => recordFleaMarketDelivery(ledger, delivery));
+			}
+		} else if (event.type === "purchaseRejected") {
+			this.updateLedger(event.buyerId, ledger => grantFleaMarketCredit(ledger, event.price));
+		}
+	}
+
+	/**
+	 * Records the rewards a like or follow owes, as the players' instances will claim them
+	 * Authors are rewarded only for posts the active instance knows they shared
+	 */
+	private handleSnsEvent(event: SnsEvent): void {
+		if (event.type === "liked") {
+			this.updateLedger(event.playerId, ledger => grantSnsCredit(ledger, SNS_CONFIG.LIKE_REWARD));
+			if (this.knownPosts.get(event.postId)?.sharerId === event.authorId) {
+				this.updateLedger(event.authorId, ledger => grantSnsCredit(ledger, SNS_CONFIG.LIKED_REWARD));
+			}
+		} else {
+			this.updateLedger(event.followerId, ledger => grantSnsCredit(ledger, SNS_CONFIG.FOLLOW_REWARD));
+			this.updateLedger(event.followeeId, ledger => grantSnsCredit(ledger, SNS_CONFIG.FOLLOWED_REWARD));
+		}
+	}
+
+	/**
+	 * Broadcasts the verified score of a player
+	 */
+	private publishVerifiedScore(playerId: string, accepted: boolean): void {
+		const ledger = this.getLedger(playerId);
+		MessageBus.forScene(this.scene).publish("scoreVerified", {
+			playerId: playerId,
+			score: ledger.verifiedScore,
+			seq: ledger.lastSeq,
+			accepted: accepted
+		});
+	}
+
+	/**
+	 * Gets the lowest price a player may have paid for an item
+	 */
+	private getMinAcceptablePrice(item: ItemData): number {
+		const recentPrices = this.marketManager.getPriceHistory(item.id)
+			.slice(-AUTHORITY_CONFIG.PRICE_TOLERANCE_UPDATES)
+			.map(entry => entry.price);
+		const sharedPrices: number[] = [];
+		this.knownPosts.forEach(post => {
+			if (post.item.id === item.id) {
+				sharedPrices.push(post.sharedPrice);
+			}
+		});
+		const discountRate = this.campaignManager ? this.campaignManager.getDiscountRate(item) : 0;
+		return getMinAcceptablePrice(item, recentPrices, sharedPrices, discountRate);
+	}
+
+	/**
+	 * Gets the settlement value of the items a player owns
+	 */
+	private getSettlementValue(playerId: string): number {
+		const player = this.context.allPlayers.get(playerId);
+		if (!player) {
+			return 0;
+		}
+
+		const ownedItems: OwnedItem[] = [];
+		player.ownedItems.forEach(itemId => {
+			const item = this.catalogItems.find(candidate => candidate.id === itemId);
+			if (item) {
+				ownedItems.push(createOwnedItem(item));
+			}
+		});
+		return calculateTotalSettlementValue(calculateSetInfo(ownedItems, this.catalogItems));
+	}
+
+	/**
+	 * Gets elapsed game time in seconds
+	 */
+	private getElapsedSeconds(): number {
+		const gameState = this.context.gameState;
+		return gameState.totalTimeLimit - gameState.remainingTime;
+	}
+
+	/**
+	 * Checks that a message about a player was raised by that player or by this instance
+	 */
+	private isSentByPlayer(playerId: string, senderId: string | undefined, type: string): boolean {
+		if (senderId !== undefined && senderId !== playerId) {
+			console.warn(`Rejected ${type} message about ${playerId} raised by ${senderId}`);
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Gets the ledger of a player, creating it on first use
+	 */
+	private getLedger(playerId: string): PlayerLedger {
+		return this.ledgers.get(playerId) ?? createPlayerLedger(playerId);
+	}
+
+	/**
+	 * Replaces the ledger of a player
+	 */
+	private updateLedger(playerId: string, update: (ledger: PlayerLedger) => PlayerLedger): void {
+		this.ledgers.set(playerId, update(this.getLedger(playerId)));
+	}
+}
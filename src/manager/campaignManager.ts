@@ -0,0 +1,249 @@
+import { CAMPAIGN_CONFIG } from "../config/campaignConfig";
+import {
+	applyDiscountRate,
+	CampaignData,
+	createCampaignSchedule,
+	getCampaignDiscountRate,
+	getCampaignSummary,
+	isCampaignActive
+} from "../data/campaignData";
+import { GameContext } from "../data/gameContext";
+import { getDefaultCatalogItems, ItemData } from "../data/itemData";
+import { createSaleCampaignEndedNotification, createSaleCampaignNotification } from "../data/notificationData";
+import { MessageBus } from "./messageBus";
+import { NotificationManager } from "./notificationManager";
+
+/**
+ * Message interface for broadcasting the campaign schedule
+ */
+export interface CampaignScheduleMessage {
+	/** Campaigns in start order */
+	campaigns: CampaignData[];
+}
+
+/**
+ * Parameter object for CampaignManager
+ */
+export interface CampaignManagerParameterObject {
+	/** Scene for timers and message events */
+	scene: g.Scene;
+	/** Game context providing the game timeline */
+	gameContext: GameContext;
+	/** Notification manager announcing campaign starts and ends */
+	notificationManager: NotificationManager;
+}
+
+/**
+ * Campaign Manager schedules time-boxed sale campaigns over the game timeline
+ * In multi mode: Active instance decides and broadcasts the schedule
+ * In ranking mode: Each instance decides the schedule locally
+ */
+export class CampaignManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private notificationManager: NotificationManager;
+	private isActive: boolean;
+	private campaigns: CampaignData[] = [];
+	private activeCampaignIds: Set<string> = new Set();
+	private campaignListeners: Array<() => void> = [];
+	private timeUpdatedListener?: () => void;
+
+	/**
+	 * Creates a new CampaignManager instance
+	 */
+	constructor(param: CampaignManagerParameterObject) {
+		this.scene = param.scene;
+		this.context = param.gameContext;
+		this.notificationManager = param.notificationManager;
+		this.isActive = this.context.gameMode.mode === "ranking" || this.scene.game.isActiveInstance();
+	}
+
+	/**
+	 * Initializes the campaign manager
+	 */
+	initialize(): void {
+		this.timeUpdatedListener = () => this.updateActiveCampaigns();
+		this.context.on("timeUpdated", this.timeUpdatedListener);
+
+		if (this.getMode() === "multi") {
+			this.setupScheduleBroadcastListener();
+			if (!this.isActive) {
+				// Non-active instance in multi mode: wait for the schedule broadcast
+				return;
+			}
+		}
+
+		// Delay schedule decision to allow other instances to setup listeners
+		this.scene.setTimeout(() => {
+			const campaigns = createCampaignSchedule(
+				this.context.localRandom,
+				this.context.gameState.totalTimeLimit,
+				getDefaultCatalogItems(this.context.rules.categoryIds)
+			);
+
+			if (this.getMode() === "multi") {
+				this.broadcastSchedule(campaigns);
+			} else {
+				this.applySchedule(campaigns);
+			}
+		}, CAMPAIGN_CONFIG.SCHEDULE_DELAY);
+	}
+
+	/**
+	 * Gets the current mode
+	 */
+	getMode(): "multi" | "ranking" {
+		return this.context.gameMode.mode;
+	}
+
+	/**
+	 * Gets all scheduled campaigns
+	 */
+	getCampaigns(): CampaignData[] {
+		return [...this.campaigns];
+	}
+
+	/**
+	 * Gets campaigns running now
+	 */
+	getActiveCampaigns(): CampaignData[] {
+		return this.campaigns.filter(campaign => this.activeCampaignIds.has(campaign.id));
+	}
+
+	/**
+	 * Gets the discount rate currently applying to an item
+	 * @param item Item to check
+	 * @returns Discount rate (0 if not on sale)
+	 */
+	getDiscountRate(item: ItemData): number {
+		return getCampaignDiscountRate(this.getActiveCampaigns(), item);
+	}
+
+	/**
+	 * Applies running campaign discounts to an item price
+	 * @param item Item the price belongs to
+	 * @param price Price before discounts
+	 * @returns Effective price
+	 */
+	applyDiscount(item: ItemData, price: number): number {
+		return applyDiscountRate(price, this.getDiscountRate(item));
+	}
+
+	/**
+	 * Gets the shop point-back multiplier of running campaigns
+	 * @returns Multiplier (1 if no point-back campaign is running)
+	 */
+	getPointBackMultiplier(): number {
+		return this.getActiveCampaigns().reduce((multiplier, campaign) => Math.max(multiplier, campaign.pointBackMultiplier), 1);
+	}
+
+	/**
+	 * Restores the schedule sent in a snapshot of a running game
+	 * The schedule broadcast was raised before this instance joined
+	 * @param campaigns Campaigns in start order
+	 */
+	restoreSchedule(campaigns: CampaignData[]): void {
+		this.applySchedule(campaigns.map(campaign => ({ ...campaign })));
+	}
+
+	/**
+	 * Registers a listener for campaign starts and ends
+	 * @param listener Function to call when running campaigns change
+	 */
+	addCampaignListener(listener: () => void): void {
+		this.campaignListeners.push(listener);
+	}
+
+	/**
+	 * Removes a campaign listener
+	 * @param listener Function to remove from listeners
+	 */
+	removeCampaignListener(listener: () => void): void {
+		const index = this.campaignListeners.indexOf(listener);
+		if (index >= 0) {
+			this.campaignListeners.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Cleans up the campaign manager
+	 */
+	destroy(): void {
+		if (this.timeUpdatedListener) {
+			this.context.off("timeUpdated", this.timeUpdatedListener);
+			this.timeUpdatedListener = undefined;
+		}
+		this.campaignListeners = [];
+	}
+
+	/**
+	 * Broadcasts the campaign schedule to all clients
+	 */
+	private broadcastSchedule(campaigns: CampaignData[]): void {
+		MessageBus.forScene(this.scene).publish("campaignSchedule", { campaigns });
+	}
+
+	/**
+	 * Sets up listener for schedule broadcasts from active instance
+	 */
+	private setupScheduleBroadcastListener(): void {
+		MessageBus.forScene(this.scene).subscribe("campaignSchedule", campaignData => this.applySchedule(campaignData.campaigns));
+	}
+
+	/**
+	 * Replaces the schedule and activates campaigns that are already running
+	 */
+	private applySchedule(campaigns: CampaignData[]): void {
+		this.campaigns = campaigns;
+		this.activeCampaignIds.clear();
+		this.updateActiveCampaigns();
+	}
+
+	/**
+	 * Starts and ends campaigns according to elapsed game time
+	 */
+	private updateActiveCampaigns(): void {
+		const elapsedSeconds = this.getElapsedSeconds();
+		let changed = false;
+
+		for (const campaign of this.campaigns) {
+			const running = isCampaignActive(campaign, elapsedSeconds);
+			if (running && !this.activeCampaignIds.has(campaign.id)) {
+				this.activeCampaignIds.add(campaign.id);
+				this.notificationManager.showNotification(
+					createSaleCampaignNotification(campaign.title, getCampaignSummary(campaign))
+				);
+				changed = true;
+			} else if (!running && this.activeCampaignIds.has(campaign.id)) {
+				this.activeCampaignIds.delete(campaign.id);
+				this.notificationManager.showNotification(createSaleCampaignEndedNotification(campaign.title));
+				changed = true;
+			}
+		}
+
+		if (changed) {
+			this.notifyCampaignListeners();
+		}
+	}
+
+	/**
+	 * Notifies all registered listeners that running campaigns have changed
+	 */
+	private notifyCampaignListeners(): void {
+		this.campaignListeners.forEach(listener => {
+			try {
+				listener();
+			} catch (error) {
+				console.error("Error in campaign listener:", error);
+			}
+		});
+	}
+
+	/**
+	 * Gets elapsed game time in seconds
+	 */
+	private getElapsedSeconds(): number {
+		const gameState = this.context.gameState;
+		return gameState.totalTimeLimit - gameState.remainingTime;
+	}
+}
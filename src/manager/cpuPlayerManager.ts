@@ -0,0 +1,387 @@
+import { AFFILIATE_CONFIG } from "../config/affiliateConfig";
+import { CPU_PLAYER_CONFIG, CpuBehaviorType } from "../config/cpuPlayerConfig";
+import { AffiliateBroadcastMessage, AffiliatePurchaseMessage } from "../data/affiliateMessages";
+import { GameContext } from "../data/gameContext";
+import { getDefaultCatalogItems } from "../data/itemData";
+import { createPlayerData, DUMMY_ID_FOR_ACTIVE_INSTANCE, PlayerData, PlayerProfile } from "../data/playerData";
+import { createSharedPost, SharedPostData } from "../data/sharedPostData";
+import { TASK_METADATA } from "../data/taskConstants";
+import { MarketManager } from "./marketManager";
+import { MessageBus } from "./messageBus";
+import { PointManager } from "./pointManager";
+
+/**
+ * Internal state of a CPU player
+ * Kept by the simulating instance as the source of truth
+ */
+interface CpuPlayerState {
+	id: string;
+	profile: PlayerProfile;
+	behavior: CpuBehaviorType;
+	points: number;
+	ownedItemIds: Set<string>;
+	completedTaskIds: Set<string>;
+}
+
+/**
+ * Parameter object for CpuPlayerManager
+ */
+export interface CpuPlayerManagerParameterObject {
+	/** Scene for timers and message events */
+	scene: g.Scene;
+	/** Game context where CPU players are registered */
+	gameContext: GameContext;
+	/** Market manager for shared item prices */
+	marketManager: MarketManager;
+	/** Point manager recording CPU point changes in the shared ledger */
+	pointManager: PointManager;
+	/** Callback to add a CPU shared post to the local timeline (ranking mode only) */
+	onSharedPost?: (sharedPost: SharedPostData) => void;
+	/** Callback to apply a CPU affiliate purchase locally (ranking mode only) */
+	onAffiliatePurchase?: (purchase: AffiliatePurchaseMessage) => void;
+}
+
+/**
+ * CPU Player Manager fills empty seats with CPU players and drives them with behaviour profiles
+ * In multi mode: only the active instance simulates CPUs and broadcasts the results
+ * through the same messages real players use, so every instance applies them alike
+ * In ranking mode: CPU actions are applied locally right away
+ */
+export class CpuPlayerManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private marketManager: MarketManager;
+	private pointManager: PointManager;
+	private onSharedPost?: (sharedPost: SharedPostData) => void;
+	private onAffiliatePurchase?: (purchase: AffiliatePurchaseMessage) => void;
+	private isActive: boolean;
+	private cpuPlayers: Map<string, CpuPlayerState> = new Map();
+	private knownPosts: SharedPostData[] = [];
+	private actionInterval?: g.TimerIdentifier;
+	private postIdCounter: number = 0;
+
+	/**
+	 * Creates a new CpuPlayerManager instance
+	 */
+	constructor(param: CpuPlayerManagerParameterObject) {
+		this.scene = param.scene;
+		this.context = param.gameContext;
+		this.marketManager = param.marketManager;
+		this.pointManager = param.pointManager;
+		this.onSharedPost = param.onSharedPost;
+		this.onAffiliatePurchase = param.onAffiliatePurchase;
+		this.isActive = this.context.gameMode.mode === "ranking" || this.scene.game.isActiveInstance();
+	}
+
+	/**
+	 * Initializes the CPU player manager
+	 * Registers CPU players and starts periodic actions on the simulating instance
+	 */
+	initialize(): void {
+		if (!this.isActive) {
+			// Non-active instances receive CPU players through regular player broadcasts
+			return;
+		}
+
+		this.setupMessageListener();
+
+		// Delay registration to allow other instances to setup listeners
+		this.scene.setTimeout(() => {
+			this.registerCpuPlayers();
+			if (this.cpuPlayers.size > 0) {
+				this.actionInterval = this.scene.setInterval(() => this.performActionRound(), CPU_PLAYER_CONFIG.ACTION_INTERVAL);
+			}
+		}, CPU_PLAYER_CONFIG.REGISTRATION_DELAY);
+	}
+
+	/**
+	 * Gets the current mode
+	 */
+	getMode(): "multi" | "ranking" {
+		return this.context.gameMode.mode;
+	}
+
+	/**
+	 * Checks if a player is a CPU player driven by this manager
+	 * @param playerId The player ID to check
+	 */
+	isCpuPlayer(playerId: string): boolean {
+		return this.cpuPlayers.has(playerId);
+	}
+
+	/**
+	 * Gets IDs of all CPU players driven by this manager
+	 */
+	getCpuPlayerIds(): string[] {
+		return Array.from(this.cpuPlayers.keys());
+	}
+
+	/**
+	 * Cleans up the CPU player manager
+	 */
+	destroy(): void {
+		if (this.actionInterval) {
+			this.scene.clearInterval(this.actionInterval);
+			this.actionInterval = undefined;
+		}
+		this.cpuPlayers.clear();
+		this.knownPosts = [];
+	}
+
+	/**
+	 * Creates CPU players for every empty seat up to the minimum player count
+	 * The number of CPU players is limited by the rules of the round
+	 */
+	private registerCpuPlayers(): void {
+		const humanCount = Array.from(this.context.allPlayers.keys())
+			.filter(playerId => playerId !== DUMMY_ID_FOR_ACTIVE_INSTANCE).length;
+		const cpuCount = Math.min(
+			Math.max(0, CPU_PLAYER_CONFIG.MIN_PLAYERS - humanCount),
+			CPU_PLAYER_CONFIG.PROFILES.length,
+			this.context.rules.cpuCount
+		);
+
+		for (let i = 0; i < cpuCount; i++) {
+			const profile = CPU_PLAYER_CONFIG.PROFILES[i];
+			const state: CpuPlayerState = {
+				id: `cpu_${i + 1}`,
+				profile: { name: profile.name, avatar: profile.avatar },
+				behavior: profile.behavior,
+				points: 0,
+				ownedItemIds: new Set(),
+				completedTaskIds: new Set()
+			};
+			this.cpuPlayers.set(state.id, state);
+			this.publishJoin(state);
+		}
+	}
+
+	/**
+	 * Sets up listener for shared posts and purchases made by any player
+	 */
+	private setupMessageListener(): void {
+		const bus = MessageBus.forScene(this.scene);
+		bus.subscribe("affiliatePostShared", affiliateData => this.rememberPost(affiliateData.sharedPost));
+		// Rewards are paid once the authority has validated the purchase
+		bus.subscribeFromActiveInstance("affiliateRewardGranted", rewardData => this.applyAffiliateReward(rewardData));
+	}
+
+	/**
+	 * Runs one action round for every CPU player
+	 */
+	private performActionRound(): void {
+		if (this.context.gameState.remainingFrame <= 0) {
+			this.destroy();
+			return;
+		}
+
+		for (const state of this.cpuPlayers.values()) {
+			const behavior = CPU_PLAYER_CONFIG.BEHAVIORS[state.behavior];
+
+			// Passive income from ads and social games
+			const passivePoints = behavior.PASSIVE_POINTS_MIN
+				+ Math.floor(this.random() * (behavior.PASSIVE_POINTS_MAX - behavior.PASSIVE_POINTS_MIN + 1));
+			this.changePoints(state, passivePoints, "ads", "Passive income");
+
+			if (this.random() < behavior.TASK_CHANCE) {
+				this.completeNextTask(state);
+			}
+			if (this.random() < behavior.SHARE_CHANCE) {
+				this.sharePost(state);
+			}
+			if (this.random() < behavior.BUY_CHANCE) {
+				this.buySharedPost(state);
+			}
+		}
+	}
+
+	/**
+	 * Completes the next uncompleted basic task
+	 */
+	private completeNextTask(state: CpuPlayerState): void {
+		const taskId = Object.keys(TASK_METADATA).find(id => !state.completedTaskIds.has(id));
+		const task = taskId ? TASK_METADATA[taskId] : undefined;
+		if (!task) {
+			return;
+		}
+
+		state.completedTaskIds.add(task.id);
+		this.publishTaskCompletion(state, task.id);
+		this.changePoints(state, task.rewardPoints, "tasks", `${task.title} completion reward`);
+	}
+
+	/**
+	 * Shares a random catalog item to the timeline
+	 * Requires the SNS task like real players
+	 */
+	private sharePost(state: CpuPlayerState): void {
+		if (!state.completedTaskIds.has("sns")) {
+			return;
+		}
+
+		const items = getDefaultCatalogItems(this.context.rules.categoryIds);
+		const item = items[Math.floor(this.random() * items.length)];
+		const sharedPrice = this.marketManager.getDynamicPrice(item, this.context.gameState.remainingTime);
+		const sharedPost = createSharedPost({
+			id: `affiliate_${state.id}_${++this.postIdCounter}`,
+			sharerId: state.id,
+			sharerName: state.profile.name,
+			item: item,
+			sharedPrice: sharedPrice,
+			sharedAt: this.context.getCurrentTimestamp()
+		});
+
+		if (this.getMode() === "multi") {
+			const message: AffiliateBroadcastMessage = {
+				playerId: state.id,
+				playerName: state.profile.name,
+				sharedPost: sharedPost
+			};
+			MessageBus.forScene(this.scene).publish("affiliatePostShared", message);
+		} else {
+			this.rememberPost(sharedPost);
+			if (this.onSharedPost) {
+				this.onSharedPost(sharedPost);
+			}
+		}
+	}
+
+	/**
+	 * Buys an item through another player's shared post
+	 */
+	private buySharedPost(state: CpuPlayerState): void {
+		const candidates = this.knownPosts.filter(post =>
+			post.sharerId !== state.id
+			&& !state.ownedItemIds.has(post.item.id)
+			&& post.sharedPrice <= state.points
+		);
+		if (candidates.length === 0) {
+			return;
+		}
+
+		const post = candidates[Math.floor(this.random() * candidates.length)];
+		state.ownedItemIds.add(post.item.id);
+		this.changePoints(state, -post.sharedPrice, "shopping", "Item purchase");
+
+		const purchase: AffiliatePurchaseMessage = {
+			postId: post.id,
+			buyerId: state.id,
+			buyerName: state.profile.name,
+			sharerId: post.sharerId,
+			rewardPoints: Math.floor(post.sharedPrice * AFFILIATE_CONFIG.REWARD_RATE)
+		};
+
+		if (this.getMode() === "multi") {
+			const bus = MessageBus.forScene(this.scene);
+			bus.publish("itemAcquired", { playerId: state.id, itemId: post.item.id });
+			// CPU sharers are rewarded when the authority grants the reward
+			bus.publish("affiliatePurchase", purchase);
+		} else {
+			this.marketManager.recordPurchase(post.item.id);
+			this.applyAffiliateReward(purchase);
+			if (this.onAffiliatePurchase) {
+				this.onAffiliatePurchase(purchase);
+			}
+		}
+	}
+
+	/**
+	 * Stores a shared post so that CPU players can buy through it later
+	 */
+	private rememberPost(sharedPost: SharedPostData): void {
+		if (!sharedPost?.id || this.knownPosts.some(post => post.id === sharedPost.id)) {
+			return;
+		}
+		this.knownPosts.push(sharedPost);
+	}
+
+	/**
+	 * Rewards a CPU sharer when an item was bought through its post
+	 */
+	private applyAffiliateReward(purchase: AffiliatePurchaseMessage): void {
+		const sharer = this.cpuPlayers.get(purchase.sharerId);
+		if (sharer && purchase.rewardPoints > 0) {
+			this.changePoints(sharer, purchase.rewardPoints, "affiliate", `Affiliate commission from ${purchase.buyerName}`);
+		}
+	}
+
+	/**
+	 * Changes CPU points through the point ledger, which also publishes the new score
+	 */
+	private changePoints(state: CpuPlayerState, amount: number, source: string, description: string): void {
+		if (amount === 0) {
+			return;
+		}
+
+		const updatedPlayer = amount > 0
+			? this.pointManager.awardPointsToPlayer(state.id, amount, source, description)
+			: this.pointManager.deductPointsFromPlayer(state.id, -amount, source, description);
+		if (!updatedPlayer) {
+			return;
+		}
+
+		state.points = updatedPlayer.points;
+
+		if (this.getMode() === "ranking") {
+			// Sync owned items and activity that the ledger does not track
+			this.updatePlayerData(state.id, player => player);
+		}
+	}
+
+	/**
+	 * Publishes a newly created CPU player
+	 */
+	private publishJoin(state: CpuPlayerState): void {
+		const playerData: PlayerData = {
+			...createPlayerData(state.id, state.profile, this.context.getCurrentTimestamp()),
+			isCpu: true
+		};
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("playerJoined", { playerId: state.id, ...playerData });
+		} else {
+			this.context.addPlayer(state.id, playerData);
+		}
+	}
+
+	/**
+	 * Publishes a task completed by a CPU player
+	 */
+	private publishTaskCompletion(state: CpuPlayerState, taskId: string): void {
+		const completedAt = this.context.getCurrentTimestamp();
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("taskCompletion", { playerId: state.id, taskId: taskId, completedAt: completedAt });
+		} else {
+			this.updatePlayerData(state.id, player => {
+				const taskProgress = new Map(player.taskProgress);
+				taskProgress.set(taskId, { taskId: taskId, completed: true, completedAt: completedAt });
+				return { ...player, taskProgress };
+			});
+		}
+	}
+
+	/**
+	 * Updates CPU player data in GameContext (ranking mode)
+	 */
+	private updatePlayerData(playerId: string, update: (player: PlayerData) => PlayerData): void {
+		const player = this.context.allPlayers.get(playerId);
+		if (!player) {
+			return;
+		}
+
+		const state = this.cpuPlayers.get(playerId);
+		const updatedPlayer = {
+			...update(player),
+			ownedItems: state ? Array.from(state.ownedItemIds) : player.ownedItems,
+			lastActiveAt: this.context.getCurrentTimestamp()
+		};
+		// For other players, we need to remove and re-add since there's no updatePlayer method
+		this.context.removePlayer(playerId);
+		this.context.addPlayer(playerId, updatedPlayer);
+	}
+
+	private random(): number {
+		return this.context.localRandom.generate();
+	}
+}
@@ -0,0 +1,190 @@
+import { isCampaignActive } from "../data/campaignData";
+import { createFeedSchedule, FeedPostData, getCampaignAnnouncementText, isCouponAvailable } from "../data/feedPostData";
+import { GameContext } from "../data/gameContext";
+import { getDefaultCatalogItems } from "../data/itemData";
+import { CampaignManager } from "./campaignManager";
+
+/**
+ * Feed event notified to local listeners
+ */
+export type FeedEvent =
+	| { type: "published"; post: FeedPostData }
+	| { type: "expired"; post: FeedPostData }
+	| { type: "couponClaimed"; post: FeedPostData; points: number };
+
+/**
+ * Parameter object for FeedManager
+ */
+export interface FeedManagerParameterObject {
+	/** Game context providing the seed and the game timeline */
+	gameContext: GameContext;
+	/** Campaign manager whose running campaigns sale posts announce */
+	campaignManager: CampaignManager;
+}
+
+/**
+ * Feed Manager pushes scripted sale, coupon and hint posts to the timeline over the game timeline
+ * The feed is created from the session seed and published by elapsed game time, so every instance shows the same feed
+ * without messages; coupons are claimed by each player on their own instance
+ */
+export class FeedManager {
+	private context: GameContext;
+	private campaignManager: CampaignManager;
+	private posts: FeedPostData[] = [];
+	private publishedPostIds: Set<string> = new Set();
+	private expiredPostIds: Set<string> = new Set();
+	private claimedPostIds: Set<string> = new Set();
+	private listeners: Array<(event: FeedEvent) => void> = [];
+	private timeUpdatedListener?: () => void;
+
+	/**
+	 * Creates a new FeedManager instance
+	 */
+	constructor(param: FeedManagerParameterObject) {
+		this.context = param.gameContext;
+		this.campaignManager = param.campaignManager;
+	}
+
+	/**
+	 * Initializes the feed manager
+	 */
+	initialize(): void {
+		this.posts = createFeedSchedule(
+			new g.XorshiftRandomGenerator(this.context.rules.seed),
+			this.context.gameState.totalTimeLimit,
+			getDefaultCatalogItems(this.context.rules.categoryIds)
+		);
+
+		this.timeUpdatedListener = () => this.updateFeed();
+		this.context.on("timeUpdated", this.timeUpdatedListener);
+	}
+
+	/**
+	 * Gets published posts in publish order
+	 */
+	getPublishedPosts(): FeedPostData[] {
+		return this.posts.filter(post => this.publishedPostIds.has(post.id));
+	}
+
+	/**
+	 * Checks if the current player can claim a coupon now
+	 * @param postId Coupon post ID
+	 */
+	canClaimCoupon(postId: string): boolean {
+		const post = this.posts.find(candidate => candidate.id === postId);
+		return post !== undefined
+			&& this.publishedPostIds.has(postId)
+			&& !this.claimedPostIds.has(postId)
+			&& isCouponAvailable(post, this.getElapsedSeconds());
+	}
+
+	/**
+	 * Checks if the current player claimed a coupon
+	 * @param postId Coupon post ID
+	 */
+	isCouponClaimed(postId: string): boolean {
+		return this.claimedPostIds.has(postId);
+	}
+
+	/**
+	 * Claims a coupon for the current player
+	 * @param postId Coupon post ID
+	 * @returns Points of the coupon, 0 if the coupon cannot be claimed
+	 */
+	claimCoupon(postId: string): number {
+		const post = this.posts.find(candidate => candidate.id === postId);
+		if (!post || !this.canClaimCoupon(postId)) {
+			return 0;
+		}
+
+		const points = post.couponPoints ?? 0;
+		this.claimedPostIds.add(postId);
+		this.notifyListeners({ type: "couponClaimed", post, points });
+		return points;
+	}
+
+	/**
+	 * Registers a listener for feed events
+	 * @param listener Function to call when a post is published, a coupon expires or a coupon is claimed
+	 */
+	addFeedListener(listener: (event: FeedEvent) => void): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * Removes a feed event listener
+	 * @param listener Function to remove from listeners
+	 */
+	removeFeedListener(listener: (event: FeedEvent) => void): void {
+		const index = this.listeners.indexOf(listener);
+		if (index >= 0) {
+			this.listeners.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Cleans up the feed manager
+	 */
+	destroy(): void {
+		if (this.timeUpdatedListener) {
+			this.context.off("timeUpdated", this.timeUpdatedListener);
+			this.timeUpdatedListener = undefined;
+		}
+		this.listeners = [];
+	}
+
+	/**
+	 * Publishes posts and expires coupons according to elapsed game time
+	 */
+	private updateFeed(): void {
+		const elapsedSeconds = this.getElapsedSeconds();
+
+		for (const post of this.posts) {
+			if (post.publishAt <= elapsedSeconds && !this.publishedPostIds.has(post.id)) {
+				this.publishedPostIds.add(post.id);
+				this.announceCampaign(post);
+				this.notifyListeners({ type: "published", post });
+			}
+			if (post.kind === "coupon" && this.publishedPostIds.has(post.id)
+				&& !isCouponAvailable(post, elapsedSeconds) && !this.expiredPostIds.has(post.id)) {
+				this.expiredPostIds.add(post.id);
+				this.notifyListeners({ type: "expired", post });
+			}
+		}
+	}
+
+	/**
+	 * Replaces the text of a sale post with the campaign running at its publish time, if any
+	 * The campaign is looked up by publish time so that instances publishing late show the same text
+	 */
+	private announceCampaign(post: FeedPostData): void {
+		if (post.kind !== "sale") {
+			return;
+		}
+		const campaign = this.campaignManager.getCampaigns().filter(candidate => isCampaignActive(candidate, post.publishAt))[0];
+		if (campaign) {
+			post.text = getCampaignAnnouncementText(campaign);
+		}
+	}
+
+	/**
+	 * Notifies all registered listeners of a feed event
+	 */
+	private notifyListeners(event: FeedEvent): void {
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error in feed listener:", error);
+			}
+		});
+	}
+
+	/**
+	 * Gets elapsed game time in seconds
+	 */
+	private getElapsedSeconds(): number {
+		const gameState = this.context.gameState;
+		return gameState.totalTimeLimit - gameState.remainingTime;
+	}
+}
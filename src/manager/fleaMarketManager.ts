@@ -0,0 +1,385 @@
+import { FLEA_MARKET_CONFIG } from "../config/fleaMarketConfig";
+import {
+	FleaMarketListing,
+	createFleaMarketListing,
+	markListingCancelled,
+	markListingReserved,
+	markListingSold
+} from "../data/fleaMarketData";
+import {
+	FleaMarketCancelMessage,
+	FleaMarketDeliveryMessage,
+	FleaMarketListMessage,
+	FleaMarketPurchaseMessage
+} from "../data/fleaMarketMessages";
+import { GameContext } from "../data/gameContext";
+import { ItemData } from "../data/itemData";
+import { MessageBus } from "./messageBus";
+
+/**
+ * Flea market event notified to local listeners
+ */
+export type FleaMarketEvent =
+	| { type: "listed"; listing: FleaMarketListing }
+	| { type: "reserved"; listing: FleaMarketListing }
+	| { type: "sold"; listing: FleaMarketListing }
+	| { type: "cancelled"; listing: FleaMarketListing }
+	| { type: "purchaseRejected"; listingId: string; buyerId: string; price: number };
+
+/**
+ * Flea Market Manager handles player-to-player item listings
+ * In multi mode: every request is broadcast and applied in message order on all instances,
+ * so the first purchase request for an active listing wins everywhere
+ * A won purchase reserves the listing; it is sold only once the seller's instance confirms it handed over the item,
+ * and the buyer is refunded if the seller no longer held it
+ * In ranking mode: requests are applied locally right away
+ */
+export class FleaMarketManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private listings: Map<string, FleaMarketListing> = new Map();
+	private listeners: Array<(event: FleaMarketEvent) => void> = [];
+	private pendingListingItemIds: Set<string> = new Set(); // Own listings sent but not yet received
+	private listingIdCounter: number = 0;
+
+	/**
+	 * Creates a new FleaMarketManager instance
+	 */
+	constructor(scene: g.Scene, context: GameContext) {
+		this.scene = scene;
+		this.context = context;
+	}
+
+	/**
+	 * Initializes the flea market manager
+	 */
+	initialize(): void {
+		if (this.getMode() === "multi") {
+			this.setupBroadcastListener();
+		}
+	}
+
+	/**
+	 * Gets the current mode
+	 */
+	getMode(): "multi" | "ranking" {
+		return this.context.gameMode.mode;
+	}
+
+	/**
+	 * Gets a listing by ID
+	 * @param listingId The listing ID to find
+	 * @returns Listing or undefined if not found
+	 */
+	getListing(listingId: string): FleaMarketListing | undefined {
+		return this.listings.get(listingId);
+	}
+
+	/**
+	 * Gets all listings ordered by listing time, including sold and cancelled ones
+	 */
+	getListings(): FleaMarketListing[] {
+		return Array.from(this.listings.values()).sort((a, b) => a.listedAt - b.listedAt);
+	}
+
+	/**
+	 * Restores listings of a running game sent by the active instance
+	 * Restored listings are not notified; reserved ones are settled by the delivery message that follows
+	 * @param listings Listings in the snapshot
+	 */
+	restoreListings(listings: FleaMarketListing[]): void {
+		const ownPrefix = `flea_${this.context.currentPlayer.id}_`;
+		listings.forEach(listing => {
+			if (!this.listings.has(listing.id)) {
+				this.listings.set(listing.id, { ...listing });
+			}
+			// Continue numbering after own listings so that new listing IDs stay unique
+			if (listing.id.indexOf(ownPrefix) === 0) {
+				const listingNumber = Number(listing.id.substring(ownPrefix.length));
+				if (listingNumber > this.listingIdCounter) {
+					this.listingIdCounter = listingNumber;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Gets all active listings ordered by listing time
+	 * @returns Array of active listings
+	 */
+	getActiveListings(): FleaMarketListing[] {
+		return Array.from(this.listings.values())
+			.filter(listing => listing.status === "active")
+			.sort((a, b) => a.listedAt - b.listedAt);
+	}
+
+	/**
+	 * Gets active listings of a specific seller
+	 * @param sellerId The seller's player ID
+	 * @returns Array of the seller's active listings
+	 */
+	getActiveListingsBySeller(sellerId: string): FleaMarketListing[] {
+		return this.getActiveListings().filter(listing => listing.sellerId === sellerId);
+	}
+
+	/**
+	 * Checks if a seller currently has an active listing for an item
+	 * @param sellerId The seller's player ID
+	 * @param itemId The item ID to check
+	 */
+	isItemListed(sellerId: string, itemId: string): boolean {
+		return this.getActiveListingsBySeller(sellerId).some(listing => listing.item.id === itemId);
+	}
+
+	/**
+	 * Gets the selectable listing prices for an item
+	 * @param item The item to list
+	 * @returns Array of prices based on configured ratios
+	 */
+	getPriceOptions(item: ItemData): number[] {
+		return FLEA_MARKET_CONFIG.PRICE_RATIOS.map(ratio =>
+			Math.max(FLEA_MARKET_CONFIG.MIN_PRICE, Math.floor(item.purchasePrice * ratio))
+		);
+	}
+
+	/**
+	 * Checks if a listing price is acceptable for an item
+	 * @param item The item to list
+	 * @param price The asking price
+	 */
+	isValidPrice(item: ItemData, price: number): boolean {
+		const maxPrice = Math.floor(item.purchasePrice * FLEA_MARKET_CONFIG.MAX_PRICE_RATIO);
+		return Number.isInteger(price) && price >= FLEA_MARKET_CONFIG.MIN_PRICE && price <= maxPrice;
+	}
+
+	/**
+	 * Requests to list an owned item of the current player
+	 * Ownership must be checked by the caller
+	 * @param item The item to list
+	 * @param price The asking price
+	 * @returns Created listing, or null if the request is invalid
+	 */
+	requestListing(item: ItemData, price: number): FleaMarketListing | null {
+		const seller = this.context.currentPlayer;
+
+		if (!this.isValidPrice(item, price)) {
+			console.warn(`Invalid flea market price ${price} for item ${item.id}`);
+			return null;
+		}
+		if (this.isItemListed(seller.id, item.id) || this.pendingListingItemIds.has(item.id)) {
+			console.warn(`Item ${item.id} is already listed`);
+			return null;
+		}
+		if (this.getActiveListingsBySeller(seller.id).length >= FLEA_MARKET_CONFIG.MAX_ACTIVE_LISTINGS_PER_PLAYER) {
+			console.warn("Too many active flea market listings");
+			return null;
+		}
+
+		const listing = createFleaMarketListing({
+			id: `flea_${seller.id}_${++this.listingIdCounter}`,
+			sellerId: seller.id,
+			sellerName: seller.profile.name,
+			item: item,
+			price: price,
+			listedAt: this.context.getCurrentTimestamp()
+		});
+
+		if (this.getMode() === "multi") {
+			this.pendingListingItemIds.add(item.id);
+			MessageBus.forScene(this.scene).publish("fleaMarketListed", { listing });
+		} else {
+			this.handleListed({ listing });
+		}
+
+		return listing;
+	}
+
+	/**
+	 * Requests to buy a listing for the current player
+	 * Points must be paid by the caller beforehand; a "purchaseRejected" event tells when to refund
+	 * @param listingId The listing to buy
+	 * @returns True if the request was sent, false if the listing cannot be bought
+	 */
+	requestPurchase(listingId: string): boolean {
+		const listing = this.listings.get(listingId);
+		const buyer = this.context.currentPlayer;
+		if (!listing || listing.status !== "active" || listing.sellerId === buyer.id) {
+			return false;
+		}
+
+		const message: FleaMarketPurchaseMessage = {
+			listingId: listing.id,
+			buyerId: buyer.id,
+			buyerName: buyer.profile.name,
+			price: listing.price
+		};
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("fleaMarketPurchase", message);
+		} else {
+			this.handlePurchase(message);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Requests to cancel one of the current player's listings
+	 * @param listingId The listing to cancel
+	 * @returns True if the request was sent, false if the listing cannot be cancelled
+	 */
+	requestCancel(listingId: string): boolean {
+		const listing = this.listings.get(listingId);
+		const sellerId = this.context.currentPlayer.id;
+		if (!listing || listing.status !== "active" || listing.sellerId !== sellerId) {
+			return false;
+		}
+
+		const message: FleaMarketCancelMessage = { listingId, sellerId };
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("fleaMarketCancelled", message);
+		} else {
+			this.handleCancelled(message);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Reports whether the current player handed over the item of a reserved listing
+	 * Called by the seller's instance on a "reserved" event, after removing the item from the inventory
+	 * @param listingId The reserved listing
+	 * @param delivered Whether the item was removed from the inventory
+	 */
+	confirmDelivery(listingId: string, delivered: boolean): void {
+		const message: FleaMarketDeliveryMessage = { listingId, sellerId: this.context.currentPlayer.id, delivered };
+
+		if (this.getMode() === "multi") {
+			MessageBus.forScene(this.scene).publish("fleaMarketDelivery", message);
+		} else {
+			this.handleDelivery(message);
+		}
+	}
+
+	/**
+	 * Registers a listener for flea market events
+	 * @param listener Function to call when listings change
+	 */
+	addListingUpdateListener(listener: (event: FleaMarketEvent) => void): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * Removes a flea market event listener
+	 * @param listener Function to remove from listeners
+	 */
+	removeListingUpdateListener(listener: (event: FleaMarketEvent) => void): void {
+		const index = this.listeners.indexOf(listener);
+		if (index >= 0) {
+			this.listeners.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Sets up listener for flea market broadcasts
+	 */
+	private setupBroadcastListener(): void {
+		const bus = MessageBus.forScene(this.scene);
+		bus.subscribe("fleaMarketListed", listingData => this.handleListed(listingData));
+		bus.subscribe("fleaMarketPurchase", purchaseData => this.handlePurchase(purchaseData));
+		bus.subscribe("fleaMarketCancelled", cancelData => this.handleCancelled(cancelData));
+		bus.subscribe("fleaMarketDelivery", (deliveryData, senderId) => {
+			// Only the seller's instance knows whether the item was still held
+			if (senderId !== undefined && senderId !== deliveryData.sellerId) {
+				console.warn(`Rejected fleaMarketDelivery message about ${deliveryData.sellerId} raised by ${senderId}`);
+				return;
+			}
+			this.handleDelivery(deliveryData);
+		});
+	}
+
+	/**
+	 * Applies a new listing
+	 */
+	private handleListed(message: FleaMarketListMessage): void {
+		const listing = message.listing;
+		if (!listing?.id || !listing.sellerId || !listing.item || this.listings.has(listing.id)) {
+			return;
+		}
+
+		if (listing.sellerId === this.context.currentPlayer.id) {
+			this.pendingListingItemIds.delete(listing.item.id);
+		}
+
+		this.listings.set(listing.id, { ...listing, status: "active" });
+		this.notifyListeners({ type: "listed", listing: this.listings.get(listing.id)! });
+	}
+
+	/**
+	 * Applies a purchase request; only the first request for an active listing reserves it
+	 */
+	private handlePurchase(message: FleaMarketPurchaseMessage): void {
+		const listing = this.listings.get(message.listingId);
+		if (!listing || listing.status !== "active" || listing.price !== message.price || listing.sellerId === message.buyerId) {
+			this.notifyListeners({
+				type: "purchaseRejected",
+				listingId: message.listingId,
+				buyerId: message.buyerId,
+				price: message.price
+			});
+			return;
+		}
+
+		markListingReserved(listing, message.buyerId, message.buyerName);
+		this.notifyListeners({ type: "reserved", listing });
+	}
+
+	/**
+	 * Applies the seller's answer to a reservation
+	 * The listing is sold if the item was handed over, otherwise it is cancelled and the buyer is refunded
+	 */
+	private handleDelivery(message: FleaMarketDeliveryMessage): void {
+		const listing = this.listings.get(message.listingId);
+		if (!listing || listing.status !== "reserved" || listing.sellerId !== message.sellerId || !listing.buyerId) {
+			return;
+		}
+
+		if (message.delivered) {
+			markListingSold(listing, listing.buyerId, listing.buyerName ?? "");
+			this.notifyListeners({ type: "sold", listing });
+			return;
+		}
+
+		const buyerId = listing.buyerId;
+		markListingCancelled(listing);
+		this.notifyListeners({ type: "cancelled", listing });
+		this.notifyListeners({ type: "purchaseRejected", listingId: listing.id, buyerId, price: listing.price });
+	}
+
+	/**
+	 * Applies a cancellation request from the listing's seller
+	 */
+	private handleCancelled(message: FleaMarketCancelMessage): void {
+		const listing = this.listings.get(message.listingId);
+		if (!listing || listing.status !== "active" || listing.sellerId !== message.sellerId) {
+			return;
+		}
+
+		markListingCancelled(listing);
+		this.notifyListeners({ type: "cancelled", listing });
+	}
+
+	/**
+	 * Notifies all registered listeners of a flea market event
+	 */
+	private notifyListeners(event: FleaMarketEvent): void {
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error in flea market listener:", error);
+			}
+		});
+	}
+}
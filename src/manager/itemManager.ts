@@ -1,4 +1,20 @@
-import { ItemData, OwnedItem, SetInfo, getDefaultCatalogItems } from "../data/itemData";
+import {
+	ItemData,
+	OwnedItem,
+	SetInfo,
+	calculateSetInfo,
+	calculateTotalSettlementValue,
+	getCategoryIds,
+	getDefaultCatalogItems
+} from "../data/itemData";
+
+/**
+ * Inventory change notified to local listeners
+ */
+export interface ItemChangeEvent {
+	type: "acquired" | "removed";
+	itemId: string;
+}
 
 /**
  * Item management system
@@ -6,11 +22,22 @@ import { ItemData, OwnedItem, SetInfo, getDefaultCatalogItems } from "../data/it
  */
 export class ItemManager {
 	// Available items for purchase based on specification
-	private readonly availableItems: ItemData[] = getDefaultCatalogItems();
+	private readonly availableItems: ItemData[];
 
 	// Player's owned items
 	private ownedItems: Map<string, OwnedItem> = new Map();
 
+	// Listeners for inventory changes
+	private itemChangeListeners: Array<(event: ItemChangeEvent) => void> = [];
+
+	/**
+	 * Creates a new ItemManager instance
+	 * @param categoryIds Categories on sale (defaults to every category, see GameRules.categoryIds)
+	 */
+	constructor(categoryIds?: string[]) {
+		this.availableItems = getDefaultCatalogItems(categoryIds);
+	}
+
 	/**
 	 * Gets all available items for purchase
 	 * @returns Array of available items
@@ -30,13 +57,14 @@ export class ItemManager {
 
 	/**
 	 * Gets all owned items sorted by category and series number
-	 * @returns Array of owned items sorted by category and seriesNumber
+	 * @returns Array of owned items sorted by catalog category order and seriesNumber
 	 */
 	getOwnedItems(): OwnedItem[] {
+		const categoryIds = getCategoryIds(this.availableItems);
 		return Array.from(this.ownedItems.values()).sort((a, b) => {
-			// First sort by category (novel comes before manga)
+			// First sort by category in catalog order
 			if (a.item.category !== b.item.category) {
-				return a.item.category === "novel" ? -1 : 1;
+				return categoryIds.indexOf(a.item.category) - categoryIds.indexOf(b.item.category);
 			}
 			// Then sort by series number within the same category
 			return a.item.seriesNumber - b.item.seriesNumber;
@@ -70,12 +98,62 @@ export class ItemManager {
 		};
 
 		this.ownedItems.set(itemId, ownedItem);
+		this.notifyItemChangeListeners({ type: "acquired", itemId });
+		return true;
+	}
+
+	/**
+	 * Removes an item from player's inventory (e.g., when sold on the flea market)
+	 * @param itemId The ID of the item to remove
+	 * @returns True if removal was successful, false if item is not owned
+	 */
+	removeItem(itemId: string): boolean {
+		if (!this.ownedItems.delete(itemId)) {
+			return false;
+		}
+
+		this.notifyItemChangeListeners({ type: "removed", itemId });
 		return true;
 	}
 
+	/**
+	 * Restores an item owned before this instance joined, without notifying listeners
+	 * @param itemId The ID of the item to restore
+	 * @param acquiredAt When the item was acquired
+	 * @returns True if restored, false if item not found or already owned
+	 */
+	restoreOwnedItem(itemId: string, acquiredAt: number = 0): boolean {
+		const item = this.getItem(itemId);
+		if (!item || this.ownsItem(itemId)) {
+			return false;
+		}
+
+		this.ownedItems.set(itemId, { item: item, purchasedAt: acquiredAt });
+		return true;
+	}
+
+	/**
+	 * Registers a listener for inventory changes
+	 * @param listener Function to call when an item is acquired or removed
+	 */
+	addItemChangeListener(listener: (event: ItemChangeEvent) => void): void {
+		this.itemChangeListeners.push(listener);
+	}
+
+	/**
+	 * Removes an inventory change listener
+	 * @param listener Function to remove from listeners
+	 */
+	removeItemChangeListener(listener: (event: ItemChangeEvent) => void): void {
+		const index = this.itemChangeListeners.indexOf(listener);
+		if (index > -1) {
+			this.itemChangeListeners.splice(index, 1);
+		}
+	}
+
 	/**
 	 * Checks if a specific category collection is complete
-	 * @param category The category to check (novel or manga)
+	 * @param category The category to check
 	 * @returns true if all items in the category are owned
 	 */
 	isCollectionComplete(category: string): boolean {
@@ -89,27 +167,7 @@ export class ItemManager {
 	 * @returns Array of set information for each category
 	 */
 	getSetInfo(): SetInfo[] {
-		const categories = ["novel", "manga"] as const;
-		const setInfos: SetInfo[] = [];
-
-		for (const category of categories) {
-			const categoryItems = this.availableItems.filter(item => item.category === category);
-			const ownedCategoryItems = categoryItems.filter(item => this.ownsItem(item.id));
-
-			const isComplete = ownedCategoryItems.length === categoryItems.length;
-			const individualValue = ownedCategoryItems.reduce((sum, item) => sum + item.individualPrice, 0);
-			const setBonus = isComplete && categoryItems.length > 0 ? categoryItems[0].setPrice : 0;
-
-			setInfos.push({
-				category: category,
-				isComplete: isComplete,
-				items: ownedCategoryItems,
-				individualValue: individualValue,
-				setBonus: setBonus
-			});
-		}
-
-		return setInfos;
+		return calculateSetInfo(this.getOwnedItems(), this.availableItems);
 	}
 
 	/**
@@ -118,20 +176,7 @@ export class ItemManager {
 	 * @returns Total settlement value in points
 	 */
 	calculateSettlementValue(): number {
-		const setInfos = this.getSetInfo();
-		let totalValue = 0;
-
-		for (const setInfo of setInfos) {
-			if (setInfo.isComplete) {
-				// Use set bonus if complete
-				totalValue += setInfo.setBonus;
-			} else {
-				// Use individual values if not complete
-				totalValue += setInfo.individualValue;
-			}
-		}
-
-		return totalValue;
+		return calculateTotalSettlementValue(this.getSetInfo());
 	}
 
 	/**
@@ -189,4 +234,17 @@ export class ItemManager {
 			this.availableItems.push(itemData);
 		}
 	}
+
+	/**
+	 * Notifies all registered listeners of an inventory change
+	 */
+	private notifyItemChangeListeners(event: ItemChangeEvent): void {
+		this.itemChangeListeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error in item change listener:", error);
+			}
+		});
+	}
 }
@@ -1,6 +1,10 @@
 import { AFFILIATE_CONFIG } from "../config/affiliateConfig";
 import { GameContext } from "../data/gameContext";
 import { ItemData, getDefaultCatalogItems } from "../data/itemData";
+import { appendPriceHistory, PriceHistoryEntry } from "../data/priceHistoryData";
+import { createPricingModel, PricingModel, PricingModelType } from "../data/pricingModel";
+import { CampaignManager } from "./campaignManager";
+import { MessageBus } from "./messageBus";
 
 /**
  * Interface for price update message broadcasting
@@ -37,18 +41,35 @@ export class MarketManager {
 	private scene: g.Scene;
 	private isActive: boolean;
 	private marketPrices: Map<string, MarketPriceData> = new Map();
+	private priceHistories: Map<string, PriceHistoryEntry[]> = new Map();
+	private demandByItem: Map<string, number> = new Map();
+	private pricingModel!: PricingModel;
+	private categoryPricingModels: Map<string, PricingModel> = new Map();
 	private priceUpdateInterval?: g.TimerIdentifier;
 	private context: GameContext;
+	private campaignManager?: CampaignManager;
 	private priceUpdateListeners: Array<() => void> = [];
 	private timestampCounter: number = 0;
 
 	/**
 	 * Creates a new MarketManager instance
+	 * @param campaignManager Optional campaign manager whose running discounts apply to prices
 	 */
-	constructor(scene: g.Scene, context: GameContext) {
+	constructor(scene: g.Scene, context: GameContext, campaignManager?: CampaignManager) {
 		this.scene = scene;
 		this.context = context;
+		this.campaignManager = campaignManager;
 		this.isActive = context.gameMode.mode === "ranking" || scene.game.isActiveInstance();
+
+		// Pricing models are selected by the rules of the round
+		this.setPricingModel(context.rules.pricingModel);
+		const categoryModels = context.rules.categoryPricingModels;
+		Object.keys(categoryModels).forEach(categoryId => this.setPricingModel(categoryModels[categoryId], categoryId));
+
+		// Campaign starts and ends change effective prices like regular price updates
+		if (this.campaignManager) {
+			this.campaignManager.addCampaignListener(() => this.notifyPriceUpdateListeners());
+		}
 	}
 
 	/**
@@ -78,8 +99,17 @@ export class MarketManager {
 
 	/**
 	 * Gets the current dynamic price for an item from cache
+	 * Running campaign discounts are already applied
+	 */
+	getDynamicPrice(item: ItemData, remainingTime: number): number {
+		const marketPrice = this.getMarketPrice(item, remainingTime);
+		return this.campaignManager ? this.campaignManager.applyDiscount(item, marketPrice) : marketPrice;
+	}
+
+	/**
+	 * Gets the market price for an item from cache before campaign discounts
 	 */
-	getDynamicPrice(item: ItemData, _remainingTime: number): number {
+	getMarketPrice(item: ItemData, _remainingTime: number): number {
 		// Both ranking and multi modes use cached prices only - no dynamic calculation
 		const marketPrice = this.marketPrices.get(item.id);
 		if (marketPrice) {
@@ -101,6 +131,80 @@ export class MarketManager {
 	}
 
 
+	/**
+	 * Gets recorded market prices of an item before campaign discounts
+	 * @param itemId Item ID
+	 * @returns Prices in recording order, bounded by AFFILIATE_CONFIG.PRICING.HISTORY_LENGTH
+	 */
+	getPriceHistory(itemId: string): PriceHistoryEntry[] {
+		return [...(this.priceHistories.get(itemId) ?? [])];
+	}
+
+	/**
+	 * Gets the latest market price of every priced item
+	 * @returns Prices in the form they are broadcast
+	 */
+	getPriceSnapshot(): PriceUpdateMessage[] {
+		const prices: PriceUpdateMessage[] = [];
+		this.marketPrices.forEach((marketPrice, itemId) => {
+			prices.push({
+				itemId: itemId,
+				dynamicPrice: marketPrice.dynamicPrice,
+				calculatedAt: marketPrice.lastCalculated,
+				remainingTime: marketPrice.lastRemainingTime
+			});
+		});
+		return prices;
+	}
+
+	/**
+	 * Restores market prices received in the snapshot of a running game
+	 * @param prices Latest market prices on the active instance
+	 */
+	applyPriceSnapshot(prices: PriceUpdateMessage[]): void {
+		prices.forEach(priceData => {
+			this.marketPrices.set(priceData.itemId, {
+				dynamicPrice: priceData.dynamicPrice,
+				lastCalculated: priceData.calculatedAt,
+				lastRemainingTime: priceData.remainingTime
+			});
+			this.recordPriceHistory(priceData.itemId, priceData.dynamicPrice, priceData.remainingTime);
+		});
+		this.notifyPriceUpdateListeners();
+	}
+
+	/**
+	 * Selects the pricing model for the round or for one category
+	 * Price swings are scaled by GameRules.priceVolatility
+	 * Only the active instance calculates prices, so selecting it there is enough in multi mode
+	 * @param type Built-in model type
+	 * @param categoryId Category to apply the model to (omit to change the round model)
+	 */
+	setPricingModel(type: PricingModelType, categoryId?: string): void {
+		const model = createPricingModel(type, this.context.rules.priceVolatility);
+		if (categoryId) {
+			this.categoryPricingModels.set(categoryId, model);
+		} else {
+			this.pricingModel = model;
+		}
+	}
+
+	/**
+	 * Gets the pricing model applying to an item
+	 */
+	getPricingModel(item: ItemData): PricingModel {
+		return this.categoryPricingModels.get(item.category) ?? this.pricingModel;
+	}
+
+	/**
+	 * Records a purchase of an item for demand-driven pricing
+	 * In multi mode purchases are picked up from item broadcasts automatically
+	 * @param itemId Purchased item ID
+	 */
+	recordPurchase(itemId: string): void {
+		this.demandByItem.set(itemId, (this.demandByItem.get(itemId) ?? 0) + 1);
+	}
+
 	/**
 	 * Gets whether this instance is the active price calculator
 	 */
@@ -145,7 +249,7 @@ export class MarketManager {
 	}
 
 	/**
-	 * Calculates dynamic price based on remaining time
+	 * Calculates dynamic price with the pricing model of the item
 	 */
 	private calculateDynamicPrice(item: ItemData, remainingTime: number): number {
 		const basePrice = item.purchasePrice;
@@ -156,42 +260,14 @@ export class MarketManager {
 			return 100;
 		}
 
-		// Validate remaining time
-		if (remainingTime < 0) {
-			remainingTime = 0;
-		}
-
-		// Calculate time factor (0 to 1, where 1 is start of game, 0 is end)
-		const maxTime = this.getTotalTimeLimit();
-		const timeFactor = Math.max(0, Math.min(1, remainingTime / maxTime));
-
-		// Generate random value
-		const randomValue = this.random();
-
-		// Calculate price variation with DRAMATICALLY enhanced time factor effect
-		const volatility = AFFILIATE_CONFIG.PRICING.VOLATILITY;
-		const minRatio = AFFILIATE_CONFIG.PRICING.MIN_PRICE_RATIO;
-
-		// EXTREME time factor effect: massive swings early, stability late
-		const timeVolatilityBoost = Math.pow(timeFactor, 0.3); // Cube root for even more dramatic early effect
-		const volatilityMultiplier = 1 + timeVolatilityBoost * 4; // Up to 5x volatility early game
-
-		// Create massive price swings using sine wave pattern for more dramatic effect
-		const waveEffect = Math.sin(randomValue * Math.PI * 2) * timeVolatilityBoost;
-		const baseMultiplier = 0.5 + randomValue; // Base range 0.5 to 1.5
-		const volatilityEffect = waveEffect * volatility * volatilityMultiplier;
-
-		// Final price calculation with extended bounds
-		const priceMultiplier = baseMultiplier + volatilityEffect;
-		const dynamicPrice = Math.floor(basePrice * priceMultiplier);
-
-		// Extended validation bounds for more dramatic price swings
-		const minValidPrice = Math.floor(basePrice * minRatio); // Can go as low as 30% of base
-		const maxValidPrice = Math.floor(basePrice * 3); // Can go as high as 3x base price
-		if (dynamicPrice < minValidPrice || dynamicPrice > maxValidPrice) {
-			const clampedPrice = Math.max(minValidPrice, Math.min(maxValidPrice, dynamicPrice));
-			return clampedPrice;
-		}
+		const dynamicPrice = this.getPricingModel(item).calculatePrice({
+			item,
+			remainingTime: Math.max(0, remainingTime),
+			totalTime: this.getTotalTimeLimit(),
+			previousPrice: this.marketPrices.get(item.id)?.dynamicPrice,
+			demand: this.demandByItem.get(item.id) ?? 0,
+			random: this.context.localRandom
+		});
 
 		// Cache the price in multi mode
 		if (this.getMode() === "multi") {
@@ -205,8 +281,13 @@ export class MarketManager {
 		return dynamicPrice;
 	}
 
-	private random(): number {
-		return this.context.localRandom.generate();
+	/**
+	 * Lets recent purchases fade so that demand-driven prices settle down again
+	 */
+	private decayDemand(): void {
+		this.demandByItem.forEach((demand, itemId) => {
+			this.demandByItem.set(itemId, demand * AFFILIATE_CONFIG.PRICING.DEMAND.DECAY_RATE);
+		});
 	}
 
 	/**
@@ -231,7 +312,7 @@ export class MarketManager {
 	 */
 	private updateAllPrices(): void {
 		// Get all available items from catalog
-		const allItems = getDefaultCatalogItems();
+		const allItems = getDefaultCatalogItems(this.context.rules.categoryIds);
 
 		// Calculate and broadcast prices for all items
 		allItems.forEach((item: ItemData) => {
@@ -242,6 +323,7 @@ export class MarketManager {
 				this.broadcastPriceUpdate(item.id, dynamicPrice, this.getRemainingTime());
 			}
 		});
+		this.decayDemand();
 
 		// Notify local listeners that prices have been updated (no network traffic)
 		this.notifyPriceUpdateListeners();
@@ -252,7 +334,7 @@ export class MarketManager {
 	 */
 	private updateAllPricesLocally(): void {
 		// Get all available items from catalog
-		const allItems = getDefaultCatalogItems();
+		const allItems = getDefaultCatalogItems(this.context.rules.categoryIds);
 
 		// Calculate and cache prices for all items locally
 		allItems.forEach((item: ItemData) => {
@@ -263,7 +345,9 @@ export class MarketManager {
 				lastCalculated: this.getNextTimestamp(),
 				lastRemainingTime: this.getRemainingTime()
 			});
+			this.recordPriceHistory(item.id, dynamicPrice, this.getRemainingTime());
 		});
+		this.decayDemand();
 
 		// Notify local listeners that prices have been updated
 		this.notifyPriceUpdateListeners();
@@ -273,31 +357,22 @@ export class MarketManager {
 	 * Broadcasts a price update to all clients
 	 */
 	private broadcastPriceUpdate(itemId: string, dynamicPrice: number, remainingTime: number): void {
-		const message: PriceUpdateMessage = {
+		MessageBus.forScene(this.scene).publish("priceUpdate", {
 			itemId,
 			dynamicPrice,
 			calculatedAt: this.getNextTimestamp(),
 			remainingTime
-		};
-
-		const broadcastMessage = {
-			type: "priceUpdate",
-			priceData: message
-		};
-
-		this.scene.game.raiseEvent(new g.MessageEvent(broadcastMessage));
+		});
 	}
 
 	/**
 	 * Sets up listener for price broadcasts from active instance
 	 */
 	private setupPriceBroadcastListener(): void {
-		this.scene.onMessage.add((ev: g.MessageEvent) => {
-			if (ev.data?.type === "priceUpdate" && ev.data?.priceData) {
-				const priceData = ev.data.priceData as PriceUpdateMessage;
-				this.handlePriceUpdate(priceData);
-			}
-		});
+		const bus = MessageBus.forScene(this.scene);
+		bus.subscribe("priceUpdate", priceData => this.handlePriceUpdate(priceData));
+		// Every acquisition by any player counts as demand
+		bus.subscribe("itemAcquired", itemData => this.recordPurchase(itemData.itemId));
 	}
 
 	/**
@@ -309,11 +384,21 @@ export class MarketManager {
 			lastCalculated: priceData.calculatedAt,
 			lastRemainingTime: priceData.remainingTime
 		});
+		// Active instance records its own prices here as well, when its broadcast comes back
+		this.recordPriceHistory(priceData.itemId, priceData.dynamicPrice, priceData.remainingTime);
 
 		// Notify local listeners that prices have been updated
 		this.notifyPriceUpdateListeners();
 	}
 
+	/**
+	 * Appends a price to the bounded history of an item
+	 */
+	private recordPriceHistory(itemId: string, price: number, remainingTime: number): void {
+		const history = this.priceHistories.get(itemId) ?? [];
+		this.priceHistories.set(itemId, appendPriceHistory(history, { price, remainingTime }, AFFILIATE_CONFIG.PRICING.HISTORY_LENGTH));
+	}
+
 	/**
 	 * Notifies all registered listeners that prices have been updated
 	 */
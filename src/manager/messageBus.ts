@@ -0,0 +1,144 @@
+import {
+	createMessageEvent,
+	decodeMessage,
+	GameMessage,
+	GameMessagePayloads,
+	GameMessageType
+} from "../data/messageSchema";
+
+/**
+ * Handler of a multiplayer message
+ * @param payload Validated payload
+ * @param senderId ID of the player who raised the message (undefined for messages raised by the system)
+ */
+export type MessageHandler<K extends GameMessageType> = (payload: GameMessagePayloads[K], senderId?: string) => void;
+
+const busByScene: WeakMap<g.Scene, MessageBus> = new WeakMap();
+
+/**
+ * Typed publish/subscribe of multiplayer messages over scene message events
+ * One bus exists per scene; malformed messages and messages of other protocol versions are dropped before reaching handlers
+ */
+export class MessageBus {
+	private readonly scene: g.Scene;
+	private readonly handlers: Map<GameMessageType, Array<MessageHandler<any>>> = new Map();
+	private readonly messageListener: (ev: g.MessageEvent) => void;
+
+	/**
+	 * Gets the message bus of a scene, creating it on first use
+	 * @param scene The scene whose message events the bus handles
+	 */
+	static forScene(scene: g.Scene): MessageBus {
+		let bus = busByScene.get(scene);
+		if (!bus) {
+			bus = new MessageBus(scene);
+			busByScene.set(scene, bus);
+		}
+		return bus;
+	}
+
+	/**
+	 * Creates a new MessageBus instance
+	 * Use MessageBus.forScene to share the bus of a scene
+	 * @param scene The scene whose message events the bus handles
+	 */
+	constructor(scene: g.Scene) {
+		this.scene = scene;
+		this.messageListener = (ev: g.MessageEvent) => this.dispatch(ev);
+		this.scene.onMessage.add(this.messageListener);
+	}
+
+	/**
+	 * Broadcasts a message to all instances, including this one
+	 * @param type Message type
+	 * @param payload Message payload
+	 */
+	publish<K extends GameMessageType>(type: K, payload: GameMessagePayloads[K]): void {
+		this.scene.game.raiseEvent(createMessageEvent(type, payload));
+	}
+
+	/**
+	 * Registers a handler for a message type
+	 * @param type Message type
+	 * @param handler Function to call with validated payloads
+	 * @returns Function that removes the handler
+	 */
+	subscribe<K extends GameMessageType>(type: K, handler: MessageHandler<K>): () => void {
+		const handlers = this.handlers.get(type) ?? [];
+		handlers.push(handler);
+		this.handlers.set(type, handlers);
+
+		return () => {
+			const index = handlers.indexOf(handler);
+			if (index >= 0) {
+				handlers.splice(index, 1);
+			}
+		};
+	}
+
+	/**
+	 * Registers a handler for messages raised by the active instance only
+	 * Player instances always have a sender ID, so messages they raise cannot pass as authoritative
+	 * @param type Message type
+	 * @param handler Function to call with validated payloads
+	 * @returns Function that removes the handler
+	 */
+	subscribeFromActiveInstance<K extends GameMessageType>(type: K, handler: MessageHandler<K>): () => void {
+		return this.subscribe(type, (payload, senderId) => {
+			if (senderId !== undefined) {
+				console.warn(`Dropped ${type} message from player ${senderId}: only the active instance may raise it`);
+				return;
+			}
+			handler(payload);
+		});
+	}
+
+	/**
+	 * Removes all handlers and stops listening to scene messages
+	 */
+	destroy(): void {
+		this.handlers.clear();
+		if (!this.scene.destroyed()) {
+			this.scene.onMessage.remove(this.messageListener);
+		}
+		if (busByScene.get(this.scene) === this) {
+			busByScene.delete(this.scene);
+		}
+	}
+
+	/**
+	 * Validates a received message event and calls handlers of its type
+	 */
+	private dispatch(ev: g.MessageEvent): void {
+		const result = decodeMessage(ev.data);
+		if (result.status === "ignored") {
+			return;
+		}
+		if (result.status === "invalid") {
+			console.warn(`Dropped message from ${ev.player?.id ?? "system"}: ${result.reason}`);
+			return;
+		}
+
+		// Events raised by the active instance may carry a player whose ID is null
+		this.notifyHandlers(result.message, ev.player?.id ?? undefined);
+	}
+
+	/**
+	 * Calls handlers of a decoded message
+	 */
+	private notifyHandlers(message: GameMessage, senderId?: string): void {
+		const handlers = this.handlers.get(message.type);
+		if (!handlers) {
+			return;
+		}
+
+		// Copy so that handlers may unsubscribe while being notified
+		handlers.slice().forEach(handler => {
+			try {
+				handler(message.payload, senderId);
+			} catch (error) {
+				console.error(`Error in ${message.type} message handler:`, error);
+			}
+		});
+	}
+}
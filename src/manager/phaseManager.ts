@@ -0,0 +1,180 @@
+import { GameContext, GamePhase } from "../data/gameContext";
+import {
+	findReachedPhaseIndex,
+	getDefaultPhaseDefinitions,
+	getUnlockedFeatures,
+	PhaseDefinition,
+	PhaseProgress
+} from "../data/phaseData";
+
+/**
+ * Phase progression event notified to local listeners
+ */
+export type PhaseEvent =
+	| { type: "phaseChanged"; oldPhase: GamePhase; newPhase: GamePhase; banners: { [bannerId: string]: boolean } }
+	| { type: "featureUnlocked"; feature: string; banners: { [bannerId: string]: boolean } };
+
+/**
+ * Parameter object for PhaseManager
+ */
+export interface PhaseManagerParameterObject {
+	/** Game context whose phase is driven */
+	gameContext: GameContext;
+	/** Phase definitions in order (defaults to the phase config) */
+	definitions?: PhaseDefinition[];
+}
+
+/**
+ * Phase Manager drives GamePhase through the declarative phase definitions
+ * Phases follow the progress of the current player, so every instance keeps its own phase.
+ * Time-up moves the game to the settlement phase (see GameContext), after which no phase is entered anymore
+ */
+export class PhaseManager {
+	private context: GameContext;
+	private definitions: PhaseDefinition[];
+	private listeners: Array<(event: PhaseEvent) => void> = [];
+	private unsubscribers: Array<() => void> = [];
+	private phaseIndex: number = -1;
+	private unlockedFeatures: Set<string> = new Set();
+	private started: boolean = false;
+
+	/**
+	 * Creates a new PhaseManager instance
+	 */
+	constructor(param: PhaseManagerParameterObject) {
+		this.context = param.gameContext;
+		this.definitions = param.definitions ?? getDefaultPhaseDefinitions();
+	}
+
+	/**
+	 * Initializes the phase manager
+	 * Re-evaluates phases whenever the current player or the time changes
+	 */
+	initialize(): void {
+		const listener = (): void => this.evaluate();
+		this.context.on("playerUpdated", listener);
+		this.context.on("timeUpdated", listener);
+		this.unsubscribers.push(() => {
+			this.context.off("playerUpdated", listener);
+			this.context.off("timeUpdated", listener);
+		});
+	}
+
+	/**
+	 * Leaves the tutorial and enters every phase whose condition already holds
+	 * Called once the player agreed to the terms and the home screen listens for phase events
+	 */
+	start(): void {
+		if (this.started) {
+			return;
+		}
+		this.started = true;
+		this.evaluate();
+	}
+
+	/**
+	 * Gets the current phase
+	 */
+	getPhase(): GamePhase {
+		return this.context.gameState.phase;
+	}
+
+	/**
+	 * Checks if a feature has been unlocked
+	 * @param feature Feature ID
+	 */
+	isFeatureUnlocked(feature: string): boolean {
+		return this.unlockedFeatures.has(feature);
+	}
+
+	/**
+	 * Gets IDs of unlocked features in the order they were unlocked
+	 */
+	getUnlockedFeatures(): string[] {
+		return Array.from(this.unlockedFeatures);
+	}
+
+	/**
+	 * Adds a listener for phase events
+	 * @param listener Function called when a phase is entered or a feature is unlocked
+	 */
+	addPhaseListener(listener: (event: PhaseEvent) => void): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * Removes a listener for phase events
+	 * @param listener Listener to remove
+	 */
+	removePhaseListener(listener: (event: PhaseEvent) => void): void {
+		const index = this.listeners.indexOf(listener);
+		if (index >= 0) {
+			this.listeners.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Cleans up the phase manager
+	 */
+	destroy(): void {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers = [];
+		this.listeners = [];
+	}
+
+	/**
+	 * Enters reached phases and unlocks features whose conditions hold
+	 */
+	private evaluate(): void {
+		const phase = this.context.gameState.phase;
+		if (!this.started || phase === GamePhase.SETTLEMENT || phase === GamePhase.ENDED) {
+			return;
+		}
+
+		const progress = this.getProgress();
+		const reachedIndex = findReachedPhaseIndex(this.definitions, this.phaseIndex, progress);
+		// Enter phases one by one so that listeners see every phase of the progression
+		while (this.phaseIndex < reachedIndex) {
+			this.phaseIndex++;
+			const definition = this.definitions[this.phaseIndex];
+			const oldPhase = this.context.gameState.phase;
+			this.context.updateGamePhase(definition.phase);
+			this.notifyListeners({ type: "phaseChanged", oldPhase, newPhase: definition.phase, banners: definition.banners });
+		}
+
+		getUnlockedFeatures(this.definitions, this.phaseIndex, progress)
+			.filter(unlock => !this.unlockedFeatures.has(unlock.feature))
+			.forEach(unlock => {
+				this.unlockedFeatures.add(unlock.feature);
+				this.notifyListeners({ type: "featureUnlocked", feature: unlock.feature, banners: unlock.banners });
+			});
+	}
+
+	/**
+	 * Gets the progress of the current player
+	 * Task progress covers every way of completing a task, including completions restored from a snapshot
+	 */
+	private getProgress(): PhaseProgress {
+		const player = this.context.currentPlayer;
+		const completedTaskIds = Array.from(player.taskProgress.values())
+			.filter(progress => progress.completed)
+			.map(progress => progress.taskId);
+		return {
+			completedTaskIds,
+			elapsedSeconds: this.context.gameState.totalTimeLimit - this.context.gameState.remainingTime
+		};
+	}
+
+	/**
+	 * Notifies listeners of a phase event
+	 */
+	private notifyListeners(event: PhaseEvent): void {
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error in phase listener:", error);
+			}
+		});
+	}
+}
@@ -1,5 +1,7 @@
 
+import { ScoreVerifiedMessage } from "../data/authorityMessages";
 import { GameContext } from "../data/gameContext";
+import { createMessageEvent } from "../data/messageSchema";
 import { createPointEarnedNotification } from "../data/notificationData";
 import { PlayerData, updatePlayerPoints } from "../data/playerData";
 
@@ -23,12 +25,45 @@ export interface PointTransaction {
 	type: "earned" | "spent";
 }
 
+/**
+ * Points promised to a player that are paid once they mature
+ */
+export interface PendingPointTransaction {
+	/** Unique pending transaction ID */
+	id: string;
+	/** Player ID who will earn the points */
+	playerId: string;
+	/** Points amount (positive) */
+	amount: number;
+	/** Source of the points */
+	source: string;
+	/** Detailed description of the transaction */
+	description: string;
+	/** Elapsed game seconds when the points are paid */
+	maturesAt: number;
+}
+
+/**
+ * Compact transaction entry attached to score broadcasts
+ * Type, ID and timestamp are derived from amount, player ID and sequence number on receipt
+ */
+export interface CompactPointTransaction {
+	/** Per-player sequence number */
+	seq: number;
+	/** Points amount (positive for earned, negative for spent) */
+	amount: number;
+	/** Source of the points */
+	source: string;
+}
+
 /**
  * Score broadcast message data for multi-player synchronization
  */
-interface ScoreBroadcastMessage {
+export interface ScoreBroadcastMessage {
 	playerId: string;
 	score: number;
+	/** Transaction that caused this score change, if any */
+	transaction?: CompactPointTransaction;
 }
 
 /**
@@ -43,19 +78,19 @@ export const POINT_CONSTANTS = {
 	TASK_SNS_REWARD: 100,
 	TASK_SHOPPING_REWARD: 100,
 	TASK_AGREEMENT_REWARD: 100,
+	TASK_PURCHASE_REWARD: 150,
+	TASK_POINTS_REWARD: 200,
+
+	// Advanced task reward points
+	TASK_SHARE_REWARD: 150,
+	TASK_AFFILIATE_SALE_REWARD: 300,
+	TASK_FLEA_MARKET_LISTING_REWARD: 200,
 
 	// Series collection bonus points
 	SERIES_COLLECTION_BONUS: 1000,
 
 	// Ad banner reward points
 	AD_BANNER_CLICK_REWARD: 100,
-
-	// Shopping point back rate
-	SHOPPING_POINT_BACK_RATE: 0.5, // 50% point back rate
-
-	// Set completion bonus points
-	SET_CLOTHES_BONUS: 1000,
-	SET_ELECTRONICS_BONUS: 2500,
 } as const;
 
 /**
@@ -67,6 +102,10 @@ export class PointManager {
 	private game: g.Game;
 	private transactions: PointTransaction[];
 	private transactionCounter: number = 0;
+	private sequenceByPlayer: Map<string, number> = new Map();
+	private recordedTransactionIds: Set<string> = new Set();
+	private pendingTransactions: PendingPointTransaction[] = [];
+	private pendingCounter: number = 0;
 
 	constructor(gameContext: GameContext, game: g.Game) {
 		this.gameContext = gameContext;
@@ -87,7 +126,7 @@ export class PointManager {
 			throw new Error("Award amount must be positive");
 		}
 
-		return this.addPointTransaction(amount, source, description, "earned", showNotification);
+		return this.addPointTransaction(this.getCurrentPlayerId(), amount, source, description, "earned", showNotification)!;
 	}
 
 	/**
@@ -98,16 +137,171 @@ export class PointManager {
 	 * @returns Updated player data or null if insufficient points
 	 */
 	deductPoints(amount: number, source: string, description: string): PlayerData | null {
+		return this.deductPointsFromPlayer(this.getCurrentPlayerId(), amount, source, description);
+	}
+
+	/**
+	 * Promises points to the current player that are paid once they mature
+	 * Pending points that have not matured when the game ends are never paid
+	 * @param amount Points to promise (must be positive)
+	 * @param source Source of the points
+	 * @param description Detailed description
+	 * @param maturesAt Elapsed game seconds when the points are paid
+	 * @returns Pending transaction record
+	 */
+	addPendingPoints(amount: number, source: string, description: string, maturesAt: number): PendingPointTransaction {
+		if (amount <= 0) {
+			throw new Error("Pending amount must be positive");
+		}
+
+		const pending: PendingPointTransaction = {
+			id: `pending_${++this.pendingCounter}`,
+			playerId: this.getCurrentPlayerId(),
+			amount: amount,
+			source: source,
+			description: description,
+			maturesAt: maturesAt
+		};
+		this.pendingTransactions.push(pending);
+		return pending;
+	}
+
+	/**
+	 * Pays all pending points that have matured
+	 * @param elapsedSeconds Elapsed game seconds
+	 * @returns Pending transactions that were paid
+	 */
+	settlePendingPoints(elapsedSeconds: number): PendingPointTransaction[] {
+		const matured = this.pendingTransactions.filter(pending => pending.maturesAt <= elapsedSeconds);
+		if (matured.length === 0) {
+			return [];
+		}
+
+		this.pendingTransactions = this.pendingTransactions.filter(pending => pending.maturesAt > elapsedSeconds);
+		matured.forEach(pending => {
+			this.addPointTransaction(pending.playerId, pending.amount, pending.source, pending.description, "earned", true);
+		});
+		return matured;
+	}
+
+	/**
+	 * Gets pending transactions that have not been paid yet
+	 * @param playerId Player to get pending transactions for (defaults to the current player)
+	 */
+	getPendingTransactions(playerId: string = this.getCurrentPlayerId()): PendingPointTransaction[] {
+		return this.pendingTransactions.filter(pending => pending.playerId === playerId);
+	}
+
+	/**
+	 * Gets the total of pending points that have not been paid yet
+	 * @param playerId Player to get pending points for (defaults to the current player)
+	 */
+	getPendingPoints(playerId: string = this.getCurrentPlayerId()): number {
+		return this.getPendingTransactions(playerId).reduce((total, pending) => total + pending.amount, 0);
+	}
+
+	/**
+	 * Awards points to any player simulated by this instance (e.g., CPU players)
+	 * @param playerId ID of the player to award
+	 * @param amount Points to award (must be positive)
+	 * @param source Source of the points
+	 * @param description Detailed description
+	 * @returns Updated player data or null if the player is unknown
+	 */
+	awardPointsToPlayer(playerId: string, amount: number, source: string, description: string): PlayerData | null {
+		if (amount <= 0) {
+			throw new Error("Award amount must be positive");
+		}
+
+		return this.addPointTransaction(playerId, amount, source, description, "earned", false);
+	}
+
+	/**
+	 * Deducts points from any player simulated by this instance (e.g., CPU players)
+	 * @param playerId ID of the player to deduct from
+	 * @param amount Points to deduct (must be positive)
+	 * @param source Source of the deduction
+	 * @param description Detailed description
+	 * @returns Updated player data or null if the player is unknown or has insufficient points
+	 */
+	deductPointsFromPlayer(playerId: string, amount: number, source: string, description: string): PlayerData | null {
 		if (amount <= 0) {
 			throw new Error("Deduct amount must be positive");
 		}
 
-		const currentPlayer = this.gameContext.currentPlayer;
-		if (currentPlayer.points < amount) {
+		const player = this.gameContext.allPlayers.get(playerId);
+		if (!player || player.points < amount) {
 			return null; // Insufficient points
 		}
 
-		return this.addPointTransaction(-amount, source, description, "spent", false);
+		return this.addPointTransaction(playerId, -amount, source, description, "spent", false);
+	}
+
+	/**
+	 * Records a transaction received from another instance's score broadcast
+	 * Score itself is applied by the receiver of the broadcast
+	 * @param message Received score broadcast
+	 */
+	recordBroadcastTransaction(message: ScoreBroadcastMessage): void {
+		const transaction = message.transaction;
+		if (!transaction || !message.playerId) {
+			return;
+		}
+
+		const transactionId = this.getLedgerTransactionId(message.playerId, transaction.seq);
+		if (this.recordedTransactionIds.has(transactionId)) {
+			return; // Already recorded locally or received before
+		}
+
+		this.recordedTransactionIds.add(transactionId);
+		this.transactions.push({
+			id: transactionId,
+			playerId: message.playerId,
+			amount: transaction.amount,
+			source: transaction.source,
+			description: "",
+			timestamp: transaction.seq,
+			type: transaction.amount >= 0 ? "earned" : "spent"
+		});
+	}
+
+	/**
+	 * Continues the point transaction sequence of a player from the snapshot of a running game
+	 * Transactions with sequence numbers already validated by the active instance would be ignored
+	 * @param playerId Player ID
+	 * @param seq Sequence number of the last validated transaction
+	 */
+	restoreTransactionSeq(playerId: string, seq: number): void {
+		if (seq > (this.sequenceByPlayer.get(playerId) ?? 0)) {
+			this.sequenceByPlayer.set(playerId, seq);
+		}
+	}
+
+	/**
+	 * Reverts a point change of the current player that the active instance rejected
+	 * The score is set back to the verified score; transactions made after the verified one are still
+	 * waiting for verification, so their amounts are kept on top of it
+	 * @param verified Verified score sent by the active instance
+	 * @returns Updated player data
+	 */
+	revertToVerifiedScore(verified: ScoreVerifiedMessage): PlayerData {
+		const playerId = this.getCurrentPlayerId();
+		const lastSeq = this.sequenceByPlayer.get(playerId) ?? 0;
+		let unverifiedAmount = 0;
+		for (let seq = verified.seq + 1; seq <= lastSeq; seq++) {
+			const transactionId = this.getLedgerTransactionId(playerId, seq);
+			unverifiedAmount += this.transactions.find(t => t.id === transactionId)?.amount ?? 0;
+		}
+
+		const player = this.gameContext.currentPlayer;
+		const correction = verified.score + unverifiedAmount - player.points;
+		if (correction === 0) {
+			return player;
+		}
+
+		const updatedPlayer = updatePlayerPoints(player, correction, ++this.transactionCounter);
+		this.gameContext.updateCurrentPlayer(updatedPlayer);
+		return updatedPlayer;
 	}
 
 	/**
@@ -118,54 +312,56 @@ export class PointManager {
 	}
 
 	/**
-	 * Gets all point transactions for the current player
+	 * Gets all point transactions for a player
+	 * @param playerId Player to get history for (defaults to the current player)
 	 */
-	getTransactionHistory(): PointTransaction[] {
-		const currentPlayerId = this.getCurrentPlayerId();
-		return this.transactions.filter(t => t.playerId === currentPlayerId);
+	getTransactionHistory(playerId: string = this.getCurrentPlayerId()): PointTransaction[] {
+		return this.transactions.filter(t => t.playerId === playerId);
 	}
 
 	/**
 	 * Gets transactions by source for analysis
 	 * @param source Transaction source to filter by
+	 * @param playerId Player to get transactions for (defaults to the current player)
 	 */
-	getTransactionsBySource(source: string): PointTransaction[] {
-		const currentPlayerId = this.getCurrentPlayerId();
-		return this.transactions.filter(t => t.playerId === currentPlayerId && t.source === source);
+	getTransactionsBySource(source: string, playerId: string = this.getCurrentPlayerId()): PointTransaction[] {
+		return this.transactions.filter(t => t.playerId === playerId && t.source === source);
 	}
 
 	/**
 	 * Calculates total points earned from a specific source
 	 * @param source Source to calculate total for
+	 * @param playerId Player to calculate total for (defaults to the current player)
 	 */
-	getTotalPointsFromSource(source: string): number {
-		return this.getTransactionsBySource(source)
+	getTotalPointsFromSource(source: string, playerId: string = this.getCurrentPlayerId()): number {
+		return this.getTransactionsBySource(source, playerId)
 			.reduce((total, t) => total + t.amount, 0);
 	}
 
 	/**
-	 * Gets all unique point sources for the current player
+	 * Gets all unique point sources for a player
+	 * @param playerId Player to get sources for (defaults to the current player)
 	 * @returns Array of unique source names
 	 */
-	getAllPointSources(): string[] {
-		const currentPlayerId = this.getCurrentPlayerId();
+	getAllPointSources(playerId: string = this.getCurrentPlayerId()): string[] {
 		const sources = new Set<string>();
 		this.transactions
-			.filter(t => t.playerId === currentPlayerId)
+			.filter(t => t.playerId === playerId)
 			.forEach(t => sources.add(t.source));
 		return Array.from(sources);
 	}
 
 	/**
-	 * Gets transaction summary by source for the current player
+	 * Gets transaction summary by source for a player
+	 * @param playerId Player to summarize (defaults to the current player)
 	 * @returns Map of source to total points
 	 */
-	getPointSummaryBySource(): Map<string, number> {
+	getPointSummaryBySource(playerId: string = this.getCurrentPlayerId()): Map<string, number> {
 		const summary = new Map<string, number>();
-		const sources = this.getAllPointSources();
+		const sources = this.getAllPointSources(playerId);
 
 		sources.forEach(source => {
-			const total = this.getTotalPointsFromSource(source);
+			const total = this.getTotalPointsFromSource(source, playerId);
 			if (total > 0) {
 				summary.set(source, total);
 			}
@@ -179,38 +375,43 @@ export class PointManager {
 	 */
 	broadcastScore(score?: number): void {
 		const finalScore = score ?? this.getCurrentPoints();
+		this.broadcastPlayerScore({ playerId: this.getCurrentPlayerId(), score: finalScore });
+	}
 
+	/**
+	 * Broadcasts a player's score, optionally with the transaction that caused it
+	 */
+	private broadcastPlayerScore(scoreData: ScoreBroadcastMessage): void {
 		if (this.gameContext.gameMode.mode === "multi") {
-			const message = {
-				type: "scoreUpdate",
-				scoreData: {
-					playerId: this.getCurrentPlayerId(),
-					score: finalScore
-				} as ScoreBroadcastMessage
-			};
-
-			this.game.raiseEvent(new g.MessageEvent(message));
+			this.game.raiseEvent(createMessageEvent("scoreUpdate", scoreData));
 		}
 	}
 
 	/**
 	 * Internal method to add a point transaction
+	 * @returns Updated player data or null if the player is unknown
 	 */
 	private addPointTransaction(
+		playerId: string,
 		amount: number,
 		source: string,
 		description: string,
 		type: "earned" | "spent",
 		showNotification: boolean
-	): PlayerData {
-		const currentPlayer = this.gameContext.currentPlayer;
-		const currentPlayerId = this.getCurrentPlayerId();
+	): PlayerData | null {
+		const isCurrentPlayer = playerId === this.getCurrentPlayerId();
+		const player = isCurrentPlayer ? this.gameContext.currentPlayer : this.gameContext.allPlayers.get(playerId);
+		if (!player) {
+			return null;
+		}
 
 		// Create transaction record
 		const nextTimestamp = ++this.transactionCounter;
+		const seq = (this.sequenceByPlayer.get(playerId) ?? 0) + 1;
+		this.sequenceByPlayer.set(playerId, seq);
 		const transaction: PointTransaction = {
-			id: this.generateTransactionId(),
-			playerId: currentPlayerId,
+			id: this.getLedgerTransactionId(playerId, seq),
+			playerId: playerId,
 			amount: amount,
 			source: source,
 			description: description,
@@ -219,13 +420,24 @@ export class PointManager {
 		};
 
 		this.transactions.push(transaction);
+		this.recordedTransactionIds.add(transaction.id);
 
 		// Update player data
-		const updatedPlayer = updatePlayerPoints(currentPlayer, amount, nextTimestamp);
-		this.gameContext.updateCurrentPlayer(updatedPlayer);
+		const updatedPlayer = updatePlayerPoints(player, amount, nextTimestamp);
+		if (isCurrentPlayer) {
+			this.gameContext.updateCurrentPlayer(updatedPlayer);
+		} else {
+			// For other players, we need to remove and re-add since there's no updatePlayer method
+			this.gameContext.removePlayer(playerId);
+			this.gameContext.addPlayer(playerId, updatedPlayer);
+		}
 
-		// Broadcast score update for multi-player
-		this.broadcastScore(updatedPlayer.points);
+		// Broadcast score update with the transaction for multi-player
+		this.broadcastPlayerScore({
+			playerId: playerId,
+			score: updatedPlayer.points,
+			transaction: { seq, amount, source }
+		});
 
 		// Show notification if requested
 		if (showNotification && amount > 0) {
@@ -244,10 +456,10 @@ export class PointManager {
 	}
 
 	/**
-	 * Generates a unique transaction ID using incrementing counter
+	 * Gets the ledger-wide transaction ID shared by all instances
 	 */
-	private generateTransactionId(): string {
-		return `tx_${++this.transactionCounter}`;
+	private getLedgerTransactionId(playerId: string, seq: number): string {
+		return `tx_${playerId}_${seq}`;
 	}
 
 }
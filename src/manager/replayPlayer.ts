@@ -0,0 +1,163 @@
+import { GameContext } from "../data/gameContext";
+import { findDueEntriesEnd, ReplayEntry, ReplayLog } from "../data/replayData";
+import { ButtonE, ButtonEParameterObject } from "../entity/buttonE";
+
+/**
+ * Parameter object for ReplayPlayer
+ */
+export interface ReplayPlayerParameterObject {
+	/** Headless game to reproduce the session in */
+	game: g.Game;
+	/** Game context providing frames */
+	gameContext: GameContext;
+	/** Recorded session */
+	log: ReplayLog;
+}
+
+/**
+ * Replay Player feeds a recorded session back into a game to reproduce it
+ * Recorded message events are fired on the current scene when their frame comes, and recorded actions press the same buttons again.
+ * Events the game raises itself are dropped because the log already contains them as received.
+ * Run it on a headless game client with the same role and player ID as the recording instance (see ReplayLog),
+ * and start every other client with the log as well so that none of them raises live events
+ */
+export class ReplayPlayer {
+	/** Fires when every recorded entry has been played back */
+	readonly onFinish: g.Trigger<void> = new g.Trigger();
+	private readonly game: g.Game;
+	private readonly context: GameContext;
+	private readonly entries: ReplayEntry[];
+	private readonly updateListener: () => void;
+	private readonly sceneChangeListener: (scene?: g.Scene) => void;
+	private readonly originalRaiseEvent: (e: g.Event) => void;
+	private scene?: g.Scene;
+	private sceneIndex: number = 0;
+	private nextIndex: number = 0;
+	private playing: boolean = false;
+
+	/**
+	 * Creates a new ReplayPlayer instance
+	 */
+	constructor(param: ReplayPlayerParameterObject) {
+		this.game = param.game;
+		this.context = param.gameContext;
+		this.entries = param.log.entries;
+		this.originalRaiseEvent = this.game.raiseEvent;
+		this.updateListener = () => this.playDueEntries();
+		this.sceneChangeListener = (scene?: g.Scene) => {
+			// Same rule as ReplayRecorder so that scene indices match
+			if (scene && !(scene instanceof g.LoadingScene) && scene !== this.scene) {
+				this.sceneIndex++;
+				this.attach(scene);
+			}
+		};
+	}
+
+	/**
+	 * Starts playing back from the current scene
+	 */
+	start(): void {
+		if (this.playing) {
+			return;
+		}
+		this.playing = true;
+		this.game.raiseEvent = () => {
+			// Dropped: the log contains the event as received by the recording instance
+		};
+		this.attach(this.game.scene());
+		this.game.onSceneChange.add(this.sceneChangeListener);
+	}
+
+	/**
+	 * Stops playing back and lets the game raise events again
+	 */
+	stop(): void {
+		if (!this.playing) {
+			return;
+		}
+		this.playing = false;
+		this.game.raiseEvent = this.originalRaiseEvent;
+		this.attach(undefined);
+		this.game.onSceneChange.remove(this.sceneChangeListener);
+	}
+
+	/**
+	 * Checks if every recorded entry has been played back
+	 */
+	isFinished(): boolean {
+		return this.nextIndex >= this.entries.length;
+	}
+
+	/**
+	 * Plays back the entries whose frame has come
+	 */
+	private playDueEntries(): void {
+		const end = findDueEntriesEnd(this.entries, this.nextIndex, this.sceneIndex, this.context.getCurrentTimestamp());
+		while (this.playing && this.nextIndex < end) {
+			// Advance first: playing an entry may change scenes
+			const entry = this.entries[this.nextIndex++];
+			try {
+				this.playEntry(entry);
+			} catch (error) {
+				console.error(`Error in replay of ${entry.kind} entry ${this.nextIndex - 1}:`, error);
+			}
+		}
+
+		if (this.playing && this.isFinished()) {
+			this.stop();
+			this.onFinish.fire();
+		}
+	}
+
+	/**
+	 * Plays back a single entry on the current scene
+	 */
+	private playEntry(entry: ReplayEntry): void {
+		if (!this.scene) {
+			return;
+		}
+
+		if (entry.kind === "message") {
+			const player = entry.senderId !== undefined ? { id: entry.senderId } : undefined;
+			this.scene.onMessage.fire(new g.MessageEvent(entry.data, player));
+			return;
+		}
+
+		const button = this.findButton(this.scene.children ?? [], entry.name);
+		if (!button) {
+			console.warn(`Replay could not find button ${entry.name}`);
+			return;
+		}
+		button.msgArgs = entry.args;
+		button.send();
+	}
+
+	/**
+	 * Finds a button by name in an entity tree
+	 */
+	private findButton(entities: g.E[], name: string): ButtonE<unknown, ButtonEParameterObject<unknown>> | undefined {
+		for (const entity of entities) {
+			if (entity instanceof ButtonE && entity.name === name) {
+				return entity;
+			}
+			const found = this.findButton(entity.children ?? [], name);
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Moves the update listener to another scene
+	 */
+	private attach(scene?: g.Scene): void {
+		if (this.scene && !this.scene.destroyed()) {
+			this.scene.onUpdate.remove(this.updateListener);
+		}
+		this.scene = scene;
+		if (this.scene) {
+			this.scene.onUpdate.add(this.updateListener);
+		}
+	}
+}
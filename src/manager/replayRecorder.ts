@@ -0,0 +1,188 @@
+import { REPLAY_CONFIG } from "../config/replayConfig";
+import { GameContext } from "../data/gameContext";
+import { createReplayLog, ReplayEntry, ReplayLog, serializeReplayLog } from "../data/replayData";
+
+/**
+ * Parameter object for ReplayRecorder
+ */
+export interface ReplayRecorderParameterObject {
+	/** Game whose scenes are recorded */
+	game: g.Game;
+	/** Game context providing frames and the random generator */
+	gameContext: GameContext;
+}
+
+const recorderByGame: WeakMap<g.Game, ReplayRecorder> = new WeakMap();
+
+/**
+ * Replay Recorder logs every message event and local action of a session with its frame
+ * The exported log is played back by ReplayPlayer to reproduce the session in a headless game
+ */
+export class ReplayRecorder {
+	private readonly game: g.Game;
+	private readonly context: GameContext;
+	private readonly log: ReplayLog;
+	private readonly messageListener: (ev: g.MessageEvent) => void;
+	private readonly sceneChangeListener: (scene?: g.Scene) => void;
+	private scene?: g.Scene;
+	private sceneIndex: number = 0;
+	private recording: boolean = false;
+
+	/**
+	 * Gets the recorder of a game
+	 * @param game The recorded game
+	 * @returns Recorder, or undefined if the game is not recorded
+	 */
+	static forGame(game: g.Game): ReplayRecorder | undefined {
+		return recorderByGame.get(game);
+	}
+
+	/**
+	 * Starts recording a game, replacing its previous recorder
+	 * Must be called before GameContext.localRandom is used so that the recorded random state reproduces the session
+	 * @returns Started recorder
+	 */
+	static start(param: ReplayRecorderParameterObject): ReplayRecorder {
+		const previous = recorderByGame.get(param.game);
+		if (previous) {
+			previous.stop();
+		}
+
+		const recorder = new ReplayRecorder(param);
+		recorderByGame.set(param.game, recorder);
+		recorder.start();
+		return recorder;
+	}
+
+	/**
+	 * Creates a new ReplayRecorder instance
+	 * Use ReplayRecorder.start to make the recorder reachable from entities
+	 */
+	constructor(param: ReplayRecorderParameterObject) {
+		this.game = param.game;
+		this.context = param.gameContext;
+		this.log = createReplayLog({
+			config: {
+				...this.context.rules,
+				mode: this.context.gameMode.mode,
+				totalTimeLimit: this.context.gameState.totalTimeLimit
+			},
+			selfId: this.game.selfId,
+			isActiveInstance: this.game.isActiveInstance(),
+			joinedPlayerIds: this.game.joinedPlayerIds,
+			randomState: this.context.localRandom.serialize()
+		});
+		this.messageListener = (ev: g.MessageEvent) => this.recordMessage(ev);
+		this.sceneChangeListener = (scene?: g.Scene) => {
+			// Loading scenes depend on asset caches, so they would make scene indices differ on playback
+			if (scene && !(scene instanceof g.LoadingScene) && scene !== this.scene) {
+				this.sceneIndex++;
+				this.attach(scene);
+			}
+		};
+	}
+
+	/**
+	 * Starts recording the current scene and every scene after it
+	 */
+	start(): void {
+		if (this.recording) {
+			return;
+		}
+		this.recording = true;
+		this.attach(this.game.scene());
+		this.game.onSceneChange.add(this.sceneChangeListener);
+	}
+
+	/**
+	 * Stops recording
+	 */
+	stop(): void {
+		if (!this.recording) {
+			return;
+		}
+		this.recording = false;
+		this.attach(undefined);
+		this.game.onSceneChange.remove(this.sceneChangeListener);
+		if (recorderByGame.get(this.game) === this) {
+			recorderByGame.delete(this.game);
+		}
+	}
+
+	/**
+	 * Records a local action that does not go through message events
+	 * @param name Name of the entity that took the action
+	 * @param args Arguments of the action
+	 */
+	recordAction(name: string, args: unknown): void {
+		this.record({
+			kind: "action",
+			frame: this.context.getCurrentTimestamp(),
+			sceneIndex: this.sceneIndex,
+			name: name,
+			args: this.copy(args)
+		});
+	}
+
+	/**
+	 * Gets the log recorded so far
+	 */
+	getLog(): ReplayLog {
+		return { ...this.log, entries: [...this.log.entries] };
+	}
+
+	/**
+	 * Exports the log recorded so far as JSON
+	 */
+	exportJson(): string {
+		return serializeReplayLog(this.log);
+	}
+
+	/**
+	 * Records a message event received by the current scene
+	 */
+	private recordMessage(ev: g.MessageEvent): void {
+		this.record({
+			kind: "message",
+			frame: this.context.getCurrentTimestamp(),
+			sceneIndex: this.sceneIndex,
+			// Events raised by the active instance may carry a player whose ID is null
+			senderId: ev.player?.id ?? undefined,
+			data: this.copy(ev.data)
+		});
+	}
+
+	/**
+	 * Appends an entry unless the log is full
+	 */
+	private record(entry: ReplayEntry): void {
+		if (!this.recording) {
+			return;
+		}
+		if (this.log.entries.length >= REPLAY_CONFIG.MAX_ENTRIES) {
+			this.log.truncated = true;
+			return;
+		}
+		this.log.entries.push(entry);
+	}
+
+	/**
+	 * Moves the message listener to another scene
+	 */
+	private attach(scene?: g.Scene): void {
+		if (this.scene && !this.scene.destroyed()) {
+			this.scene.onMessage.remove(this.messageListener);
+		}
+		this.scene = scene;
+		if (this.scene) {
+			this.scene.onMessage.add(this.messageListener);
+		}
+	}
+
+	/**
+	 * Copies recorded data because handlers may modify received objects
+	 */
+	private copy(data: unknown): unknown {
+		return data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+	}
+}
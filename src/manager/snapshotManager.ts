@@ -0,0 +1,153 @@
+import { GameContext } from "../data/gameContext";
+import { SharedPostData } from "../data/sharedPostData";
+import { createGameSnapshot, GameSnapshot } from "../data/snapshotData";
+import { AffiliateAnalyticsManager } from "./affiliateAnalyticsManager";
+import { AuthorityManager } from "./authorityManager";
+import { CampaignManager } from "./campaignManager";
+import { FleaMarketManager } from "./fleaMarketManager";
+import { MarketManager } from "./marketManager";
+import { MessageBus } from "./messageBus";
+import { SnsManager } from "./snsManager";
+
+/**
+ * Parameter object for SnapshotManager
+ */
+export interface SnapshotManagerParameterObject {
+	/** Scene for message events */
+	scene: g.Scene;
+	/** Game context holding every player */
+	gameContext: GameContext;
+	/** Market manager providing current prices */
+	marketManager: MarketManager;
+	/** Authority manager providing validated point transactions */
+	authorityManager: AuthorityManager;
+	/** Campaign manager providing the sale schedule */
+	campaignManager?: CampaignManager;
+	/** Flea market manager providing listings */
+	fleaMarketManager?: FleaMarketManager;
+	/** SNS manager providing likes and follows */
+	snsManager?: SnsManager;
+	/** Affiliate analytics manager providing the audiences of shared posts */
+	affiliateAnalyticsManager?: AffiliateAnalyticsManager;
+}
+
+/**
+ * Snapshot Manager answers late-joining and reconnecting instances with the state of the running game
+ * In multi mode: only the active instance keeps track of shared posts and answers snapshot requests
+ * In ranking mode: nothing to share, every instance plays alone
+ */
+export class SnapshotManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private marketManager: MarketManager;
+	private authorityManager: AuthorityManager;
+	private campaignManager?: CampaignManager;
+	private fleaMarketManager?: FleaMarketManager;
+	private snsManager?: SnsManager;
+	private affiliateAnalyticsManager?: AffiliateAnalyticsManager;
+	private isActive: boolean;
+	private sharedPosts: SharedPostData[] = [];
+	private unsubscribers: Array<() => void> = [];
+
+	/**
+	 * Asks the active instance for the state of a running game
+	 * Only the active instance answers, and only once the game has started
+	 * @param scene Scene for message events
+	 * @param requesterId ID of the player of this instance
+	 * @param onSnapshot Function to call with the received state
+	 * @returns Function that stops waiting for the state
+	 */
+	static requestSnapshot(scene: g.Scene, requesterId: string, onSnapshot: (snapshot: GameSnapshot) => void): () => void {
+		const bus = MessageBus.forScene(scene);
+		const unsubscribe = bus.subscribeFromActiveInstance("snapshotResponse", response => {
+			if (response.requesterId === requesterId) {
+				unsubscribe();
+				onSnapshot(response.snapshot);
+			}
+		});
+		bus.publish("snapshotRequest", { requesterId });
+		return unsubscribe;
+	}
+
+	/**
+	 * Creates a new SnapshotManager instance
+	 */
+	constructor(param: SnapshotManagerParameterObject) {
+		this.scene = param.scene;
+		this.context = param.gameContext;
+		this.marketManager = param.marketManager;
+		this.authorityManager = param.authorityManager;
+		this.campaignManager = param.campaignManager;
+		this.fleaMarketManager = param.fleaMarketManager;
+		this.snsManager = param.snsManager;
+		this.affiliateAnalyticsManager = param.affiliateAnalyticsManager;
+		this.isActive = this.context.gameMode.mode === "multi" && this.scene.game.isActiveInstance();
+	}
+
+	/**
+	 * Initializes the snapshot manager
+	 * Starts answering snapshot requests on the active instance in multi mode
+	 */
+	initialize(): void {
+		if (!this.isActive) {
+			return;
+		}
+
+		const bus = MessageBus.forScene(this.scene);
+		this.unsubscribers.push(
+			bus.subscribe("affiliatePostShared", message => this.rememberPost(message.sharedPost)),
+			bus.subscribeFromActiveInstance("affiliateRewardGranted", reward => {
+				const post = this.sharedPosts.find(candidate => candidate.id === reward.postId);
+				if (post) {
+					post.purchaseCount++;
+				}
+			}),
+			bus.subscribe("snapshotRequest", (request, senderId) => {
+				if (senderId !== undefined && senderId !== request.requesterId) {
+					console.warn(`Rejected snapshot request for ${request.requesterId} raised by ${senderId}`);
+					return;
+				}
+				bus.publish("snapshotResponse", { requesterId: request.requesterId, snapshot: this.createSnapshot() });
+			})
+		);
+	}
+
+	/**
+	 * Creates a snapshot of the current game state
+	 */
+	createSnapshot(): GameSnapshot {
+		return createGameSnapshot(
+			Array.from(this.context.allPlayers.values()),
+			this.sharedPosts,
+			this.marketManager.getPriceSnapshot(),
+			this.context.gameState.remainingFrame,
+			playerId => this.authorityManager.getLastSeq(playerId),
+			{
+				campaigns: this.campaignManager?.getCampaigns(),
+				fleaMarketListings: this.fleaMarketManager?.getListings(),
+				follows: this.snsManager?.getFollows(),
+				likes: this.snsManager?.getLikes(),
+				affiliateAudiences: this.affiliateAnalyticsManager?.getAudiences()
+			}
+		);
+	}
+
+	/**
+	 * Cleans up the snapshot manager
+	 */
+	destroy(): void {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers = [];
+		this.sharedPosts = [];
+	}
+
+	/**
+	 * Remembers a shared post so that it can be sent to new instances
+	 */
+	private rememberPost(sharedPost: SharedPostData): void {
+		if (this.sharedPosts.some(post => post.id === sharedPost.id)) {
+			return;
+		}
+		this.sharedPosts.push({ ...sharedPost });
+	}
+}
@@ -0,0 +1,266 @@
+import { SNS_CONFIG } from "../config/snsConfig";
+import { GameContext } from "../data/gameContext";
+import { PostLikesSnapshot } from "../data/snapshotData";
+import { SnsFollowMessage, SnsLikeMessage } from "../data/snsMessages";
+import { MessageBus } from "./messageBus";
+
+/**
+ * SNS event notified to local listeners
+ */
+export type SnsEvent =
+	| { type: "liked"; postId: string; playerId: string; authorId: string; likeCount: number }
+	| { type: "followed"; followerId: string; followeeId: string; followerCount: number };
+
+/**
+ * SNS Manager handles likes of timeline posts and follows between players
+ * In multi mode: every request is broadcast and applied in message order on all instances,
+ * so like and follower counts are the same everywhere and each like or follow counts once
+ * Likes and follows count only when raised by the liking or following player, and only between players in the game
+ * In ranking mode: requests are applied locally right away
+ */
+export class SnsManager {
+	private scene: g.Scene;
+	private context: GameContext;
+	private likes: Map<string, Set<string>> = new Map();
+	private listeners: Array<(event: SnsEvent) => void> = [];
+	private pendingLikePostIds: Set<string> = new Set(); // Own likes sent but not yet received
+	private pendingFolloweeIds: Set<string> = new Set(); // Own follows sent but not yet received
+
+	/**
+	 * Creates a new SnsManager instance
+	 */
+	constructor(scene: g.Scene, context: GameContext) {
+		this.scene = scene;
+		this.context = context;
+	}
+
+	/**
+	 * Initializes the SNS manager
+	 */
+	initialize(): void {
+		if (this.getMode() === "multi") {
+			this.setupBroadcastListener();
+		}
+	}
+
+	/**
+	 * Gets the current mode
+	 */
+	getMode(): "multi" | "ranking" {
+		return this.context.gameMode.mode;
+	}
+
+	/**
+	 * Gets the number of likes of a post
+	 * @param postId Post ID
+	 */
+	getLikeCount(postId: string): number {
+		return this.likes.get(postId)?.size ?? 0;
+	}
+
+	/**
+	 * Checks if the current player liked a post (including likes not yet applied)
+	 * @param postId Post ID
+	 */
+	hasLiked(postId: string): boolean {
+		return this.pendingLikePostIds.has(postId) || (this.likes.get(postId)?.has(this.context.currentPlayer.id) ?? false);
+	}
+
+	/**
+	 * Checks if the current player follows a player (including follows not yet applied)
+	 * @param playerId Player ID
+	 */
+	isFollowing(playerId: string): boolean {
+		return this.pendingFolloweeIds.has(playerId) || this.context.isFollowing(this.context.currentPlayer.id, playerId);
+	}
+
+	/**
+	 * Gets the number of players following a player
+	 * @param playerId Player ID
+	 */
+	getFollowerCount(playerId: string): number {
+		return this.context.getFollowerCount(playerId);
+	}
+
+	/**
+	 * Gets the players who liked each post
+	 */
+	getLikes(): PostLikesSnapshot[] {
+		return Array.from(this.likes.entries()).map(([postId, likedBy]) => ({ postId, playerIds: Array.from(likedBy) }));
+	}
+
+	/**
+	 * Gets every follow between players
+	 */
+	getFollows(): SnsFollowMessage[] {
+		const follows: SnsFollowMessage[] = [];
+		this.context.allPlayers.forEach((_, followerId) => {
+			this.context.getFollowing(followerId).forEach(followeeId => follows.push({ followerId, followeeId }));
+		});
+		return follows;
+	}
+
+	/**
+	 * Restores likes and follows of a running game sent by the active instance
+	 * Restored likes and follows are not notified, as they were rewarded before
+	 * @param likes Likes in the snapshot
+	 * @param follows Follows in the snapshot
+	 */
+	restoreSnapshot(likes: PostLikesSnapshot[], follows: SnsFollowMessage[]): void {
+		likes.forEach(postLikes => {
+			const likedBy = this.likes.get(postLikes.postId) ?? new Set<string>();
+			postLikes.playerIds.forEach(playerId => likedBy.add(playerId));
+			this.likes.set(postLikes.postId, likedBy);
+		});
+		follows.forEach(follow => this.context.addFollow(follow.followerId, follow.followeeId));
+	}
+
+	/**
+	 * Requests to like a post for the current player
+	 * @param postId The post to like
+	 * @param authorId ID of the player who wrote the post
+	 * @returns True if the request was sent, false if the post cannot be liked
+	 */
+	requestLike(postId: string, authorId: string): boolean {
+		const playerId = this.context.currentPlayer.id;
+		if (authorId === playerId || this.hasLiked(postId)) {
+			return false;
+		}
+
+		const message: SnsLikeMessage = { postId, playerId, authorId };
+
+		if (this.getMode() === "multi") {
+			this.pendingLikePostIds.add(postId);
+			MessageBus.forScene(this.scene).publish("snsLike", message);
+		} else {
+			this.handleLike(message);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Requests to follow a player for the current player
+	 * @param followeeId The player to follow
+	 * @returns True if the request was sent, false if the player cannot be followed
+	 */
+	requestFollow(followeeId: string): boolean {
+		const followerId = this.context.currentPlayer.id;
+		if (followeeId === followerId || this.isFollowing(followeeId)) {
+			return false;
+		}
+
+		const message: SnsFollowMessage = { followerId, followeeId };
+
+		if (this.getMode() === "multi") {
+			this.pendingFolloweeIds.add(followeeId);
+			MessageBus.forScene(this.scene).publish("snsFollow", message);
+		} else {
+			this.handleFollow(message);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Registers a listener for SNS events
+	 * @param listener Function to call when a post is liked or a player is followed
+	 */
+	addSnsListener(listener: (event: SnsEvent) => void): void {
+		this.listeners.push(listener);
+	}
+
+	/**
+	 * Removes an SNS event listener
+	 * @param listener Function to remove from listeners
+	 */
+	removeSnsListener(listener: (event: SnsEvent) => void): void {
+		const index = this.listeners.indexOf(listener);
+		if (index >= 0) {
+			this.listeners.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Sets up listener for SNS broadcasts
+	 */
+	private setupBroadcastListener(): void {
+		const bus = MessageBus.forScene(this.scene);
+		bus.subscribe("snsLike", (likeData, senderId) => {
+			if (this.isSentByPlayer(likeData.playerId, senderId, "snsLike")) {
+				this.handleLike(likeData);
+			}
+		});
+		bus.subscribe("snsFollow", (followData, senderId) => {
+			if (this.isSentByPlayer(followData.followerId, senderId, "snsFollow")) {
+				this.handleFollow(followData);
+			}
+		});
+	}
+
+	/**
+	 * Checks that a like or follow was raised by the player who made it
+	 */
+	private isSentByPlayer(playerId: string, senderId: string | undefined, type: string): boolean {
+		if (senderId !== undefined && senderId !== playerId) {
+			console.warn(`Rejected ${type} message about ${playerId} raised by ${senderId}`);
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Checks if a player takes part in the game
+	 */
+	private isKnownPlayer(playerId: string): boolean {
+		return this.context.allPlayers.has(playerId);
+	}
+
+	/**
+	 * Applies a like; a player likes a post at most once and cannot like own posts
+	 */
+	private handleLike(message: SnsLikeMessage): void {
+		if (message.playerId === this.context.currentPlayer.id) {
+			this.pendingLikePostIds.delete(message.postId);
+		}
+
+		const likedBy = this.likes.get(message.postId) ?? new Set<string>();
+		if (message.playerId === message.authorId || likedBy.has(message.playerId) || !this.isKnownPlayer(message.playerId)
+			|| (message.authorId !== SNS_CONFIG.GUIDE_AUTHOR_ID && !this.isKnownPlayer(message.authorId))) {
+			return;
+		}
+
+		likedBy.add(message.playerId);
+		this.likes.set(message.postId, likedBy);
+		this.notifyListeners({ ...message, type: "liked", likeCount: likedBy.size });
+	}
+
+	/**
+	 * Applies a follow to the follow graph of the game context
+	 */
+	private handleFollow(message: SnsFollowMessage): void {
+		if (message.followerId === this.context.currentPlayer.id) {
+			this.pendingFolloweeIds.delete(message.followeeId);
+		}
+
+		if (!this.isKnownPlayer(message.followerId) || !this.isKnownPlayer(message.followeeId)
+			|| !this.context.addFollow(message.followerId, message.followeeId)) {
+			return;
+		}
+
+		this.notifyListeners({ ...message, type: "followed", followerCount: this.context.getFollowerCount(message.followeeId) });
+	}
+
+	/**
+	 * Notifies all registered listeners of an SNS event
+	 */
+	private notifyListeners(event: SnsEvent): void {
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error in SNS listener:", error);
+			}
+		});
+	}
+}
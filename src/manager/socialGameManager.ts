@@ -0,0 +1,99 @@
+import { SOCIAL_GAME_CONFIG } from "../config/socialGameConfig";
+import { GameContext } from "../data/gameContext";
+import { drawGachaReward, GachaReward } from "../data/socialGameData";
+
+/**
+ * Social Game Manager handles login bonus timing and gacha draws
+ * Point changes are applied by the caller so that they are recorded under the "socialgame" source
+ */
+export class SocialGameManager {
+	private gameContext: GameContext;
+	private lastLoginBonusClaimedAt?: number; // Elapsed game seconds at last claim
+	private gachaDrawCount: number = 0;
+
+	/**
+	 * Creates a new SocialGameManager instance
+	 */
+	constructor(gameContext: GameContext) {
+		this.gameContext = gameContext;
+	}
+
+	/**
+	 * Gets the points awarded per login bonus claim
+	 */
+	getLoginBonusReward(): number {
+		return SOCIAL_GAME_CONFIG.LOGIN_BONUS.REWARD;
+	}
+
+	/**
+	 * Gets seconds left until the next login bonus can be claimed
+	 * @returns 0 if the login bonus can be claimed now
+	 */
+	getLoginBonusWaitSeconds(): number {
+		if (this.lastLoginBonusClaimedAt === undefined) {
+			return 0;
+		}
+
+		const nextClaimAt = this.lastLoginBonusClaimedAt + SOCIAL_GAME_CONFIG.LOGIN_BONUS.INTERVAL_SECONDS;
+		return Math.max(0, nextClaimAt - this.getElapsedSeconds());
+	}
+
+	/**
+	 * Checks if the login bonus can be claimed now
+	 */
+	canClaimLoginBonus(): boolean {
+		return this.getLoginBonusWaitSeconds() === 0;
+	}
+
+	/**
+	 * Claims the login bonus and starts the next interval
+	 * @returns Awarded points, or null if the login bonus is not available yet
+	 */
+	claimLoginBonus(): number | null {
+		if (!this.canClaimLoginBonus()) {
+			return null;
+		}
+
+		this.lastLoginBonusClaimedAt = this.getElapsedSeconds();
+		return this.getLoginBonusReward();
+	}
+
+	/**
+	 * Gets the points spent per gacha draw
+	 */
+	getGachaCost(): number {
+		return SOCIAL_GAME_CONFIG.GACHA.COST;
+	}
+
+	/**
+	 * Gets the gacha reward table
+	 */
+	getGachaRewards(): readonly GachaReward[] {
+		return SOCIAL_GAME_CONFIG.GACHA.REWARDS;
+	}
+
+	/**
+	 * Draws a gacha reward using the local random generator
+	 * Cost must be paid by the caller beforehand
+	 * @returns The drawn reward
+	 */
+	drawGacha(): GachaReward {
+		this.gachaDrawCount++;
+		return drawGachaReward(this.getGachaRewards(), this.gameContext.localRandom);
+	}
+
+	/**
+	 * Gets the number of gacha draws so far
+	 */
+	getGachaDrawCount(): number {
+		return this.gachaDrawCount;
+	}
+
+	/**
+	 * Gets elapsed game time in seconds
+	 */
+	private getElapsedSeconds(): number {
+		const gameState = this.gameContext.gameState;
+		return gameState.totalTimeLimit - gameState.remainingTime;
+	}
+}
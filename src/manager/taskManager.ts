@@ -1,6 +1,18 @@
-import { GameContext } from "../data/gameContext";
-import { TASK_METADATA, COLLECTION_TASK_METADATA } from "../data/taskConstants";
-import { TaskData } from "../data/taskData";
+import { GameContext, GamePhase } from "../data/gameContext";
+import {
+	arePrerequisitesMet,
+	createMissionTask,
+	ExtendedTaskData,
+	getDefaultGameTasks,
+	getDefaultMissions,
+	getMissionRound,
+	getRoundMission,
+	getTaskProgress,
+	MissionDefinition,
+	TaskAction,
+	TaskData,
+	TaskEvent
+} from "../data/taskData";
 import { ModalE } from "../entity/modalE";
 
 /**
@@ -14,12 +26,13 @@ export interface TaskExecutionContext {
 	gameContext: GameContext;
 	onScoreAdd: (points: number, taskData: TaskData) => void;
 	onProfileSwitch: () => void;
-	onTimelineReveal: () => void;
 	onShopAppReveal: (onComplete?: () => void) => void;
 	onModalCreate: (modal: ModalE<string>) => void;
 	onModalClose: (taskId?: string) => void;
 	onAchievementShow: (task: TaskData, notificationType?: string) => void;
 	onTaskComplete: (taskId: string) => void;
+	onTaskProgress?: (taskId: string) => void;
+	onTaskExpire?: (taskId: string) => void;
 	onTaskListRefresh?: () => void;
 	onTaskButtonReactivate?: (taskId: string) => void;
 }
@@ -35,39 +48,19 @@ export interface TaskExecutionResult {
 
 /**
  * Centralized task management system
- * Handles task execution logic, completion flows, and feature unlocking
+ * Runs the task definitions of taskData.ts: executes their actions, advances their triggers with game events,
+ * and shows tasks once their prerequisites are completed.
+ * Missions appear in turn as the game time passes and are removed when their time runs out
  */
 export class TaskManager {
 	private context: TaskExecutionContext;
 	private pendingProfileCallback?: () => void;
 
-	// Task definitions - centralized task data using constants
-	private readonly tasks: TaskData[] = [
-		{
-			...TASK_METADATA.profile,
-			completed: false
-		},
-		{
-			...TASK_METADATA.shopping,
-			completed: false
-		},
-		{
-			...TASK_METADATA.sns,
-			completed: false
-		},
-	];
-
-	// Collection tasks - initially hidden, shown after shop unlock
-	private readonly collectionTasks: TaskData[] = [
-		{
-			...COLLECTION_TASK_METADATA.novel_collection,
-			completed: false
-		},
-		{
-			...COLLECTION_TASK_METADATA.manga_collection,
-			completed: false
-		},
-	];
+	// Task definitions of the round in display order, including missions that have appeared
+	private readonly tasks: ExtendedTaskData[];
+	private readonly missions: MissionDefinition[] = getDefaultMissions();
+	private missionRound: number = 0;
+	private unsubscribers: Array<() => void> = [];
 
 	/**
 	 * Animation configuration constants
@@ -90,21 +83,30 @@ export class TaskManager {
 
 	constructor(context: TaskExecutionContext) {
 		this.context = context;
+		// Only series on sale in this round can be collected, and apps turned off cannot be used
+		const rules = context.gameContext.rules;
+		this.tasks = getDefaultGameTasks()
+			.filter(task => !task.trigger?.category || rules.categoryIds.indexOf(task.trigger.category) !== -1)
+			.filter(task => !task.requiredApp || rules.enabledApps.indexOf(task.requiredApp) !== -1)
+			.sort((a, b) => a.priority - b.priority);
 	}
 
 	/**
-	 * Gets all available tasks (including collection tasks if shop is unlocked)
+	 * Initializes the task manager
+	 * Offers missions and counts down their time as the game time passes
+	 */
+	initialize(): void {
+		const listener = (): void => this.updateMissions();
+		this.context.gameContext.on("timeUpdated", listener);
+		this.unsubscribers.push(() => this.context.gameContext.off("timeUpdated", listener));
+	}
+
+	/**
+	 * Gets all available tasks (tasks whose prerequisites are completed)
 	 * @returns Array of task data
 	 */
 	getTasks(): TaskData[] {
-		const allTasks = [...this.tasks]; // Return copy to prevent external modification
-
-		// Add collection tasks if shop is unlocked
-		if (this.isShopUnlocked()) {
-			allTasks.push(...this.collectionTasks);
-		}
-
-		return allTasks;
+		return this.getAvailableTasks();
 	}
 
 	/**
@@ -113,51 +115,75 @@ export class TaskManager {
 	 * @returns Task data or undefined if not found
 	 */
 	getTask(taskId: string): TaskData | undefined {
-		// Check basic tasks first
-		const basicTask = this.tasks.find(task => task.id === taskId);
-		if (basicTask) return basicTask;
-
-		// Check collection tasks
-		return this.collectionTasks.find(task => task.id === taskId);
+		return this.tasks.find(task => task.id === taskId);
 	}
 
 	/**
-	 * Executes a task based on its ID
+	 * Executes the action of a task
 	 * @param taskData The task data to execute
 	 * @param onComplete Optional callback to execute after task completion
 	 * @returns Execution result
 	 */
 	executeTask(taskData: TaskData, onComplete?: () => void): TaskExecutionResult {
-		switch (taskData.id) {
-			case "profile":
-				return this.executeProfileTask(taskData, onComplete);
-			case "sns":
-				return this.executeSnsTask(taskData, onComplete);
-			case "shopping":
-				return this.executeShoppingTask(taskData, onComplete);
-			case "novel_collection":
-				return this.executeCollectionTask(taskData, "novel", onComplete);
-			case "manga_collection":
-				return this.executeCollectionTask(taskData, "manga", onComplete);
-			default:
-				return {
-					success: false,
-					message: `Unknown task: ${taskData.id}`
-				};
+		const task = this.tasks.find(definition => definition.id === taskData.id);
+		if (!task) {
+			return {
+				success: false,
+				message: `Unknown task: ${taskData.id}`
+			};
+		}
+
+		switch (task.action.type) {
+			case "profileEditor":
+				return this.executeProfileTask(onComplete);
+			case "link":
+				return this.executeLinkTask(task, task.action, onComplete);
+			case "guide":
+				return this.executeGuideTask(task, task.action, onComplete);
 		}
 	}
 
+	/**
+	 * Advances the triggers of available tasks with a game event and completes the tasks that reached their target
+	 * Events after time-up (e.g. points of the settlement) do not count
+	 * @param event Game event of the current player
+	 */
+	handleEvent(event: TaskEvent): void {
+		const phase = this.context.gameContext.gameState.phase;
+		if (phase === GamePhase.SETTLEMENT || phase === GamePhase.ENDED) {
+			return;
+		}
+
+		this.getAvailableTasks().forEach(task => {
+			// Tasks may be completed by the rewards of the tasks completed before
+			if (!task.trigger || task.completed) return;
+
+			const progress = getTaskProgress(task.trigger, event, task.progress ?? 0);
+			if (progress === task.progress) return;
+
+			task.progress = progress;
+			if (progress >= task.trigger.target) {
+				this.completeTask(task.id);
+			} else if (this.context.onTaskProgress) {
+				this.context.onTaskProgress(task.id);
+			}
+		});
+	}
+
 	/**
 	 * Completes a task and handles all associated logic
 	 * @param taskId The task ID to complete
 	 * @param skipScoreReward Whether to skip score reward (for profile task which has separate reward timing)
 	 */
 	completeTask(taskId: string, skipScoreReward: boolean = false): void {
-		const task = this.getTask(taskId);
+		const task = this.tasks.find(definition => definition.id === taskId);
 		if (!task || task.completed) return;
 
 		// Mark task as completed in internal state
 		task.completed = true;
+		if (task.trigger) {
+			task.progress = task.trigger.target;
+		}
 
 		// Track achievement in GameContext
 		this.context.gameContext.addAchievedTask(taskId);
@@ -172,6 +198,28 @@ export class TaskManager {
 
 		// Show achievement notification
 		this.context.onAchievementShow(task);
+
+		// Show tasks whose prerequisites were just completed
+		if (this.context.onTaskListRefresh) {
+			this.context.onTaskListRefresh();
+		}
+	}
+
+	/**
+	 * Restores a task completed before this instance joined, without rewards or notifications
+	 * @param taskId The task ID to restore
+	 * @returns True if restored, false if task not found or already completed
+	 */
+	restoreCompletedTask(taskId: string): boolean {
+		const task = this.tasks.find(definition => definition.id === taskId);
+		if (!task || task.completed) return false;
+
+		task.completed = true;
+		if (task.trigger) {
+			task.progress = task.trigger.target;
+		}
+		this.context.gameContext.addAchievedTask(taskId);
+		return true;
 	}
 
 	/**
@@ -196,237 +244,179 @@ export class TaskManager {
 
 
 	/**
-	 * Executes profile task (screen switching flow)
+	 * Cleans up the task manager
 	 */
-	private executeProfileTask(_taskData: TaskData, onComplete?: () => void): TaskExecutionResult {
-		this.context.onProfileSwitch();
-		// Profile task completion is handled by HomeE when returning from profile editor
-		// onComplete callback will be called by the ProfileEditorE onComplete flow
-		if (onComplete) {
-			// Store the callback for later use when profile editing completes
-			this.pendingProfileCallback = onComplete;
-		}
-		return {
-			success: true,
-			message: "Profile editor opened"
-		};
+	destroy(): void {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers = [];
 	}
 
 	/**
-	 * Executes SNS task (modal flow with timeline unlock)
+	 * Gets tasks whose prerequisites are completed
 	 */
-	private executeSnsTask(taskData: TaskData, onComplete?: () => void): TaskExecutionResult {
-		this.showTimelineUnlockModal(taskData, onComplete);
-		return {
-			success: true,
-			message: "SNS task modal shown",
-			unlockedFeatures: ["timeline"]
-		};
+	private getAvailableTasks(): ExtendedTaskData[] {
+		const completedTaskIds = new Set(this.tasks.filter(task => task.completed).map(task => task.id));
+		return this.tasks.filter(task => arePrerequisitesMet(task, completedTaskIds));
 	}
 
 	/**
-	 * Executes shopping task (modal flow with shop app unlock)
+	 * Offers missions of the rounds reached, then counts down and expires missions not completed
+	 * Rounds whose mission would already be over (e.g. after reconnecting) are skipped
 	 */
-	private executeShoppingTask(taskData: TaskData, onComplete?: () => void): TaskExecutionResult {
-		this.showShoppingUnlockModal(taskData, onComplete);
-		return {
-			success: true,
-			message: "Shopping task modal shown",
-			unlockedFeatures: ["shop"]
-		};
+	private updateMissions(): void {
+		const gameState = this.context.gameContext.gameState;
+		if (gameState.phase === GamePhase.SETTLEMENT || gameState.phase === GamePhase.ENDED) {
+			return;
+		}
+
+		const elapsedSeconds = gameState.totalTimeLimit - gameState.remainingTime;
+		const completedTaskIds = new Set(this.tasks.filter(task => task.completed).map(task => task.id));
+		let offered = false;
+		while (this.missionRound < getMissionRound(elapsedSeconds)) {
+			this.missionRound++;
+			const mission = createMissionTask(getRoundMission(this.missions, this.missionRound), this.missionRound);
+			if (arePrerequisitesMet(mission, completedTaskIds) && mission.expiresAt! > elapsedSeconds) {
+				this.tasks.unshift(mission);
+				offered = true;
+			}
+		}
+
+		this.tasks
+			.filter(task => task.expiresAt !== undefined && !task.completed)
+			.forEach(task => {
+				task.remainingSeconds = Math.max(0, task.expiresAt! - elapsedSeconds);
+				if (task.remainingSeconds > 0) {
+					if (this.context.onTaskProgress) {
+						this.context.onTaskProgress(task.id);
+					}
+					return;
+				}
+				this.tasks.splice(this.tasks.indexOf(task), 1);
+				if (this.context.onTaskExpire) {
+					this.context.onTaskExpire(task.id);
+				}
+			});
+
+		if (offered && this.context.onTaskListRefresh) {
+			this.context.onTaskListRefresh();
+		}
 	}
 
 	/**
-	 * Executes collection task (shows collection explanation modal)
+	 * Executes profile task (screen switching flow)
 	 */
-	private executeCollectionTask(taskData: TaskData, category: string, onComplete?: () => void): TaskExecutionResult {
-		this.showCollectionModal(taskData, category, onComplete);
+	private executeProfileTask(onComplete?: () => void): TaskExecutionResult {
+		this.context.onProfileSwitch();
+		// Profile task completion is handled by HomeE when returning from profile editor
+		// onComplete callback will be called by the ProfileEditorE onComplete flow
+		if (onComplete) {
+			// Store the callback for later use when profile editing completes
+			this.pendingProfileCallback = onComplete;
+		}
 		return {
 			success: true,
-			message: `Collection task modal shown for ${category}`,
-			unlockedFeatures: []
+			message: "Profile editor opened"
 		};
 	}
 
 	/**
-	 * Checks if shop is unlocked (shopping task completed)
-	 * @returns True if shop is unlocked
+	 * Executes external service link task (modal flow with feature unlock)
 	 */
-	private isShopUnlocked(): boolean {
-		const shoppingTask = this.tasks.find(task => task.id === "shopping");
-		return shoppingTask?.completed ?? false;
-	}
-
-	/**
-	 * Shows modal explaining timeline feature unlock
-	 */
-	private showTimelineUnlockModal(taskData: TaskData, onComplete?: () => void): void {
+	private executeLinkTask(
+		task: ExtendedTaskData,
+		action: Extract<TaskAction, { type: "link" }>,
+		onComplete?: () => void
+	): TaskExecutionResult {
 		// Close any existing modal first
 		this.context.onModalClose();
 
-		const modalMessage = "SNSと連携しました！\n\nタイムライン機能が利用可能になりました。\n他のユーザーの投稿を見て、オトクなセール商品をゲットしましょう！";
-
 		const modal = new ModalE({
 			scene: this.context.scene,
 			multi: this.context.gameContext.gameMode.mode === "multi",
-			name: "timelineUnlockModal",
-			args: taskData.id,
-			title: "タイムライン機能解放！",
-			message: modalMessage,
+			name: action.modalName,
+			args: task.id,
+			title: action.title,
+			message: action.message,
 			width: 500,
 			height: 300,
-			onClose: () => this.context.onModalClose(taskData.id),
+			onClose: () => this.context.onModalClose(task.id),
 		});
 
 		// Add OK button to modal
-		this.addTimelineModalButton(modal, taskData, onComplete);
-
-		// Notify context to manage modal
-		this.context.onModalCreate(modal);
-	}
-
-	/**
-	 * Shows modal explaining shopping app feature unlock
-	 */
-	private showShoppingUnlockModal(taskData: TaskData, onComplete?: () => void): void {
-		// Close any existing modal first
-		this.context.onModalClose();
-
-		const modalMessage = "通販サービスと連携しました！\n\n通販アプリが利用可能になりました。\n商品を購入してポイントを獲得しましょう！";
-
-		const modal = new ModalE({
-			scene: this.context.scene,
-			multi: this.context.gameContext.gameMode.mode === "multi",
-			name: "shoppingUnlockModal",
-			args: taskData.id,
-			title: "通販アプリ解放！",
-			message: modalMessage,
-			width: 500,
-			height: 300,
-			onClose: () => this.context.onModalClose(taskData.id),
-		});
-
-		// Add OK button to modal
-		this.addShoppingModalButton(modal, taskData, onComplete);
-
-		// Notify context to manage modal
-		this.context.onModalCreate(modal);
-	}
-
-	/**
-	 * Adds OK button to timeline unlock modal
-	 */
-	private addTimelineModalButton(modal: ModalE<string>, taskData: TaskData, onComplete?: () => void): void {
 		modal.replaceCloseButton({
 			text: "OK",
 			width: 180,
 			height: 120,
 			onComplete: () => {
-				this.completeSnsTask(taskData);
-				// Call the completion callback to unblock interactions
-				if (onComplete) {
-					onComplete();
-				}
+				this.completeLinkTask(task, action, onComplete);
 			}
 		});
-	}
 
-	/**
-	 * Adds OK button to shopping unlock modal
-	 */
-	private addShoppingModalButton(modal: ModalE<string>, taskData: TaskData, onComplete?: () => void): void {
-		modal.replaceCloseButton({
-			text: "OK",
-			width: 180,
-			height: 120,
-			onComplete: () => {
-				this.completeShoppingTask(taskData, onComplete);
-			}
-		});
-	}
-
-	/**
-	 * Completes SNS task with timeline reveal
-	 */
-	private completeSnsTask(taskData: TaskData): void {
-		// Complete the task
-		this.completeTask(taskData.id);
-
-		// Reveal timeline with delay to ensure modal is properly closed
-		this.context.scene.setTimeout(() => {
-			this.context.onTimelineReveal();
-		}, TaskManager.ANIMATION_CONFIG.MODAL_CLOSE_DELAY);
+		// Notify context to manage modal
+		this.context.onModalCreate(modal);
 
-		// Show special SNS achievement notification
-		this.context.onAchievementShow(taskData, "sns");
+		return {
+			success: true,
+			message: `${action.modalName} shown`,
+			unlockedFeatures: task.unlocks
+		};
 	}
 
 	/**
-	 * Completes shopping task with shop app reveal
+	 * Completes external service link task
+	 * Features are revealed by PhaseManager as unlocked by the task
 	 */
-	private completeShoppingTask(taskData: TaskData, onComplete?: () => void): void {
+	private completeLinkTask(task: ExtendedTaskData, action: Extract<TaskAction, { type: "link" }>, onComplete?: () => void): void {
 		// Complete the task
-		this.completeTask(taskData.id);
-
-		// TODO: Block user interactions until shop automatically opens to prevent animation conflicts
-		// if (this.context.onBlockUserInteraction) {
-		//	this.context.onBlockUserInteraction("shoppingTaskCompletion", "Shopping task completion - waiting for automatic shop opening");
-		// }
-
-		// Reveal shop app with delay to ensure modal is properly closed
-		this.context.scene.setTimeout(() => {
-			this.context.onShopAppReveal(onComplete);
-		}, TaskManager.ANIMATION_CONFIG.MODAL_CLOSE_DELAY);
-
-		// Refresh task list to show collection tasks after shop unlock
-		if (this.context.onTaskListRefresh) {
-			this.context.onTaskListRefresh();
+		this.completeTask(task.id);
+
+		if (action.openShop) {
+			// TODO: Block user interactions until shop automatically opens to prevent animation conflicts
+			// Open shop app revealed by PhaseManager with delay to ensure modal is properly closed
+			this.context.scene.setTimeout(() => {
+				this.context.onShopAppReveal(onComplete);
+			}, TaskManager.ANIMATION_CONFIG.MODAL_CLOSE_DELAY);
+		} else if (onComplete) {
+			// Call the completion callback to unblock interactions
+			onComplete();
 		}
 
-		// Show special shopping achievement notification
-		this.context.onAchievementShow(taskData, "shopping");
+		// Show special achievement notification of the service
+		this.context.onAchievementShow(task, action.notification);
 	}
 
 	/**
-	 * Shows modal explaining collection task
+	 * Executes task completed by its trigger (shows modal explaining how to complete it)
 	 */
-	private showCollectionModal(taskData: TaskData, category: string, onComplete?: () => void): void {
+	private executeGuideTask(
+		task: ExtendedTaskData,
+		action: Extract<TaskAction, { type: "guide" }>,
+		onComplete?: () => void
+	): TaskExecutionResult {
 		// Close any existing modal first
 		this.context.onModalClose();
 
-		const rewardPoints = taskData.rewardPoints;
-		const categoryName = category === "novel" ? "小説" : "マンガ";
-		const modalMessage = `${categoryName}シリーズをコンプリートしよう！\n\n該当する商品をすべて購入すると${rewardPoints}ポイントの報酬がもらえます。\n\n通販アプリで商品を確認してみましょう。`;
+		const modalMessage = action.message ?? `${task.description ?? task.title}\n\n達成すると${task.rewardPoints}ポイントの報酬がもらえます。`;
 
 		const modal = new ModalE({
 			scene: this.context.scene,
 			multi: this.context.gameContext.gameMode.mode === "multi",
-			name: `collectionModal_${taskData.id}`,
-			args: taskData.id,
-			title: `${categoryName}コレクション`,
+			name: `taskGuideModal_${task.id}`,
+			args: task.id,
+			title: action.title ?? task.title,
 			message: modalMessage,
 			width: 500,
 			height: 300,
 			onClose: () => {
 				this.context.onModalClose();
-				// Reactivate collection task button to allow multiple views
+				// Reactivate task button to allow multiple views
 				if (this.context.onTaskButtonReactivate) {
-					this.context.onTaskButtonReactivate(taskData.id);
+					this.context.onTaskButtonReactivate(task.id);
 				}
 			},
 		});
 
 		// Add OK button to modal with reactivate functionality
-		this.addCollectionModalButton(modal, taskData, onComplete);
-
-		// Notify context to manage modal
-		this.context.onModalCreate(modal);
-	}
-
-	/**
-	 * Adds OK button to collection modal
-	 */
-	private addCollectionModalButton(modal: ModalE<string>, taskData: TaskData, onComplete?: () => void): void {
 		modal.replaceCloseButton({
 			text: "了解",
 			backgroundColor: "#9b59b6",
@@ -436,16 +426,24 @@ export class TaskManager {
 			onComplete: () => {
 				// Manual call to onClose logic since replaceCloseButton bypasses the original onClose
 				this.context.onModalClose();
-				// Reactivate collection task button to allow multiple views
+				// Reactivate task button to allow multiple views
 				if (this.context.onTaskButtonReactivate) {
-					this.context.onTaskButtonReactivate(taskData.id);
+					this.context.onTaskButtonReactivate(task.id);
 				}
 				// Call completion callback
 				if (onComplete) onComplete();
 				// Modal closes automatically, no task completion needed
-				// Task will be completed automatically when collection is finished
+				// Task will be completed automatically when its trigger reaches the target
 			}
 		});
-	}
 
+		// Notify context to manage modal
+		this.context.onModalCreate(modal);
+
+		return {
+			success: true,
+			message: `Guide modal shown for ${task.id}`,
+			unlockedFeatures: []
+		};
+	}
 }
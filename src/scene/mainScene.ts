@@ -1,14 +1,27 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
-import { AffiliateBroadcastMessage, AffiliatePurchaseMessage } from "../data/affiliateMessages";
-import { GameContext } from "../data/gameContext";
-import { createInitialPlayerProfile, createPlayerData, PlayerData } from "../data/playerData";
+import { AffiliatePurchaseMessage } from "../data/affiliateMessages";
+import { GameConfig, getGameRules } from "../data/gameConfig";
+import { GameContext, GamePhase } from "../data/gameContext";
+import { addPlayerItem, createInitialPlayerProfile, createPlayerData, PlayerData, removePlayerItem } from "../data/playerData";
 import { SharedPostData } from "../data/sharedPostData";
+import { fromPlayerSnapshot, GameSnapshot } from "../data/snapshotData";
 import { AgreementE } from "../entity/agreementE";
 import { HeaderE } from "../entity/headerE";
 import { HomeE } from "../entity/homeE";
+import { AffiliateAnalyticsManager } from "../manager/affiliateAnalyticsManager";
+import { AuthorityManager } from "../manager/authorityManager";
+import { CampaignManager } from "../manager/campaignManager";
+import { CpuPlayerManager } from "../manager/cpuPlayerManager";
+import { FeedManager } from "../manager/feedManager";
+import { FleaMarketManager } from "../manager/fleaMarketManager";
 import { InteractionBlockerManager } from "../manager/interactionBlockerManager";
 import { MarketManager } from "../manager/marketManager";
+import { MessageBus } from "../manager/messageBus";
+import { NotificationManager } from "../manager/notificationManager";
+import { PhaseManager } from "../manager/phaseManager";
 import { PointManager } from "../manager/pointManager";
+import { SnapshotManager } from "../manager/snapshotManager";
+import { SnsManager } from "../manager/snsManager";
 import { BaseScene } from "./baseScene";
 import { RankingScene} from "./rankingScene";
 
@@ -26,15 +39,30 @@ const SETTLEMENT_CONFIG = {
 export class MainScene extends BaseScene {
 	private header?: HeaderE;
 	private home?: HomeE;
+	private notificationManager?: NotificationManager;
+	private campaignManager?: CampaignManager;
 	private marketManager?: MarketManager;
+	private authorityManager?: AuthorityManager;
+	private snapshotManager?: SnapshotManager;
+	private fleaMarketManager?: FleaMarketManager;
+	private snsManager?: SnsManager;
+	private feedManager?: FeedManager;
+	private affiliateAnalyticsManager?: AffiliateAnalyticsManager;
+	private cpuPlayerManager?: CpuPlayerManager;
 	private pointManager?: PointManager;
+	private phaseManager?: PhaseManager;
 	private interactionBlockerManager?: InteractionBlockerManager;
 	private gameContext: GameContext;
 	private interactionBlocker?: g.E;
 	private pendingSharedPosts: SharedPostData[] = []; // Store posts received before HomeE is created
+	private isReconnected: boolean = false; // Whether own state was restored from the snapshot of a running game
 	private settlementTimer?: g.TimerIdentifier; // Timer ID for fixed settlement duration
 
-	constructor(param: g.SceneParameterObject & { mode: "multi" | "ranking"; totalTimeLimit: number; gameContext?: GameContext }) {
+	constructor(param: g.SceneParameterObject & {
+		config: GameConfig;
+		gameContext?: GameContext;
+		snapshot?: GameSnapshot;
+	}) {
 		super({
 			...param,
 			assetIds: [
@@ -54,7 +82,7 @@ export class MainScene extends BaseScene {
 			const initialPlayerData = createPlayerData(this.game.selfId, createInitialPlayerProfile(), 0);
 
 			const gameMode = {
-				mode: param.mode,
+				mode: param.config.mode,
 				maxPlayers: 4,
 				currentPlayers: 1
 			};
@@ -64,8 +92,10 @@ export class MainScene extends BaseScene {
 				gameMode,
 				this.game.vars.gameState,
 				this.game.localRandom,
-				param.totalTimeLimit,
-				this.game.fps
+				param.config.totalTimeLimit,
+				this.game.fps,
+				0,
+				getGameRules(param.config)
 			);
 		}
 
@@ -73,19 +103,92 @@ export class MainScene extends BaseScene {
 			// Initialize InteractionBlockerManager for centralized user interaction control
 			this.interactionBlockerManager = new InteractionBlockerManager(this, this.game.width, this.game.height);
 
+			// Initialize NotificationManager for in-game announcements
+			this.notificationManager = new NotificationManager(this.gameContext, this);
+
+			// Initialize CampaignManager for scheduled sale campaigns
+			this.campaignManager = new CampaignManager({
+				scene: this,
+				gameContext: this.gameContext,
+				notificationManager: this.notificationManager
+			});
+			this.campaignManager.initialize();
+
 			// Initialize MarketManager for price management
-			this.marketManager = new MarketManager(this, this.gameContext);
+			this.marketManager = new MarketManager(this, this.gameContext, this.campaignManager);
 			this.marketManager.initialize();
 
+			// Initialize FleaMarketManager for player-to-player listings
+			this.fleaMarketManager = new FleaMarketManager(this, this.gameContext);
+			this.fleaMarketManager.initialize();
+
+			// Initialize SnsManager for likes and follows on the timeline
+			this.snsManager = new SnsManager(this, this.gameContext);
+			this.snsManager.initialize();
+
+			// Initialize AuthorityManager to validate point changes on the active instance
+			this.authorityManager = new AuthorityManager({
+				scene: this,
+				gameContext: this.gameContext,
+				marketManager: this.marketManager,
+				campaignManager: this.campaignManager,
+				fleaMarketManager: this.fleaMarketManager,
+				snsManager: this.snsManager
+			});
+			this.authorityManager.initialize();
+
+			// Initialize AffiliateAnalyticsManager to track views, clicks and purchases of shared posts
+			this.affiliateAnalyticsManager = new AffiliateAnalyticsManager(this, this.gameContext);
+			this.affiliateAnalyticsManager.initialize();
+
+			// Initialize SnapshotManager to send the running game to late-joining and reconnecting instances
+			this.snapshotManager = new SnapshotManager({
+				scene: this,
+				gameContext: this.gameContext,
+				marketManager: this.marketManager,
+				authorityManager: this.authorityManager,
+				campaignManager: this.campaignManager,
+				fleaMarketManager: this.fleaMarketManager,
+				snsManager: this.snsManager,
+				affiliateAnalyticsManager: this.affiliateAnalyticsManager
+			});
+			this.snapshotManager.initialize();
+
+			// Initialize FeedManager to push scripted sale, coupon and hint posts to the timeline
+			this.feedManager = new FeedManager({ gameContext: this.gameContext, campaignManager: this.campaignManager });
+			this.feedManager.initialize();
+
 			// Initialize PointManager for centralized point management
 			this.pointManager = new PointManager(this.gameContext, this.game);
 
+			// Initialize PhaseManager to drive the game phase and feature unlocks by the player's progress
+			this.phaseManager = new PhaseManager({ gameContext: this.gameContext });
+			this.phaseManager.initialize();
+
+			// Initialize CpuPlayerManager to fill empty seats with CPU players
+			this.cpuPlayerManager = new CpuPlayerManager({
+				scene: this,
+				gameContext: this.gameContext,
+				marketManager: this.marketManager,
+				pointManager: this.pointManager,
+				onSharedPost: (sharedPost: SharedPostData) => this.addSharedPostToTimeline(sharedPost),
+				onAffiliatePurchase: (purchaseData: AffiliatePurchaseMessage) => this.handleAffiliatePurchase(purchaseData)
+			});
+			this.cpuPlayerManager.initialize();
+
 			// Initialize multi-player broadcast handlers immediately to prevent race conditions
 			this.initializeMessageHandlers();
+			if (param.snapshot) {
+				// Joined a running game: catch up with the state sent by the active instance
+				this.restoreSnapshot(param.snapshot);
+			}
 			this.gameContext.on("timeUpdated", (remainingTime: number) => {
 				if (this.header) {
 					this.header.setTime(remainingTime);
 				}
+				if (this.home) {
+					this.home.settleMaturedPointBack();
+				}
 			});
 			this.gameContext.on("timeEnded", () => {
 				// Time reached zero - start automatic settlement process with user interaction control
@@ -105,66 +208,91 @@ export class MainScene extends BaseScene {
 	 */
 	public initializeMessageHandlers(): void {
 		if (this.gameContext.gameMode.mode === "multi") {
-			this.onMessage.add((ev: g.MessageEvent) => {
-				// Handle profile broadcasts
-				if (ev.data?.type === "profileUpdate" && ev.data?.profileData) {
-					const profileData = ev.data.profileData;
-					if (profileData.playerId && profileData.playerId !== this.gameContext.currentPlayer.id) {
-						this.updatePlayerProfileInGameContext(profileData.playerId, profileData.name, profileData.avatar);
-					}
+			const bus = MessageBus.forScene(this);
+			const isOtherPlayer = (playerId: string): boolean => playerId !== this.gameContext.currentPlayer.id;
+
+			// Handle profile broadcasts
+			bus.subscribe("profileUpdate", profileData => {
+				if (isOtherPlayer(profileData.playerId)) {
+					this.updatePlayerProfileInGameContext(profileData.playerId, profileData.name, profileData.avatar);
 				}
+			});
 
-				// Handle score broadcasts
-				if (ev.data?.type === "scoreUpdate" && ev.data?.scoreData) {
-					const scoreData = ev.data.scoreData;
-					if (scoreData.playerId && scoreData.playerId !== this.gameContext.currentPlayer.id) {
-						this.updatePlayerScoreInGameContext(scoreData.playerId, scoreData.score);
-					}
+			// Handle score broadcasts
+			bus.subscribe("scoreUpdate", scoreData => {
+				if (isOtherPlayer(scoreData.playerId)) {
+					// Keep the full point history of every player for score breakdowns
+					// Scores themselves are applied only once the active instance has verified them
+					this.pointManager?.recordBroadcastTransaction(scoreData);
 				}
+			});
 
-				// Handle affiliate post sharing broadcasts
-				if (ev.data?.type === "affiliatePostShared" && ev.data?.affiliateData) {
-					const affiliateData = ev.data.affiliateData as AffiliateBroadcastMessage;
-					if (affiliateData.playerId && affiliateData.playerId !== this.gameContext.currentPlayer.id) {
-						// Add shared post to other players' timelines
-						this.addSharedPostToTimeline(affiliateData.sharedPost);
+			// Handle scores verified by the active instance
+			bus.subscribeFromActiveInstance("scoreVerified", verifiedData => {
+				if (isOtherPlayer(verifiedData.playerId)) {
+					this.updatePlayerScoreInGameContext(verifiedData.playerId, verifiedData.score);
+				} else if (!verifiedData.accepted) {
+					// Keep the score every other instance shows
+					console.warn(`Point change rejected by the active instance, verified score: ${verifiedData.score}`);
+					const revertedPlayer = this.pointManager?.revertToVerifiedScore(verifiedData);
+					if (revertedPlayer && this.header) {
+						this.header.setScore(revertedPlayer.points);
 					}
 				}
+			});
 
-				// Handle affiliate purchase notifications
-				if (ev.data?.type === "affiliatePurchase" && ev.data?.purchaseData) {
-					const purchaseData = ev.data.purchaseData as AffiliatePurchaseMessage;
-					if (purchaseData.sharerId === this.gameContext.currentPlayer.id) {
-						// Reward the sharer with affiliate points
-						this.awardAffiliateReward(purchaseData.rewardPoints, purchaseData.buyerName);
-					}
-					// Update purchase count for all players
-					this.updateAffiliatePurchaseCount(purchaseData.postId);
+			// Handle affiliate post sharing broadcasts
+			bus.subscribe("affiliatePostShared", affiliateData => {
+				if (isOtherPlayer(affiliateData.playerId)) {
+					// Add shared post to other players' timelines
+					this.addSharedPostToTimeline(affiliateData.sharedPost);
 				}
+			});
 
-				// Handle player joining broadcasts
-				if (ev.data?.type === "playerJoined" && ev.data?.playerData) {
-					const joinData = ev.data.playerData;
-					if (joinData.playerId && joinData.playerId !== this.gameContext.currentPlayer.id) {
-						// Create PlayerData from broadcast and add to GameContext
-						this.addPlayerFromBroadcast(joinData);
-					}
+			// Handle affiliate purchases once the active instance has granted the reward
+			bus.subscribeFromActiveInstance("affiliateRewardGranted", rewardData => this.handleAffiliatePurchase(rewardData));
+
+			// Handle player joining broadcasts
+			bus.subscribe("playerJoined", joinData => {
+				if (isOtherPlayer(joinData.playerId)) {
+					// Create PlayerData from broadcast and add to GameContext
+					this.addPlayerFromBroadcast(joinData);
 				}
+			});
 
-				// Handle task completion broadcasts
-				if (ev.data?.type === "taskCompletion" && ev.data?.taskData) {
-					const taskData = ev.data.taskData;
-					if (taskData.playerId && taskData.playerId !== this.gameContext.currentPlayer.id) {
-						// Update task progress for other players in GameContext
-						this.updatePlayerTaskProgressInGameContext(taskData.playerId, taskData.taskId);
-					}
+			// Handle task completion broadcasts
+			bus.subscribe("taskCompletion", taskData => {
+				if (isOtherPlayer(taskData.playerId)) {
+					// Update task progress for other players in GameContext
+					this.updatePlayerTaskProgressInGameContext(taskData.playerId, taskData.taskId);
 				}
+			});
 
-				// Price updates are handled automatically by MarketManager instances
+			// Handle inventory changes of other players
+			bus.subscribe("itemAcquired", itemData => {
+				if (isOtherPlayer(itemData.playerId)) {
+					this.updatePlayerItemsInGameContext(itemData.playerId, player =>
+						addPlayerItem(player, itemData.itemId, this.gameContext.getCurrentTimestamp()));
+				}
+			});
+			bus.subscribe("itemRemoved", itemData => {
+				if (isOtherPlayer(itemData.playerId)) {
+					this.updatePlayerItemsInGameContext(itemData.playerId, player =>
+						removePlayerItem(player, itemData.itemId, this.gameContext.getCurrentTimestamp()));
+				}
 			});
+
+			// Price updates are handled automatically by MarketManager instances
 		}
 	}
 
+	/**
+	 * Gets the CampaignManager instance
+	 */
+	getCampaignManager(): CampaignManager | undefined {
+		return this.campaignManager;
+	}
+
 	/**
 	 * Gets the MarketManager instance
 	 */
@@ -172,6 +300,20 @@ export class MainScene extends BaseScene {
 		return this.marketManager;
 	}
 
+	/**
+	 * Gets the FleaMarketManager instance
+	 */
+	getFleaMarketManager(): FleaMarketManager | undefined {
+		return this.fleaMarketManager;
+	}
+
+	/**
+	 * Gets the CpuPlayerManager instance
+	 */
+	getCpuPlayerManager(): CpuPlayerManager | undefined {
+		return this.cpuPlayerManager;
+	}
+
 	/**
 	 * Gets the PointManager instance
 	 */
@@ -233,6 +375,8 @@ export class MainScene extends BaseScene {
 			this.settlementTimer = undefined;
 		}
 
+		this.gameContext.updateGamePhase(GamePhase.ENDED);
+
 		const rankingScene = new RankingScene({
 			game: this.game,
 			gameContext: this.gameContext!,
@@ -388,6 +532,19 @@ export class MainScene extends BaseScene {
 		}
 	}
 
+	/**
+	 * Applies an affiliate purchase made by any player
+	 */
+	private handleAffiliatePurchase(purchaseData: AffiliatePurchaseMessage): void {
+		this.affiliateAnalyticsManager?.recordPurchase(purchaseData);
+		if (purchaseData.sharerId === this.gameContext.currentPlayer.id) {
+			// Reward the sharer with affiliate points
+			this.awardAffiliateReward(purchaseData.rewardPoints, purchaseData.buyerName);
+		}
+		// Update purchase count for all players
+		this.updateAffiliatePurchaseCount(purchaseData.postId);
+	}
+
 	/**
 	 * Awards affiliate reward points to the current player
 	 */
@@ -406,6 +563,39 @@ export class MainScene extends BaseScene {
 		}
 	}
 
+	/**
+	 * Restores the state of a running game sent by the active instance
+	 * Shared posts are shown once HomeE is created; own items and tasks are restored into HomeE then
+	 */
+	private restoreSnapshot(snapshot: GameSnapshot): void {
+		const currentPlayerId = this.gameContext.currentPlayer.id;
+		snapshot.players.forEach(playerSnapshot => {
+			const player = fromPlayerSnapshot(playerSnapshot);
+			if (player.id === currentPlayerId) {
+				// Reconnected: continue with the state other players know
+				this.isReconnected = true;
+				this.gameContext.updateCurrentPlayer(player);
+			} else {
+				// For other players, we need to remove and re-add since there's no updatePlayer method
+				this.gameContext.removePlayer(player.id);
+				this.gameContext.addPlayer(player.id, player);
+			}
+		});
+		Object.keys(snapshot.transactionSeqs).forEach(playerId =>
+			this.pointManager?.restoreTransactionSeq(playerId, snapshot.transactionSeqs[playerId]));
+
+		this.marketManager?.applyPriceSnapshot(snapshot.marketPrices);
+		this.fleaMarketManager?.restoreListings(snapshot.fleaMarketListings);
+		this.snsManager?.restoreSnapshot(snapshot.likes, snapshot.follows);
+		this.affiliateAnalyticsManager?.restoreAudiences(snapshot.affiliateAudiences);
+		this.gameContext.restoreRemainingFrame(snapshot.remainingFrame);
+		// Campaigns already running start right away, so the schedule follows the remaining time
+		this.campaignManager?.restoreSchedule(snapshot.campaigns);
+
+		// Posts in the snapshot were shared before any post received since
+		this.pendingSharedPosts = [...snapshot.sharedPosts, ...this.pendingSharedPosts];
+	}
+
 	/**
 	 * Adds a player to GameContext from broadcast data
 	 */
@@ -415,6 +605,7 @@ export class MainScene extends BaseScene {
 		playerData.points = joinData.points;
 		playerData.ownedItems = joinData.ownedItems || [];
 		playerData.lastActiveAt = joinData.lastActiveAt;
+		playerData.isCpu = joinData.isCpu;
 		this.gameContext.addPlayer(joinData.id, playerData);
 	}
 
@@ -452,6 +643,19 @@ export class MainScene extends BaseScene {
 		}
 	}
 
+	/**
+	 * Updates player owned items in GameContext
+	 */
+	private updatePlayerItemsInGameContext(playerId: string, update: (player: PlayerData) => PlayerData): void {
+		const player = this.gameContext.allPlayers.get(playerId);
+		if (player) {
+			const updatedPlayer = update(player);
+			// For other players, we need to remove and re-add since there's no updatePlayer method
+			this.gameContext.removePlayer(playerId);
+			this.gameContext.addPlayer(playerId, updatedPlayer);
+		}
+	}
+
 	/**
 	 * Updates player task progress in GameContext
 	 */
@@ -481,15 +685,10 @@ export class MainScene extends BaseScene {
 	 */
 	private broadcastPlayerJoining(): void {
 		if (this.gameContext.gameMode.mode === "multi") {
-			const message = {
-				type: "playerJoined",
-				playerData: {
-					playerId: this.gameContext.currentPlayer.id,
-					...this.gameContext.currentPlayer
-				}
-			};
-
-			this.game.raiseEvent(new g.MessageEvent(message));
+			MessageBus.forScene(this).publish("playerJoined", {
+				playerId: this.gameContext.currentPlayer.id,
+				...this.gameContext.currentPlayer
+			});
 		}
 	}
 
@@ -503,7 +702,8 @@ export class MainScene extends BaseScene {
 			multi: this.gameContext.gameMode.mode === "multi",
 			onPointsAwarded: (points: number) => {
 				// Award agreement points using PointManager
-				if (this.pointManager) {
+				// A reconnected player was already awarded before and restored the points from the snapshot
+				if (this.pointManager && !this.isReconnected) {
 					this.pointManager.awardPoints(points, "join", "Agreement completion reward");
 				}
 			},
@@ -532,7 +732,13 @@ export class MainScene extends BaseScene {
 					header: this.header,
 					gameContext: this.gameContext!,
 					marketManager: this.marketManager!,
+					campaignManager: this.campaignManager!,
+					fleaMarketManager: this.fleaMarketManager!,
 					pointManager: this.pointManager!,
+					phaseManager: this.phaseManager!,
+					snsManager: this.snsManager!,
+					feedManager: this.feedManager!,
+					affiliateAnalyticsManager: this.affiliateAnalyticsManager!,
 					updateCurrentPlayerScore: (score: number) => this.updateCurrentPlayerScore(score),
 					blockUserInteraction: (blockerId: string, reason?: string) => this.blockUserInteraction(blockerId, reason),
 					unblockUserInteraction: (blockerId: string) => this.unblockUserInteraction(blockerId)
@@ -541,6 +747,13 @@ export class MainScene extends BaseScene {
 				// Add any pending shared posts that were received before HomeE was created
 				this.addPendingSharedPosts();
 
+				if (this.isReconnected) {
+					this.home.restorePlayerState(this.gameContext.currentPlayer);
+				}
+
+				// Leave the tutorial: the home screen reveals features of every phase already reached
+				this.phaseManager!.start();
+
 				// Broadcast joining
 				this.broadcastPlayerJoining();
 
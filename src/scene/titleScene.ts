@@ -1,13 +1,23 @@
 import { Timeline } from "@akashic-extension/akashic-timeline";
+import { GameConfig, getGameRules } from "../data/gameConfig";
 import { GameContext } from "../data/gameContext";
 import { createInitialPlayerProfile, createPlayerData } from "../data/playerData";
+import { GameStartMessage, PlayerActionMessage } from "../data/playerMessages";
+import { ReplayLog } from "../data/replayData";
+import { GameSnapshot } from "../data/snapshotData";
 import { LabelButtonE } from "../entity/labelButtonE";
+import { MessageBus } from "../manager/messageBus";
+import { ReplayPlayer } from "../manager/replayPlayer";
+import { ReplayRecorder } from "../manager/replayRecorder";
+import { SnapshotManager } from "../manager/snapshotManager";
 import { BaseScene } from "./baseScene";
 import { MainScene } from "./mainScene";
 
 export class TitleScene extends BaseScene {
+	private readonly config: GameConfig;
 	private readonly mode: "multi" | "ranking";
-	private readonly totalTimeLimit: number;
+	private readonly replayLog?: ReplayLog;
+	private readonly recordReplay: boolean;
 	private fallingCoins: g.Sprite[] = [];
 	private gameContext?: GameContext;
 	private isGameMaster: boolean = false;
@@ -18,14 +28,17 @@ export class TitleScene extends BaseScene {
 	private joinedPlayers: Set<string> = new Set<string>();
 	private buttonCounter: number = 0;
 	private isAutoCoinRunning: boolean = false;
+	private cancelSnapshotRequest?: () => void;
 
-	constructor(param: g.SceneParameterObject & { mode: "multi" | "ranking"; totalTimeLimit: number }) {
+	constructor(param: g.SceneParameterObject & { config: GameConfig; replayLog?: ReplayLog; recordReplay?: boolean }) {
 		super({
 			...param,
 			assetIds: ["coin-front", "coin-diagonal"]
 		});
-		this.mode = param.mode;
-		this.totalTimeLimit = param.totalTimeLimit;
+		this.config = param.config;
+		this.mode = param.config.mode;
+		this.replayLog = param.replayLog;
+		this.recordReplay = param.recordReplay ?? false;
 
 		this.onLoad.add(() => {
 			this.waitForPlayersAndInitialize();
@@ -35,7 +48,7 @@ export class TitleScene extends BaseScene {
 	private waitForPlayersAndInitialize(): void {
 		// joinedPlayerIdsに要素が追加されるまで待機
 		const checkPlayers = (): void => {
-			if (this.game.joinedPlayerIds.length > 0) {
+			if (this.getJoinedPlayerIds().length > 0) {
 				this.initializeGame();
 			} else {
 				this.setTimeout(() => checkPlayers(), 100);
@@ -46,11 +59,14 @@ export class TitleScene extends BaseScene {
 
 	private initializeGame(): void {
 		// ゲームマスターかどうかを判定
-		this.isGameMaster = this.game.selfId === this.game.joinedPlayerIds[0];
+		this.isGameMaster = this.game.selfId === this.getJoinedPlayerIds()[0];
 
 		// GameContextを作成
 		this.createGameContext();
 
+		// 乱数が使われる前にセッションの記録（またはリプレイ再生）を開始
+		this.startRecordingOrPlayback();
+
 		// UI要素を作成
 		this.createBackground();
 		this.createTitle();
@@ -62,6 +78,9 @@ export class TitleScene extends BaseScene {
 
 		// メッセージハンドラーを設定
 		this.setupMessageHandlers();
+
+		// 途中参加・再接続の場合に備えて、進行中のゲームの状態を要求
+		this.requestRunningGameSnapshot();
 	}
 
 	private createGameContext(): void {
@@ -77,9 +96,14 @@ export class TitleScene extends BaseScene {
 		this.gameContext = new GameContext(
 			initialPlayerData,
 			gameMode,
-			{ score: 0 },
-			this.game.localRandom,
-			this.totalTimeLimit
+			// ランキングモードのスコアとして参照されるため、g.game.vars の状態を共有
+			this.game.vars.gameState,
+			// リプレイ再生時は記録開始時の乱数状態から再現
+			this.replayLog ? g.XorshiftRandomGenerator.deserialize(this.replayLog.randomState) : this.game.localRandom,
+			this.config.totalTimeLimit,
+			this.game.fps,
+			0,
+			getGameRules(this.config)
 		);
 
 		// 自分を初期参加者として記録
@@ -88,7 +112,7 @@ export class TitleScene extends BaseScene {
 		if (!this.isGameMaster) {
 			// ゲームマスターは自身のIDをMessageEventでブロードキャストしないので
 			// 非ゲームマスター時はここでゲームマスターのIDを追加する
-			const gameMasterId = this.game.joinedPlayerIds[0];
+			const gameMasterId = this.getJoinedPlayerIds()[0];
 			const gameMaster = createPlayerData(gameMasterId, createInitialPlayerProfile(), 0);
 			this.gameContext.addPlayer(gameMaster.id, gameMaster);
 			this.joinedPlayers.add(gameMaster.id);
@@ -249,21 +273,21 @@ export class TitleScene extends BaseScene {
 	}
 
 	private broadcastGameStart(): void {
-		const messageData = {
-			type: "gameStart",
-			masterId: this.game.selfId
-		};
-
-		this.game.raiseEvent(new g.MessageEvent(messageData));
+		MessageBus.forScene(this).publish("gameStart", { masterId: this.game.selfId! });
 	}
 
-	private transitionToMainScene(): void {
+	private transitionToMainScene(snapshot?: GameSnapshot): void {
+		if (this.cancelSnapshotRequest) {
+			this.cancelSnapshotRequest();
+			this.cancelSnapshotRequest = undefined;
+		}
+
 		// GameContextを新しいMainSceneに引き継ぐためのパラメータを準備
 		const mainSceneParam = {
 			game: this.game,
-			mode: this.mode,
-			totalTimeLimit: this.totalTimeLimit,
-			gameContext: this.gameContext // GameContextを引き継ぎ
+			config: this.config,
+			gameContext: this.gameContext, // GameContextを引き継ぎ
+			snapshot: snapshot // 進行中のゲームに途中参加する場合のみ
 		};
 
 		this.swipeOut(new MainScene(mainSceneParam as any));
@@ -358,26 +382,44 @@ export class TitleScene extends BaseScene {
 	}
 
 	private broadcastMessage(action: "join" | "leave"): void {
-		const messageData = {
-			type: "playerAction",
-			action: action,
-			playerId: this.game.selfId
-		};
-
-		this.game.raiseEvent(new g.MessageEvent(messageData));
+		MessageBus.forScene(this).publish("playerAction", { action: action, playerId: this.game.selfId! });
 	}
 
 	private setupMessageHandlers(): void {
-		this.onMessage.add((msg: g.MessageEvent) => {
-			if (msg.data && msg.data.type === "playerAction") {
-				this.handlePlayerMessage(msg.data);
-			} else if (msg.data && msg.data.type === "gameStart") {
-				this.handleGameStartMessage(msg.data);
-			}
+		const bus = MessageBus.forScene(this);
+		bus.subscribe("playerAction", actionData => this.handlePlayerMessage(actionData));
+		bus.subscribe("gameStart", startData => this.handleGameStartMessage(startData));
+	}
+
+	private getJoinedPlayerIds(): string[] {
+		// リプレイ再生時は参加イベントが届かないため、記録開始時の参加者を使う
+		return this.replayLog ? this.replayLog.joinedPlayerIds : this.game.joinedPlayerIds;
+	}
+
+	private startRecordingOrPlayback(): void {
+		if (this.replayLog) {
+			new ReplayPlayer({ game: this.game, gameContext: this.gameContext!, log: this.replayLog }).start();
+		} else if (this.recordReplay) {
+			ReplayRecorder.start({ game: this.game, gameContext: this.gameContext! });
+			// ブラウザの開発者ツールから g.game.vars.exportReplay() で記録済みのログを取り出す
+			this.game.vars.exportReplay = () => ReplayRecorder.forGame(this.game)?.exportJson();
+		}
+	}
+
+	private requestRunningGameSnapshot(): void {
+		// アクティブインスタンスはスナップショットを送る側なので要求しない
+		if (this.mode !== "multi" || this.game.isActiveInstance() || !this.game.selfId) {
+			return;
+		}
+
+		// ゲーム開始前はアクティブインスタンスが応答しないため、応答があれば既にゲームが進行中
+		this.cancelSnapshotRequest = SnapshotManager.requestSnapshot(this, this.game.selfId, snapshot => {
+			this.cancelSnapshotRequest = undefined;
+			this.transitionToMainScene(snapshot);
 		});
 	}
 
-	private handlePlayerMessage(data: { action: "join" | "leave"; playerId: string }): void {
+	private handlePlayerMessage(data: PlayerActionMessage): void {
 		if (data.action === "join") {
 			this.joinedPlayers.add(data.playerId);
 			if (this.gameContext) {
@@ -394,7 +436,7 @@ export class TitleScene extends BaseScene {
 		this.updatePlayerCount();
 	}
 
-	private handleGameStartMessage(data: { type: string; masterId: string }): void {
+	private handleGameStartMessage(data: GameStartMessage): void {
 		// 全プレイヤー（ゲームマスター含む）が同じタイミングでゲーム開始
 		// GameContextを引き継いでMainSceneに遷移
 		this.transitionToMainScene();
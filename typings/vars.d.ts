@@ -2,6 +2,8 @@ declare interface GameVars {
 	gameState: {
 		score: number
 	},
+	/** Exports the replay log of the session as JSON, set only while the session is recorded */
+	exportReplay?: () => string | undefined,
 }
 
 declare interface MessageData<T> {